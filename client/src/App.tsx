@@ -13,6 +13,7 @@ import VerifyEmailSentPage from "@/pages/VerifyEmailSentPage";
 import VerifyEmailPage from "@/pages/VerifyEmailPage";
 import QueryExecutionPage from "@/pages/QueryExecutionPage";
 import ExplorerPage from "@/pages/ExplorerPage";
+import ScheduledQueriesPage from "@/pages/ScheduledQueriesPage";
 import FileComparisonPage from "@/pages/FileComparisonPage";
 import FileAggregatePage from "@/pages/FileAggregatePage";
 import AdminDashboardPage from "@/pages/AdminDashboardPage";
@@ -30,6 +31,7 @@ import ChartDashboardPage from "@/pages/ChartDashboardPage";
 import RolePermissionsPage from "@/pages/RolePermissionsPage";
 import AuditLogsPage from "@/pages/AuditLogsPage";
 import ApiKeysPage from "@/pages/ApiKeysPage";
+import SessionsPage from "@/pages/SessionsPage";
 import NotFound from "@/pages/not-found";
 import { apiRequest } from "@/lib/api";
 
@@ -177,6 +179,9 @@ function AuthenticatedApp() {
                 <Route path="/">
                   <PermissionGate feature="execute_queries"><QueryExecutionPage /></PermissionGate>
                 </Route>
+                <Route path="/schedules">
+                  <PermissionGate feature="execute_queries"><ScheduledQueriesPage /></PermissionGate>
+                </Route>
                 <Route path="/explorer">
                   <PermissionGate feature="explorer"><ExplorerPage /></PermissionGate>
                 </Route>
@@ -223,6 +228,7 @@ function AuthenticatedApp() {
                   <AdminGate><AuditLogsPage /></AdminGate>
                 </Route>
                 <Route path="/settings/api-keys" component={ApiKeysPage} />
+                <Route path="/settings/sessions" component={SessionsPage} />
                 <Route path="/billing" component={BillingPage} />
                 <Route path="/super-admin" component={SuperAdminPage} />
                 <Route component={NotFound} />
@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import LinedTextarea from "@/components/LinedTextarea";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Play, Trash2, Save, FolderOpen, X, Loader2, Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface FederatedSource {
+  alias: string;
+  // null runs the source on the organization's Athena configuration
+  connectionId: string | null;
+  query: string;
+}
+
+interface SavedQuery {
+  id: string;
+  name: string;
+  query: string;
+  federatedSources: FederatedSource[] | null;
+  createdAt: string;
+}
+
+interface ConnectionOption {
+  id: string;
+  name: string;
+  status: string;
+}
+
+interface FederatedQueryBuilderProps {
+  connections: ConnectionOption[];
+  onExecute?: (sources: FederatedSource[], query: string) => void;
+  onClear?: () => void;
+}
+
+// Mirrors the server limits in federated-query.ts
+const MIN_SOURCES = 2;
+const MAX_SOURCES = 5;
+const ALIAS_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,62}$/;
+const ATHENA_SOURCE = "__athena__";
+
+const emptySource = (index: number): FederatedSource => ({
+  alias: `source_${index + 1}`,
+  connectionId: null,
+  query: "",
+});
+
+export default function FederatedQueryBuilder({ connections, onExecute, onClear }: FederatedQueryBuilderProps) {
+  const [sources, setSources] = useState<FederatedSource[]>([emptySource(0), emptySource(1)]);
+  const [query, setQuery] = useState("");
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [saveName, setSaveName] = useState("");
+  const { toast } = useToast();
+
+  const { data: savedQueries = [], isLoading: isLoadingSaved } = useQuery<SavedQuery[]>({
+    queryKey: ['/api/saved-queries'],
+  });
+  const federatedQueries = savedQueries.filter(sq => sq.federatedSources);
+
+  const saveQueryMutation = useMutation({
+    mutationFn: async (data: { name: string; query: string; federatedSources: FederatedSource[] }) => {
+      return apiRequest('/api/saved-queries', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-queries'] });
+      setSaveDialogOpen(false);
+      setSaveName("");
+      toast({ title: "Query saved successfully" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save query", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteQueryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/saved-queries/${id}`, { method: 'DELETE' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/saved-queries'] });
+      toast({ title: "Query deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to delete query", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const aliases = sources.map(s => s.alias.trim().toLowerCase());
+  const aliasError = (index: number): string | null => {
+    const alias = sources[index].alias.trim();
+    if (!ALIAS_PATTERN.test(alias) || alias.toLowerCase().startsWith('sqlite_')) {
+      return "Letters, digits and underscores; must not start with a digit";
+    }
+    if (aliases.indexOf(alias.toLowerCase()) !== index) {
+      return "Alias is already used";
+    }
+    return null;
+  };
+  const isValid = query.trim() !== ""
+    && sources.every((source, index) => source.query.trim() !== "" && !aliasError(index));
+
+  const updateSource = (index: number, changes: Partial<FederatedSource>) => {
+    setSources(prev => prev.map((source, i) => (i === index ? { ...source, ...changes } : source)));
+  };
+
+  const addSource = () => {
+    setSources(prev => [...prev, emptySource(prev.length)]);
+  };
+
+  const removeSource = (index: number) => {
+    setSources(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const trimmedSources = () => sources.map(source => ({
+    alias: source.alias.trim(),
+    connectionId: source.connectionId,
+    query: source.query.trim(),
+  }));
+
+  const handleExecute = () => {
+    if (isValid) {
+      onExecute?.(trimmedSources(), query.trim());
+    }
+  };
+
+  const handleClear = () => {
+    setSources([emptySource(0), emptySource(1)]);
+    setQuery("");
+    onClear?.();
+  };
+
+  const handleSaveQuery = () => {
+    if (saveName.trim() && isValid) {
+      saveQueryMutation.mutate({ name: saveName.trim(), query: query.trim(), federatedSources: trimmedSources() });
+    }
+  };
+
+  const handleLoadQuery = (savedQuery: SavedQuery) => {
+    setSources(savedQuery.federatedSources || []);
+    setQuery(savedQuery.query);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleExecute();
+    }
+  };
+
+  return (
+    <Card data-testid="card-federated-query-builder">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg font-medium">Federated Query</CardTitle>
+        <CardDescription className="text-sm mt-1">
+          Run a query on each connection, then join their results with SQLite. Each source is
+          available to the final query as a table named by its alias.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {sources.map((source, index) => {
+          const error = aliasError(index);
+          return (
+            <div key={index} className="border rounded-md p-3 space-y-2" data-testid={`federated-source-${index}`}>
+              <div className="flex items-start gap-2">
+                <div className="w-48 space-y-1">
+                  <Label className="text-xs">Alias</Label>
+                  <Input
+                    value={source.alias}
+                    onChange={(e) => updateSource(index, { alias: e.target.value })}
+                    className="h-8 font-mono text-xs"
+                    data-testid={`input-source-alias-${index}`}
+                  />
+                  {error && <p className="text-xs text-destructive">{error}</p>}
+                </div>
+                <div className="flex-1 space-y-1">
+                  <Label className="text-xs">Connection</Label>
+                  <Select
+                    value={source.connectionId ?? ATHENA_SOURCE}
+                    onValueChange={(value) => updateSource(index, { connectionId: value === ATHENA_SOURCE ? null : value })}
+                  >
+                    <SelectTrigger className="h-8 text-xs" data-testid={`select-source-connection-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ATHENA_SOURCE}>Organization Athena</SelectItem>
+                      {connections.map((conn) => (
+                        <SelectItem key={conn.id} value={conn.id}>
+                          {conn.name}
+                          {conn.status === 'down' && <span className="ml-1 text-destructive">(down)</span>}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="mt-5 h-8 w-8"
+                  onClick={() => removeSource(index)}
+                  disabled={sources.length <= MIN_SOURCES}
+                  data-testid={`button-remove-source-${index}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <LinedTextarea
+                placeholder="SELECT id, name FROM customers"
+                className="min-h-24"
+                value={source.query}
+                onChange={(e) => updateSource(index, { query: e.target.value })}
+                data-testid={`input-source-query-${index}`}
+              />
+            </div>
+          );
+        })}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={addSource}
+          disabled={sources.length >= MAX_SOURCES}
+          data-testid="button-add-source"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Source
+        </Button>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Final query (SQLite)</Label>
+          <LinedTextarea
+            placeholder={`SELECT * FROM ${sources[0]?.alias || 'source_1'} a JOIN ${sources[1]?.alias || 'source_2'} b ON a.id = b.id; (Ctrl+Enter to execute)`}
+            className="min-h-40"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            data-testid="input-federated-query"
+          />
+        </div>
+
+        <div className="flex gap-2 justify-end flex-wrap">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" data-testid="button-load-federated-query">
+                <FolderOpen className="h-4 w-4 mr-2" />
+                Load
+                {federatedQueries.length > 0 && (
+                  <Badge variant="secondary" className="ml-2 h-5 text-xs">
+                    {federatedQueries.length}
+                  </Badge>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-72">
+              {isLoadingSaved ? (
+                <div className="flex items-center justify-center py-4 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Loading...
+                </div>
+              ) : federatedQueries.length === 0 ? (
+                <div className="py-4 text-sm text-muted-foreground text-center">
+                  No saved federated queries
+                </div>
+              ) : (
+                federatedQueries.map((sq) => (
+                  <DropdownMenuItem
+                    key={sq.id}
+                    className="flex items-center justify-between gap-2"
+                    onSelect={() => handleLoadQuery(sq)}
+                    data-testid={`menu-item-federated-query-${sq.id}`}
+                  >
+                    <span className="truncate">{sq.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 flex-shrink-0"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteQueryMutation.mutate(sq.id);
+                      }}
+                      data-testid={`button-delete-federated-query-${sq.id}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </DropdownMenuItem>
+                ))
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" disabled={!isValid} data-testid="button-save-federated-query">
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Save Federated Query</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 pt-4">
+                <Input
+                  placeholder="Query name"
+                  value={saveName}
+                  onChange={(e) => setSaveName(e.target.value)}
+                  data-testid="input-federated-query-name"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleSaveQuery}
+                    disabled={!saveName.trim() || saveQueryMutation.isPending}
+                    data-testid="button-confirm-save-federated"
+                  >
+                    {saveQueryMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    Save
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          <Button variant="outline" onClick={handleClear} data-testid="button-clear-federated-query">
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+          <Button onClick={handleExecute} disabled={!isValid} data-testid="button-execute-federated-query">
+            <Play className="h-4 w-4 mr-2" />
+            Execute Query
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
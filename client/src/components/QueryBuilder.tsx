@@ -4,7 +4,8 @@ import { Button } from "@/components/ui/button";
 import LinedTextarea from "@/components/LinedTextarea";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { Play, Trash2, Database, Table, Columns, Save, FolderOpen, X, Loader2 } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Play, Trash2, Database, Table, Columns, Save, FolderOpen, X, Loader2, Sparkles, AlertCircle, Wrench, HelpCircle } from "lucide-react";
 import {
   Collapsible,
   CollapsibleContent,
@@ -32,6 +33,8 @@ interface SavedQuery {
   id: string;
   name: string;
   query: string;
+  // Federated queries are loaded by FederatedQueryBuilder
+  federatedSources: unknown[] | null;
   createdAt: string;
 }
 
@@ -41,12 +44,29 @@ interface Suggestion {
   table?: string;
 }
 
+type SqlAssistMode = 'generate' | 'explain' | 'fix';
+
+// Response from /api/ai/generate-sql
+interface SqlAssistResult {
+  mode: SqlAssistMode;
+  sql: string | null;
+  explanation: string;
+  dialect: string;
+  provider: string;
+  model: string;
+}
+
 interface QueryBuilderProps {
   onExecute?: (query: string) => void;
   onClear?: () => void;
   connectionStatus?: 'connected' | 'disconnected';
   suggestions?: Suggestion[];
   onTableUsed?: (tableName: string) => void;
+  // Connection the assistant writes SQL for; undefined for the organization's Athena
+  connectionId?: string;
+  // Columns loaded on demand, keyed by table name
+  tableColumns?: Record<string, { name: string; type: string }[]>;
+  lastFailure?: { query: string; message: string } | null;
 }
 
 const SQL_KEYWORDS = [
@@ -63,7 +83,10 @@ export default function QueryBuilder({
   onClear,
   connectionStatus = 'connected',
   suggestions = [],
-  onTableUsed
+  onTableUsed,
+  connectionId,
+  tableColumns,
+  lastFailure,
 }: QueryBuilderProps) {
   const [query, setQuery] = useState("");
   const [isOpen, setIsOpen] = useState(false);
@@ -73,13 +96,17 @@ export default function QueryBuilder({
   const [cursorPosition, setCursorPosition] = useState(0);
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [saveName, setSaveName] = useState("");
+  const [askOpen, setAskOpen] = useState(false);
+  const [question, setQuestion] = useState("");
+  const [assistResult, setAssistResult] = useState<SqlAssistResult | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const suggestionsRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
-  const { data: savedQueries = [], isLoading: isLoadingSaved } = useQuery<SavedQuery[]>({
+  const { data: allSavedQueries = [], isLoading: isLoadingSaved } = useQuery<SavedQuery[]>({
     queryKey: ['/api/saved-queries'],
   });
+  const savedQueries = allSavedQueries.filter(sq => !sq.federatedSources);
 
   const { data: athenaDbSetting } = useQuery<{ key: string; value: string }>({
     queryKey: ['/api/settings', 'athena_database'],
@@ -117,6 +144,44 @@ export default function QueryBuilder({
     },
   });
 
+  const assistMutation = useMutation({
+    mutationFn: async (mode: SqlAssistMode): Promise<SqlAssistResult> => {
+      return apiRequest('/api/ai/generate-sql', {
+        method: 'POST',
+        body: JSON.stringify({
+          mode,
+          question: mode === 'generate' ? question.trim() : undefined,
+          connectionId,
+          tableColumns,
+          query: mode === 'generate' ? undefined : lastFailure?.query,
+          error: mode === 'generate' ? undefined : lastFailure?.message,
+        }),
+      });
+    },
+    onMutate: () => {
+      setAskOpen(true);
+      setAssistResult(null);
+    },
+    onSuccess: (result) => {
+      setAssistResult(result);
+    },
+    onError: (error: any) => {
+      toast({ title: "AI assistant failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // The previous assistant answer does not apply to another connection
+  useEffect(() => {
+    setAssistResult(null);
+  }, [connectionId]);
+
+  const handleInsertSql = () => {
+    if (!assistResult?.sql) return;
+    setQuery(assistResult.sql);
+    setShowSuggestions(false);
+    setTimeout(() => textareaRef.current?.focus(), 0);
+  };
+
   const handleSaveQuery = () => {
     if (saveName.trim() && query.trim()) {
       saveQueryMutation.mutate({ name: saveName.trim(), query: query.trim() });
@@ -310,6 +375,111 @@ export default function QueryBuilder({
           </CollapsibleContent>
         </Collapsible>
 
+        <Collapsible open={askOpen} onOpenChange={setAskOpen}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="mb-2 h-8" data-testid="button-toggle-ask">
+              <Sparkles className="h-3.5 w-3.5 mr-2" />
+              {askOpen ? 'Hide' : 'Ask'} AI Assistant
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-3 pb-2">
+            <div className="flex gap-2 items-start">
+              <Textarea
+                placeholder="Describe the data you want, e.g. total orders per customer last month"
+                className="min-h-16 text-sm"
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && question.trim()) {
+                    e.preventDefault();
+                    assistMutation.mutate('generate');
+                  }
+                }}
+                data-testid="input-ai-question"
+              />
+              <Button
+                onClick={() => assistMutation.mutate('generate')}
+                disabled={!question.trim() || assistMutation.isPending}
+                data-testid="button-generate-sql"
+              >
+                {assistMutation.isPending && assistMutation.variables === 'generate' ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : (
+                  <Sparkles className="h-4 w-4 mr-2" />
+                )}
+                Generate
+              </Button>
+            </div>
+
+            {assistResult && (
+              <div className="rounded-md border bg-muted/30 p-3 space-y-2 text-sm" data-testid="ai-sql-result">
+                {assistResult.sql && (
+                  <pre className="font-mono text-xs whitespace-pre-wrap break-words bg-background rounded p-2 border max-h-48 overflow-auto" data-testid="text-ai-sql">
+                    {assistResult.sql}
+                  </pre>
+                )}
+                {assistResult.explanation && (
+                  <p className="whitespace-pre-wrap text-muted-foreground" data-testid="text-ai-explanation">
+                    {assistResult.explanation}
+                  </p>
+                )}
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {assistResult.dialect} · {assistResult.model}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setAssistResult(null)} data-testid="button-dismiss-ai-result">
+                      Dismiss
+                    </Button>
+                    {assistResult.sql && (
+                      <Button size="sm" onClick={handleInsertSql} data-testid="button-insert-ai-sql">
+                        Insert into editor
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+
+        {lastFailure && (
+          <div className="flex items-center gap-2 rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 text-sm" data-testid="query-failure-followup">
+            <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+            <span className="truncate flex-1" title={lastFailure.message}>
+              Last query failed: {lastFailure.message}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => assistMutation.mutate('explain')}
+              disabled={assistMutation.isPending}
+              data-testid="button-explain-error"
+            >
+              {assistMutation.isPending && assistMutation.variables === 'explain' ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin mr-1" />
+              ) : (
+                <HelpCircle className="h-3.5 w-3.5 mr-1" />
+              )}
+              Explain
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => assistMutation.mutate('fix')}
+              disabled={assistMutation.isPending}
+              data-testid="button-fix-query"
+            >
+              {assistMutation.isPending && assistMutation.variables === 'fix' ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin mr-1" />
+              ) : (
+                <Wrench className="h-3.5 w-3.5 mr-1" />
+              )}
+              Fix
+            </Button>
+          </div>
+        )}
+
         <div className="relative">
           <LinedTextarea
             ref={textareaRef}
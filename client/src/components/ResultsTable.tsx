@@ -2,7 +2,8 @@ import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Download, ChevronLeft, ChevronRight } from "lucide-react";
+import { Download, ChevronLeft, ChevronRight, AlertTriangle, HardDrive } from "lucide-react";
+import { formatBytes, formatUsd } from "@/lib/utils";
 import {
   Table,
   TableBody,
@@ -12,12 +13,23 @@ import {
   TableRow,
 } from "@/components/ui/table";
 
+// Athena QueryExecution.Statistics as returned by the query endpoints
+export interface QueryStatistics {
+  dataScannedBytes: number;
+  engineExecutionTimeMs: number;
+  queueTimeMs: number;
+  estimatedCostUsd: number;
+}
+
 interface ResultsTableProps {
   columns?: string[];
   data?: Record<string, any>[];
   totalRows?: number;
   rowLimit?: number;
   executionTime?: number;
+  // The query returned more rows than the display limit; only the first ones were read
+  truncated?: boolean;
+  statistics?: QueryStatistics;
 }
 
 export default function ResultsTable({ 
@@ -25,7 +37,9 @@ export default function ResultsTable({
   data = [],
   totalRows = 0,
   rowLimit = 1000,
-  executionTime = 0
+  executionTime = 0,
+  truncated = false,
+  statistics
 }: ResultsTableProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const rowsPerPage = 10;
@@ -85,8 +99,14 @@ export default function ResultsTable({
           <CardTitle className="text-lg font-medium">Query Results</CardTitle>
           <div className="flex gap-3 mt-2 flex-wrap">
             <span className="text-sm text-muted-foreground" data-testid="text-row-count">
-              Showing {currentData.length} of {data.length} rows
+              Showing {currentData.length} of {data.length}{truncated ? '+' : ''} rows
             </span>
+            {truncated && (
+              <Badge variant="outline" className="h-5 text-xs gap-1 border-amber-500 text-amber-600 dark:text-amber-400" data-testid="badge-truncated">
+                <AlertTriangle className="h-3 w-3" />
+                Truncated at {data.length.toLocaleString()} rows
+              </Badge>
+            )}
             <Badge variant="secondary" className="h-5 text-xs" data-testid="badge-row-limit">
               Export Limit: {rowLimit}
             </Badge>
@@ -95,6 +115,19 @@ export default function ResultsTable({
                 Executed in {executionTime}ms
               </span>
             )}
+            {statistics && (
+              <span
+                className="text-sm text-muted-foreground flex items-center gap-1"
+                title={`Engine ${statistics.engineExecutionTimeMs}ms, queued ${statistics.queueTimeMs}ms`}
+                data-testid="text-query-statistics"
+              >
+                <HardDrive className="h-3.5 w-3.5" />
+                Scanned {formatBytes(statistics.dataScannedBytes)} · ~{formatUsd(statistics.estimatedCostUsd)}
+                <span className="hidden sm:inline">
+                  · engine {statistics.engineExecutionTimeMs}ms · queued {statistics.queueTimeMs}ms
+                </span>
+              </span>
+            )}
           </div>
         </div>
         <Button 
@@ -109,6 +142,12 @@ export default function ResultsTable({
       </CardHeader>
 
       <CardContent>
+        {truncated && (
+          <p className="text-sm text-muted-foreground mb-3" data-testid="text-truncated-notice">
+            The query returned more rows than the display limit, so reading stopped after the first {data.length.toLocaleString()}.
+            Add a filter or LIMIT to narrow the result.
+          </p>
+        )}
         <div className="border rounded-md overflow-hidden">
           <div className="overflow-x-auto">
             <Table>
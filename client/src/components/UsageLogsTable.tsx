@@ -16,6 +16,7 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
+import { formatBytes, formatUsd } from "@/lib/utils";
 
 interface QueryLog {
   id: string;
@@ -25,7 +26,12 @@ interface QueryLog {
   fullQuery: string;
   rowsReturned: number;
   executionTime: number;
-  status: 'success' | 'error';
+  status: 'success' | 'error' | 'cancelled';
+  // Athena statistics; null for other engines and older logs
+  dataScannedBytes?: number | null;
+  engineExecutionTimeMs?: number | null;
+  queueTimeMs?: number | null;
+  estimatedCostUsd?: number | null;
 }
 
 interface UsageLogsTableProps {
@@ -89,6 +95,7 @@ export default function UsageLogsTable({ logs = [] }: UsageLogsTableProps) {
                 <TableHead className="font-semibold">Query Preview</TableHead>
                 <TableHead className="font-semibold text-right">Rows</TableHead>
                 <TableHead className="font-semibold text-right">Time (ms)</TableHead>
+                <TableHead className="font-semibold text-right">Scanned</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -118,11 +125,20 @@ export default function UsageLogsTable({ logs = [] }: UsageLogsTableProps) {
                       </TableCell>
                       <TableCell className="text-sm text-right">{log.rowsReturned}</TableCell>
                       <TableCell className="text-sm text-right">{log.executionTime}</TableCell>
+                      <TableCell className="text-sm text-right" data-testid={`text-scanned-${log.id}`}>
+                        {log.dataScannedBytes != null ? formatBytes(log.dataScannedBytes) : '—'}
+                      </TableCell>
                     </TableRow>
                     <TableRow>
-                      <TableCell colSpan={6} className="p-0 border-0">
+                      <TableCell colSpan={7} className="p-0 border-0">
                         <CollapsibleContent>
                           <div className="bg-muted/30 p-4 border-t">
+                            {log.dataScannedBytes != null && (
+                              <p className="text-xs text-muted-foreground mb-3">
+                                Scanned {formatBytes(log.dataScannedBytes)} · estimated cost {formatUsd(log.estimatedCostUsd ?? 0)} ·
+                                engine {log.engineExecutionTimeMs ?? 0}ms · queued {log.queueTimeMs ?? 0}ms
+                              </p>
+                            )}
                             <p className="text-xs font-semibold text-muted-foreground mb-2">Full Query:</p>
                             <pre className="text-xs font-mono bg-background p-3 rounded border overflow-x-auto">
                               {log.fullQuery}
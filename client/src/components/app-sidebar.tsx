@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
-import { Database, FileText, Search, GitCompare, Layers, Server, Activity, LayoutDashboard, ChevronDown, Brain, CreditCard, Users, Settings, Shield, Cloud, Link2, BarChart2, KeyRound, Key, ScrollText, ChevronsUpDown, ChevronsDownUp } from "lucide-react";
+import { Database, FileText, Search, GitCompare, Layers, Server, Activity, LayoutDashboard, ChevronDown, Brain, CreditCard, Users, Settings, Shield, Cloud, Link2, BarChart2, KeyRound, Key, ScrollText, ChevronsUpDown, ChevronsDownUp, CalendarClock, MonitorSmartphone } from "lucide-react";
 import {
   Collapsible,
   CollapsibleContent,
@@ -52,6 +52,7 @@ export function AppSidebar({
 
   const nexusGatewayItems: MenuItem[] = [
     { title: "Executor", url: "/", icon: Database, permission: "execute_queries" },
+    { title: "Schedules", url: "/schedules", icon: CalendarClock, permission: "execute_queries" },
     { title: "Explorer", url: "/explorer", icon: Search, permission: "explorer" },
   ];
 
@@ -100,7 +101,13 @@ export function AppSidebar({
   const visibleTools = toolsItems.filter(i => !i.permission || hasPerm(i.permission));
   if (visibleTools.length > 0) categories.push({ label: "Tools", items: visibleTools });
 
-  categories.push({ label: "Settings", items: [{ title: "API Keys", url: "/settings/api-keys", icon: Key }] });
+  categories.push({
+    label: "Settings",
+    items: [
+      { title: "API Keys", url: "/settings/api-keys", icon: Key },
+      { title: "Sessions", url: "/settings/sessions", icon: MonitorSmartphone },
+    ],
+  });
   if (isAdmin) categories.push({ label: "Administration", items: adminItems });
   if (isSuperAdmin) categories.push({ label: "Platform", items: platformItems });
 
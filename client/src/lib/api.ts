@@ -58,3 +58,64 @@ export async function apiRequest(url: string, options?: RequestInit) {
 
   return response.json();
 }
+
+/**
+ * POST a JSON body and read the server-sent events it streams back, calling `onEvent`
+ * for each one. An `error` event rejects with its message.
+ */
+export async function apiEventStream(
+  url: string,
+  body: unknown,
+  onEvent: (event: string, data: any) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const token = await getCsrfToken();
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      'x-csrf-token': token,
+    },
+    body: JSON.stringify(body),
+    credentials: 'include',
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({ message: 'Request failed' }));
+
+    // If CSRF token is invalid, clear it and retry once
+    if (error.message?.includes('CSRF') && csrfToken) {
+      csrfToken = null;
+      return apiEventStream(url, body, onEvent, signal);
+    }
+
+    throw new Error(error.message || 'Request failed');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    // Events are separated by a blank line
+    const frames = buffered.split('\n\n');
+    buffered = frames.pop() || '';
+    for (const frame of frames) {
+      let event = 'message';
+      let data = '';
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7);
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      const parsed = data ? JSON.parse(data) : null;
+      if (event === 'error') {
+        throw new Error(parsed?.message || 'Request failed');
+      }
+      onEvent(event, parsed);
+    }
+  }
+}
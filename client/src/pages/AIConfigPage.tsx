@@ -5,7 +5,9 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Save, Brain, Key, Server, CheckCircle2, Plus, Trash2, RotateCcw } from "lucide-react";
+import { Save, Brain, Key, Server, CheckCircle2, Plus, Trash2, RotateCcw, Plug, Loader2, XCircle, ShieldCheck, Gauge } from "lucide-react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { Progress } from "@/components/ui/progress";
 import { apiRequest } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -13,6 +15,88 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 
 type AIProvider = 'openai' | 'anthropic' | 'gemini' | 'ollama';
+type RedactionAction = 'mask' | 'hash' | 'remove';
+
+interface RedactionRule {
+  columnPattern?: string | null;
+  valuePattern?: string | null;
+  action: RedactionAction;
+}
+
+// Response from /api/ai-config; API keys are masked
+interface AiConfigResponse {
+  aiProvider: AIProvider;
+  aiModel: string;
+  customPrompt: string;
+  ollamaEndpoint: string;
+  openaiApiKey: string;
+  anthropicApiKey: string;
+  geminiApiKey: string;
+  // null when the built-in rules apply
+  redactionRules: RedactionRule[] | null;
+  defaultRedactionRules: RedactionRule[];
+  // Monthly caps; null is no cap
+  monthlyTokenLimit: number | null;
+  monthlyCostLimitUsd: number | null;
+  configured: Record<AIProvider, boolean>;
+}
+
+type AiConfigUpdate = Partial<Pick<AiConfigResponse,
+  'aiProvider' | 'aiModel' | 'customPrompt' | 'ollamaEndpoint' | 'openaiApiKey' | 'anthropicApiKey' | 'geminiApiKey'
+  | 'redactionRules' | 'monthlyTokenLimit' | 'monthlyCostLimitUsd'>>;
+
+interface AiUsageDay {
+  day: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+}
+
+// Response from /api/ai-usage
+interface AiUsageResponse {
+  since: string;
+  days: number;
+  budget: {
+    allowed: boolean;
+    message?: string;
+    tokensUsed: number;
+    costUsedUsd: number;
+    tokenLimit: number | null;
+    costLimitUsd: number | null;
+    planIncludesAi: boolean;
+    planTokenLimit: number | null;
+    periodEnd: string;
+  };
+  // Days without calls are left out
+  daily: AiUsageDay[];
+}
+
+// One entry per day from `since` to today, with zeros for days without calls
+function fillUsageDays(since: string, daily: AiUsageDay[]): AiUsageDay[] {
+  const byDay = new Map(daily.map(day => [day.day, day]));
+  const result: AiUsageDay[] = [];
+  const today = new Date().toISOString().slice(0, 10);
+  for (const date = new Date(since); date.toISOString().slice(0, 10) <= today; date.setUTCDate(date.getUTCDate() + 1)) {
+    const day = date.toISOString().slice(0, 10);
+    result.push(byDay.get(day) ?? { day, requests: 0, inputTokens: 0, outputTokens: 0, estimatedCostUsd: 0 });
+  }
+  return result;
+}
+
+const formatUsd = (value: number) => `$${value < 1 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+
+const REDACTION_ACTIONS: { value: RedactionAction; label: string }[] = [
+  { value: 'mask', label: 'Mask' },
+  { value: 'hash', label: 'Hash' },
+  { value: 'remove', label: 'Remove column' },
+];
+
+const API_KEY_FIELDS: Record<Exclude<AIProvider, 'ollama'>, 'openaiApiKey' | 'anthropicApiKey' | 'geminiApiKey'> = {
+  openai: 'openaiApiKey',
+  anthropic: 'anthropicApiKey',
+  gemini: 'geminiApiKey',
+};
 
 const AI_PROVIDERS = [
   { value: 'openai' as const, label: 'OpenAI', keyName: 'OpenAI API Key', keyPrefix: 'sk-' },
@@ -60,39 +144,14 @@ Be concise and focus on the most important insights.`;
 export default function AIConfigPage() {
   const { toast } = useToast();
 
-  const { data: providerSetting } = useQuery({
-    queryKey: ['/api/settings', 'ai_provider'],
-    queryFn: () => apiRequest('/api/settings/ai_provider'),
+  const { data: aiConfig } = useQuery<AiConfigResponse>({
+    queryKey: ['/api/ai-config'],
+    queryFn: () => apiRequest('/api/ai-config'),
   });
 
-  const { data: modelSetting } = useQuery({
-    queryKey: ['/api/settings', 'ai_model'],
-    queryFn: () => apiRequest('/api/settings/ai_model'),
-  });
-
-  const { data: promptSetting } = useQuery({
-    queryKey: ['/api/settings', 'ai_analysis_prompt'],
-    queryFn: () => apiRequest('/api/settings/ai_analysis_prompt'),
-  });
-
-  const { data: openaiKeySetting } = useQuery({
-    queryKey: ['/api/settings', 'openai_api_key'],
-    queryFn: () => apiRequest('/api/settings/openai_api_key'),
-  });
-
-  const { data: anthropicKeySetting } = useQuery({
-    queryKey: ['/api/settings', 'anthropic_api_key'],
-    queryFn: () => apiRequest('/api/settings/anthropic_api_key'),
-  });
-
-  const { data: geminiKeySetting } = useQuery({
-    queryKey: ['/api/settings', 'gemini_api_key'],
-    queryFn: () => apiRequest('/api/settings/gemini_api_key'),
-  });
-
-  const { data: ollamaUrlSetting } = useQuery({
-    queryKey: ['/api/settings', 'ollama_url'],
-    queryFn: () => apiRequest('/api/settings/ollama_url'),
+  const { data: aiUsage } = useQuery<AiUsageResponse>({
+    queryKey: ['/api/ai-usage'],
+    queryFn: () => apiRequest('/api/ai-usage'),
   });
 
   const { data: openaiModelsSetting } = useQuery({
@@ -123,6 +182,7 @@ export default function AIConfigPage() {
 
   const [configuredKeys, setConfiguredKeys] = useState<Record<string, { configured: boolean; masked: string }>>({});
   const [isChangingProvider, setIsChangingProvider] = useState(false);
+  const [testResult, setTestResult] = useState<{ provider: AIProvider; success: boolean; message: string; latencyMs?: number } | null>(null);
 
   const [customModels, setCustomModels] = useState<Record<AIProvider, { value: string; label: string }[]>>({
     openai: [],
@@ -132,6 +192,10 @@ export default function AIConfigPage() {
   });
   const [newModelId, setNewModelId] = useState("");
   const [newModelLabel, setNewModelLabel] = useState("");
+  const [redactionRules, setRedactionRules] = useState<RedactionRule[]>([]);
+  const [usingDefaultRules, setUsingDefaultRules] = useState(true);
+  const [tokenLimit, setTokenLimit] = useState("");
+  const [costLimit, setCostLimit] = useState("");
 
   const parseModels = (setting: any, provider: AIProvider): { value: string; label: string }[] => {
     if (!setting?.value) return DEFAULT_PROVIDER_MODELS[provider];
@@ -151,13 +215,61 @@ export default function AIConfigPage() {
     });
   }, [openaiModelsSetting, anthropicModelsSetting, geminiModelsSetting, ollamaModelsSetting]);
 
-  useEffect(() => { if (providerSetting?.value) setProvider(providerSetting.value as AIProvider); }, [providerSetting]);
-  useEffect(() => { if (modelSetting?.value) setModel(modelSetting.value); }, [modelSetting]);
-  useEffect(() => { if (promptSetting?.value) setPrompt(promptSetting.value); }, [promptSetting]);
-  useEffect(() => { if (openaiKeySetting) setConfiguredKeys(prev => ({ ...prev, openai: { configured: openaiKeySetting.configured || false, masked: openaiKeySetting.value || '' } })); }, [openaiKeySetting]);
-  useEffect(() => { if (anthropicKeySetting) setConfiguredKeys(prev => ({ ...prev, anthropic: { configured: anthropicKeySetting.configured || false, masked: anthropicKeySetting.value || '' } })); }, [anthropicKeySetting]);
-  useEffect(() => { if (geminiKeySetting) setConfiguredKeys(prev => ({ ...prev, gemini: { configured: geminiKeySetting.configured || false, masked: geminiKeySetting.value || '' } })); }, [geminiKeySetting]);
-  useEffect(() => { if (ollamaUrlSetting?.value) setOllamaUrl(ollamaUrlSetting.value); }, [ollamaUrlSetting]);
+  useEffect(() => {
+    if (!aiConfig) return;
+    setProvider(aiConfig.aiProvider);
+    setModel(aiConfig.aiModel);
+    if (aiConfig.customPrompt) setPrompt(aiConfig.customPrompt);
+    setOllamaUrl(aiConfig.ollamaEndpoint);
+    setConfiguredKeys({
+      openai: { configured: aiConfig.configured.openai, masked: aiConfig.openaiApiKey },
+      anthropic: { configured: aiConfig.configured.anthropic, masked: aiConfig.anthropicApiKey },
+      gemini: { configured: aiConfig.configured.gemini, masked: aiConfig.geminiApiKey },
+    });
+    setUsingDefaultRules(aiConfig.redactionRules === null);
+    setRedactionRules(aiConfig.redactionRules ?? aiConfig.defaultRedactionRules);
+    setTokenLimit(aiConfig.monthlyTokenLimit === null ? "" : String(aiConfig.monthlyTokenLimit));
+    setCostLimit(aiConfig.monthlyCostLimitUsd === null ? "" : String(aiConfig.monthlyCostLimitUsd));
+  }, [aiConfig]);
+
+  const saveConfigMutation = useMutation({
+    mutationFn: async (update: AiConfigUpdate): Promise<AiConfigResponse> => {
+      return apiRequest('/api/ai-config', {
+        method: 'PUT',
+        body: JSON.stringify(update),
+      });
+    },
+    onSuccess: (result, update) => {
+      queryClient.setQueryData(['/api/ai-config'], result);
+      if (update.monthlyTokenLimit !== undefined || update.monthlyCostLimitUsd !== undefined) {
+        queryClient.invalidateQueries({ queryKey: ['/api/ai-usage'] });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save AI configuration", variant: "destructive" });
+    },
+  });
+
+  const testConnectionMutation = useMutation({
+    mutationFn: async (providerKey: AIProvider) => {
+      const unsavedKey = providerKey === 'openai' ? openaiKey : providerKey === 'anthropic' ? anthropicKey : providerKey === 'gemini' ? geminiKey : '';
+      return apiRequest(`/api/ai-config/test/${providerKey}`, {
+        method: 'POST',
+        body: JSON.stringify({
+          apiKey: unsavedKey || undefined,
+          ollamaEndpoint: providerKey === 'ollama' ? ollamaUrl : undefined,
+          model: providerKey === provider ? model : undefined,
+        }),
+      });
+    },
+    onMutate: () => setTestResult(null),
+    onSuccess: (result, providerKey) => {
+      setTestResult({ provider: providerKey, ...result });
+    },
+    onError: (error: any, providerKey) => {
+      setTestResult({ provider: providerKey, success: false, message: error.message || "Connection test failed" });
+    },
+  });
 
   const saveSettingMutation = useMutation({
     mutationFn: async ({ key, value }: { key: string; value: string }) => {
@@ -180,11 +292,14 @@ export default function AIConfigPage() {
     const defaultModel = models[0]?.value || '';
     setIsChangingProvider(true);
     try {
-      await apiRequest('/api/settings', { method: 'PUT', body: JSON.stringify({ key: 'ai_provider', value: newProvider }) });
-      await apiRequest('/api/settings', { method: 'PUT', body: JSON.stringify({ key: 'ai_model', value: defaultModel }) });
+      const result = await apiRequest('/api/ai-config', {
+        method: 'PUT',
+        body: JSON.stringify({ aiProvider: newProvider, aiModel: defaultModel }),
+      });
       setProvider(newProvider);
       setModel(defaultModel);
-      await queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      setTestResult(null);
+      queryClient.setQueryData(['/api/ai-config'], result);
       toast({ title: "Provider Changed", description: `Switched to ${AI_PROVIDERS.find(p => p.value === newProvider)?.label}` });
     } catch (error: any) {
       toast({ title: "Error", description: error.message || "Failed to change provider", variant: "destructive" });
@@ -194,37 +309,76 @@ export default function AIConfigPage() {
   };
 
   const handleSaveApiKey = (providerKey: AIProvider) => {
-    const keyMap: Record<AIProvider, { settingKey: string; value: string; setter: (v: string) => void }> = {
-      openai: { settingKey: 'openai_api_key', value: openaiKey, setter: setOpenaiKey },
-      anthropic: { settingKey: 'anthropic_api_key', value: anthropicKey, setter: setAnthropicKey },
-      gemini: { settingKey: 'gemini_api_key', value: geminiKey, setter: setGeminiKey },
-      ollama: { settingKey: 'ollama_url', value: ollamaUrl, setter: setOllamaUrl },
+    const keyMap: Record<AIProvider, { value: string; setter: (v: string) => void }> = {
+      openai: { value: openaiKey, setter: setOpenaiKey },
+      anthropic: { value: anthropicKey, setter: setAnthropicKey },
+      gemini: { value: geminiKey, setter: setGeminiKey },
+      ollama: { value: ollamaUrl, setter: setOllamaUrl },
     };
     const config = keyMap[providerKey];
     if (!config.value) return;
-    saveSettingMutation.mutate({ key: config.settingKey, value: config.value }, {
+    const update: AiConfigUpdate = providerKey === 'ollama'
+      ? { ollamaEndpoint: config.value }
+      : { [API_KEY_FIELDS[providerKey]]: config.value };
+    saveConfigMutation.mutate(update, {
       onSuccess: () => {
-        if (providerKey !== 'ollama') {
-          config.setter("");
-          setConfiguredKeys(prev => ({ ...prev, [providerKey]: { configured: true, masked: `${config.value.slice(0, 7)}...${config.value.slice(-4)}` } }));
-        }
+        if (providerKey !== 'ollama') config.setter("");
         toast({ title: "Success", description: `${AI_PROVIDERS.find(p => p.value === providerKey)?.keyName} saved successfully` });
       },
     });
   };
 
   const handleSaveModel = () => {
-    saveSettingMutation.mutate({ key: 'ai_model', value: model }, {
+    saveConfigMutation.mutate({ aiModel: model }, {
       onSuccess: () => toast({ title: "Success", description: "Model preference saved successfully" }),
     });
   };
 
   const handleSavePrompt = () => {
-    saveSettingMutation.mutate({ key: 'ai_analysis_prompt', value: prompt }, {
+    saveConfigMutation.mutate({ customPrompt: prompt }, {
       onSuccess: () => toast({ title: "Success", description: "Analysis prompt saved successfully" }),
     });
   };
 
+  const updateRedactionRule = (index: number, changes: Partial<RedactionRule>) => {
+    setRedactionRules(rules => rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+    setUsingDefaultRules(false);
+  };
+
+  const handleAddRedactionRule = () => {
+    setRedactionRules(rules => [...rules, { columnPattern: '', valuePattern: '', action: 'mask' }]);
+    setUsingDefaultRules(false);
+  };
+
+  const handleRemoveRedactionRule = (index: number) => {
+    setRedactionRules(rules => rules.filter((_, i) => i !== index));
+    setUsingDefaultRules(false);
+  };
+
+  const handleSaveRedactionRules = () => {
+    saveConfigMutation.mutate({ redactionRules: usingDefaultRules ? null : redactionRules }, {
+      onSuccess: () => toast({ title: "Success", description: "Redaction rules saved successfully" }),
+    });
+  };
+
+  const handleResetRedactionRules = () => {
+    saveConfigMutation.mutate({ redactionRules: null }, {
+      onSuccess: () => toast({ title: "Success", description: "Default redaction rules restored" }),
+    });
+  };
+
+  const handleSaveLimits = () => {
+    const tokens = tokenLimit.trim() ? Number(tokenLimit) : null;
+    const cost = costLimit.trim() ? Number(costLimit) : null;
+    if ((tokens !== null && (!Number.isInteger(tokens) || tokens < 1)) || (cost !== null && !(cost > 0))) {
+      toast({ title: "Invalid limit", description: "Limits must be positive numbers, or empty for no cap", variant: "destructive" });
+      return;
+    }
+    saveConfigMutation.mutate({ monthlyTokenLimit: tokens, monthlyCostLimitUsd: cost }, {
+      onSuccess: () => toast({ title: "Success", description: "AI usage limits saved successfully" }),
+    });
+  };
+
   const handleResetPrompt = () => {
     setPrompt(defaultPrompt);
     toast({ title: "Prompt Reset", description: "Click Save to apply the default prompt" });
@@ -259,7 +413,7 @@ export default function AIConfigPage() {
     saveModelList(provider, updated);
     if (model === modelValue && updated.length > 0) {
       setModel(updated[0].value);
-      saveSettingMutation.mutate({ key: 'ai_model', value: updated[0].value });
+      saveConfigMutation.mutate({ aiModel: updated[0].value });
     }
   };
 
@@ -342,7 +496,7 @@ export default function AIConfigPage() {
                   <Label>OpenAI API Key</Label>
                   <div className="flex gap-2">
                     <Input type="password" value={openaiKey} onChange={(e) => setOpenaiKey(e.target.value)} placeholder={configuredKeys.openai?.configured ? "Enter new key to update..." : "sk-..."} data-testid="input-openai-key" />
-                    <Button onClick={() => handleSaveApiKey('openai')} disabled={saveSettingMutation.isPending || !openaiKey} data-testid="button-save-openai-key"><Save className="h-4 w-4" /></Button>
+                    <Button onClick={() => handleSaveApiKey('openai')} disabled={saveConfigMutation.isPending || !openaiKey} data-testid="button-save-openai-key"><Save className="h-4 w-4" /></Button>
                   </div>
                 </div>
               </div>
@@ -358,7 +512,7 @@ export default function AIConfigPage() {
                   <Label>Anthropic API Key</Label>
                   <div className="flex gap-2">
                     <Input type="password" value={anthropicKey} onChange={(e) => setAnthropicKey(e.target.value)} placeholder={configuredKeys.anthropic?.configured ? "Enter new key to update..." : "sk-ant-..."} data-testid="input-anthropic-key" />
-                    <Button onClick={() => handleSaveApiKey('anthropic')} disabled={saveSettingMutation.isPending || !anthropicKey} data-testid="button-save-anthropic-key"><Save className="h-4 w-4" /></Button>
+                    <Button onClick={() => handleSaveApiKey('anthropic')} disabled={saveConfigMutation.isPending || !anthropicKey} data-testid="button-save-anthropic-key"><Save className="h-4 w-4" /></Button>
                   </div>
                 </div>
               </div>
@@ -374,7 +528,7 @@ export default function AIConfigPage() {
                   <Label>Google API Key</Label>
                   <div className="flex gap-2">
                     <Input type="password" value={geminiKey} onChange={(e) => setGeminiKey(e.target.value)} placeholder={configuredKeys.gemini?.configured ? "Enter new key to update..." : "AI..."} data-testid="input-gemini-key" />
-                    <Button onClick={() => handleSaveApiKey('gemini')} disabled={saveSettingMutation.isPending || !geminiKey} data-testid="button-save-gemini-key"><Save className="h-4 w-4" /></Button>
+                    <Button onClick={() => handleSaveApiKey('gemini')} disabled={saveConfigMutation.isPending || !geminiKey} data-testid="button-save-gemini-key"><Save className="h-4 w-4" /></Button>
                   </div>
                 </div>
               </div>
@@ -385,12 +539,39 @@ export default function AIConfigPage() {
                   <Label>Ollama Server URL</Label>
                   <div className="flex gap-2">
                     <Input type="text" value={ollamaUrl} onChange={(e) => setOllamaUrl(e.target.value)} placeholder="http://localhost:11434" data-testid="input-ollama-url" />
-                    <Button onClick={() => handleSaveApiKey('ollama')} disabled={saveSettingMutation.isPending || !ollamaUrl} data-testid="button-save-ollama-url"><Save className="h-4 w-4" /></Button>
+                    <Button onClick={() => handleSaveApiKey('ollama')} disabled={saveConfigMutation.isPending || !ollamaUrl} data-testid="button-save-ollama-url"><Save className="h-4 w-4" /></Button>
                   </div>
                   <p className="text-sm text-muted-foreground">Make sure Ollama is running locally with the desired model pulled</p>
                 </div>
               </div>
             )}
+            <div className="flex items-center gap-3 flex-wrap border-t pt-4">
+              <Button
+                variant="outline"
+                onClick={() => testConnectionMutation.mutate(provider)}
+                disabled={testConnectionMutation.isPending || (provider !== 'ollama' && !configuredKeys[provider]?.configured && !(provider === 'openai' ? openaiKey : provider === 'anthropic' ? anthropicKey : geminiKey))}
+                data-testid="button-test-ai-connection"
+              >
+                {testConnectionMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Plug className="h-4 w-4 mr-2" />
+                )}
+                Test Connection
+              </Button>
+              {testResult && testResult.provider === provider && (
+                <span
+                  className={`flex items-center gap-1.5 text-sm ${testResult.success ? 'text-green-600' : 'text-destructive'}`}
+                  data-testid="text-ai-test-result"
+                >
+                  {testResult.success ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                  {testResult.message}
+                  {testResult.latencyMs !== undefined && (
+                    <span className="text-muted-foreground">({testResult.latencyMs}ms)</span>
+                  )}
+                </span>
+              )}
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -420,7 +601,7 @@ export default function AIConfigPage() {
                     ))}
                   </SelectContent>
                 </Select>
-                <Button onClick={handleSaveModel} disabled={saveSettingMutation.isPending} data-testid="button-save-model">
+                <Button onClick={handleSaveModel} disabled={saveConfigMutation.isPending} data-testid="button-save-model">
                   <Save className="h-4 w-4 mr-2" />
                   Save
                 </Button>
@@ -529,7 +710,7 @@ export default function AIConfigPage() {
               />
             </div>
             <div className="flex gap-2">
-              <Button onClick={handleSavePrompt} disabled={saveSettingMutation.isPending} data-testid="button-save-prompt">
+              <Button onClick={handleSavePrompt} disabled={saveConfigMutation.isPending} data-testid="button-save-prompt">
                 <Save className="h-4 w-4 mr-2" />
                 Save Prompt
               </Button>
@@ -540,6 +721,203 @@ export default function AIConfigPage() {
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between flex-wrap gap-2">
+            <div className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-muted-foreground" />
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  Data Redaction
+                  {usingDefaultRules && <Badge variant="secondary">Defaults</Badge>}
+                </CardTitle>
+                <CardDescription>
+                  Applied to data before it is sent to the AI provider. Column patterns match column names; value patterns match inside values. Both are regular expressions.
+                </CardDescription>
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleResetRedactionRules} disabled={saveConfigMutation.isPending || usingDefaultRules} data-testid="button-reset-redaction">
+              <RotateCcw className="h-3.5 w-3.5 mr-1.5" />
+              Reset to defaults
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {redactionRules.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No rules: data is sent without redaction.</p>
+            ) : (
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_1fr_10rem_2.5rem] gap-2 text-xs text-muted-foreground">
+                  <span>Column pattern</span>
+                  <span>Value pattern</span>
+                  <span>Action</span>
+                  <span />
+                </div>
+                {redactionRules.map((rule, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_10rem_2.5rem] gap-2">
+                    <Input
+                      value={rule.columnPattern || ''}
+                      onChange={(e) => updateRedactionRule(index, { columnPattern: e.target.value })}
+                      placeholder="Any column"
+                      className="font-mono text-xs"
+                      data-testid={`input-redaction-column-${index}`}
+                    />
+                    <Input
+                      value={rule.valuePattern || ''}
+                      onChange={(e) => updateRedactionRule(index, { valuePattern: e.target.value })}
+                      placeholder="Whole value"
+                      className="font-mono text-xs"
+                      data-testid={`input-redaction-value-${index}`}
+                    />
+                    <Select value={rule.action} onValueChange={(value) => updateRedactionRule(index, { action: value as RedactionAction })}>
+                      <SelectTrigger data-testid={`select-redaction-action-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REDACTION_ACTIONS.map((action) => (
+                          <SelectItem key={action.value} value={action.value}>{action.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => handleRemoveRedactionRule(index)}
+                      data-testid={`button-remove-redaction-${index}`}
+                      title="Remove rule"
+                    >
+                      <Trash2 className="h-4 w-4 text-muted-foreground" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleAddRedactionRule} data-testid="button-add-redaction">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+              <Button onClick={handleSaveRedactionRules} disabled={saveConfigMutation.isPending} data-testid="button-save-redaction">
+                <Save className="h-4 w-4 mr-2" />
+                Save Rules
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Gauge className="h-5 w-5 text-muted-foreground" />
+            <div>
+              <CardTitle>AI Usage</CardTitle>
+              <CardDescription>
+                Tokens and estimated cost of all AI calls in your organization. Limits apply per calendar month (UTC).
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-6">
+            {aiUsage && !aiUsage.budget.allowed && (
+              <div className="flex items-center gap-2 p-3 rounded-md bg-destructive/10 text-sm" data-testid="text-ai-budget-blocked">
+                <XCircle className="h-4 w-4 text-destructive shrink-0" />
+                {aiUsage.budget.message}
+              </div>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">Tokens this month</span>
+                  <span className="text-muted-foreground" data-testid="text-ai-tokens-used">
+                    {(aiUsage?.budget.tokensUsed ?? 0).toLocaleString()}
+                    {aiUsage?.budget.tokenLimit != null && ` / ${aiUsage.budget.tokenLimit.toLocaleString()}`}
+                  </span>
+                </div>
+                {aiUsage?.budget.tokenLimit != null && (
+                  <Progress value={Math.min(100, (aiUsage.budget.tokensUsed / aiUsage.budget.tokenLimit) * 100)} />
+                )}
+                {aiUsage?.budget.planTokenLimit != null && (
+                  <p className="text-xs text-muted-foreground">Your plan allows {aiUsage.budget.planTokenLimit.toLocaleString()} tokens per month.</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">Estimated cost this month</span>
+                  <span className="text-muted-foreground" data-testid="text-ai-cost-used">
+                    {formatUsd(aiUsage?.budget.costUsedUsd ?? 0)}
+                    {aiUsage?.budget.costLimitUsd != null && ` / ${formatUsd(aiUsage.budget.costLimitUsd)}`}
+                  </span>
+                </div>
+                {aiUsage?.budget.costLimitUsd != null && (
+                  <Progress value={Math.min(100, (aiUsage.budget.costUsedUsd / aiUsage.budget.costLimitUsd) * 100)} />
+                )}
+              </div>
+            </div>
+
+            <div className="h-64" data-testid="chart-ai-usage">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={aiUsage ? fillUsageDays(aiUsage.since, aiUsage.daily) : []} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                  <XAxis dataKey="day" tick={{ fontSize: 11 }} tickFormatter={(day: string) => day.slice(5)} tickLine={false} axisLine={false} />
+                  <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} width={60} />
+                  <Tooltip
+                    formatter={(value: number, name: string) => [value.toLocaleString(), name]}
+                    labelFormatter={(day: string, payload: any[]) => {
+                      const entry = payload?.[0]?.payload as AiUsageDay | undefined;
+                      return entry ? `${day}: ${entry.requests} calls, ${formatUsd(entry.estimatedCostUsd)}` : day;
+                    }}
+                  />
+                  <Legend />
+                  <Bar dataKey="inputTokens" name="Input tokens" stackId="tokens" fill="#3b82f6" />
+                  <Bar dataKey="outputTokens" name="Output tokens" stackId="tokens" fill="#10b981" radius={[3, 3, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="border-t pt-4">
+              <p className="text-sm font-medium mb-3">Monthly limits</p>
+              <div className="flex gap-2 flex-wrap">
+                <div className="flex-1 min-w-36 space-y-1">
+                  <Label htmlFor="token-limit" className="text-xs text-muted-foreground">Token limit</Label>
+                  <Input
+                    id="token-limit"
+                    type="number"
+                    min={1}
+                    value={tokenLimit}
+                    onChange={(e) => setTokenLimit(e.target.value)}
+                    placeholder="No limit"
+                    data-testid="input-ai-token-limit"
+                  />
+                </div>
+                <div className="flex-1 min-w-36 space-y-1">
+                  <Label htmlFor="cost-limit" className="text-xs text-muted-foreground">Cost limit (USD)</Label>
+                  <Input
+                    id="cost-limit"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={costLimit}
+                    onChange={(e) => setCostLimit(e.target.value)}
+                    placeholder="No limit"
+                    data-testid="input-ai-cost-limit"
+                  />
+                </div>
+                <div className="flex items-end">
+                  <Button onClick={handleSaveLimits} disabled={saveConfigMutation.isPending} data-testid="button-save-ai-limits">
+                    <Save className="h-4 w-4 mr-2" />
+                    Save Limits
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
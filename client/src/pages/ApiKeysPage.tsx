@@ -28,7 +28,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Key, Plus, Trash2, Copy, Check, AlertTriangle, Clock, Tag } from "lucide-react";
+import { Key, Plus, Trash2, Copy, Check, AlertTriangle, Clock, Tag, Gauge } from "lucide-react";
 
 interface ApiKey {
   id: string;
@@ -39,6 +39,8 @@ interface ApiKey {
   expiresAt: string | null;
   createdAt: string;
   revoked: boolean;
+  requestsPerMinute: number;
+  queriesPerDay: number;
 }
 
 interface CreatedKey extends ApiKey {
@@ -56,6 +58,118 @@ const SCOPE_LABELS: Record<string, { label: string; description: string }> = {
   },
 };
 
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+const DEFAULT_QUERIES_PER_DAY = 1000;
+
+function LimitFields({
+  requestsPerMinute,
+  queriesPerDay,
+  onChange,
+}: {
+  requestsPerMinute: string;
+  queriesPerDay: string;
+  onChange: (limits: { requestsPerMinute: string; queriesPerDay: string }) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1.5">
+        <Label htmlFor="key-rpm">Requests / minute</Label>
+        <Input
+          id="key-rpm"
+          type="number"
+          min={1}
+          data-testid="input-api-key-rpm"
+          value={requestsPerMinute}
+          onChange={e => onChange({ requestsPerMinute: e.target.value, queriesPerDay })}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="key-qpd">Queries / day</Label>
+        <Input
+          id="key-qpd"
+          type="number"
+          min={1}
+          data-testid="input-api-key-qpd"
+          value={queriesPerDay}
+          onChange={e => onChange({ requestsPerMinute, queriesPerDay: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
+
+function parseLimits(limits: { requestsPerMinute: string; queriesPerDay: string }) {
+  return {
+    requestsPerMinute: parseInt(limits.requestsPerMinute, 10),
+    queriesPerDay: parseInt(limits.queriesPerDay, 10),
+  };
+}
+
+function limitsValid(limits: { requestsPerMinute: string; queriesPerDay: string }) {
+  const { requestsPerMinute, queriesPerDay } = parseLimits(limits);
+  return requestsPerMinute >= 1 && queriesPerDay >= 1;
+}
+
+function EditLimitsDialog({ apiKey }: { apiKey: ApiKey }) {
+  const [open, setOpen] = useState(false);
+  const [limits, setLimits] = useState({
+    requestsPerMinute: String(apiKey.requestsPerMinute),
+    queriesPerDay: String(apiKey.queriesPerDay),
+  });
+  const { toast } = useToast();
+
+  const updateMutation = useMutation({
+    mutationFn: (data: { requestsPerMinute: number; queriesPerDay: number }) =>
+      apiRequest("PATCH", `/api/user/api-keys/${apiKey.id}`, data).then(r => r.json()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/api-keys"] });
+      setOpen(false);
+      toast({ title: "Rate limits updated" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update limits", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setLimits({ requestsPerMinute: String(apiKey.requestsPerMinute), queriesPerDay: String(apiKey.queriesPerDay) });
+    }
+    setOpen(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="icon" variant="ghost" data-testid={`button-edit-limits-${apiKey.id}`} title="Edit rate limits">
+          <Gauge className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rate Limits</DialogTitle>
+          <DialogDescription>
+            Limits for <strong>{apiKey.name}</strong>. Requests over a limit receive HTTP 429; current usage is returned in X-RateLimit-* headers.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="py-2">
+          <LimitFields {...limits} onChange={setLimits} />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            data-testid="button-save-limits"
+            onClick={() => updateMutation.mutate(parseLimits(limits))}
+            disabled={!limitsValid(limits) || updateMutation.isPending}
+          >
+            {updateMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function CopyButton({ value }: { value: string }) {
   const [copied, setCopied] = useState(false);
   const copy = () => {
@@ -75,16 +189,21 @@ function NewKeyDialog({ onCreated }: { onCreated: (key: CreatedKey) => void }) {
   const [open, setOpen] = useState(false);
   const [name, setName] = useState("");
   const [scopes, setScopes] = useState<string[]>(["execute_queries"]);
+  const [limits, setLimits] = useState({
+    requestsPerMinute: String(DEFAULT_REQUESTS_PER_MINUTE),
+    queriesPerDay: String(DEFAULT_QUERIES_PER_DAY),
+  });
   const { toast } = useToast();
 
   const createMutation = useMutation({
-    mutationFn: (data: { name: string; scopes: string[] }) =>
+    mutationFn: (data: { name: string; scopes: string[]; requestsPerMinute: number; queriesPerDay: number }) =>
       apiRequest("POST", "/api/user/api-keys", data).then(r => r.json()),
     onSuccess: (data: CreatedKey) => {
       queryClient.invalidateQueries({ queryKey: ["/api/user/api-keys"] });
       setOpen(false);
       setName("");
       setScopes(["execute_queries"]);
+      setLimits({ requestsPerMinute: String(DEFAULT_REQUESTS_PER_MINUTE), queriesPerDay: String(DEFAULT_QUERIES_PER_DAY) });
       onCreated(data);
     },
     onError: (error: any) => {
@@ -147,13 +266,17 @@ function NewKeyDialog({ onCreated }: { onCreated: (key: CreatedKey) => void }) {
               ))}
             </div>
           </div>
+          <div className="space-y-2">
+            <Label>Rate Limits</Label>
+            <LimitFields {...limits} onChange={setLimits} />
+          </div>
         </div>
         <DialogFooter>
           <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
           <Button
             data-testid="button-create-api-key"
-            onClick={() => createMutation.mutate({ name, scopes })}
-            disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+            onClick={() => createMutation.mutate({ name, scopes, ...parseLimits(limits) })}
+            disabled={!name.trim() || scopes.length === 0 || !limitsValid(limits) || createMutation.isPending}
           >
             {createMutation.isPending ? "Creating..." : "Create Key"}
           </Button>
@@ -291,6 +414,10 @@ export default function ApiKeysPage() {
                         <Clock className="h-3 w-3" />
                         Created {new Date(key.createdAt).toLocaleDateString()}
                       </span>
+                      <span className="flex items-center gap-1" data-testid={`text-key-limits-${key.id}`}>
+                        <Gauge className="h-3 w-3" />
+                        {key.requestsPerMinute}/min · {key.queriesPerDay.toLocaleString()} queries/day
+                      </span>
                       {key.lastUsedAt && (
                         <span>Last used {new Date(key.lastUsedAt).toLocaleDateString()}</span>
                       )}
@@ -301,36 +428,39 @@ export default function ApiKeysPage() {
                       )}
                     </div>
                   </div>
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        data-testid={`button-revoke-key-${key.id}`}
-                        disabled={revokeMutation.isPending}
-                      >
-                        <Trash2 className="h-4 w-4 text-red-500" />
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Revoke API Key</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          Revoking <strong>{key.name}</strong> will immediately invalidate it. Any automation using this key will stop working.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction
-                          onClick={() => revokeMutation.mutate(key.id)}
-                          className="bg-red-600 hover:bg-red-700 text-white"
-                          data-testid={`button-confirm-revoke-${key.id}`}
+                  <div className="flex items-center gap-1">
+                    <EditLimitsDialog apiKey={key} />
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          data-testid={`button-revoke-key-${key.id}`}
+                          disabled={revokeMutation.isPending}
                         >
-                          Revoke Key
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Revoke API Key</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Revoking <strong>{key.name}</strong> will immediately invalidate it. Any automation using this key will stop working.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => revokeMutation.mutate(key.id)}
+                            className="bg-red-600 hover:bg-red-700 text-white"
+                            data-testid={`button-confirm-revoke-${key.id}`}
+                          >
+                            Revoke Key
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
                 </div>
               </CardContent>
             </Card>
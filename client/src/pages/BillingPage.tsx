@@ -6,7 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Loader2, CreditCard, Check, Zap, Building2, Users, Clock, AlertCircle } from "lucide-react";
+import { Loader2, CreditCard, Check, Zap, Building2, Users, Clock, AlertCircle, Brain } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 interface SubscriptionPlan {
@@ -23,6 +23,8 @@ interface SubscriptionPlan {
   maxRowsDisplay: number;
   maxRowsExport: number;
   features: string[];
+  // With the 'ai' feature; null is unlimited
+  maxAiTokensPerMonth: number | null;
 }
 
 interface Subscription {
@@ -297,6 +299,14 @@ export default function BillingPage() {
                       <Check className="h-4 w-4 text-green-500" />
                       {formatLimit(plan.maxRowsExport)} rows export
                     </li>
+                    {plan.features.includes('ai') && (
+                      <li className="flex items-center gap-2">
+                        <Brain className="h-4 w-4 text-muted-foreground" />
+                        {plan.maxAiTokensPerMonth === null
+                          ? 'Unlimited AI tokens'
+                          : `${formatLimit(plan.maxAiTokensPerMonth)} AI tokens/month`}
+                      </li>
+                    )}
                   </ul>
 
                   <div className="pt-2">
@@ -1,4 +1,4 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -29,11 +29,33 @@ const CHART_TYPES = [
   { value: "area", label: "Area Chart", icon: Activity },
 ];
 
+interface ResultCacheInfo {
+  hit: boolean;
+  cachedAt: string;
+  expiresAt: string | null;
+  ttlSeconds: number;
+  // Athena returned a previous execution's result instead of scanning again
+  athenaResultReused: boolean;
+}
+
 interface PreviewResult {
   columns: string[];
   rows: Record<string, any>[];
+  cache?: ResultCacheInfo;
 }
 
+// "inherit" uses the connection's TTL (or the server default); "0" turns caching off
+const CACHE_TTL_OPTIONS = [
+  { value: "inherit", label: "Connection default" },
+  { value: "0", label: "Off" },
+  { value: "60", label: "1 minute" },
+  { value: "300", label: "5 minutes" },
+  { value: "900", label: "15 minutes" },
+  { value: "3600", label: "1 hour" },
+  { value: "21600", label: "6 hours" },
+  { value: "86400", label: "24 hours" },
+];
+
 interface ChartFormState {
   name: string;
   description: string;
@@ -42,6 +64,7 @@ interface ChartFormState {
   xAxisColumn: string;
   yAxisColumns: string[];
   connectionId: string;
+  cacheTtl: string;
 }
 
 const emptyForm: ChartFormState = {
@@ -52,8 +75,32 @@ const emptyForm: ChartFormState = {
   xAxisColumn: "",
   yAxisColumns: [],
   connectionId: "",
+  cacheTtl: "inherit",
 };
 
+function toChartPayload(form: ChartFormState) {
+  const { cacheTtl, ...chart } = form;
+  return {
+    ...chart,
+    connectionId: chart.connectionId || null,
+    cacheTtlSeconds: cacheTtl === "inherit" ? null : Number(cacheTtl),
+  };
+}
+
+function runChartQuery(chart: DashboardChart, forceRefresh: boolean): Promise<PreviewResult> {
+  return apiRequest('/api/dashboard/execute', {
+    method: 'POST',
+    body: JSON.stringify({ sql: chart.sqlQuery, connectionId: chart.connectionId, chartId: chart.id, limit: 500, forceRefresh }),
+  });
+}
+
+function formatAge(timestamp: number) {
+  const diffMins = Math.floor((Date.now() - timestamp) / 60000);
+  if (diffMins < 1) return "just now";
+  if (diffMins === 1) return "1 min ago";
+  return `${diffMins} mins ago`;
+}
+
 function coerceData(data: Record<string, any>[], yCols: string[]): Record<string, any>[] {
   return data.map(row => {
     const coerced: Record<string, any> = { ...row };
@@ -210,7 +257,13 @@ async function captureChartToBlob(containerEl: HTMLDivElement, chartName: string
   });
 }
 
-function ChartCard({ chart, onEdit, onDelete }: { chart: DashboardChart; onEdit: () => void; onDelete: () => void }) {
+function ChartCard({ chart, refreshNonce, onEdit, onDelete }: {
+  chart: DashboardChart;
+  // Incremented by "Refresh" on the page to re-run every chart past the cache
+  refreshNonce: number;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const [copyState, setCopyState] = useState<'idle' | 'copying' | 'done'>('idle');
   const { toast } = useToast();
@@ -244,25 +297,27 @@ function ChartCard({ chart, onEdit, onDelete }: { chart: DashboardChart; onEdit:
     }
   };
 
+  const queryKey = ['/api/dashboard/execute', chart.id, chart.sqlQuery, chart.connectionId, chart.cacheTtlSeconds];
   const { data, isLoading, isError, dataUpdatedAt } = useQuery<PreviewResult>({
-    queryKey: ['/api/dashboard/execute', chart.id, chart.sqlQuery],
-    queryFn: () => apiRequest('/api/dashboard/execute', {
-      method: 'POST',
-      body: JSON.stringify({ sql: chart.sqlQuery, connectionId: chart.connectionId, limit: 500 }),
-    }),
+    queryKey,
+    queryFn: () => runChartQuery(chart, false),
     gcTime: CHART_DATA_GC_MS,
     retry: false,
   });
 
-  const lastFetched = dataUpdatedAt
-    ? (() => {
-        const diffMs = Date.now() - dataUpdatedAt;
-        const diffMins = Math.floor(diffMs / 60000);
-        if (diffMins < 1) return "just now";
-        if (diffMins === 1) return "1 min ago";
-        return `${diffMins} mins ago`;
-      })()
-    : null;
+  const refreshMutation = useMutation({
+    mutationFn: () => runChartQuery(chart, true),
+    onSuccess: (result) => queryClient.setQueryData(queryKey, result),
+    onError: (e: any) => toast({ title: 'Refresh failed', description: e.message, variant: 'destructive' }),
+  });
+
+  useEffect(() => {
+    if (refreshNonce > 0) refreshMutation.mutate();
+  }, [refreshNonce]);
+
+  // A cached result is as old as the run that produced it, not the request that returned it
+  const fetchedAt = data?.cache ? new Date(data.cache.cachedAt).getTime() : dataUpdatedAt;
+  const lastFetched = fetchedAt ? formatAge(fetchedAt) : null;
 
   const availableCols = data?.columns ?? [];
   const missingY = data ? chart.yAxisColumns.filter(c => !availableCols.includes(c)) : [];
@@ -285,6 +340,16 @@ function ChartCard({ chart, onEdit, onDelete }: { chart: DashboardChart; onEdit:
             )}
           </div>
           <div className="flex gap-1 shrink-0">
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => refreshMutation.mutate()}
+              disabled={isLoading || refreshMutation.isPending}
+              data-testid={`button-refresh-chart-${chart.id}`}
+              title="Re-run query (skip cache)"
+            >
+              <RefreshCw className={`h-4 w-4 ${refreshMutation.isPending ? 'animate-spin' : ''}`} />
+            </Button>
             <Button size="icon" variant="ghost" onClick={onEdit} data-testid={`button-edit-chart-${chart.id}`} title="Edit chart">
               <Pencil className="h-4 w-4" />
             </Button>
@@ -377,6 +442,16 @@ function ChartCard({ chart, onEdit, onDelete }: { chart: DashboardChart; onEdit:
             <div className="mt-2 flex items-center gap-2 flex-wrap">
               <Badge variant="secondary" className="text-xs">{data.rows.length} rows</Badge>
               <Badge variant="outline" className="text-xs capitalize">{chart.chartType}</Badge>
+              {(data.cache?.hit || data.cache?.athenaResultReused) && (
+                <Badge
+                  variant="outline"
+                  className="text-xs"
+                  title={data.cache.expiresAt ? `Cached until ${new Date(data.cache.expiresAt).toLocaleTimeString()}` : undefined}
+                  data-testid={`badge-cached-${chart.id}`}
+                >
+                  {data.cache.hit ? 'Cached' : 'Athena reused result'}
+                </Badge>
+              )}
               <span className="text-xs text-muted-foreground ml-auto">
                 X: {chart.xAxisColumn} · Y: {chart.yAxisColumns.join(', ')}
                 {lastFetched && <> · fetched {lastFetched}</>}
@@ -402,9 +477,11 @@ export default function ChartDashboardPage() {
     queryFn: () => apiRequest('/api/dashboard/charts'),
   });
 
+  const [refreshNonce, setRefreshNonce] = useState(0);
+
   const handleRefreshAll = () => {
-    queryClient.invalidateQueries({ queryKey: ['/api/dashboard/execute'] });
     queryClient.invalidateQueries({ queryKey: ['/api/dashboard/charts'] });
+    setRefreshNonce(n => n + 1);
   };
 
   const { data: connections = [] } = useQuery<any[]>({
@@ -415,7 +492,7 @@ export default function ChartDashboardPage() {
   const createMutation = useMutation({
     mutationFn: (data: ChartFormState) => apiRequest('/api/dashboard/charts', {
       method: 'POST',
-      body: JSON.stringify({ ...data, connectionId: data.connectionId || null }),
+      body: JSON.stringify(toChartPayload(data)),
     }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/charts'] });
@@ -428,7 +505,7 @@ export default function ChartDashboardPage() {
   const updateMutation = useMutation({
     mutationFn: (data: ChartFormState) => apiRequest(`/api/dashboard/charts/${editingChart!.id}`, {
       method: 'PUT',
-      body: JSON.stringify({ ...data, connectionId: data.connectionId || null }),
+      body: JSON.stringify(toChartPayload(data)),
     }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/charts'] });
@@ -464,6 +541,7 @@ export default function ChartDashboardPage() {
       xAxisColumn: chart.xAxisColumn,
       yAxisColumns: chart.yAxisColumns,
       connectionId: chart.connectionId || "",
+      cacheTtl: chart.cacheTtlSeconds === null ? "inherit" : String(chart.cacheTtlSeconds),
     });
     setPreview(null);
     setDialogOpen(true);
@@ -486,7 +564,7 @@ export default function ChartDashboardPage() {
     try {
       const result = await apiRequest('/api/dashboard/execute', {
         method: 'POST',
-        body: JSON.stringify({ sql: form.sqlQuery, connectionId: form.connectionId || null, limit: 500 }),
+        body: JSON.stringify({ sql: form.sqlQuery, connectionId: form.connectionId || null, limit: 500, forceRefresh: true }),
       });
       setPreview(result);
       if (!form.xAxisColumn && result.columns.length > 0) {
@@ -569,6 +647,7 @@ export default function ChartDashboardPage() {
             <ChartCard
               key={chart.id}
               chart={chart}
+              refreshNonce={refreshNonce}
               onEdit={() => openEdit(chart)}
               onDelete={() => deleteMutation.mutate(chart.id)}
             />
@@ -643,6 +722,26 @@ export default function ChartDashboardPage() {
               </div>
             )}
 
+            <div className="space-y-2">
+              <Label htmlFor="chart-cache-ttl">Result Cache</Label>
+              <Select value={form.cacheTtl} onValueChange={v => setForm(prev => ({ ...prev, cacheTtl: v }))}>
+                <SelectTrigger id="chart-cache-ttl" data-testid="select-chart-cache-ttl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CACHE_TTL_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                  {!CACHE_TTL_OPTIONS.some(option => option.value === form.cacheTtl) && (
+                    <SelectItem value={form.cacheTtl}>{form.cacheTtl} seconds</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                How long the dashboard reuses this chart's last result before running the query again.
+              </p>
+            </div>
+
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label htmlFor="chart-sql">SQL Query</Label>
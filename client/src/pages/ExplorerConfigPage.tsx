@@ -22,13 +22,39 @@ import {
 } from "@/components/ui/alert-dialog";
 
 interface DataSourceConfig {
+  id?: string;
   key: string;
   label: string;
   description: string;
   table: string;
   column: string;
+  connectionId: string | null;
 }
 
+interface ExplorerDataSource {
+  id: string;
+  key: string;
+  label: string;
+  description: string | null;
+  tableName: string;
+  lookupColumn: string;
+  connectionId: string | null;
+}
+
+interface DbConnection {
+  id: string;
+  name: string;
+  type: string;
+}
+
+// Select value standing in for "no connection" (org Athena config + Athena database)
+const DEFAULT_CONNECTION = '__default__';
+
+const EMPTY_SOURCE = { key: "", label: "", description: "", table: "", column: "", connectionId: null as string | null };
+
+// Mirrors the server-side identifier check for data source tables and columns
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+const COLUMN_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
 
 export default function ExplorerConfigPage() {
   const { toast } = useToast();
@@ -43,10 +69,20 @@ export default function ExplorerConfigPage() {
     queryFn: () => apiRequest('/api/settings'),
   });
 
+  const { data: savedSources, isLoading: sourcesLoading } = useQuery<ExplorerDataSource[]>({
+    queryKey: ['/api/explorer/sources'],
+    queryFn: () => apiRequest('/api/explorer/sources'),
+  });
+
+  const { data: connections = [] } = useQuery<DbConnection[]>({
+    queryKey: ['/api/db-connections'],
+    queryFn: () => apiRequest('/api/db-connections'),
+  });
+
   const [databaseName, setDatabaseName] = useState('');
   const [dataSources, setDataSources] = useState<DataSourceConfig[]>([]);
   const [showAddForm, setShowAddForm] = useState(false);
-  const [newSource, setNewSource] = useState({ key: "", label: "", description: "", table: "", column: "" });
+  const [newSource, setNewSource] = useState(EMPTY_SOURCE);
 
   const [lookupLabel, setLookupLabel] = useState('MSISDN');
   const [lookupPlaceholder, setLookupPlaceholder] = useState('Enter MSISDN (e.g., 18322458086)');
@@ -69,32 +105,21 @@ export default function ExplorerConfigPage() {
     if (settingsMap.has('explorer_lookup_label')) setLookupLabel(settingsMap.get('explorer_lookup_label')!);
     if (settingsMap.has('explorer_lookup_placeholder')) setLookupPlaceholder(settingsMap.get('explorer_lookup_placeholder')!);
     if (settingsMap.has('explorer_lookup_validation')) setLookupValidation(settingsMap.get('explorer_lookup_validation')!);
-
-    const explorerKeys = new Set<string>();
-    settingsMap.forEach((_, key) => {
-      const match = key.match(/^explorer_table_(.+)$/);
-      if (match) explorerKeys.add(match[1]);
-    });
-
-    if (explorerKeys.size === 0) {
-      setDataSources([]);
-      return;
-    }
-
-    const sources: DataSourceConfig[] = [];
-    explorerKeys.forEach((sourceKey) => {
-      const table = settingsMap.get(`explorer_table_${sourceKey}`) || '';
-      const column = settingsMap.get(`explorer_column_${sourceKey}`) || '';
-      const label = settingsMap.get(`explorer_label_${sourceKey}`) || sourceKey.toUpperCase();
-      const description = settingsMap.get(`explorer_desc_${sourceKey}`) || '';
-      sources.push({ key: sourceKey, label, description, table, column });
-    });
-
-    sources.sort((a, b) => a.label.localeCompare(b.label));
-
-    setDataSources(sources);
   }, [allSettings]);
 
+  useEffect(() => {
+    if (!savedSources) return;
+    setDataSources(savedSources.map((s) => ({
+      id: s.id,
+      key: s.key,
+      label: s.label,
+      description: s.description || '',
+      table: s.tableName,
+      column: s.lookupColumn,
+      connectionId: s.connectionId,
+    })));
+  }, [savedSources]);
+
   const updateDatabaseMutation = useMutation({
     mutationFn: async (dbName: string) => {
       await apiRequest('/api/settings', {
@@ -136,45 +161,49 @@ export default function ExplorerConfigPage() {
 
   const saveConfigMutation = useMutation({
     mutationFn: async (sources: DataSourceConfig[]) => {
+      // Sources removed locally (e.g. "Clear All") are deleted on save
+      const keptIds = new Set(sources.map(s => s.id).filter(Boolean));
+      for (const saved of savedSources || []) {
+        if (!keptIds.has(saved.id)) {
+          await apiRequest(`/api/explorer/sources/${saved.id}`, { method: 'DELETE' });
+        }
+      }
       for (const source of sources) {
-        const updates = [
-          { key: `explorer_table_${source.key}`, value: source.table },
-          { key: `explorer_column_${source.key}`, value: source.column },
-          { key: `explorer_label_${source.key}`, value: source.label },
-          { key: `explorer_desc_${source.key}`, value: source.description },
-        ];
-        for (const update of updates) {
-          await apiRequest('/api/settings', {
-            method: 'PUT',
-            body: JSON.stringify(update),
-          });
+        const body = JSON.stringify({
+          key: source.key,
+          label: source.label,
+          description: source.description,
+          tableName: source.table,
+          lookupColumn: source.column,
+          connectionId: source.connectionId,
+        });
+        if (source.id) {
+          await apiRequest(`/api/explorer/sources/${source.id}`, { method: 'PUT', body });
+        } else {
+          await apiRequest('/api/explorer/sources', { method: 'POST', body });
         }
       }
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/explorer/sources'] });
       toast({ title: "Success", description: "Explorer configuration saved successfully" });
     },
     onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/explorer/sources'] });
       toast({ title: "Error", description: error.message || "Failed to save configuration", variant: "destructive" });
     },
   });
 
   const deleteSourceMutation = useMutation({
-    mutationFn: async (sourceKey: string) => {
-      const keysToDelete = [
-        `explorer_table_${sourceKey}`,
-        `explorer_column_${sourceKey}`,
-        `explorer_label_${sourceKey}`,
-        `explorer_desc_${sourceKey}`,
-      ];
-      for (const key of keysToDelete) {
-        await apiRequest(`/api/settings/${key}`, { method: 'DELETE' });
+    mutationFn: async (source: DataSourceConfig) => {
+      // Unsaved sources only exist locally
+      if (source.id) {
+        await apiRequest(`/api/explorer/sources/${source.id}`, { method: 'DELETE' });
       }
     },
-    onSuccess: (_data, sourceKey) => {
-      setDataSources(prev => prev.filter(s => s.key !== sourceKey));
-      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+    onSuccess: (_data, source) => {
+      setDataSources(prev => prev.filter(s => s.key !== source.key));
+      queryClient.invalidateQueries({ queryKey: ['/api/explorer/sources'] });
       toast({ title: "Success", description: "Data source removed successfully" });
     },
     onError: (error: any) => {
@@ -183,10 +212,15 @@ export default function ExplorerConfigPage() {
   });
 
   const handleSave = () => {
+    const invalid = dataSources.find(s => !TABLE_NAME_PATTERN.test(s.table) || !COLUMN_NAME_PATTERN.test(s.column));
+    if (invalid) {
+      toast({ title: "Error", description: `Data source "${invalid.label}" has an invalid table or column name`, variant: "destructive" });
+      return;
+    }
     saveConfigMutation.mutate(dataSources);
   };
 
-  const updateDataSource = (key: string, field: keyof DataSourceConfig, value: string) => {
+  const updateDataSource = (key: string, field: keyof DataSourceConfig, value: string | null) => {
     setDataSources(prev =>
       prev.map(s => s.key === key ? { ...s, [field]: value } : s)
     );
@@ -210,6 +244,14 @@ export default function ExplorerConfigPage() {
       toast({ title: "Error", description: "WHERE condition column is required", variant: "destructive" });
       return;
     }
+    if (!TABLE_NAME_PATTERN.test(newSource.table)) {
+      toast({ title: "Error", description: "Table/View name may only contain letters, numbers and underscores (optionally schema.table)", variant: "destructive" });
+      return;
+    }
+    if (!COLUMN_NAME_PATTERN.test(newSource.column)) {
+      toast({ title: "Error", description: "Column name may only contain letters, numbers and underscores", variant: "destructive" });
+      return;
+    }
 
     const source: DataSourceConfig = {
       key: sanitizedKey,
@@ -217,13 +259,38 @@ export default function ExplorerConfigPage() {
       description: newSource.description,
       table: newSource.table,
       column: newSource.column,
+      connectionId: newSource.connectionId,
     };
     setDataSources(prev => [...prev, source]);
-    setNewSource({ key: "", label: "", description: "", table: "", column: "" });
+    setNewSource(EMPTY_SOURCE);
     setShowAddForm(false);
     toast({ title: "Added", description: `Data source "${source.label}" added. Click "Save Configuration" to persist.` });
   };
 
+  const renderConnectionSelect = (
+    value: string | null,
+    onChange: (connectionId: string | null) => void,
+    id: string,
+    testId: string
+  ) => (
+    <Select
+      value={value || DEFAULT_CONNECTION}
+      onValueChange={(v) => onChange(v === DEFAULT_CONNECTION ? null : v)}
+    >
+      <SelectTrigger id={id} data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_CONNECTION}>Default Athena (Explorer database)</SelectItem>
+        {connections.map((conn) => (
+          <SelectItem key={conn.id} value={conn.id}>
+            {conn.name} ({conn.type})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
   const handleClearAll = () => {
     setDataSources([]);
     toast({ title: "Cleared", description: "All data sources cleared. Click \"Save Configuration\" to persist." });
@@ -243,7 +310,7 @@ export default function ExplorerConfigPage() {
             <div>
               <CardTitle>Athena Database</CardTitle>
               <CardDescription>
-                Configure the AWS Athena database name used for all queries
+                Configure the AWS Athena database used by data sources without a connection
               </CardDescription>
             </div>
           </div>
@@ -344,7 +411,7 @@ export default function ExplorerConfigPage() {
               <div>
                 <CardTitle>Data Source Configuration</CardTitle>
                 <CardDescription>
-                  Configure, add, or remove the table name and WHERE condition column for each data source
+                  Configure, add, or remove the connection, table name and WHERE condition column for each data source
                 </CardDescription>
               </div>
             </div>
@@ -408,6 +475,15 @@ export default function ExplorerConfigPage() {
                     placeholder="Brief description of this data source"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="new-connection">Connection</Label>
+                  {renderConnectionSelect(
+                    newSource.connectionId,
+                    (connectionId) => setNewSource(prev => ({ ...prev, connectionId })),
+                    "new-connection",
+                    "select-new-source-connection"
+                  )}
+                </div>
                 <div className="grid gap-4 md:grid-cols-2">
                   <div className="space-y-2">
                     <Label htmlFor="new-table">Table/View Name</Label>
@@ -431,7 +507,7 @@ export default function ExplorerConfigPage() {
                   </div>
                 </div>
                 <div className="flex justify-end gap-2">
-                  <Button variant="outline" onClick={() => { setShowAddForm(false); setNewSource({ key: "", label: "", description: "", table: "", column: "" }); }} data-testid="button-cancel-add">
+                  <Button variant="outline" onClick={() => { setShowAddForm(false); setNewSource(EMPTY_SOURCE); }} data-testid="button-cancel-add">
                     Cancel
                   </Button>
                   <Button onClick={handleAddSource} data-testid="button-confirm-add">
@@ -443,7 +519,7 @@ export default function ExplorerConfigPage() {
             </Card>
           )}
 
-          {settingsLoading ? (
+          {settingsLoading || sourcesLoading ? (
             <div className="text-center py-8 text-muted-foreground">Loading configuration...</div>
           ) : dataSources.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
@@ -476,6 +552,15 @@ export default function ExplorerConfigPage() {
                         />
                       </div>
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`connection-${source.key}`}>Connection</Label>
+                      {renderConnectionSelect(
+                        source.connectionId,
+                        (connectionId) => updateDataSource(source.key, 'connectionId', connectionId),
+                        `connection-${source.key}`,
+                        `select-explorer-connection-${source.key}`
+                      )}
+                    </div>
                     <div className="grid gap-4 md:grid-cols-2">
                       <div className="space-y-2">
                         <Label htmlFor={`table-${source.key}`}>Table/View Name</Label>
@@ -521,7 +606,7 @@ export default function ExplorerConfigPage() {
                       <AlertDialogFooter>
                         <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
                         <AlertDialogAction
-                          onClick={() => deleteSourceMutation.mutate(source.key)}
+                          onClick={() => deleteSourceMutation.mutate(source)}
                           className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                           data-testid="button-confirm-delete"
                         >
@@ -538,7 +623,7 @@ export default function ExplorerConfigPage() {
           <div className="flex justify-end pt-4">
             <Button
               onClick={handleSave}
-              disabled={saveConfigMutation.isPending || dataSources.length === 0}
+              disabled={saveConfigMutation.isPending || (dataSources.length === 0 && !savedSources?.length)}
               data-testid="button-save-explorer-config"
             >
               <Save className="h-4 w-4 mr-2" />
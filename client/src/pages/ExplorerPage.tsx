@@ -1,12 +1,14 @@
-import { useState } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
-import { Search, Loader2, Download, Brain, X, CheckCircle, AlertTriangle, AlertCircle, HelpCircle } from "lucide-react";
+import { Search, Loader2, Download, Brain, X, CheckCircle, AlertTriangle, AlertCircle, HelpCircle, SearchX, Send } from "lucide-react";
 import ResultsTable from "@/components/ResultsTable";
-import { apiRequest } from "@/lib/api";
+import { apiRequest, apiEventStream, getCsrfToken } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -89,33 +91,67 @@ interface QueryResult {
   columns: string[];
   data: Record<string, any>[];
   rowsReturned: number;
+  truncated?: boolean;
   status: 'success' | 'error';
   error: string | null;
 }
 
+interface LookupValueSummary {
+  value: string;
+  hits: Record<string, number>;
+  totalHits: number;
+}
+
 interface LookupResults {
   msisdn: string;
+  values: string[];
   results: QueryResult[];
+  valueSummary: LookupValueSummary[];
+  noHitValues: string[];
   totalRowsReturned: number;
   executionTime: number;
   rowLimit: number;
 }
 
-interface AIAnalysisResult {
-  analysis: string;
-  model: string;
+type LookupMode = 'single' | 'list' | 'file';
+
+// Pasted lists may be separated by newlines, commas, semicolons or whitespace
+function splitLookupList(text: string): string[] {
+  const values = text.split(/[\s,;]+/).map(v => v.trim()).filter(Boolean);
+  return Array.from(new Set(values));
+}
+
+interface AnalysisMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// An analysis and its follow-up questions; the lookup data stays on the server
+interface AnalysisThread {
+  // Set once the server has started the conversation
+  conversationId: string | null;
   sourceName: string;
+  model: string;
   rowsAnalyzed: number;
+  // Rows in the results; more than rowsAnalyzed when they were sampled to fit the model
   totalRows: number;
+  messages: AnalysisMessage[];
 }
 
 export default function ExplorerPage() {
+  const [lookupMode, setLookupMode] = useState<LookupMode>('single');
   const [lookupValue, setLookupValue] = useState("");
+  const [lookupList, setLookupList] = useState("");
+  const [lookupFile, setLookupFile] = useState<File | null>(null);
+  const [lookupFileColumn, setLookupFileColumn] = useState("");
   const [results, setResults] = useState<LookupResults | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysisResult, setAnalysisResult] = useState<AIAnalysisResult | null>(null);
+  const [analysis, setAnalysis] = useState<AnalysisThread | null>(null);
   const [showAnalysisDialog, setShowAnalysisDialog] = useState(false);
+  const [followUp, setFollowUp] = useState("");
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const analysisEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
   const { data: allSettings } = useQuery<Array<{ key: string; value: string }>>({
@@ -142,14 +178,64 @@ export default function ExplorerPage() {
     return null;
   };
 
+  // Multipart upload goes through fetch directly (apiRequest always sends JSON)
+  const uploadLookupFile = async (file: File) => {
+    const csrfToken = await getCsrfToken();
+
+    const formData = new FormData();
+    formData.append('file', file);
+    if (lookupFileColumn.trim()) {
+      formData.append('column', lookupFileColumn.trim());
+    }
+
+    const response = await fetch('/api/query/msisdn-lookup/upload', {
+      method: 'POST',
+      headers: {
+        'x-csrf-token': csrfToken,
+      },
+      body: formData,
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Lookup failed' }));
+      throw new Error(error.message || 'Lookup failed');
+    }
+
+    return response.json();
+  };
+
   const handleLookup = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    const validationError = validateInput(lookupValue);
-    if (validationError) {
+    let listValues: string[] = [];
+    if (lookupMode === 'single') {
+      const validationError = validateInput(lookupValue);
+      if (validationError) {
+        toast({
+          title: `${lookupLabel} Required`,
+          description: validationError,
+          variant: "destructive",
+        });
+        return;
+      }
+    } else if (lookupMode === 'list') {
+      listValues = splitLookupList(lookupList);
+      const validationError = listValues.length === 0
+        ? `Enter at least one ${lookupLabel}`
+        : listValues.map(validateInput).find(Boolean);
+      if (validationError) {
+        toast({
+          title: `Invalid ${lookupLabel} List`,
+          description: validationError,
+          variant: "destructive",
+        });
+        return;
+      }
+    } else if (!lookupFile) {
       toast({
-        title: `${lookupLabel} Required`,
-        description: validationError,
+        title: "File Required",
+        description: `Choose a CSV or XLSX file of ${lookupLabel} values`,
         variant: "destructive",
       });
       return;
@@ -158,17 +244,22 @@ export default function ExplorerPage() {
     setIsLoading(true);
     
     try {
-      const response = await apiRequest('/api/query/msisdn-lookup', {
-        method: 'POST',
-        body: JSON.stringify({ msisdn: lookupValue.trim() }),
-      });
+      const response: LookupResults = lookupMode === 'file'
+        ? await uploadLookupFile(lookupFile!)
+        : await apiRequest('/api/query/msisdn-lookup', {
+            method: 'POST',
+            body: JSON.stringify(lookupMode === 'list' ? { msisdns: listValues } : { msisdn: lookupValue.trim() }),
+          });
 
       setResults(response);
       
       const successCount = response.results.filter((r: QueryResult) => r.status === 'success').length;
+      const noHitNote = response.values.length > 1 && response.noHitValues.length > 0
+        ? `; ${response.noHitValues.length} of ${response.values.length} values had no hits`
+        : '';
       toast({
         title: "Lookup Complete",
-        description: `Retrieved ${response.totalRowsReturned} total rows from ${successCount} sources in ${response.executionTime}ms`,
+        description: `Retrieved ${response.totalRowsReturned} total rows from ${successCount} sources in ${response.executionTime}ms${noHitNote}`,
       });
     } catch (error: any) {
       toast({
@@ -185,14 +276,31 @@ export default function ExplorerPage() {
   const handleClear = () => {
     setResults(null);
     setLookupValue("");
+    setLookupList("");
   };
 
+  const isBulkResult = (results?.values.length ?? 0) > 1;
+
   const handleExportExcel = () => {
     if (!results) return;
 
     const workbook = XLSX.utils.book_new();
     const rowLimit = results.rowLimit;
 
+    // Per-value summary sheet: hits for each input value in every source
+    const sourceNames = results.results.map((r) => r.name);
+    const summaryData: any[][] = [[lookupLabel, ...sourceNames, 'Total Hits']];
+    results.valueSummary.forEach((summary) => {
+      summaryData.push([
+        summary.value,
+        ...sourceNames.map((name) => summary.hits[name] ?? 0),
+        summary.totalHits,
+      ]);
+    });
+    const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
+    summarySheet['!cols'] = summaryData[0].map((header: string) => ({ wch: Math.max(String(header).length, 15) }));
+    XLSX.utils.book_append_sheet(workbook, summarySheet, 'Value Summary');
+
     results.results.forEach((result) => {
       let sheetData: any[][] = [];
       
@@ -221,7 +329,8 @@ export default function ExplorerPage() {
       XLSX.utils.book_append_sheet(workbook, worksheet, result.name);
     });
 
-    const fileName = `${lookupLabel}_${results.msisdn}_${new Date().toISOString().slice(0, 10)}.xlsx`;
+    const fileLabel = isBulkResult ? `${results.values.length}_values` : results.msisdn;
+    const fileName = `${lookupLabel}_${fileLabel}_${new Date().toISOString().slice(0, 10)}.xlsx`;
     XLSX.writeFile(workbook, fileName);
 
     toast({
@@ -250,30 +359,229 @@ export default function ExplorerPage() {
       return;
     }
 
-    setIsAnalyzing(true);
-    setAnalysisResult(null);
+    const sourceName = isBulkResult
+      ? `${lookupLabel} Lookup (${results.values.length} values)`
+      : `${lookupLabel} Lookup (${results.msisdn})`;
+
+    closeAnalysis();
+    setAnalysis({
+      conversationId: null,
+      sourceName,
+      model: '',
+      rowsAnalyzed: 0,
+      totalRows: 0,
+      messages: [{ role: 'assistant', content: '' }],
+    });
+    setShowAnalysisDialog(true);
+
+    await streamAnalysisReply(
+      '/api/ai/analyze/stream',
+      { data: allSourcesData, sourceName, isMultiSource: true },
+      (error) => {
+        // Nothing to follow up on without the first answer
+        setShowAnalysisDialog(false);
+        setAnalysis(null);
+        toast({
+          title: "Analysis Failed",
+          description: error.message || "Failed to analyze data",
+          variant: "destructive",
+        });
+      }
+    );
+  };
 
+  // Stream an assistant reply into the last message of the thread
+  const streamAnalysisReply = async (url: string, body: unknown, onFailed: (error: Error) => void) => {
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setIsAnalyzing(true);
     try {
-      const response = await apiRequest('/api/ai/analyze', {
-        method: 'POST',
-        body: JSON.stringify({
-          data: allSourcesData,
-          sourceName: `${lookupLabel} Lookup (${results.msisdn})`,
-          isMultiSource: true,
-        }),
-      });
-
-      setAnalysisResult(response);
-      setShowAnalysisDialog(true);
+      await apiEventStream(url, body, (event, data) => {
+        if (event === 'start') {
+          setAnalysis(prev => prev && {
+            ...prev,
+            conversationId: data.conversationId,
+            model: data.model,
+            rowsAnalyzed: data.rowsAnalyzed ?? prev.rowsAnalyzed,
+            totalRows: data.totalRows ?? prev.totalRows,
+          });
+        } else if (event === 'delta') {
+          setAnalysis(prev => {
+            if (!prev) return prev;
+            const last = prev.messages[prev.messages.length - 1];
+            return { ...prev, messages: [...prev.messages.slice(0, -1), { ...last, content: last.content + data.text }] };
+          });
+        }
+      }, controller.signal);
     } catch (error: any) {
-      toast({
-        title: "Analysis Failed",
-        description: error.message || "Failed to analyze data",
-        variant: "destructive",
-      });
+      if (!controller.signal.aborted) onFailed(error);
     } finally {
-      setIsAnalyzing(false);
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setIsAnalyzing(false);
+      }
+    }
+  };
+
+  const handleFollowUp = async () => {
+    const question = followUp.trim();
+    if (!question || !analysis?.conversationId || isAnalyzing) return;
+    setFollowUp("");
+    setAnalysis(prev => prev && {
+      ...prev,
+      messages: [...prev.messages, { role: 'user', content: question }, { role: 'assistant', content: '' }],
+    });
+
+    await streamAnalysisReply(
+      `/api/ai/conversations/${analysis.conversationId}/messages`,
+      { message: question },
+      (error) => {
+        // Put the question back so it can be retried
+        setAnalysis(prev => prev && { ...prev, messages: prev.messages.slice(0, -2) });
+        setFollowUp(question);
+        toast({
+          title: "Follow-up Failed",
+          description: error.message || "Failed to answer question",
+          variant: "destructive",
+        });
+      }
+    );
+  };
+
+  // Stop any reply in progress and drop the server-side conversation
+  const closeAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setIsAnalyzing(false);
+    if (analysis?.conversationId) {
+      apiRequest(`/api/ai/conversations/${analysis.conversationId}`, { method: 'DELETE' }).catch(() => {});
+    }
+    setFollowUp("");
+  };
+
+  const handleAnalysisDialogChange = (open: boolean) => {
+    if (!open) closeAnalysis();
+    setShowAnalysisDialog(open);
+  };
+
+  useEffect(() => {
+    analysisEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [analysis?.messages]);
+
+  // The first answer may be the structured issue report a custom prompt asks for
+  const renderAnalysis = (text: string) => {
+    const parsed = tryParseAnalysis(text);
+    
+    if (parsed) {
+      return (
+        <div className="space-y-4 p-4">
+          {/* Status Header */}
+          <div className={`flex items-center gap-3 p-4 rounded-lg ${
+            parsed.overall_status === "OK" 
+              ? "bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800" 
+              : "bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800"
+          }`}>
+            {parsed.overall_status === "OK" ? (
+              <CheckCircle className="h-6 w-6 text-green-600 dark:text-green-400" />
+            ) : (
+              <AlertTriangle className="h-6 w-6 text-red-600 dark:text-red-400" />
+            )}
+            <div>
+              <div className="font-semibold text-lg">
+                {parsed.overall_status === "OK" ? "No Issues Found" : "Issues Detected"}
+              </div>
+              {parsed.summary && (
+                <div className="text-sm mt-1">
+                  {parsed.summary}
+                </div>
+              )}
+              <div className="text-sm text-muted-foreground mt-1">
+                {lookupLabel}: {parsed.msisdn || "N/A"}
+                {parsed.issues.length > 0 && ` • ${parsed.issues.length} issue${parsed.issues.length > 1 ? 's' : ''} found`}
+              </div>
+            </div>
+          </div>
+
+          {/* Issues List */}
+          {parsed.issues.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="font-semibold text-base flex items-center gap-2">
+                <AlertCircle className="h-4 w-4" />
+                Issues ({parsed.issues.length})
+              </h3>
+              {parsed.issues.map((issue, index) => (
+                <Card key={index} className="border-l-4 border-l-destructive">
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge className={getSystemColor(issue.system)}>
+                        {issue.system}
+                      </Badge>
+                      <Badge variant="outline" className={getIssueTypeColor(issue.issue_type)}>
+                        {issue.issue_type.replace(/_/g, ' ')}
+                      </Badge>
+                      <span className="text-sm font-mono text-muted-foreground">
+                        {issue.field}
+                      </span>
+                    </div>
+                    <p className="text-sm">{issue.description}</p>
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                      <div className="bg-muted/50 rounded p-2">
+                        <div className="text-xs text-muted-foreground mb-1">Expected</div>
+                        <div className="font-mono text-xs break-all">
+                          {issue.expected === null ? <span className="text-muted-foreground italic">null</span> : issue.expected}
+                        </div>
+                      </div>
+                      <div className="bg-muted/50 rounded p-2">
+                        <div className="text-xs text-muted-foreground mb-1">Actual</div>
+                        <div className="font-mono text-xs break-all">
+                          {issue.actual === null ? <span className="text-muted-foreground italic">null</span> : issue.actual}
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {/* Q&A Section */}
+          {parsed.qa && (parsed.qa.question || parsed.qa.answer) && (
+            <div className="space-y-2">
+              <Separator />
+              <h3 className="font-semibold text-base flex items-center gap-2">
+                <HelpCircle className="h-4 w-4" />
+                Q&A
+              </h3>
+              <Card>
+                <CardContent className="p-4 space-y-2">
+                  {parsed.qa.question && (
+                    <div>
+                      <div className="text-xs text-muted-foreground">Question</div>
+                      <div className="text-sm">{parsed.qa.question}</div>
+                    </div>
+                  )}
+                  {parsed.qa.answer && (
+                    <div>
+                      <div className="text-xs text-muted-foreground">Answer</div>
+                      <div className="text-sm">{parsed.qa.answer}</div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      );
     }
+    
+    // Fallback: display raw analysis if not JSON
+    return (
+      <div className="prose prose-sm dark:prose-invert max-w-none p-4">
+        <pre className="whitespace-pre-wrap text-sm font-normal">
+          {text}
+        </pre>
+      </div>
+    );
   };
 
   return (
@@ -287,18 +595,62 @@ export default function ExplorerPage() {
         </CardHeader>
         <CardContent>
           <form onSubmit={handleLookup} className="space-y-4">
+            <Tabs value={lookupMode} onValueChange={(value) => setLookupMode(value as LookupMode)}>
+              <TabsList>
+                <TabsTrigger value="single" data-testid="tab-lookup-single">Single</TabsTrigger>
+                <TabsTrigger value="list" data-testid="tab-lookup-list">Paste List</TabsTrigger>
+                <TabsTrigger value="file" data-testid="tab-lookup-file">Upload File</TabsTrigger>
+              </TabsList>
+            </Tabs>
             <div className="space-y-2">
-              <Label htmlFor="lookup-value">{lookupLabel}</Label>
-              <div className="flex gap-2">
-                <Input
-                  id="lookup-value"
-                  data-testid="input-msisdn"
-                  type="text"
-                  placeholder={lookupPlaceholder}
-                  value={lookupValue}
-                  onChange={(e) => setLookupValue(e.target.value)}
-                  disabled={isLoading}
-                />
+              <Label htmlFor="lookup-value">
+                {lookupMode === 'single' ? lookupLabel : lookupMode === 'list' ? `${lookupLabel} List` : `${lookupLabel} File`}
+              </Label>
+              <div className="flex gap-2 items-start">
+                {lookupMode === 'single' && (
+                  <Input
+                    id="lookup-value"
+                    data-testid="input-msisdn"
+                    type="text"
+                    placeholder={lookupPlaceholder}
+                    value={lookupValue}
+                    onChange={(e) => setLookupValue(e.target.value)}
+                    disabled={isLoading}
+                  />
+                )}
+                {lookupMode === 'list' && (
+                  <Textarea
+                    id="lookup-value"
+                    data-testid="input-msisdn-list"
+                    placeholder={`One ${lookupLabel} per line (commas and spaces also work)`}
+                    value={lookupList}
+                    onChange={(e) => setLookupList(e.target.value)}
+                    disabled={isLoading}
+                    rows={6}
+                    className="font-mono"
+                  />
+                )}
+                {lookupMode === 'file' && (
+                  <div className="flex flex-1 gap-2">
+                    <Input
+                      id="lookup-value"
+                      data-testid="input-msisdn-file"
+                      type="file"
+                      accept=".csv,.xlsx,.xls"
+                      onChange={(e) => setLookupFile(e.target.files?.[0] || null)}
+                      disabled={isLoading}
+                    />
+                    <Input
+                      data-testid="input-msisdn-file-column"
+                      type="text"
+                      placeholder="Column (default: first)"
+                      value={lookupFileColumn}
+                      onChange={(e) => setLookupFileColumn(e.target.value)}
+                      disabled={isLoading}
+                      className="max-w-[220px]"
+                    />
+                  </div>
+                )}
                 <Button 
                   type="submit" 
                   data-testid="button-lookup"
@@ -328,6 +680,11 @@ export default function ExplorerPage() {
                   </Button>
                 )}
               </div>
+              {lookupMode === 'list' && lookupList.trim() && (
+                <p className="text-xs text-muted-foreground">
+                  {splitLookupList(lookupList).length} unique values
+                </p>
+              )}
             </div>
           </form>
         </CardContent>
@@ -338,9 +695,13 @@ export default function ExplorerPage() {
           <CardHeader>
             <div className="flex items-center justify-between gap-2 flex-wrap">
               <div>
-                <CardTitle>Results for {results.msisdn} <span className="text-muted-foreground font-normal text-sm">({lookupLabel})</span></CardTitle>
+                <CardTitle>
+                  Results for {isBulkResult ? `${results.values.length} values` : results.msisdn}{' '}
+                  <span className="text-muted-foreground font-normal text-sm">({lookupLabel})</span>
+                </CardTitle>
                 <CardDescription>
                   Found {results.totalRowsReturned} total rows across {results.results.length} sources
+                  {isBulkResult && ` • ${results.values.length - results.noHitValues.length} of ${results.values.length} values had hits`}
                 </CardDescription>
               </div>
               <div className="flex items-center gap-4">
@@ -377,6 +738,31 @@ export default function ExplorerPage() {
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
+            {isBulkResult && results.noHitValues.length > 0 && (
+              <Card data-testid="result-section-no-hits">
+                <CardHeader className="py-3 px-4">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <SearchX className="h-4 w-4 text-muted-foreground" />
+                    <CardTitle className="text-base">No Hits</CardTitle>
+                    <Badge variant="outline">
+                      {results.noHitValues.length} {results.noHitValues.length === 1 ? 'value' : 'values'}
+                    </Badge>
+                  </div>
+                  <CardDescription>
+                    These {lookupLabel} values were not found in any source
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="px-4 pb-4 pt-0">
+                  <div className="flex flex-wrap gap-1">
+                    {results.noHitValues.map((value) => (
+                      <Badge key={value} variant="secondary" className="font-mono">
+                        {value}
+                      </Badge>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
             {results.results.map((result) => (
               <Card key={result.name} data-testid={`result-section-${result.name.toLowerCase()}`}>
                 <CardHeader className="py-3 px-4">
@@ -384,7 +770,7 @@ export default function ExplorerPage() {
                     <CardTitle className="text-base">{result.name}</CardTitle>
                     {result.status === 'success' ? (
                       <Badge variant="secondary">
-                        {result.rowsReturned} {result.rowsReturned === 1 ? 'row' : 'rows'}
+                        {result.rowsReturned}{result.truncated ? '+' : ''} {result.rowsReturned === 1 ? 'row' : 'rows'}
                       </Badge>
                     ) : (
                       <Badge variant="destructive">Error</Badge>
@@ -408,6 +794,7 @@ export default function ExplorerPage() {
                       totalRows={result.rowsReturned}
                       rowLimit={results.rowLimit}
                       executionTime={0}
+                      truncated={result.truncated}
                     />
                   )}
                 </CardContent>
@@ -417,133 +804,82 @@ export default function ExplorerPage() {
         </Card>
       )}
 
-      <Dialog open={showAnalysisDialog} onOpenChange={setShowAnalysisDialog}>
-        <DialogContent className="max-w-4xl max-h-[85vh]">
+      <Dialog open={showAnalysisDialog} onOpenChange={handleAnalysisDialogChange}>
+        <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Brain className="h-5 w-5" />
-              AI Analysis - {analysisResult?.sourceName}
+              AI Analysis - {analysis?.sourceName}
             </DialogTitle>
             <DialogDescription>
-              Analyzed {analysisResult?.rowsAnalyzed} rows using {analysisResult?.model}
+              {analysis?.model
+                ? analysis.totalRows > analysis.rowsAnalyzed
+                  ? `Analyzed a sample of ${analysis.rowsAnalyzed} of ${analysis.totalRows} rows using ${analysis.model}`
+                  : `Analyzed ${analysis.rowsAnalyzed} rows using ${analysis.model}`
+                : 'Sending the lookup results to the AI provider...'}
             </DialogDescription>
           </DialogHeader>
-          <ScrollArea className="max-h-[70vh]">
-            {(() => {
-              const parsed = analysisResult?.analysis ? tryParseAnalysis(analysisResult.analysis) : null;
-              
-              if (parsed) {
-                return (
-                  <div className="space-y-4 p-4">
-                    {/* Status Header */}
-                    <div className={`flex items-center gap-3 p-4 rounded-lg ${
-                      parsed.overall_status === "OK" 
-                        ? "bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800" 
-                        : "bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800"
-                    }`}>
-                      {parsed.overall_status === "OK" ? (
-                        <CheckCircle className="h-6 w-6 text-green-600 dark:text-green-400" />
-                      ) : (
-                        <AlertTriangle className="h-6 w-6 text-red-600 dark:text-red-400" />
-                      )}
-                      <div>
-                        <div className="font-semibold text-lg">
-                          {parsed.overall_status === "OK" ? "No Issues Found" : "Issues Detected"}
-                        </div>
-                        {parsed.summary && (
-                          <div className="text-sm mt-1">
-                            {parsed.summary}
-                          </div>
-                        )}
-                        <div className="text-sm text-muted-foreground mt-1">
-                          {lookupLabel}: {parsed.msisdn || "N/A"}
-                          {parsed.issues.length > 0 && ` • ${parsed.issues.length} issue${parsed.issues.length > 1 ? 's' : ''} found`}
-                        </div>
+          <ScrollArea className="max-h-[60vh]">
+            <div className="space-y-4" data-testid="analysis-thread">
+              {analysis?.messages.map((message, index) => {
+                const isLast = index === analysis.messages.length - 1;
+                if (message.role === 'user') {
+                  return (
+                    <div key={index} className="flex justify-end px-4">
+                      <div className="max-w-[80%] rounded-lg bg-primary text-primary-foreground px-3 py-2 text-sm whitespace-pre-wrap">
+                        {message.content}
                       </div>
                     </div>
-
-                    {/* Issues List */}
-                    {parsed.issues.length > 0 && (
-                      <div className="space-y-3">
-                        <h3 className="font-semibold text-base flex items-center gap-2">
-                          <AlertCircle className="h-4 w-4" />
-                          Issues ({parsed.issues.length})
-                        </h3>
-                        {parsed.issues.map((issue, index) => (
-                          <Card key={index} className="border-l-4 border-l-destructive">
-                            <CardContent className="p-4 space-y-3">
-                              <div className="flex flex-wrap items-center gap-2">
-                                <Badge className={getSystemColor(issue.system)}>
-                                  {issue.system}
-                                </Badge>
-                                <Badge variant="outline" className={getIssueTypeColor(issue.issue_type)}>
-                                  {issue.issue_type.replace(/_/g, ' ')}
-                                </Badge>
-                                <span className="text-sm font-mono text-muted-foreground">
-                                  {issue.field}
-                                </span>
-                              </div>
-                              <p className="text-sm">{issue.description}</p>
-                              <div className="grid grid-cols-2 gap-4 text-sm">
-                                <div className="bg-muted/50 rounded p-2">
-                                  <div className="text-xs text-muted-foreground mb-1">Expected</div>
-                                  <div className="font-mono text-xs break-all">
-                                    {issue.expected === null ? <span className="text-muted-foreground italic">null</span> : issue.expected}
-                                  </div>
-                                </div>
-                                <div className="bg-muted/50 rounded p-2">
-                                  <div className="text-xs text-muted-foreground mb-1">Actual</div>
-                                  <div className="font-mono text-xs break-all">
-                                    {issue.actual === null ? <span className="text-muted-foreground italic">null</span> : issue.actual}
-                                  </div>
-                                </div>
-                              </div>
-                            </CardContent>
-                          </Card>
-                        ))}
-                      </div>
-                    )}
-
-                    {/* Q&A Section */}
-                    {parsed.qa && (parsed.qa.question || parsed.qa.answer) && (
-                      <div className="space-y-2">
-                        <Separator />
-                        <h3 className="font-semibold text-base flex items-center gap-2">
-                          <HelpCircle className="h-4 w-4" />
-                          Q&A
-                        </h3>
-                        <Card>
-                          <CardContent className="p-4 space-y-2">
-                            {parsed.qa.question && (
-                              <div>
-                                <div className="text-xs text-muted-foreground">Question</div>
-                                <div className="text-sm">{parsed.qa.question}</div>
-                              </div>
-                            )}
-                            {parsed.qa.answer && (
-                              <div>
-                                <div className="text-xs text-muted-foreground">Answer</div>
-                                <div className="text-sm">{parsed.qa.answer}</div>
-                              </div>
-                            )}
-                          </CardContent>
-                        </Card>
+                  );
+                }
+                if (!message.content && isLast && isAnalyzing) {
+                  return (
+                    <div key={index} className="flex items-center gap-2 px-4 py-2 text-sm text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Thinking...
+                    </div>
+                  );
+                }
+                // Partial JSON cannot be parsed, so structured reports render once complete
+                return (
+                  <div key={index}>
+                    {index === 0 && !(isLast && isAnalyzing) ? renderAnalysis(message.content) : (
+                      <div className="prose prose-sm dark:prose-invert max-w-none px-4">
+                        <pre className="whitespace-pre-wrap text-sm font-normal">
+                          {message.content}
+                        </pre>
                       </div>
                     )}
                   </div>
                 );
-              }
-              
-              // Fallback: display raw analysis if not JSON
-              return (
-                <div className="prose prose-sm dark:prose-invert max-w-none p-4">
-                  <pre className="whitespace-pre-wrap text-sm font-normal">
-                    {analysisResult?.analysis}
-                  </pre>
-                </div>
-              );
-            })()}
+              })}
+              <div ref={analysisEndRef} />
+            </div>
           </ScrollArea>
+          <div className="flex gap-2 items-end border-t pt-3">
+            <Textarea
+              placeholder="Ask a follow-up question about this lookup..."
+              className="min-h-10 text-sm resize-none"
+              rows={2}
+              value={followUp}
+              onChange={(e) => setFollowUp(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleFollowUp();
+                }
+              }}
+              disabled={!analysis?.conversationId}
+              data-testid="input-analysis-follow-up"
+            />
+            <Button
+              onClick={handleFollowUp}
+              disabled={!followUp.trim() || !analysis?.conversationId || isAnalyzing}
+              data-testid="button-send-follow-up"
+            >
+              {isAnalyzing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </div>
         </DialogContent>
       </Dialog>
     </div>
@@ -1,6 +1,7 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import QueryBuilder from "@/components/QueryBuilder";
-import ResultsTable from "@/components/ResultsTable";
+import FederatedQueryBuilder, { type FederatedSource } from "@/components/FederatedQueryBuilder";
+import ResultsTable, { type QueryStatistics } from "@/components/ResultsTable";
 import { apiRequest } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
@@ -9,9 +10,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { Database, Table, ChevronRight, ChevronDown, Search, RefreshCw, Loader2, Columns, AlertCircle, Link2 } from "lucide-react";
+import { Database, Table, ChevronRight, ChevronDown, Search, RefreshCw, Loader2, Columns, AlertCircle, AlertTriangle, Link2, Square } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { queryClient } from "@/lib/queryClient";
 import {
   Select,
@@ -28,21 +30,32 @@ interface TableColumn {
 
 interface TableSchema {
   name: string;
+  schema?: string;
   columns: TableColumn[];
 }
 
 interface SchemaResponse {
   database: string;
+  schemas?: string[];
   tables: TableSchema[];
   totalTables: number;
   fetchedTables: number;
 }
 
+// Per-source summary returned by /api/query/federated
+interface FederatedSourceSummary {
+  alias: string;
+  rowsLoaded: number;
+  truncated: boolean;
+}
+
 interface DbConnectionOption {
   id: string;
   name: string;
   type: string;
   isDefault: boolean;
+  // active | degraded | down, from the background health checker
+  status: string;
 }
 
 export default function QueryExecutionPage() {
@@ -51,14 +64,23 @@ export default function QueryExecutionPage() {
     data: Record<string, any>[];
     executionTime: number;
     rowLimit: number;
+    truncated?: boolean;
+    statistics?: QueryStatistics;
+    sources?: FederatedSourceSummary[];
   } | null>(null);
+  const [mode, setMode] = useState<'single' | 'federated'>('single');
   const [isExecuting, setIsExecuting] = useState(false);
+  const [executionId, setExecutionId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const activeExecutionRef = useRef<string | null>(null);
   const [searchFilter, setSearchFilter] = useState("");
   const [expandedTables, setExpandedTables] = useState<Set<string>>(new Set());
   const [tableColumns, setTableColumns] = useState<Map<string, TableColumn[]>>(new Map());
   const [loadingColumns, setLoadingColumns] = useState<Set<string>>(new Set());
   const [failedColumns, setFailedColumns] = useState<Set<string>>(new Set());
   const [selectedConnectionId, setSelectedConnectionId] = useState<string>("");
+  // Last single-connection query that failed, for the AI assistant's explain and fix
+  const [lastFailure, setLastFailure] = useState<{ query: string; message: string } | null>(null);
   const { toast } = useToast();
 
   const { data: dbConnections = [], isLoading: isLoadingConnections } = useQuery<DbConnectionOption[]>({
@@ -66,11 +88,9 @@ export default function QueryExecutionPage() {
     queryFn: () => apiRequest('/api/db-connections'),
   });
 
-  const hasConnections = dbConnections.length > 0;
   const activeConnectionId = selectedConnectionId || dbConnections.find(c => c.isDefault)?.id || dbConnections[0]?.id || '';
   const activeConnection = dbConnections.find(c => c.id === activeConnectionId);
-  const isAthenaConnection = activeConnection?.type === 'athena';
-  const shouldLoadSchema = !isLoadingConnections && (!hasConnections || isAthenaConnection);
+  const shouldLoadSchema = !isLoadingConnections;
 
   const schemaUrl = activeConnectionId
     ? `/api/query/schema?connectionId=${activeConnectionId}`
@@ -86,6 +106,8 @@ export default function QueryExecutionPage() {
 
   const fetchColumns = async (tableName: string) => {
     if (tableColumns.has(tableName) || loadingColumns.has(tableName)) return;
+    // Introspected (non-Athena) schemas already include their columns
+    if (schema?.tables.find(t => t.name === tableName)?.columns.length) return;
     
     setLoadingColumns(prev => new Set(prev).add(tableName));
     setFailedColumns(prev => {
@@ -95,7 +117,8 @@ export default function QueryExecutionPage() {
     });
     
     try {
-      const response = await apiRequest(`/api/query/schema/${tableName}/columns`);
+      const columnsUrl = `/api/query/schema/${encodeURIComponent(tableName)}/columns`;
+      const response = await apiRequest(activeConnectionId ? `${columnsUrl}?connectionId=${activeConnectionId}` : columnsUrl);
       setTableColumns(prev => new Map(prev).set(tableName, response.columns));
     } catch (error: any) {
       console.error(`Failed to load columns for ${tableName}:`, error);
@@ -114,14 +137,41 @@ export default function QueryExecutionPage() {
     }
   };
 
-  const handleExecute = async (query: string) => {
+  // Start an execution (single or federated) and poll it until it finishes
+  const runExecution = async (url: string, body: Record<string, unknown>, onFailed?: (message: string) => void) => {
     setIsExecuting(true);
+    setIsCancelling(false);
+    activeExecutionRef.current = null;
+    let id: string | null = null;
     
     try {
-      const response = await apiRequest('/api/query/execute', {
+      const started = await apiRequest(url, {
         method: 'POST',
-        body: JSON.stringify({ query, connectionId: activeConnectionId || undefined }),
+        body: JSON.stringify(body),
       });
+      id = started.executionId as string;
+      activeExecutionRef.current = id;
+      setExecutionId(id);
+
+      // Poll the execution handle until the query finishes, fails or is cancelled
+      let response = await apiRequest(`/api/query/${id}/status`);
+      while (response.status === 'running' || response.status === 'cancelling') {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        if (activeExecutionRef.current !== id) return;
+        response = await apiRequest(`/api/query/${id}/status`);
+      }
+
+      if (response.status === 'cancelled') {
+        setResults(null);
+        toast({
+          title: "Query Cancelled",
+          description: "The query was stopped before it completed",
+        });
+        return;
+      }
+      if (response.status === 'failed') {
+        throw new Error(response.message || "Failed to execute query");
+      }
 
       setResults(response);
       toast({
@@ -135,8 +185,41 @@ export default function QueryExecutionPage() {
         variant: "destructive",
       });
       setResults(null);
+      onFailed?.(error.message || "Failed to execute query");
     } finally {
-      setIsExecuting(false);
+      // A newer execution may have replaced this one while it was polling
+      if (activeExecutionRef.current === id) {
+        setIsExecuting(false);
+        setExecutionId(null);
+        setIsCancelling(false);
+      }
+    }
+  };
+
+  const handleExecute = (query: string) => {
+    setLastFailure(null);
+    return runExecution(
+      '/api/query/execute',
+      { query, connectionId: activeConnectionId || undefined },
+      message => setLastFailure({ query, message })
+    );
+  };
+
+  const handleExecuteFederated = (sources: FederatedSource[], query: string) =>
+    runExecution('/api/query/federated', { sources, query });
+
+  const handleCancel = async () => {
+    if (!executionId) return;
+    setIsCancelling(true);
+    try {
+      await apiRequest(`/api/query/${executionId}/cancel`, { method: 'POST' });
+    } catch (error: any) {
+      setIsCancelling(false);
+      toast({
+        title: "Cancel Failed",
+        description: error.message || "Failed to cancel query",
+        variant: "destructive",
+      });
     }
   };
 
@@ -165,10 +248,14 @@ export default function QueryExecutionPage() {
     ...(schema?.tables.map(t => ({ label: t.name, type: 'table' as const })) || []),
     ...Array.from(tableColumns.entries()).flatMap(([tableName, cols]) =>
       cols.map(col => ({ label: col.name, type: 'column' as const, table: tableName }))
-    )
+    ),
+    ...(schema?.tables.filter(t => t.columns.length > 0 && !tableColumns.has(t.name)).flatMap(t =>
+      t.columns.map(col => ({ label: col.name, type: 'column' as const, table: t.name }))
+    ) || [])
   ];
 
-  const getTableColumns = (tableName: string) => tableColumns.get(tableName) || [];
+  const getTableColumns = (tableName: string) =>
+    tableColumns.get(tableName) || schema?.tables.find(t => t.name === tableName)?.columns || [];
 
   return (
     <div className="flex gap-4 h-full">
@@ -178,7 +265,10 @@ export default function QueryExecutionPage() {
             <div className="mb-2">
               <Select
                 value={activeConnectionId}
-                onValueChange={setSelectedConnectionId}
+                onValueChange={(value) => {
+                  setSelectedConnectionId(value);
+                  setLastFailure(null);
+                }}
               >
                 <SelectTrigger className="h-8 text-xs" data-testid="select-connection">
                   <Link2 className="h-3 w-3 mr-1 shrink-0" />
@@ -190,11 +280,24 @@ export default function QueryExecutionPage() {
                       <span className="flex items-center gap-1">
                         {conn.name}
                         {conn.isDefault && <span className="text-muted-foreground">(default)</span>}
+                        {conn.status === 'down' && <span className="text-destructive">(down)</span>}
+                        {conn.status === 'degraded' && <span className="text-amber-600">(degraded)</span>}
                       </span>
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              {(activeConnection?.status === 'down' || activeConnection?.status === 'degraded') && (
+                <p
+                  className={`mt-1.5 text-xs flex items-start gap-1 ${activeConnection.status === 'down' ? 'text-destructive' : 'text-amber-600'}`}
+                  data-testid="text-connection-health-warning"
+                >
+                  <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                  {activeConnection.status === 'down'
+                    ? 'This connection is failing its health checks; queries are likely to fail.'
+                    : 'This connection has been slow or failing intermittently.'}
+                </p>
+              )}
             </div>
           )}
           <div className="flex items-center justify-between gap-2">
@@ -232,13 +335,7 @@ export default function QueryExecutionPage() {
         </CardHeader>
         <CardContent className="flex-1 overflow-hidden p-0">
           <ScrollArea className="h-full px-4 pb-4">
-            {hasConnections && !isAthenaConnection ? (
-              <div className="flex flex-col items-center justify-center py-8 text-muted-foreground text-center px-2">
-                <Database className="h-5 w-5 mb-2" />
-                <span className="text-sm">Schema browsing is not available for {activeConnection?.type || 'this'} connections.</span>
-                <span className="text-xs mt-1">You can still write and execute queries directly.</span>
-              </div>
-            ) : isLoadingSchema || isLoadingConnections ? (
+            {isLoadingSchema || isLoadingConnections ? (
               <div className="flex items-center justify-center py-8 text-muted-foreground">
                 <Loader2 className="h-5 w-5 animate-spin mr-2" />
                 Loading schema...
@@ -359,18 +456,65 @@ export default function QueryExecutionPage() {
       </Card>
 
       <div className="flex-1 space-y-4 min-w-0 overflow-auto">
-        <QueryBuilder 
-          onExecute={handleExecute}
-          onClear={handleClear}
-          connectionStatus="connected"
-          suggestions={autocompleteSuggestions}
-          onTableUsed={fetchColumns}
-        />
+        <Tabs value={mode} onValueChange={(value) => setMode(value as 'single' | 'federated')}>
+          <TabsList>
+            <TabsTrigger value="single" data-testid="tab-single-query">Single connection</TabsTrigger>
+            <TabsTrigger value="federated" data-testid="tab-federated-query">Federated</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {/* Both editors stay mounted so switching modes keeps their contents */}
+        <div className={mode === 'single' ? undefined : 'hidden'}>
+          <QueryBuilder 
+            onExecute={handleExecute}
+            onClear={handleClear}
+            connectionStatus="connected"
+            suggestions={autocompleteSuggestions}
+            onTableUsed={fetchColumns}
+            connectionId={activeConnectionId || undefined}
+            tableColumns={Object.fromEntries(tableColumns)}
+            lastFailure={lastFailure}
+          />
+        </div>
+        <div className={mode === 'federated' ? undefined : 'hidden'}>
+          <FederatedQueryBuilder
+            connections={dbConnections}
+            onExecute={handleExecuteFederated}
+            onClear={handleClear}
+          />
+        </div>
+
+        {!isExecuting && results?.sources && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground" data-testid="federated-source-summary">
+            <span>Sources loaded:</span>
+            {results.sources.map((source) => (
+              <Badge
+                key={source.alias}
+                variant={source.truncated ? 'destructive' : 'secondary'}
+                title={source.truncated ? 'Stopped at the row limit; the final result may be incomplete' : undefined}
+              >
+                {source.alias}: {source.rowsLoaded.toLocaleString()} rows{source.truncated ? ' (truncated)' : ''}
+              </Badge>
+            ))}
+          </div>
+        )}
         
         {isExecuting ? (
           <div className="text-center py-12 text-muted-foreground">
             <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
-            Executing query...
+            {isCancelling ? 'Cancelling query...' : 'Executing query...'}
+            <div className="mt-3">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCancel}
+                disabled={!executionId || isCancelling}
+                data-testid="button-stop-query"
+              >
+                <Square className="h-3.5 w-3.5 mr-2" />
+                Stop
+              </Button>
+            </div>
           </div>
         ) : results ? (
           <ResultsTable 
@@ -379,6 +523,8 @@ export default function QueryExecutionPage() {
             totalRows={results.data.length}
             rowLimit={results.rowLimit}
             executionTime={results.executionTime}
+            truncated={results.truncated}
+            statistics={results.statistics}
           />
         ) : (
           <ResultsTable />
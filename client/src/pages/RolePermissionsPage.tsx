@@ -16,6 +16,7 @@ const FEATURE_LABELS: Record<string, { label: string; description: string }> = {
   sftp_monitor:    { label: "SFTP Monitor", description: "View SFTP server file health status" },
   msisdn_lookup:   { label: "MSISDN Lookup", description: "Look up phone numbers across data sources" },
   export_data:     { label: "Export Data", description: "Download query results as CSV" },
+  write_queries:   { label: "Write Queries", description: "Run INSERT/UPDATE/DDL statements on read-only connections" },
 };
 
 const ROLE_LABELS: Record<string, { label: string; color: string; description: string }> = {
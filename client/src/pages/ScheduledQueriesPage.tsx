@@ -0,0 +1,619 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarClock, Plus, Pencil, Trash2, Play, History, Mail, Server, Webhook, Clock } from "lucide-react";
+
+interface QuerySchedule {
+  id: string;
+  savedQueryId: string;
+  connectionId: string | null;
+  cronExpression: string;
+  outputFormat: string;
+  deliveryType: string;
+  emailRecipients: string[];
+  sftpConfigId: string | null;
+  sftpRemotePath: string | null;
+  webhookUrl: string | null;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastRunStatus: string | null;
+}
+
+interface QueryScheduleRun {
+  id: string;
+  trigger: string;
+  status: string;
+  rowsReturned: number | null;
+  fileName: string | null;
+  errorMessage: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface SavedQuery {
+  id: string;
+  name: string;
+  connectionId: string | null;
+  federatedSources: unknown[] | null;
+}
+
+interface DbConnection {
+  id: string;
+  name: string;
+  type: string;
+}
+
+interface SftpTarget {
+  id: string;
+  name: string;
+  host: string;
+  remotePaths: string[];
+}
+
+interface ScheduleForm {
+  savedQueryId: string;
+  connectionId: string;
+  cronExpression: string;
+  outputFormat: string;
+  deliveryType: string;
+  emailRecipients: string;
+  sftpConfigId: string;
+  sftpRemotePath: string;
+  webhookUrl: string;
+  enabled: boolean;
+}
+
+const DEFAULT_CONNECTION = "__default__";
+
+const EMPTY_FORM: ScheduleForm = {
+  savedQueryId: "",
+  connectionId: DEFAULT_CONNECTION,
+  cronExpression: "0 8 * * *",
+  outputFormat: "csv",
+  deliveryType: "email",
+  emailRecipients: "",
+  sftpConfigId: "",
+  sftpRemotePath: "",
+  webhookUrl: "",
+  enabled: true,
+};
+
+const CRON_PRESETS = [
+  { label: "Hourly", value: "0 * * * *" },
+  { label: "Daily 08:00", value: "0 8 * * *" },
+  { label: "Weekdays 08:00", value: "0 8 * * 1-5" },
+  { label: "Mondays 08:00", value: "0 8 * * 1" },
+  { label: "Monthly (1st)", value: "0 8 1 * *" },
+];
+
+const DELIVERY_ICONS: Record<string, any> = { email: Mail, sftp: Server, webhook: Webhook };
+
+function toForm(schedule: QuerySchedule): ScheduleForm {
+  return {
+    savedQueryId: schedule.savedQueryId,
+    connectionId: schedule.connectionId || DEFAULT_CONNECTION,
+    cronExpression: schedule.cronExpression,
+    outputFormat: schedule.outputFormat,
+    deliveryType: schedule.deliveryType,
+    emailRecipients: schedule.emailRecipients.join(", "),
+    sftpConfigId: schedule.sftpConfigId || "",
+    sftpRemotePath: schedule.sftpRemotePath || "",
+    webhookUrl: schedule.webhookUrl || "",
+    enabled: schedule.enabled,
+  };
+}
+
+function toPayload(form: ScheduleForm) {
+  return {
+    savedQueryId: form.savedQueryId,
+    connectionId: form.connectionId === DEFAULT_CONNECTION ? null : form.connectionId,
+    cronExpression: form.cronExpression.trim(),
+    outputFormat: form.outputFormat,
+    deliveryType: form.deliveryType,
+    emailRecipients: form.emailRecipients.split(/[,;\s]+/).map(e => e.trim()).filter(Boolean),
+    sftpConfigId: form.sftpConfigId || null,
+    sftpRemotePath: form.sftpRemotePath.trim() || null,
+    webhookUrl: form.webhookUrl.trim() || null,
+    enabled: form.enabled,
+  };
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function StatusBadge({ status }: { status: string | null }) {
+  if (!status) return <span className="text-xs text-muted-foreground">Never run</span>;
+  const variant = status === "success" ? "default" : status === "failed" ? "destructive" : "secondary";
+  return <Badge variant={variant} className="text-xs capitalize">{status}</Badge>;
+}
+
+function ScheduleDialog({
+  open,
+  onOpenChange,
+  editing,
+  savedQueries,
+  connections,
+  sftpTargets,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  editing: QuerySchedule | null;
+  savedQueries: SavedQuery[];
+  connections: DbConnection[];
+  sftpTargets: SftpTarget[];
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ScheduleForm>(editing ? toForm(editing) : EMPTY_FORM);
+  const update = (patch: Partial<ScheduleForm>) => setForm(prev => ({ ...prev, ...patch }));
+
+  const saveMutation = useMutation({
+    mutationFn: (payload: ReturnType<typeof toPayload>) =>
+      editing
+        ? apiRequest("PUT", `/api/query-schedules/${editing.id}`, payload).then(r => r.json())
+        : apiRequest("POST", "/api/query-schedules", payload).then(r => r.json()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/query-schedules"] });
+      toast({ title: editing ? "Schedule updated" : "Schedule created" });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save schedule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const selectSavedQuery = (id: string) => {
+    const savedQuery = savedQueries.find(q => q.id === id);
+    update({ savedQueryId: id, connectionId: savedQuery?.connectionId || form.connectionId });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{editing ? "Edit Schedule" : "New Schedule"}</DialogTitle>
+          <DialogDescription>
+            Runs a saved query with your permissions and delivers the results. Times are in UTC.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-1.5">
+            <Label>Saved Query</Label>
+            <Select value={form.savedQueryId} onValueChange={selectSavedQuery}>
+              <SelectTrigger data-testid="select-schedule-saved-query">
+                <SelectValue placeholder={savedQueries.length ? "Select a saved query" : "No saved queries yet"} />
+              </SelectTrigger>
+              <SelectContent>
+                {savedQueries.map(q => (
+                  <SelectItem key={q.id} value={q.id}>{q.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>Connection</Label>
+            <Select value={form.connectionId} onValueChange={value => update({ connectionId: value })}>
+              <SelectTrigger data-testid="select-schedule-connection">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_CONNECTION}>Default Athena</SelectItem>
+                {connections.map(c => (
+                  <SelectItem key={c.id} value={c.id}>{c.name} ({c.type})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="schedule-cron">Cron Expression (UTC)</Label>
+            <Input
+              id="schedule-cron"
+              data-testid="input-schedule-cron"
+              className="font-mono"
+              placeholder="minute hour day-of-month month day-of-week"
+              value={form.cronExpression}
+              onChange={e => update({ cronExpression: e.target.value })}
+            />
+            <div className="flex flex-wrap gap-1.5">
+              {CRON_PRESETS.map(preset => (
+                <Button
+                  key={preset.value}
+                  type="button"
+                  size="sm"
+                  variant={form.cronExpression === preset.value ? "secondary" : "outline"}
+                  className="h-7 text-xs"
+                  onClick={() => update({ cronExpression: preset.value })}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <Label>Format</Label>
+              <Select value={form.outputFormat} onValueChange={value => update({ outputFormat: value })}>
+                <SelectTrigger data-testid="select-schedule-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="xlsx">XLSX</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Delivery</Label>
+              <Select value={form.deliveryType} onValueChange={value => update({ deliveryType: value })}>
+                <SelectTrigger data-testid="select-schedule-delivery">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="email">Email</SelectItem>
+                  <SelectItem value="sftp">SFTP upload</SelectItem>
+                  <SelectItem value="webhook">Webhook</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {form.deliveryType === "email" && (
+            <div className="space-y-1.5">
+              <Label htmlFor="schedule-recipients">Recipients</Label>
+              <Input
+                id="schedule-recipients"
+                data-testid="input-schedule-recipients"
+                placeholder="ops@example.com, finance@example.com"
+                value={form.emailRecipients}
+                onChange={e => update({ emailRecipients: e.target.value })}
+              />
+            </div>
+          )}
+
+          {form.deliveryType === "sftp" && (
+            <>
+              <div className="space-y-1.5">
+                <Label>SFTP Server</Label>
+                <Select value={form.sftpConfigId} onValueChange={value => update({ sftpConfigId: value })}>
+                  <SelectTrigger data-testid="select-schedule-sftp">
+                    <SelectValue placeholder={sftpTargets.length ? "Select a server" : "No SFTP servers configured"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sftpTargets.map(t => (
+                      <SelectItem key={t.id} value={t.id}>{t.name} ({t.host})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="schedule-remote-path">Remote Directory</Label>
+                <Input
+                  id="schedule-remote-path"
+                  data-testid="input-schedule-remote-path"
+                  placeholder={sftpTargets.find(t => t.id === form.sftpConfigId)?.remotePaths[0] || "/"}
+                  value={form.sftpRemotePath}
+                  onChange={e => update({ sftpRemotePath: e.target.value })}
+                />
+              </div>
+            </>
+          )}
+
+          {form.deliveryType === "webhook" && (
+            <div className="space-y-1.5">
+              <Label htmlFor="schedule-webhook">Webhook URL</Label>
+              <Input
+                id="schedule-webhook"
+                data-testid="input-schedule-webhook"
+                placeholder="https://example.com/hooks/voyager"
+                value={form.webhookUrl}
+                onChange={e => update({ webhookUrl: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Receives a JSON POST with the file as base64 in <code>content</code>. Must be a public https URL.
+              </p>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="schedule-enabled"
+              data-testid="switch-schedule-enabled"
+              checked={form.enabled}
+              onCheckedChange={checked => update({ enabled: checked })}
+            />
+            <Label htmlFor="schedule-enabled">Enabled</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            data-testid="button-save-schedule"
+            onClick={() => saveMutation.mutate(toPayload(form))}
+            disabled={!form.savedQueryId || !form.cronExpression.trim() || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Schedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RunHistoryDialog({ schedule, onClose }: { schedule: QuerySchedule | null; onClose: () => void }) {
+  const { data: runs = [], isLoading } = useQuery<QueryScheduleRun[]>({
+    queryKey: [`/api/query-schedules/${schedule?.id}/runs`],
+    enabled: !!schedule,
+    refetchInterval: 5000,
+  });
+
+  return (
+    <Dialog open={!!schedule} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Run History</DialogTitle>
+          <DialogDescription>The 50 most recent runs of this schedule.</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground py-6 text-center">Loading...</div>
+        ) : runs.length === 0 ? (
+          <div className="text-sm text-muted-foreground py-6 text-center">No runs yet.</div>
+        ) : (
+          <div className="max-h-[60vh] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Rows</TableHead>
+                  <TableHead>File / Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => (
+                  <TableRow key={run.id} data-testid={`row-schedule-run-${run.id}`}>
+                    <TableCell className="text-xs whitespace-nowrap">{formatDate(run.startedAt)}</TableCell>
+                    <TableCell className="text-xs capitalize">{run.trigger}</TableCell>
+                    <TableCell><StatusBadge status={run.status} /></TableCell>
+                    <TableCell className="text-xs">{run.rowsReturned ?? "—"}</TableCell>
+                    <TableCell className="text-xs break-all">
+                      {run.errorMessage
+                        ? <span className="text-red-500">{run.errorMessage}</span>
+                        : run.fileName ?? "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function ScheduledQueriesPage() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<QuerySchedule | null>(null);
+  const [historyFor, setHistoryFor] = useState<QuerySchedule | null>(null);
+
+  const { data: schedules = [], isLoading } = useQuery<QuerySchedule[]>({
+    queryKey: ["/api/query-schedules"],
+  });
+  const { data: savedQueries = [] } = useQuery<SavedQuery[]>({
+    queryKey: ["/api/saved-queries"],
+  });
+  const { data: connections = [] } = useQuery<DbConnection[]>({
+    queryKey: ["/api/db-connections"],
+  });
+  const { data: sftpTargets = [] } = useQuery<SftpTarget[]>({
+    queryKey: ["/api/query-schedules/sftp-targets"],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/query-schedules/${id}/run`).then(r => r.json()),
+    onSuccess: (_data, id) => {
+      toast({ title: "Run started", description: "Results will appear in the run history." });
+      queryClient.invalidateQueries({ queryKey: [`/api/query-schedules/${id}/runs`] });
+      setTimeout(() => queryClient.invalidateQueries({ queryKey: ["/api/query-schedules"] }), 5000);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to start run", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/query-schedules/${id}`).then(r => r.json()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/query-schedules"] });
+      toast({ title: "Schedule deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to delete schedule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (schedule: QuerySchedule | null) => {
+    setEditing(schedule);
+    setDialogOpen(true);
+  };
+
+  const queryName = (id: string) => savedQueries.find(q => q.id === id)?.name ?? "Unknown query";
+  const deliveryLabel = (schedule: QuerySchedule) => {
+    if (schedule.deliveryType === "email") return schedule.emailRecipients.join(", ");
+    if (schedule.deliveryType === "sftp") {
+      const target = sftpTargets.find(t => t.id === schedule.sftpConfigId);
+      return target ? `${target.name}:${schedule.sftpRemotePath || target.remotePaths[0] || "/"}` : "SFTP server removed";
+    }
+    return schedule.webhookUrl ?? "";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <CalendarClock className="h-6 w-6" />
+            Scheduled Queries
+          </h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Run saved queries on a cron schedule and deliver the results by email, SFTP or webhook.
+          </p>
+        </div>
+        <Button data-testid="button-new-schedule" className="gap-2" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4" />
+          New Schedule
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-sm text-muted-foreground py-6 text-center">Loading...</div>
+      ) : schedules.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground text-sm">
+            <CalendarClock className="h-8 w-8 mx-auto mb-2 opacity-30" />
+            No schedules yet. Save a query in the Executor, then schedule it here.
+          </CardContent>
+        </Card>
+      ) : (
+        schedules.map(schedule => {
+          const DeliveryIcon = DELIVERY_ICONS[schedule.deliveryType] ?? Mail;
+          return (
+            <Card key={schedule.id} data-testid={`card-schedule-${schedule.id}`}>
+              <CardContent className="py-4">
+                <div className="flex flex-wrap items-start gap-4 justify-between">
+                  <div className="space-y-1.5 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-sm">{queryName(schedule.savedQueryId)}</span>
+                      <code className="text-xs bg-muted rounded px-1.5 py-0.5 font-mono">{schedule.cronExpression}</code>
+                      <Badge variant="outline" className="text-xs uppercase">{schedule.outputFormat}</Badge>
+                      {!schedule.enabled && <Badge variant="secondary" className="text-xs">Paused</Badge>}
+                    </div>
+                    <div className="flex items-center gap-1.5 text-xs text-muted-foreground min-w-0">
+                      <DeliveryIcon className="h-3 w-3 shrink-0" />
+                      <span className="truncate">{deliveryLabel(schedule)}</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        Next run {schedule.enabled ? formatDate(schedule.nextRunAt) : "—"}
+                      </span>
+                      <span>Last run {formatDate(schedule.lastRunAt)}</span>
+                      <StatusBadge status={schedule.lastRunStatus} />
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Run now"
+                      data-testid={`button-run-schedule-${schedule.id}`}
+                      disabled={runMutation.isPending}
+                      onClick={() => runMutation.mutate(schedule.id)}
+                    >
+                      <Play className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Run history"
+                      data-testid={`button-history-schedule-${schedule.id}`}
+                      onClick={() => setHistoryFor(schedule)}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Edit"
+                      data-testid={`button-edit-schedule-${schedule.id}`}
+                      onClick={() => openDialog(schedule)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Delete"
+                          data-testid={`button-delete-schedule-${schedule.id}`}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Schedule</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This stops future runs of <strong>{queryName(schedule.savedQueryId)}</strong> and deletes its run history.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteMutation.mutate(schedule.id)}
+                            className="bg-red-600 hover:bg-red-700 text-white"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      {dialogOpen && (
+        <ScheduleDialog
+          key={editing?.id ?? "new"}
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          editing={editing}
+          savedQueries={savedQueries.filter(q => !q.federatedSources)}
+          connections={connections}
+          sftpTargets={sftpTargets}
+        />
+      )}
+      <RunHistoryDialog schedule={historyFor} onClose={() => setHistoryFor(null)} />
+    </div>
+  );
+}
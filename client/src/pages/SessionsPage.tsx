@@ -0,0 +1,184 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { MonitorSmartphone, Monitor, Smartphone, LogOut, Clock, Globe } from "lucide-react";
+
+interface ActiveSession {
+  id: string;
+  current: boolean;
+  userAgent: string | null;
+  ipAddress: string | null;
+  loginAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+}
+
+// Rough "Browser on OS" label from a user agent string
+function describeDevice(userAgent: string | null): { label: string; mobile: boolean } {
+  if (!userAgent) return { label: "Unknown device", mobile: false };
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\/|Opera/.test(userAgent) ? "Opera" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    /curl|python|node|axios|PostmanRuntime/i.test(userAgent) ? "Script" : "Browser";
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" : null;
+  return {
+    label: os ? `${browser} on ${os}` : browser,
+    mobile: /Mobi|iPhone|Android/.test(userAgent),
+  };
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export default function SessionsPage() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/auth/sessions/${id}`).then(r => r.json()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session revoked" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to revoke session", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/sessions/revoke-others").then(r => r.json()),
+    onSuccess: (data: { revoked: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: `Signed out of ${data.revoked} other session${data.revoked === 1 ? "" : "s"}` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to revoke sessions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const otherSessions = sessions.filter(s => !s.current).length;
+
+  return (
+    <div className="container max-w-3xl mx-auto py-8 px-4 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <MonitorSmartphone className="h-6 w-6" />
+            Active Sessions
+          </h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Devices currently signed in to your account. Revoke any session you don't recognise.
+          </p>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="outline"
+              className="gap-2"
+              data-testid="button-revoke-other-sessions"
+              disabled={otherSessions === 0 || revokeOthersMutation.isPending}
+            >
+              <LogOut className="h-4 w-4" />
+              Sign out other sessions
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Sign out other sessions</AlertDialogTitle>
+              <AlertDialogDescription>
+                This signs you out on every other device ({otherSessions}). Your current session stays signed in.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => revokeOthersMutation.mutate()}
+                className="bg-red-600 hover:bg-red-700 text-white"
+                data-testid="button-confirm-revoke-other-sessions"
+              >
+                Sign Out
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      {isLoading ? (
+        <div className="text-sm text-muted-foreground py-6 text-center">Loading...</div>
+      ) : (
+        <div className="space-y-3">
+          {sessions.map(session => {
+            const device = describeDevice(session.userAgent);
+            const DeviceIcon = device.mobile ? Smartphone : Monitor;
+            return (
+              <Card key={session.id} data-testid={`card-session-${session.id}`}>
+                <CardContent className="py-4">
+                  <div className="flex flex-wrap items-start gap-4 justify-between">
+                    <div className="flex items-start gap-3 min-w-0">
+                      <DeviceIcon className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+                      <div className="space-y-1.5 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-semibold text-sm" title={session.userAgent ?? undefined}>{device.label}</span>
+                          {session.current && <Badge variant="secondary" className="text-xs">This device</Badge>}
+                        </div>
+                        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                          <span className="flex items-center gap-1">
+                            <Globe className="h-3 w-3" />
+                            {session.ipAddress ?? "Unknown IP"}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            Last seen {formatDate(session.lastSeenAt)}
+                          </span>
+                          <span>Signed in {formatDate(session.loginAt)}</span>
+                        </div>
+                      </div>
+                    </div>
+                    {!session.current && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-500"
+                        data-testid={`button-revoke-session-${session.id}`}
+                        disabled={revokeMutation.isPending}
+                        onClick={() => revokeMutation.mutate(session.id)}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,30 @@
 import { useQuery } from "@tanstack/react-query";
 import UsageLogsTable from "@/components/UsageLogsTable";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { HardDrive } from "lucide-react";
 import { apiRequest } from "@/lib/api";
+import { formatBytes, formatUsd } from "@/lib/utils";
+
+interface ScanTotal {
+  queries: number;
+  dataScannedBytes: number;
+  estimatedCostUsd: number;
+}
+
+interface ScanTotalsResponse {
+  days: number;
+  // Only returned to org owners/admins
+  organization: ScanTotal | null;
+  users: (ScanTotal & { userId: string; username: string })[];
+}
 
 export default function UsageLogsPage() {
   const { data: logs = [], isLoading } = useQuery({
@@ -8,6 +32,11 @@ export default function UsageLogsPage() {
     queryFn: () => apiRequest('/api/logs'),
   });
 
+  const { data: scanTotals } = useQuery<ScanTotalsResponse>({
+    queryKey: ['/api/logs/scan-totals'],
+    queryFn: () => apiRequest('/api/logs/scan-totals'),
+  });
+
   const formattedLogs = logs.map((log: any) => ({
     id: log.id,
     timestamp: new Date(log.createdAt).toLocaleString(),
@@ -17,6 +46,10 @@ export default function UsageLogsPage() {
     rowsReturned: log.rowsReturned,
     executionTime: log.executionTime,
     status: log.status,
+    dataScannedBytes: log.dataScannedBytes,
+    engineExecutionTimeMs: log.engineExecutionTimeMs,
+    queueTimeMs: log.queueTimeMs,
+    estimatedCostUsd: log.estimatedCostUsd,
   }));
 
   return (
@@ -26,6 +59,53 @@ export default function UsageLogsPage() {
         <p className="text-muted-foreground">Monitor all query executions and system activity</p>
       </div>
 
+      {scanTotals && (scanTotals.organization || scanTotals.users.length > 0) && (
+        <Card data-testid="card-scan-totals">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <HardDrive className="h-5 w-5 text-primary" />
+              <CardTitle className="text-lg font-medium">Athena Data Scanned</CardTitle>
+            </div>
+            <CardDescription>
+              Last {scanTotals.days} days. Costs are estimates at Athena's list price per TB scanned.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {scanTotals.organization && (
+              <div className="flex gap-6 flex-wrap text-sm" data-testid="text-org-scan-total">
+                <span><span className="text-muted-foreground">Organization:</span> {formatBytes(scanTotals.organization.dataScannedBytes)}</span>
+                <span><span className="text-muted-foreground">Estimated cost:</span> {formatUsd(scanTotals.organization.estimatedCostUsd)}</span>
+                <span><span className="text-muted-foreground">Queries:</span> {scanTotals.organization.queries.toLocaleString()}</span>
+              </div>
+            )}
+            {scanTotals.users.length > 0 && (
+              <div className="border rounded-md overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="font-semibold">User</TableHead>
+                      <TableHead className="font-semibold text-right">Queries</TableHead>
+                      <TableHead className="font-semibold text-right">Scanned</TableHead>
+                      <TableHead className="font-semibold text-right">Est. Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {scanTotals.users.map(user => (
+                      <TableRow key={user.userId} data-testid={`row-scan-total-${user.userId}`}>
+                        <TableCell className="text-sm font-medium">{user.username}</TableCell>
+                        <TableCell className="text-sm text-right">{user.queries.toLocaleString()}</TableCell>
+                        <TableCell className="text-sm text-right">{formatBytes(user.dataScannedBytes)}</TableCell>
+                        <TableCell className="text-sm text-right">{formatUsd(user.estimatedCostUsd)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {isLoading ? (
         <div className="text-center py-12 text-muted-foreground">
           Loading logs...
@@ -0,0 +1,201 @@
+// Organization AI provider configuration. Provider, model, prompt and API keys live in
+// organization_ai_configs, with the keys encrypted at rest. Earlier versions kept the same
+// values as plain rows in settings; migrateAiSettings moves them over at startup.
+import { storage } from "./storage";
+import { log } from "./vite";
+import { getValidatedModel, type AIConfig, type AIProvider } from "./ai-service";
+import { DEFAULT_AI_REDACTION_RULES } from "./ai-redaction";
+import type { OrganizationAiConfig, InsertOrganizationAiConfig, Setting } from "@shared/schema";
+
+export const AI_CONFIG_PROVIDERS: AIProvider[] = ['openai', 'anthropic', 'gemini', 'ollama'];
+export const DEFAULT_OLLAMA_ENDPOINT = 'http://localhost:11434';
+
+const MAX_MODEL_LENGTH = 200;
+const MAX_PROMPT_LENGTH = 20000;
+
+type ApiKeyField = 'openaiApiKey' | 'anthropicApiKey' | 'geminiApiKey';
+
+export const AI_API_KEY_FIELDS: Record<Exclude<AIProvider, 'ollama'>, ApiKeyField> = {
+  openai: 'openaiApiKey',
+  anthropic: 'anthropicApiKey',
+  gemini: 'geminiApiKey',
+};
+
+const PROVIDER_NAMES: Record<AIProvider, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  gemini: 'Google Gemini',
+  ollama: 'Ollama',
+};
+
+// Settings rows that held the configuration before, and the column each one moves to
+const LEGACY_AI_SETTINGS: Record<string, Exclude<keyof InsertOrganizationAiConfig, 'organizationId'>> = {
+  ai_provider: 'aiProvider',
+  ai_model: 'aiModel',
+  ai_analysis_prompt: 'customPrompt',
+  openai_api_key: 'openaiApiKey',
+  anthropic_api_key: 'anthropicApiKey',
+  gemini_api_key: 'geminiApiKey',
+  ollama_url: 'ollamaEndpoint',
+};
+
+export const LEGACY_AI_SETTING_KEYS = Object.keys(LEGACY_AI_SETTINGS);
+
+export function isAiProvider(value: unknown): value is AIProvider {
+  return typeof value === 'string' && (AI_CONFIG_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Provider configuration to call with. `provider` defaults to the organization's selected
+ * one; for any other provider the model falls back to that provider's default.
+ */
+export function resolveAiConfig(stored: OrganizationAiConfig | undefined, provider?: AIProvider): AIConfig {
+  const selected = isAiProvider(stored?.aiProvider) ? stored!.aiProvider as AIProvider : 'openai';
+  const target = provider ?? selected;
+  return {
+    provider: target,
+    apiKey: target === 'ollama' ? undefined : stored?.[AI_API_KEY_FIELDS[target]] || undefined,
+    model: getValidatedModel(target, target === selected ? stored?.aiModel : undefined),
+    ollamaUrl: stored?.ollamaEndpoint || DEFAULT_OLLAMA_ENDPOINT,
+  };
+}
+
+/**
+ * Returns an error message when the provider cannot be called, or null
+ */
+export function getAiConfigError(config: AIConfig): string | null {
+  if (config.provider !== 'ollama' && !config.apiKey) {
+    return `${PROVIDER_NAMES[config.provider]} API key not configured. Please configure it in Administration > AI Configuration.`;
+  }
+  return null;
+}
+
+export function maskAiApiKey(key: string | null | undefined): string {
+  if (!key) return '';
+  return key.length < 12 ? '********' : `${key.slice(0, 7)}...${key.slice(-4)}`;
+}
+
+/**
+ * Configuration as returned to the admin UI, with API keys masked
+ */
+export function toAiConfigResponse(organizationId: string, stored: OrganizationAiConfig | undefined) {
+  const config = resolveAiConfig(stored);
+  return {
+    organizationId,
+    aiProvider: config.provider,
+    // As saved; models added to the organization's model list are not in the built-in list
+    aiModel: stored && stored.aiProvider === config.provider ? stored.aiModel : config.model,
+    customPrompt: stored?.customPrompt || '',
+    ollamaEndpoint: config.ollamaUrl,
+    openaiApiKey: maskAiApiKey(stored?.openaiApiKey),
+    anthropicApiKey: maskAiApiKey(stored?.anthropicApiKey),
+    geminiApiKey: maskAiApiKey(stored?.geminiApiKey),
+    // null when the organization uses the default redaction rules
+    redactionRules: stored?.redactionRules ?? null,
+    defaultRedactionRules: DEFAULT_AI_REDACTION_RULES,
+    // Monthly caps; null is no cap
+    monthlyTokenLimit: stored?.monthlyTokenLimit ?? null,
+    monthlyCostLimitUsd: stored?.monthlyCostLimitUsd ?? null,
+    configured: {
+      openai: !!stored?.openaiApiKey,
+      anthropic: !!stored?.anthropicApiKey,
+      gemini: !!stored?.geminiApiKey,
+      ollama: true,
+    },
+  };
+}
+
+/**
+ * Validate an AI configuration update from a request body. Every field is optional.
+ * Returns an error message, or null when the update is valid.
+ */
+export function validateAiConfigInput(body: Record<string, unknown>): string | null {
+  const { aiProvider, aiModel, customPrompt, ollamaEndpoint } = body;
+  if (aiProvider !== undefined && !isAiProvider(aiProvider)) {
+    return `aiProvider must be one of: ${AI_CONFIG_PROVIDERS.join(', ')}`;
+  }
+  if (aiModel !== undefined && (typeof aiModel !== 'string' || !aiModel.trim() || aiModel.length > MAX_MODEL_LENGTH)) {
+    return `aiModel must be a model name of at most ${MAX_MODEL_LENGTH} characters`;
+  }
+  if (customPrompt !== undefined && customPrompt !== null
+    && (typeof customPrompt !== 'string' || customPrompt.length > MAX_PROMPT_LENGTH)) {
+    return `customPrompt must be at most ${MAX_PROMPT_LENGTH} characters`;
+  }
+  if (ollamaEndpoint !== undefined && ollamaEndpoint !== null && ollamaEndpoint !== '') {
+    let url: URL | null = null;
+    try {
+      url = typeof ollamaEndpoint === 'string' ? new URL(ollamaEndpoint) : null;
+    } catch {}
+    if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+      return "ollamaEndpoint must be an http or https URL";
+    }
+  }
+  for (const field of Object.values(AI_API_KEY_FIELDS)) {
+    const value = body[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      return `${field} must be a string`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The stored value for an API key field after an update: undefined or the masked value
+ * keeps the current key, null or an empty string removes it
+ */
+export function nextAiApiKey(input: unknown, current: string | null | undefined): string | null {
+  if (input === undefined || (typeof input === 'string' && current && input === maskAiApiKey(current))) {
+    return current ?? null;
+  }
+  if (input === null || input === '') return null;
+  return String(input).trim();
+}
+
+/**
+ * Move AI settings rows into organization_ai_configs and delete them. Values already in
+ * organization_ai_configs are kept. Safe to run on every startup: once the rows are gone
+ * there is nothing left to move.
+ */
+export async function migrateAiSettings(): Promise<number> {
+  const rows = await storage.getSettingsWithKeys(LEGACY_AI_SETTING_KEYS);
+  const byOrganization = new Map<string, Setting[]>();
+  for (const row of rows) {
+    const list = byOrganization.get(row.organizationId!) || [];
+    list.push(row);
+    byOrganization.set(row.organizationId!, list);
+  }
+
+  if (byOrganization.size > 0 && !process.env.ENCRYPTION_KEY) {
+    console.warn('[ai-config] ENCRYPTION_KEY is not set; AI provider keys are moved but stored unencrypted.');
+  }
+
+  let migrated = 0;
+  for (const [organizationId, orgRows] of Array.from(byOrganization.entries())) {
+    try {
+      const existing = await storage.getOrganizationAiConfig(organizationId);
+      const config: InsertOrganizationAiConfig = { organizationId };
+      if (existing) {
+        const { id, createdAt, updatedAt, ...fields } = existing;
+        Object.assign(config, fields);
+      }
+      for (const row of orgRows) {
+        const field = LEGACY_AI_SETTINGS[row.key];
+        if (row.value && !(existing && existing[field])) {
+          (config as Record<string, unknown>)[field] = row.value;
+        }
+      }
+      await storage.upsertOrganizationAiConfig(config);
+      for (const row of orgRows) {
+        await storage.deleteSetting(row.key, organizationId);
+      }
+      migrated++;
+    } catch (error) {
+      console.error(`[ai-config] Failed to move AI settings for organization ${organizationId}:`, error);
+    }
+  }
+
+  if (migrated > 0) {
+    log(`Moved AI settings of ${migrated} organization(s) into organization_ai_configs`, 'ai-config');
+  }
+  return migrated;
+}
@@ -0,0 +1,86 @@
+// Explorer AI analysis conversations. The lookup data is formatted into the first message
+// and kept here with the replies, so a follow-up question only sends the question. Entries
+// live in process memory (handles are only valid on the server that issued them) and are
+// dropped after a period without activity.
+import crypto from "crypto";
+import type { ChatMessage } from "./ai-service";
+
+// Conversations idle for this long are dropped
+const CONVERSATION_IDLE_TTL = 30 * 60 * 1000; // 30 minutes
+// Oldest conversations are dropped past this many, to bound memory
+const MAX_CONVERSATIONS = 200;
+const SWEEP_INTERVAL = 60 * 1000;
+
+export const MAX_FOLLOW_UP_QUESTIONS = 20;
+export const MAX_FOLLOW_UP_LENGTH = 2000;
+
+export interface AnalysisConversation {
+  id: string;
+  organizationId: string;
+  userId: string;
+  sourceName: string;
+  // Fixed when the conversation starts, so later prompt edits do not change its context
+  systemPrompt: string;
+  messages: ChatMessage[];
+  // A reply is being generated; follow-ups wait for it
+  busy: boolean;
+  lastActiveAt: Date;
+}
+
+const conversations = new Map<string, AnalysisConversation>();
+
+const sweepTimer = setInterval(() => {
+  const cutoff = Date.now() - CONVERSATION_IDLE_TTL;
+  conversations.forEach((conversation, id) => {
+    if (!conversation.busy && conversation.lastActiveAt.getTime() < cutoff) conversations.delete(id);
+  });
+}, SWEEP_INTERVAL);
+sweepTimer.unref?.();
+
+export function createAnalysisConversation(params: {
+  organizationId: string;
+  userId: string;
+  sourceName: string;
+  systemPrompt: string;
+  dataMessage: string;
+}): AnalysisConversation {
+  const conversation: AnalysisConversation = {
+    id: crypto.randomUUID(),
+    organizationId: params.organizationId,
+    userId: params.userId,
+    sourceName: params.sourceName,
+    systemPrompt: params.systemPrompt,
+    messages: [{ role: 'user', content: params.dataMessage }],
+    busy: false,
+    lastActiveAt: new Date(),
+  };
+  conversations.set(conversation.id, conversation);
+  // Maps iterate in insertion order, so the first keys are the oldest
+  while (conversations.size > MAX_CONVERSATIONS) {
+    conversations.delete(conversations.keys().next().value!);
+  }
+  return conversation;
+}
+
+/**
+ * Look up a conversation for the user who started it
+ */
+export function getAnalysisConversation(id: string, organizationId: string, userId: string): AnalysisConversation | undefined {
+  const conversation = conversations.get(id);
+  if (!conversation || conversation.organizationId !== organizationId || conversation.userId !== userId) {
+    return undefined;
+  }
+  conversation.lastActiveAt = new Date();
+  return conversation;
+}
+
+/**
+ * Follow-up questions asked so far (the first user message is the data)
+ */
+export function countFollowUpQuestions(conversation: AnalysisConversation): number {
+  return conversation.messages.filter(message => message.role === 'user').length - 1;
+}
+
+export function deleteAnalysisConversation(id: string) {
+  conversations.delete(id);
+}
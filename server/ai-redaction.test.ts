@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { redactAnalysisData, validateAiRedactionRules, DEFAULT_AI_REDACTION_RULES } from "./ai-redaction";
+
+test("default rules hash, mask and remove personal columns", () => {
+  const rows = [
+    { msisdn: "491701234567", first_name: "Ana", card_number: "4111111111111111", plan: "Gold", note: "mail ana@example.com" },
+    { msisdn: "491701234567", first_name: "Ben", card_number: "5500000000000004", plan: "Basic", note: null },
+  ];
+  const { data, report } = redactAnalysisData(rows, DEFAULT_AI_REDACTION_RULES, "org-1");
+
+  assert.match(data[0].msisdn, /^\[hash:[0-9a-f]{16}\]$/);
+  assert.equal(data[0].msisdn, data[1].msisdn);
+  assert.equal(data[0].first_name, "[REDACTED]");
+  assert.equal("card_number" in data[0], false);
+  assert.equal(data[0].plan, "Gold");
+  assert.match(data[0].note, /^mail \[hash:[0-9a-f]{16}\]$/);
+  assert.equal(data[1].note, null);
+
+  assert.deepEqual(report.sources[0].columns, [
+    { column: "msisdn", treatment: "hashed" },
+    { column: "first_name", treatment: "masked" },
+    { column: "card_number", treatment: "removed" },
+    { column: "plan", treatment: "sent" },
+    { column: "note", treatment: "values redacted" },
+  ]);
+});
+
+test("hashes differ between organizations", () => {
+  const rows = [{ msisdn: "491701234567" }];
+  const a = redactAnalysisData(rows, DEFAULT_AI_REDACTION_RULES, "org-1").data[0].msisdn;
+  const b = redactAnalysisData(rows, DEFAULT_AI_REDACTION_RULES, "org-2").data[0].msisdn;
+  assert.notEqual(a, b);
+});
+
+test("multi-source data is redacted per source", () => {
+  const data = [
+    { source: "Billing", data: [{ msisdn: "1", amount: 5 }] },
+    { source: "Network", data: [{ cell: "A1" }] },
+  ];
+  const result = redactAnalysisData(data, DEFAULT_AI_REDACTION_RULES, "org-1");
+  assert.equal(result.data[0].source, "Billing");
+  assert.match(result.data[0].data[0].msisdn, /^\[hash:/);
+  assert.deepEqual(result.data[1].data, [{ cell: "A1" }]);
+  assert.deepEqual(result.report.sources.map(s => s.source), ["Billing", "Network"]);
+});
+
+test("rules are validated", () => {
+  assert.equal(validateAiRedactionRules(null), null);
+  assert.equal(validateAiRedactionRules(DEFAULT_AI_REDACTION_RULES), null);
+  assert.match(validateAiRedactionRules([{ columnPattern: "x", action: "encrypt" }]) ?? "", /action must be one of/);
+  assert.match(validateAiRedactionRules([{ columnPattern: "(", action: "mask" }]) ?? "", /invalid column pattern/);
+  assert.match(validateAiRedactionRules([{ valuePattern: "x", action: "remove" }]) ?? "", /whole columns/);
+});
+
+test("patterns that can backtrack exponentially are refused", () => {
+  for (const pattern of ["(a+)+", "(\\w*\\s?)*$", "(?:x|y+){2,}", "((ab)*c)+", "(a?)+", "(a{1,2})+", "(a)\\1", "(?<n>a)\\k<n>"]) {
+    assert.notEqual(validateAiRedactionRules([{ valuePattern: pattern, action: "mask" }]), null, pattern);
+  }
+  for (const pattern of ["(ab)+", "[(+]+x", "(a+)?", "(?:\\d{3}){2}", "\\(\\d+\\)+", "(a+){1}"]) {
+    assert.equal(validateAiRedactionRules([{ valuePattern: pattern, action: "mask" }]), null, pattern);
+  }
+});
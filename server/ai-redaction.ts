@@ -0,0 +1,293 @@
+// Redaction of row data before it is sent to an AI provider. The organization's rules (or
+// the defaults below) mask, hash or remove columns matched by name, and replace the parts
+// of values that match a regex. The report lists every column that was sent and how it
+// was treated, for the audit log.
+import crypto from "crypto";
+import { AI_REDACTION_ACTIONS, type AiRedactionRule } from "@shared/schema";
+import { isMultiSourceData } from "./ai-service";
+import { deriveKey } from "./encryption";
+
+export const MAX_REDACTION_RULES = 50;
+const MAX_PATTERN_LENGTH = 500;
+
+const MASKED_VALUE = '[REDACTED]';
+
+// Applied when an organization has not configured its own rules
+export const DEFAULT_AI_REDACTION_RULES: AiRedactionRule[] = [
+  // Subscriber and device identifiers are hashed, so equal values still match across sources
+  { columnPattern: 'msisdn|imsi|imei|iccid|phone|mobile_?(no|num|number)|e_?mail', action: 'hash' },
+  { columnPattern: '^(first|last|full|given|middle|family|customer|contact|subscriber)?_?name$', action: 'mask' },
+  { columnPattern: 'address|street|(^|_)city($|_)|post_?code|postal|(^|_)zip', action: 'mask' },
+  { columnPattern: 'birth|(^|_)dob($|_)', action: 'mask' },
+  // Payment and identity document numbers are never sent
+  { columnPattern: 'iban|card_?(no|num|number)|(^|_)pan($|_)|ssn|passport|national_?id|tax_?id', action: 'remove' },
+  // Email addresses in any other column
+  { valuePattern: '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}', action: 'hash' },
+];
+
+export type ColumnTreatment = 'sent' | 'masked' | 'hashed' | 'removed' | 'values redacted';
+
+export interface RedactionReport {
+  // Per source (null for single-source data), each column and how it was treated
+  sources: { source: string | null; columns: { column: string; treatment: ColumnTreatment }[] }[];
+}
+
+interface CompiledRule {
+  column: RegExp | null;
+  value: RegExp | null;
+  action: AiRedactionRule['action'];
+}
+
+interface Quantifier {
+  // Can match more than once
+  repeating: boolean;
+  // The number of matches varies (?, *, +, {n,m}), which lets the engine backtrack
+  variable: boolean;
+  length: number;
+}
+
+function readQuantifier(pattern: string, index: number): Quantifier | null {
+  const ch = pattern[index];
+  if (ch === '*' || ch === '+') return { repeating: true, variable: true, length: 1 };
+  if (ch === '?') return { repeating: false, variable: true, length: 1 };
+  const braces = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+  if (!braces) return null;
+  const min = Number(braces[1]);
+  const max = braces[2] === undefined ? min : braces[3] === '' ? Infinity : Number(braces[3]);
+  return { repeating: max > 1, variable: max > min, length: braces[0].length };
+}
+
+/**
+ * Patterns run over every value sent for analysis, so ones that can backtrack
+ * exponentially are refused: a repeated group containing a variable repeat, such as
+ * (a+)+ or (\w*\s?)*, and backreferences. Returns why the pattern is refused, or null.
+ */
+function getBacktrackingRisk(pattern: string): string | null {
+  // Whether each open group (and the pattern itself) contains a variable repeat
+  const groups: boolean[] = [false];
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) return 'must not use backreferences';
+      i++;
+    } else if (ch === '[') {
+      // Skip the character class; a ] first in the class is a literal
+      i += pattern[i + 1] === ']' ? 2 : 1;
+      while (i < pattern.length && pattern[i] !== ']') {
+        if (pattern[i] === '\\') i++;
+        i++;
+      }
+    } else if (ch === '(') {
+      groups.push(false);
+      // Skip (?:, (?=, (?!, (?<=, (?<! and (?<name>, whose ? is not a quantifier
+      if (pattern[i + 1] === '?') {
+        const prefix = /^\?(<[=!]|<[A-Za-z_$][\w$]*>|[:=!])/.exec(pattern.slice(i + 1));
+        i += prefix ? prefix[0].length : 1;
+      }
+    } else if (ch === ')') {
+      const containsRepeat = groups.pop() ?? false;
+      const quantifier = readQuantifier(pattern, i + 1);
+      if (quantifier?.repeating && containsRepeat) {
+        return 'must not repeat a group that itself contains a repeat, such as (a+)+';
+      }
+      if (groups.length === 0) groups.push(false);
+      groups[groups.length - 1] ||= containsRepeat || !!quantifier?.variable;
+      if (quantifier) i += quantifier.length;
+    } else {
+      const quantifier = readQuantifier(pattern, i);
+      if (quantifier) {
+        groups[groups.length - 1] ||= quantifier.variable;
+        i += quantifier.length - 1;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate redaction rules from a request body. null restores the defaults.
+ * Returns an error message, or null when the rules are valid.
+ */
+export function validateAiRedactionRules(rules: unknown): string | null {
+  if (rules === null) return null;
+  if (!Array.isArray(rules)) {
+    return "redactionRules must be a list of rules, or null for the defaults";
+  }
+  if (rules.length > MAX_REDACTION_RULES) {
+    return `At most ${MAX_REDACTION_RULES} redaction rules are allowed`;
+  }
+  for (let index = 0; index < rules.length; index++) {
+    const rule = rules[index];
+    const label = `Redaction rule ${index + 1}`;
+    if (!rule || typeof rule !== 'object') {
+      return `${label} is not a rule`;
+    }
+    const { columnPattern, valuePattern, action } = rule as Record<string, unknown>;
+    if (typeof action !== 'string' || !(AI_REDACTION_ACTIONS as readonly string[]).includes(action)) {
+      return `${label}: action must be one of: ${AI_REDACTION_ACTIONS.join(', ')}`;
+    }
+    for (const [field, pattern] of [['column pattern', columnPattern], ['value pattern', valuePattern]] as const) {
+      if (pattern === undefined || pattern === null || pattern === '') continue;
+      if (typeof pattern !== 'string' || pattern.length > MAX_PATTERN_LENGTH) {
+        return `${label}: the ${field} must be a regular expression of at most ${MAX_PATTERN_LENGTH} characters`;
+      }
+      try {
+        new RegExp(pattern);
+      } catch (error: any) {
+        return `${label}: invalid ${field}: ${error.message}`;
+      }
+      const unsafe = getBacktrackingRisk(pattern);
+      if (unsafe) {
+        return `${label}: the ${field} ${unsafe}`;
+      }
+    }
+    if (!columnPattern && !valuePattern) {
+      return `${label} needs a column pattern, a value pattern or both`;
+    }
+    if (action === 'remove' && valuePattern) {
+      return `${label}: remove applies to whole columns; use mask or hash with a value pattern`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalize validated rules for storage
+ */
+export function readAiRedactionRules(rules: any[] | null): AiRedactionRule[] | null {
+  if (rules === null) return null;
+  return rules.map(rule => ({
+    columnPattern: rule.columnPattern?.trim() || null,
+    valuePattern: rule.valuePattern || null,
+    action: rule.action,
+  }));
+}
+
+function compileRules(rules: AiRedactionRule[]): CompiledRule[] {
+  return rules.map(rule => ({
+    column: rule.columnPattern ? new RegExp(rule.columnPattern, 'i') : null,
+    value: rule.valuePattern ? new RegExp(rule.valuePattern, 'g') : null,
+    action: rule.action,
+  }));
+}
+
+let hashKey: Buffer | null = null;
+
+// HMAC key for hashed values. Without ENCRYPTION_KEY a random key is used, so hashes only
+// stay stable until the server restarts.
+function getHashKey(): Buffer {
+  if (!hashKey) {
+    hashKey = deriveKey('ai-redaction-hash');
+    if (!hashKey) {
+      console.warn('[ai-redaction] ENCRYPTION_KEY is not set; hashed values change when the server restarts.');
+      hashKey = crypto.randomBytes(32);
+    }
+  }
+  return hashKey;
+}
+
+// Stable within an organization, so the model can still tell equal values apart from
+// different ones. Keyed with a server secret: short values such as phone numbers cannot
+// be recovered by hashing every candidate without the key.
+function hashValue(value: string, organizationId: string): string {
+  const digest = crypto.createHmac('sha256', getHashKey()).update(`${organizationId}:${value}`).digest('hex');
+  return `[hash:${digest.slice(0, 16)}]`;
+}
+
+function replaceValue(value: string, action: AiRedactionRule['action'], organizationId: string): string {
+  return action === 'hash' ? hashValue(value, organizationId) : MASKED_VALUE;
+}
+
+/**
+ * Apply redaction rules to analysis data (plain rows or Explorer's multi-source format).
+ * Whole-column rules use the first matching rule in order; value rules all apply, in order.
+ */
+export function redactAnalysisData(
+  data: any[],
+  rules: AiRedactionRule[],
+  organizationId: string
+): { data: any[]; report: RedactionReport } {
+  const compiled = compileRules(rules);
+  const multiSource = isMultiSourceData(data);
+  const sources: { source: string | null; rows: Record<string, any>[] }[] = multiSource
+    ? data.map(sourceData => ({ source: sourceData.source, rows: sourceData.data || [] }))
+    : [{ source: null, rows: data }];
+
+  const report: RedactionReport = { sources: [] };
+  const redactedSources = sources.map(({ source, rows }) => {
+    const treatments = new Map<string, ColumnTreatment>();
+    // Rules for each column, decided once per source
+    const plans = new Map<string, { whole: CompiledRule | undefined; values: CompiledRule[] }>();
+    const planFor = (column: string) => {
+      let plan = plans.get(column);
+      if (!plan) {
+        const applicable = compiled.filter(rule => !rule.column || rule.column.test(column));
+        plan = {
+          whole: applicable.find(rule => !rule.value),
+          values: applicable.filter(rule => rule.value),
+        };
+        plans.set(column, plan);
+        treatments.set(column, !plan.whole ? 'sent'
+          : plan.whole.action === 'remove' ? 'removed'
+          : plan.whole.action === 'hash' ? 'hashed' : 'masked');
+      }
+      return plan;
+    };
+
+    const redactedRows = rows.map(row => {
+      const redacted: Record<string, any> = {};
+      for (const [column, value] of Object.entries(row)) {
+        const plan = planFor(column);
+        if (plan.whole) {
+          if (plan.whole.action !== 'remove') {
+            redacted[column] = value === null || value === undefined
+              ? value
+              : replaceValue(String(value), plan.whole.action, organizationId);
+          }
+          continue;
+        }
+        if (plan.values.length === 0 || value === null || value === undefined) {
+          redacted[column] = value;
+          continue;
+        }
+        const original = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        let text = original;
+        for (const rule of plan.values) {
+          text = text.replace(rule.value!, match => replaceValue(match, rule.action, organizationId));
+        }
+        if (text !== original) {
+          redacted[column] = text;
+          treatments.set(column, 'values redacted');
+        } else {
+          redacted[column] = value;
+        }
+      }
+      return redacted;
+    });
+
+    report.sources.push({
+      source,
+      columns: Array.from(treatments.entries()).map(([column, treatment]) => ({ column, treatment })),
+    });
+    return { source, rows: redactedRows };
+  });
+
+  return {
+    data: multiSource
+      ? redactedSources.map(({ source, rows }) => ({ source, data: rows }))
+      : redactedSources[0].rows,
+    report,
+  };
+}
+
+/**
+ * One line per source for the audit log, e.g. "Billing: msisdn (hashed), plan, name (masked)"
+ */
+export function formatRedactionReport(report: RedactionReport): string {
+  return report.sources.map(({ source, columns }) => {
+    const list = columns.length > 0
+      ? columns.map(({ column, treatment }) => treatment === 'sent' ? column : `${column} (${treatment})`).join(', ')
+      : 'no columns';
+    return source ? `${source}: ${list}` : list;
+  }).join('; ');
+}
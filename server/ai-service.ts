@@ -12,8 +12,8 @@ export interface AIConfig {
 }
 
 export interface AnalysisRequest {
-  data: any[];
-  sourceName: string;
+  // From buildAnalysisMessage
+  dataMessage: string;
   systemPrompt: string;
   config: AIConfig;
 }
@@ -70,75 +70,139 @@ export function getValidatedModel(provider: AIProvider, model: string | undefine
   return getDefaultModelForProvider(provider);
 }
 
-async function analyzeWithOpenAI(request: AnalysisRequest): Promise<string> {
-  const { config, systemPrompt, data, sourceName } = request;
-  
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// A system prompt and a conversation, sent the same way to every provider
+interface ChatRequest {
+  system: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature?: number;
+}
+
+// Called with each piece of text as the provider produces it
+export type ChatDeltaHandler = (text: string) => void;
+
+export interface ChatUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // The provider reported no usage, so the counts come from estimateTokens
+  estimated: boolean;
+}
+
+export interface ChatResult {
+  text: string;
+  usage: ChatUsage;
+}
+
+// Token counts as far as the provider reported them
+type ReportedUsage = { inputTokens?: number; outputTokens?: number };
+
+/**
+ * A provider call failed or was aborted. `usage` covers what was sent and any text
+ * received before the failure, so the call can still be metered.
+ */
+export class AIProviderError extends Error {
+  usage: ChatUsage;
+
+  constructor(message: string, usage: ChatUsage) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.usage = usage;
+  }
+}
+
+async function streamWithOpenAI(config: AIConfig, chat: ChatRequest, onDelta: ChatDeltaHandler, usage: ReportedUsage, signal?: AbortSignal) {
   if (!config.apiKey) {
     throw new Error("OpenAI API key not configured");
   }
 
   const openai = new OpenAI({ apiKey: config.apiKey });
-  const dataContext = formatDataContext(data, sourceName);
-
-  const completion = await openai.chat.completions.create({
+  const stream = await openai.chat.completions.create({
     model: config.model,
     messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: `Please analyze the following data:\n\n${dataContext}` },
+      { role: "system", content: chat.system },
+      ...chat.messages,
     ],
-    max_tokens: 2000,
-    temperature: 0.7,
-  });
-
-  return completion.choices[0]?.message?.content || "Unable to generate analysis.";
+    max_tokens: chat.maxTokens,
+    temperature: chat.temperature,
+    stream: true,
+    // Usage arrives in a last chunk without choices
+    stream_options: { include_usage: true },
+  }, { signal });
+
+  for await (const chunk of stream) {
+    const text = chunk.choices[0]?.delta?.content;
+    if (text) onDelta(text);
+    if (chunk.usage) {
+      usage.inputTokens = chunk.usage.prompt_tokens;
+      usage.outputTokens = chunk.usage.completion_tokens;
+    }
+  }
 }
 
-async function analyzeWithAnthropic(request: AnalysisRequest): Promise<string> {
-  const { config, systemPrompt, data, sourceName } = request;
-  
+async function streamWithAnthropic(config: AIConfig, chat: ChatRequest, onDelta: ChatDeltaHandler, usage: ReportedUsage, signal?: AbortSignal) {
   if (!config.apiKey) {
     throw new Error("Anthropic API key not configured");
   }
 
   const anthropic = new Anthropic({ apiKey: config.apiKey });
-  const dataContext = formatDataContext(data, sourceName);
-
-  const message = await anthropic.messages.create({
+  const stream = await anthropic.messages.create({
     model: config.model,
-    max_tokens: 2000,
-    system: systemPrompt,
-    messages: [
-      { role: "user", content: `Please analyze the following data:\n\n${dataContext}` },
-    ],
-  });
-
-  const textBlock = message.content.find(block => block.type === 'text');
-  return textBlock && 'text' in textBlock ? textBlock.text : "Unable to generate analysis.";
+    max_tokens: chat.maxTokens,
+    temperature: chat.temperature,
+    system: chat.system,
+    messages: chat.messages,
+    stream: true,
+  }, { signal });
+
+  for await (const event of stream) {
+    if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+      onDelta(event.delta.text);
+    } else if (event.type === 'message_start') {
+      usage.inputTokens = event.message.usage.input_tokens;
+      usage.outputTokens = event.message.usage.output_tokens;
+    } else if (event.type === 'message_delta') {
+      usage.outputTokens = event.usage.output_tokens;
+    }
+  }
 }
 
-async function analyzeWithGemini(request: AnalysisRequest): Promise<string> {
-  const { config, systemPrompt, data, sourceName } = request;
-  
+async function streamWithGemini(config: AIConfig, chat: ChatRequest, onDelta: ChatDeltaHandler, usage: ReportedUsage, signal?: AbortSignal) {
   if (!config.apiKey) {
     throw new Error("Google API key not configured");
   }
 
   const genAI = new GoogleGenerativeAI(config.apiKey);
-  const model = genAI.getGenerativeModel({ model: config.model });
-  const dataContext = formatDataContext(data, sourceName);
-
-  const prompt = `${systemPrompt}\n\nPlease analyze the following data:\n\n${dataContext}`;
-  const result = await model.generateContent(prompt);
-  const response = await result.response;
+  const model = genAI.getGenerativeModel({
+    model: config.model,
+    systemInstruction: chat.system,
+    generationConfig: { maxOutputTokens: chat.maxTokens, temperature: chat.temperature },
+  });
 
-  return response.text() || "Unable to generate analysis.";
+  const result = await model.generateContentStream({
+    contents: chat.messages.map(message => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: message.content }],
+    })),
+  }, { signal });
+
+  for await (const chunk of result.stream) {
+    const text = chunk.text();
+    if (text) onDelta(text);
+    // Each chunk carries the running totals
+    if (chunk.usageMetadata) {
+      usage.inputTokens = chunk.usageMetadata.promptTokenCount;
+      usage.outputTokens = chunk.usageMetadata.candidatesTokenCount;
+    }
+  }
 }
 
-async function analyzeWithOllama(request: AnalysisRequest): Promise<string> {
-  const { config, systemPrompt, data, sourceName } = request;
-  
+async function streamWithOllama(config: AIConfig, chat: ChatRequest, onDelta: ChatDeltaHandler, usage: ReportedUsage, signal?: AbortSignal) {
   const ollamaUrl = config.ollamaUrl || 'http://localhost:11434';
-  const dataContext = formatDataContext(data, sourceName);
 
   const response = await fetch(`${ollamaUrl}/api/chat`, {
     method: 'POST',
@@ -146,19 +210,156 @@ async function analyzeWithOllama(request: AnalysisRequest): Promise<string> {
     body: JSON.stringify({
       model: config.model,
       messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: `Please analyze the following data:\n\n${dataContext}` },
+        { role: "system", content: chat.system },
+        ...chat.messages,
       ],
-      stream: false,
+      options: { num_predict: chat.maxTokens, temperature: chat.temperature, num_ctx: getContextWindow(config) },
+      stream: true,
     }),
+    signal,
   });
 
-  if (!response.ok) {
+  if (!response.ok || !response.body) {
     throw new Error(`Ollama request failed: ${response.statusText}`);
   }
 
-  const result = await response.json() as { message?: { content?: string } };
-  return result.message?.content || "Unable to generate analysis.";
+  // Ollama streams one JSON object per line
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const part = JSON.parse(line) as {
+      message?: { content?: string };
+      error?: string;
+      // On the last line
+      prompt_eval_count?: number;
+      eval_count?: number;
+    };
+    if (part.error) throw new Error(`Ollama request failed: ${part.error}`);
+    if (part.message?.content) onDelta(part.message.content);
+    if (part.prompt_eval_count !== undefined) usage.inputTokens = part.prompt_eval_count;
+    if (part.eval_count !== undefined) usage.outputTokens = part.eval_count;
+  };
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffered + decoder.decode());
+}
+
+// Reported counts where the provider gave them, estimates for the rest
+function resolveUsage(request: ChatRequest, text: string, reported: ReportedUsage): ChatUsage {
+  const estimated = reported.inputTokens === undefined || reported.outputTokens === undefined;
+  return {
+    inputTokens: reported.inputTokens
+      ?? estimateTokens(request.system + request.messages.map(message => message.content).join('')),
+    outputTokens: reported.outputTokens ?? estimateTokens(text),
+    estimated,
+  };
+}
+
+/**
+ * Stream a completion from the configured provider, passing each piece of text to
+ * `onDelta`. Resolves with the full text and the tokens used; failures are thrown as
+ * AIProviderError.
+ */
+export async function streamChat(
+  config: AIConfig,
+  request: ChatRequest,
+  onDelta: ChatDeltaHandler = () => {},
+  signal?: AbortSignal
+): Promise<ChatResult> {
+  let text = '';
+  const collect = (delta: string) => {
+    text += delta;
+    onDelta(delta);
+  };
+  const reported: ReportedUsage = {};
+  try {
+    switch (config.provider) {
+      case 'openai':
+        await streamWithOpenAI(config, request, collect, reported, signal);
+        break;
+      case 'anthropic':
+        await streamWithAnthropic(config, request, collect, reported, signal);
+        break;
+      case 'gemini':
+        await streamWithGemini(config, request, collect, reported, signal);
+        break;
+      case 'ollama':
+        await streamWithOllama(config, request, collect, reported, signal);
+        break;
+      default:
+        throw new Error(`Unsupported AI provider: ${config.provider}`);
+    }
+  } catch (error: any) {
+    // Providers do not bill requests that fail before generating anything
+    const generated = text.length > 0 || reported.inputTokens !== undefined;
+    throw new AIProviderError(
+      error.message || 'AI provider request failed',
+      generated ? resolveUsage(request, text, reported) : { inputTokens: 0, outputTokens: 0, estimated: false }
+    );
+  }
+  return { text, usage: resolveUsage(request, text, reported) };
+}
+
+function chat(config: AIConfig, request: ChatRequest): Promise<ChatResult> {
+  return streamChat(config, request);
+}
+
+// Context window in tokens by model name prefix (most specific first); other models use
+// their provider's default
+const MODEL_CONTEXT_WINDOWS: [string, number][] = [
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4.1', 1000000],
+  ['gpt-3.5-turbo', 16385],
+  ['gpt-4', 8192],
+  ['claude', 200000],
+  ['gemini-1.5', 1000000],
+  ['gemini-2', 1000000],
+];
+
+const PROVIDER_CONTEXT_WINDOWS: Record<AIProvider, number> = {
+  openai: 128000,
+  anthropic: 200000,
+  gemini: 1000000,
+  // Also sent as num_ctx, since Ollama's own default is much smaller
+  ollama: 8192,
+};
+
+// Row data is capped below the context window to bound cost and latency
+const MAX_ANALYSIS_DATA_TOKENS = 50000;
+const ANALYSIS_MAX_TOKENS = 2000;
+// Room left for follow-up questions and answers
+const FOLLOW_UP_RESERVE_TOKENS = 16000;
+
+export function getContextWindow(config: AIConfig): number {
+  const match = MODEL_CONTEXT_WINDOWS.find(([prefix]) => config.model.startsWith(prefix));
+  return match ? match[1] : PROVIDER_CONTEXT_WINDOWS[config.provider];
+}
+
+/**
+ * Rough token count: about four characters per token for English text and tabular data.
+ * Errs high for digits and punctuation, which is the safe side for budgeting.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Tokens the row data of an analysis may use with this model and system prompt
+ */
+export function getAnalysisDataBudget(config: AIConfig, systemPrompt: string): number {
+  const window = getContextWindow(config);
+  const reserve = Math.min(FOLLOW_UP_RESERVE_TOKENS, Math.floor(window / 4));
+  const available = window - estimateTokens(systemPrompt) - ANALYSIS_MAX_TOKENS - reserve;
+  return Math.max(0, Math.min(MAX_ANALYSIS_DATA_TOKENS, available));
 }
 
 function formatRowAsTable(row: Record<string, any>): string {
@@ -170,63 +371,338 @@ function formatRowAsTable(row: Record<string, any>): string {
   return lines.join('\n');
 }
 
-function formatDataAsReadable(rows: any[]): string {
-  if (!rows || rows.length === 0) return 'No data found';
-  
-  const formattedRows = rows.map((row, index) => {
-    return `Record ${index + 1}:\n${formatRowAsTable(row)}`;
-  });
-  
-  return formattedRows.join('\n\n');
+/**
+ * Explorer sends results as [{ source, data: rows }]; other callers send plain rows
+ */
+export function isMultiSourceData(data: any[]): boolean {
+  return Array.isArray(data) && data.length > 0 &&
+    data[0]?.source !== undefined && Array.isArray(data[0]?.data);
 }
 
-function formatDataContext(data: any[], sourceName: string): string {
-  // Check if this is multi-source data (from Explorer with all sources)
-  const isMultiSource = Array.isArray(data) && data.length > 0 && 
-    data[0]?.source !== undefined && Array.isArray(data[0]?.data);
+interface AnalysisSource {
+  name: string | null;
+  // Formatted records, numbered by their position in the source
+  records: string[];
+  tokens: number[];
+}
+
+// Evenly spaced sample of `count` indexes out of `total`, always including the first
+function sampleIndexes(total: number, count: number): number[] {
+  if (count >= total) return Array.from({ length: total }, (_, i) => i);
+  return Array.from({ length: count }, (_, i) => Math.floor((i * total) / count));
+}
 
-  if (isMultiSource) {
-    let context = `Analysis Request: ${sourceName || 'Multi-Source Lookup'}\n\n`;
-    let totalRows = 0;
-    
-    for (const sourceData of data) {
-      const rowCount = sourceData.data?.length || 0;
-      totalRows += rowCount;
-      context += `=== ${sourceData.source} (${rowCount} rows) ===\n`;
-      if (rowCount > 0) {
-        context += formatDataAsReadable(sourceData.data);
-      } else {
-        context += 'No data found';
-      }
+export interface AnalysisMessage {
+  message: string;
+  rowsSent: number;
+  totalRows: number;
+  sourcesAnalyzed: number;
+  estimatedTokens: number;
+  // Rows were left out to fit the token budget
+  sampled: boolean;
+}
+
+/**
+ * First message of an analysis: the rows formatted for the model. When they do not fit
+ * `tokenBudget`, every source is sampled evenly to the same share of its rows.
+ */
+export function buildAnalysisMessage(data: any[], sourceName: string, tokenBudget: number): AnalysisMessage {
+  const multiSource = isMultiSourceData(data);
+  const sources: AnalysisSource[] = (multiSource ? data : [{ source: null, data }]).map((sourceData: any) => {
+    const records = (sourceData.data || []).map((row: Record<string, any>, index: number) =>
+      `Record ${index + 1}:\n${formatRowAsTable(row)}`
+    );
+    return { name: sourceData.source, records, tokens: records.map(estimateTokens) };
+  });
+  const totalRows = sources.reduce((sum, source) => sum + source.records.length, 0);
+
+  // Any share above zero keeps at least one row of each source
+  const sampleFor = (share: number) => sources.map(source => sampleIndexes(
+    source.records.length,
+    share > 0 ? Math.max(1, Math.floor(source.records.length * share)) : 0
+  ));
+  const tokensFor = (samples: number[][]) => samples.reduce(
+    (sum, indexes, i) => sum + indexes.reduce((t, index) => t + sources[i].tokens[index], 0), 0
+  );
+
+  let samples = sampleFor(1);
+  if (tokensFor(samples) > tokenBudget) {
+    // Largest share of rows that fits
+    let low = 0;
+    let high = 1;
+    for (let step = 0; step < 20; step++) {
+      const mid = (low + high) / 2;
+      if (tokensFor(sampleFor(mid)) <= tokenBudget) low = mid;
+      else high = mid;
+    }
+    samples = sampleFor(low);
+  }
+  const rowsSent = samples.reduce((sum, indexes) => sum + indexes.length, 0);
+  const sampled = rowsSent < totalRows;
+  const samplingNote = sampled
+    ? `Note: ${rowsSent} of ${totalRows} rows are shown, sampled evenly to fit the context window. Record numbers refer to the full results.\n\n`
+    : '';
+
+  let context: string;
+  if (multiSource) {
+    context = `Analysis Request: ${sourceName || 'Multi-Source Lookup'}\n\n`;
+    sources.forEach((source, i) => {
+      const shown = samples[i].length < source.records.length ? `, ${samples[i].length} shown` : '';
+      context += `=== ${source.name} (${source.records.length} rows${shown}) ===\n`;
+      context += samples[i].length > 0
+        ? samples[i].map(index => source.records[index]).join('\n\n')
+        : 'No data found';
       context += '\n\n';
+    });
+    context = `Total Sources: ${sources.length}\nTotal Rows Across All Sources: ${totalRows}\n${samplingNote}\n${context}`;
+  } else {
+    const records = samples[0].map(index => sources[0].records[index]);
+    context = `Source: ${sourceName || 'Unknown'}
+Total Rows: ${totalRows}
+${samplingNote}Data:
+${records.length > 0 ? records.join('\n\n') : 'No data found'}`;
+  }
+
+  const message = `Please analyze the following data:\n\n${context}`;
+  return {
+    message,
+    rowsSent,
+    totalRows,
+    sourcesAnalyzed: sources.length,
+    estimatedTokens: estimateTokens(message),
+    sampled,
+  };
+}
+
+/**
+ * Stream the next assistant reply of an analysis conversation. `messages` starts with
+ * the data message and alternates user and assistant turns after it.
+ */
+export function streamAnalysis(
+  config: AIConfig,
+  systemPrompt: string,
+  messages: ChatMessage[],
+  onDelta: ChatDeltaHandler,
+  signal?: AbortSignal
+): Promise<ChatResult> {
+  return streamChat(config, { system: systemPrompt, messages, maxTokens: ANALYSIS_MAX_TOKENS, temperature: 0.7 }, onDelta, signal);
+}
+
+export async function analyzeData(request: AnalysisRequest): Promise<{ analysis: string; usage: ChatUsage }> {
+  const { config, systemPrompt, dataMessage } = request;
+  const { text, usage } = await chat(config, {
+    system: systemPrompt,
+    messages: [{ role: 'user', content: dataMessage }],
+    maxTokens: ANALYSIS_MAX_TOKENS,
+    temperature: 0.7,
+  });
+  return { analysis: text || "Unable to generate analysis.", usage };
+}
+
+/**
+ * Send a minimal prompt to check the key, model and endpoint of a configuration
+ */
+export async function testAIConnection(
+  config: AIConfig
+): Promise<{ success: boolean; message: string; latencyMs: number; usage: ChatUsage }> {
+  const startTime = Date.now();
+  try {
+    const { usage } = await chat(config, {
+      system: 'You are a connection test.',
+      messages: [{ role: 'user', content: 'Reply with the single word OK.' }],
+      maxTokens: 5,
+      temperature: 0,
+    });
+    return {
+      success: true,
+      message: `Connected to ${config.provider} using ${config.model}`,
+      latencyMs: Date.now() - startTime,
+      usage,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      message: error.message || 'Connection test failed',
+      latencyMs: Date.now() - startTime,
+      usage: error instanceof AIProviderError ? error.usage : { inputTokens: 0, outputTokens: 0, estimated: false },
+    };
+  }
+}
+
+// ---- SQL assistant -------------------------------------------------------
+
+export const SQL_ASSIST_MODES = ['generate', 'explain', 'fix'] as const;
+
+export type SqlAssistMode = typeof SQL_ASSIST_MODES[number];
+
+// Dialect named in the prompt, by connection type (the org Athena config is 'athena')
+const SQL_DIALECTS: Record<string, { label: string; hints: string }> = {
+  athena: {
+    label: 'Amazon Athena (Trino SQL)',
+    hints: 'Quote identifiers with double quotes. Use LIMIT. Dates use date_parse/from_iso8601_timestamp; string functions follow Trino.',
+  },
+  postgresql: {
+    label: 'PostgreSQL',
+    hints: 'Quote identifiers with double quotes. Use LIMIT. Qualify tables outside the public schema.',
+  },
+  mysql: {
+    label: 'MySQL',
+    hints: 'Quote identifiers with backticks. Use LIMIT.',
+  },
+  mssql: {
+    label: 'Microsoft SQL Server (T-SQL)',
+    hints: 'Quote identifiers with square brackets. Use SELECT TOP n or OFFSET/FETCH instead of LIMIT.',
+  },
+  bigquery: {
+    label: 'Google BigQuery (GoogleSQL)',
+    hints: 'Quote identifiers with backticks and qualify tables with their dataset. Use LIMIT.',
+  },
+  snowflake: {
+    label: 'Snowflake',
+    hints: 'Identifiers are upper case unless quoted with double quotes. Use LIMIT.',
+  },
+  clickhouse: {
+    label: 'ClickHouse',
+    hints: 'Quote identifiers with backticks or double quotes. Use LIMIT. Functions are case-sensitive.',
+  },
+};
+
+// Upper bound on the schema text sent with each request
+const MAX_SCHEMA_CONTEXT_CHARS = 24000;
+
+export interface SchemaContextTable {
+  name: string;
+  schema?: string;
+  columns: { name: string; type: string }[];
+}
+
+export interface SqlAssistRequest {
+  mode: SqlAssistMode;
+  // Connection type, see SQL_DIALECTS
+  connectionType: string;
+  database?: string;
+  tables: SchemaContextTable[];
+  question?: string;
+  // The failed query and its error (explain and fix modes)
+  query?: string;
+  error?: string;
+  config: AIConfig;
+}
+
+export interface SqlAssistResult {
+  // null in explain mode, or when the model did not return a query
+  sql: string | null;
+  explanation: string;
+  dialect: string;
+  usage: ChatUsage;
+}
+
+export function getSqlDialectLabel(connectionType: string): string {
+  return SQL_DIALECTS[connectionType]?.label ?? connectionType;
+}
+
+function formatSchemaContext(database: string | undefined, tables: SchemaContextTable[]): string {
+  const lines: string[] = [];
+  let length = 0;
+  let omitted = 0;
+  for (const table of tables) {
+    const name = table.schema ? `${table.schema}.${table.name}` : table.name;
+    const columns = table.columns.length > 0
+      ? table.columns.map(col => `${col.name} ${col.type}`).join(', ')
+      : 'columns unknown';
+    const line = `- ${name} (${columns})`;
+    if (length + line.length > MAX_SCHEMA_CONTEXT_CHARS) {
+      omitted++;
+      continue;
     }
-    
-    context = `Total Sources: ${data.length}\nTotal Rows Across All Sources: ${totalRows}\n\n${context}`;
-    return context;
+    lines.push(line);
+    length += line.length + 1;
   }
+  if (omitted > 0) lines.push(`(${omitted} more tables not listed)`);
+  const header = database ? `Database: ${database}\n` : '';
+  return `${header}Tables:\n${lines.length > 0 ? lines.join('\n') : '(schema not available)'}`;
+}
 
-  // Single source data
-  return `Source: ${sourceName || 'Unknown'}
-Total Rows: ${data.length}
-Data:
-${formatDataAsReadable(data)}`;
+function sqlAssistPrompt(request: SqlAssistRequest): { system: string; user: string } {
+  const dialect = SQL_DIALECTS[request.connectionType];
+  const system = `You are a SQL assistant for ${dialect?.label ?? request.connectionType}. ${dialect?.hints ?? ''}
+Only use tables and columns from the schema below; never invent them. Write read-only queries unless the user explicitly asks otherwise, and limit results that could be large.
+
+${formatSchemaContext(request.database, request.tables)}`;
+
+  switch (request.mode) {
+    case 'generate':
+      return {
+        system,
+        user: `Write one SQL query that answers the question below. Reply with the query in a single \`\`\`sql code block, followed by one or two sentences explaining it. If the schema cannot answer the question, say so instead of writing a query.
+
+Question: ${request.question}`,
+      };
+    case 'explain':
+      return {
+        system,
+        user: `This query failed. Explain in plain language what the error means and what needs to change. Do not write a corrected query.
+
+Query:
+\`\`\`sql
+${request.query}
+\`\`\`
+
+Error: ${request.error}`,
+      };
+    case 'fix':
+      return {
+        system,
+        user: `This query failed. Reply with a corrected query in a single \`\`\`sql code block, followed by one or two sentences describing what you changed.
+
+Query:
+\`\`\`sql
+${request.query}
+\`\`\`
+
+Error: ${request.error}`,
+      };
+  }
 }
 
-export async function analyzeData(request: AnalysisRequest): Promise<string> {
-  const { config } = request;
+// Split a reply into its first SQL code block and the surrounding text
+function parseSqlReply(reply: string, expectSql: boolean): { sql: string | null; explanation: string } {
+  const block = reply.match(/```(?:sql)?[ \t]*\r?\n([\s\S]*?)```/i);
+  if (block) {
+    return {
+      sql: block[1].trim() || null,
+      explanation: reply.replace(block[0], '').trim(),
+    };
+  }
+  // Some local models skip the code fence and reply with the bare query
+  if (expectSql && /^\s*(SELECT|WITH)\b/i.test(reply)) {
+    return { sql: reply.trim(), explanation: '' };
+  }
+  return { sql: null, explanation: reply.trim() };
+}
 
-  switch (config.provider) {
-    case 'openai':
-      return analyzeWithOpenAI(request);
-    case 'anthropic':
-      return analyzeWithAnthropic(request);
-    case 'gemini':
-      return analyzeWithGemini(request);
-    case 'ollama':
-      return analyzeWithOllama(request);
-    default:
-      throw new Error(`Unsupported AI provider: ${config.provider}`);
+/**
+ * Write SQL for a question, or explain or fix a failed query, in the dialect of the
+ * connection's engine
+ */
+export async function assistWithSql(request: SqlAssistRequest): Promise<SqlAssistResult> {
+  const { system, user } = sqlAssistPrompt(request);
+  const { text: reply, usage } = await chat(request.config, {
+    system,
+    messages: [{ role: 'user', content: user }],
+    maxTokens: 1500,
+    temperature: 0,
+  });
+  if (!reply) {
+    throw new AIProviderError("The AI provider returned an empty response", usage);
   }
+  const { sql, explanation } = parseSqlReply(reply, request.mode !== 'explain');
+  return {
+    sql: request.mode === 'explain' ? null : sql,
+    explanation: request.mode === 'explain' ? reply.trim() : explanation,
+    dialect: getSqlDialectLabel(request.connectionType),
+    usage,
+  };
 }
 
 export const AI_PROVIDERS = [
@@ -0,0 +1,179 @@
+// AI usage metering. Every provider call is stored in ai_usage_logs with its tokens,
+// latency and estimated cost. Calls are checked beforehand against the organization's
+// monthly caps and its plan: AI needs the plan's 'ai' feature, and the plan may cap
+// tokens per month as well.
+import { storage } from "./storage";
+import { getOrganizationPlan } from "./quota-service";
+import { AI_PLAN_FEATURE, type AiUsageFeature, type OrganizationAiConfig } from "@shared/schema";
+import type { AIConfig, AIProvider, ChatUsage } from "./ai-service";
+
+// List prices in USD per million input and output tokens, by model name prefix (most
+// specific first); only used for cost estimates
+const MODEL_PRICES: [string, number, number][] = [
+  ['gpt-4o-mini', 0.15, 0.6],
+  ['gpt-4o', 2.5, 10],
+  ['gpt-4.1-nano', 0.1, 0.4],
+  ['gpt-4.1-mini', 0.4, 1.6],
+  ['gpt-4.1', 2, 8],
+  ['gpt-4-turbo', 10, 30],
+  ['gpt-4', 30, 60],
+  ['gpt-3.5-turbo', 0.5, 1.5],
+  ['claude-3-5-haiku', 0.8, 4],
+  ['claude-3-haiku', 0.25, 1.25],
+  ['claude-3-opus', 15, 75],
+  ['claude-opus', 15, 75],
+  ['claude', 3, 15],
+  ['gemini-1.5-flash', 0.075, 0.3],
+  ['gemini-1.5-pro', 1.25, 5],
+  ['gemini-2.0-flash', 0.1, 0.4],
+];
+
+// Models not listed above; Ollama runs on the organization's own hardware
+const PROVIDER_PRICES: Record<AIProvider, [number, number]> = {
+  openai: [2.5, 10],
+  anthropic: [3, 15],
+  gemini: [0.1, 0.4],
+  ollama: [0, 0],
+};
+
+const MAX_TOKEN_LIMIT = 2_000_000_000;
+const MAX_COST_LIMIT_USD = 1_000_000;
+
+export type AiUsageStatus = 'success' | 'error' | 'cancelled';
+
+export interface AiBudgetCheck {
+  allowed: boolean;
+  message?: string;
+  tokensUsed: number;
+  costUsedUsd: number;
+  // The lower of the organization's cap and the plan's; null is unlimited
+  tokenLimit: number | null;
+  costLimitUsd: number | null;
+  planIncludesAi: boolean;
+  planTokenLimit: number | null;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+export function estimateAiCostUsd(config: AIConfig, usage: ChatUsage): number {
+  const match = config.provider === 'ollama'
+    ? undefined
+    : MODEL_PRICES.find(([prefix]) => config.model.startsWith(prefix));
+  const [inputPrice, outputPrice] = match ? [match[1], match[2]] : PROVIDER_PRICES[config.provider];
+  return (usage.inputTokens * inputPrice + usage.outputTokens * outputPrice) / 1_000_000;
+}
+
+/**
+ * Caps apply per calendar month (UTC), whatever the subscription's billing cycle
+ */
+export function getAiUsagePeriod(now: Date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+function lowerLimit(a: number | null | undefined, b: number | null | undefined): number | null {
+  if (a === null || a === undefined) return b ?? null;
+  if (b === null || b === undefined) return a;
+  return Math.min(a, b);
+}
+
+/**
+ * Check whether the organization may make another AI call this month. Orgs without a
+ * subscription (legacy orgs) are not limited by a plan, only by their own caps.
+ */
+export async function checkAiBudget(
+  organizationId: string,
+  stored: OrganizationAiConfig | undefined
+): Promise<AiBudgetCheck> {
+  const { start, end } = getAiUsagePeriod();
+  const [orgPlan, used] = await Promise.all([
+    getOrganizationPlan(organizationId),
+    storage.getAiUsageTotalSince(organizationId, start),
+  ]);
+
+  const planIncludesAi = !orgPlan || orgPlan.plan.features.includes(AI_PLAN_FEATURE);
+  const planTokenLimit = orgPlan?.plan.maxAiTokensPerMonth ?? null;
+  const tokensUsed = used.inputTokens + used.outputTokens;
+  const tokenLimit = lowerLimit(stored?.monthlyTokenLimit, planTokenLimit);
+  const costLimitUsd = stored?.monthlyCostLimitUsd ?? null;
+  const resets = end.toISOString().slice(0, 10);
+
+  let message: string | undefined;
+  if (!planIncludesAi) {
+    message = `AI features are not included in your ${orgPlan!.plan.name} plan. Upgrade your plan to use AI analysis.`;
+  } else if (tokenLimit !== null && tokensUsed >= tokenLimit) {
+    message = tokenLimit === planTokenLimit
+      ? `AI token limit reached: your ${orgPlan!.plan.name} plan allows ${tokenLimit.toLocaleString()} tokens per month (resets ${resets}).`
+      : `AI token limit reached: your organization allows ${tokenLimit.toLocaleString()} tokens per month (resets ${resets}).`;
+  } else if (costLimitUsd !== null && used.estimatedCostUsd >= costLimitUsd) {
+    message = `AI cost limit reached: your organization allows $${costLimitUsd.toFixed(2)} of AI usage per month (resets ${resets}).`;
+  }
+
+  return {
+    allowed: !message,
+    message,
+    tokensUsed,
+    costUsedUsd: used.estimatedCostUsd,
+    tokenLimit,
+    costLimitUsd,
+    planIncludesAi,
+    planTokenLimit,
+    periodStart: start,
+    periodEnd: end,
+  };
+}
+
+/**
+ * Validate monthlyTokenLimit and monthlyCostLimitUsd from a request body; null removes
+ * a cap. Returns an error message, or null when they are valid.
+ */
+export function validateAiBudgetInput(body: Record<string, unknown>): string | null {
+  const { monthlyTokenLimit, monthlyCostLimitUsd } = body;
+  if (monthlyTokenLimit !== undefined && monthlyTokenLimit !== null
+    && (!Number.isInteger(monthlyTokenLimit) || (monthlyTokenLimit as number) < 1 || (monthlyTokenLimit as number) > MAX_TOKEN_LIMIT)) {
+    return `monthlyTokenLimit must be a whole number between 1 and ${MAX_TOKEN_LIMIT}, or null for no cap`;
+  }
+  if (monthlyCostLimitUsd !== undefined && monthlyCostLimitUsd !== null
+    && (typeof monthlyCostLimitUsd !== 'number' || !Number.isFinite(monthlyCostLimitUsd)
+      || monthlyCostLimitUsd <= 0 || monthlyCostLimitUsd > MAX_COST_LIMIT_USD)) {
+    return `monthlyCostLimitUsd must be a positive amount of at most ${MAX_COST_LIMIT_USD}, or null for no cap`;
+  }
+  return null;
+}
+
+/**
+ * Store one provider call. Failures are logged and not thrown: metering must not fail
+ * a request the provider has already answered.
+ */
+export async function recordAiUsage(params: {
+  organizationId: string;
+  userId: string | null;
+  feature: AiUsageFeature;
+  config: AIConfig;
+  usage: ChatUsage;
+  latencyMs: number;
+  status: AiUsageStatus;
+  errorMessage?: string;
+}): Promise<void> {
+  const { config, usage } = params;
+  try {
+    await storage.createAiUsageLog({
+      organizationId: params.organizationId,
+      userId: params.userId,
+      feature: params.feature,
+      provider: config.provider,
+      model: config.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      tokensEstimated: usage.estimated,
+      latencyMs: params.latencyMs,
+      estimatedCostUsd: estimateAiCostUsd(config, usage),
+      status: params.status,
+      errorMessage: params.errorMessage?.slice(0, 1000) ?? null,
+    });
+  } catch (error) {
+    console.error('[ai-usage] Failed to record AI usage:', error);
+  }
+}
@@ -0,0 +1,94 @@
+import type { Response } from "express";
+import { storage } from "./storage";
+import type { ApiKey } from "@shared/schema";
+
+// Bounds for the per-key limits a user can configure
+export const MAX_REQUESTS_PER_MINUTE = 6000;
+export const MAX_QUERIES_PER_DAY = 1000000;
+
+const MINUTE = 60 * 1000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+// Fixed one-minute windows per key, kept in process memory (limits are per server instance)
+const minuteWindows = new Map<string, { windowStart: number; count: number }>();
+
+const sweepTimer = setInterval(() => {
+  const cutoff = Date.now() - MINUTE;
+  minuteWindows.forEach((window, keyId) => {
+    if (window.windowStart < cutoff) minuteWindows.delete(keyId);
+  });
+}, 5 * MINUTE);
+sweepTimer.unref?.();
+
+/**
+ * Validate requestsPerMinute / queriesPerDay from a request body.
+ * Returns an error message, or null when both values are valid.
+ */
+export function validateApiKeyLimits(limits: { requestsPerMinute?: unknown; queriesPerDay?: unknown }): string | null {
+  const { requestsPerMinute, queriesPerDay } = limits;
+  if (requestsPerMinute !== undefined &&
+      (!Number.isInteger(requestsPerMinute) || (requestsPerMinute as number) < 1 || (requestsPerMinute as number) > MAX_REQUESTS_PER_MINUTE)) {
+    return `requestsPerMinute must be a whole number between 1 and ${MAX_REQUESTS_PER_MINUTE}`;
+  }
+  if (queriesPerDay !== undefined &&
+      (!Number.isInteger(queriesPerDay) || (queriesPerDay as number) < 1 || (queriesPerDay as number) > MAX_QUERIES_PER_DAY)) {
+    return `queriesPerDay must be a whole number between 1 and ${MAX_QUERIES_PER_DAY}`;
+  }
+  return null;
+}
+
+/**
+ * Count one request against the key's requests-per-minute limit
+ */
+export function consumeApiKeyRequest(apiKey: ApiKey, now: number = Date.now()): RateLimitResult {
+  let window = minuteWindows.get(apiKey.id);
+  if (!window || now - window.windowStart >= MINUTE) {
+    window = { windowStart: now, count: 0 };
+    minuteWindows.set(apiKey.id, window);
+  }
+
+  const limit = apiKey.requestsPerMinute;
+  const allowed = window.count < limit;
+  if (allowed) window.count++;
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - window.count),
+    resetAt: new Date(window.windowStart + MINUTE),
+  };
+}
+
+/**
+ * Count one query against the key's queries-per-day limit (UTC days, stored in Postgres
+ * so the count survives restarts and is shared between server instances)
+ */
+export async function consumeApiKeyDailyQuery(apiKey: ApiKey, now: Date = new Date()): Promise<RateLimitResult> {
+  const usageDate = now.toISOString().slice(0, 10);
+  const { allowed, used } = await storage.consumeApiKeyDailyQuery(apiKey.id, usageDate, apiKey.queriesPerDay);
+  const resetAt = new Date(`${usageDate}T00:00:00.000Z`);
+  resetAt.setUTCDate(resetAt.getUTCDate() + 1);
+
+  return {
+    allowed,
+    limit: apiKey.queriesPerDay,
+    remaining: Math.max(0, apiKey.queriesPerDay - used),
+    resetAt,
+  };
+}
+
+/**
+ * Set X-RateLimit-* headers. The per-minute limit uses the standard names;
+ * the daily query limit uses the same names with a -Day suffix.
+ */
+export function setRateLimitHeaders(res: Response, result: RateLimitResult, suffix: '' | '-Day' = '') {
+  res.setHeader(`X-RateLimit-Limit${suffix}`, String(result.limit));
+  res.setHeader(`X-RateLimit-Remaining${suffix}`, String(result.remaining));
+  res.setHeader(`X-RateLimit-Reset${suffix}`, String(Math.ceil(result.resetAt.getTime() / 1000)));
+}
@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getAthenaSettingsError, getAthenaExternalId, type AthenaSettings } from "./athena-helper";
+
+const base: AthenaSettings = {
+  organizationId: "org-1",
+  awsAuthMode: "assume_role",
+  awsAccessKeyId: "AKIAEXAMPLE",
+  awsSecretAccessKey: "secret",
+  awsRegion: "us-east-1",
+  awsRoleArn: "arn:aws:iam::123456789012:role/analytics/VoyagerAthena",
+  s3OutputLocation: "s3://results/",
+  athenaWorkGroup: null,
+  athenaCatalog: null,
+};
+
+function withServerCredentials(value: string | undefined, fn: () => void) {
+  const previous = process.env.ATHENA_ALLOW_SERVER_CREDENTIALS;
+  if (value === undefined) delete process.env.ATHENA_ALLOW_SERVER_CREDENTIALS;
+  else process.env.ATHENA_ALLOW_SERVER_CREDENTIALS = value;
+  try {
+    fn();
+  } finally {
+    if (previous === undefined) delete process.env.ATHENA_ALLOW_SERVER_CREDENTIALS;
+    else process.env.ATHENA_ALLOW_SERVER_CREDENTIALS = previous;
+  }
+}
+
+test("role ARNs are validated", () => {
+  assert.equal(getAthenaSettingsError(base), null);
+  assert.equal(getAthenaSettingsError({ ...base, awsRoleArn: "arn:aws-us-gov:iam::123456789012:role/R" }), null);
+  for (const awsRoleArn of ["VoyagerAthena", "arn:aws:iam::1234:role/R", "arn:aws:iam::123456789012:user/R", "arn:aws:s3:::bucket"]) {
+    assert.match(getAthenaSettingsError({ ...base, awsRoleArn }) ?? "", /role ARN/, awsRoleArn);
+  }
+});
+
+test("the server's own credentials need the operator setting", () => {
+  const keyless = { ...base, awsAccessKeyId: null, awsSecretAccessKey: null };
+  const defaultChain = { ...keyless, awsAuthMode: "default_chain" };
+  withServerCredentials(undefined, () => {
+    assert.match(getAthenaSettingsError(keyless) ?? "", /access keys are required/);
+    assert.match(getAthenaSettingsError(defaultChain) ?? "", /does not allow/);
+  });
+  withServerCredentials("true", () => {
+    assert.equal(getAthenaSettingsError(keyless), null);
+    assert.equal(getAthenaSettingsError(defaultChain), null);
+  });
+});
+
+test("external IDs differ per organization", () => {
+  assert.equal(getAthenaExternalId("org-1"), getAthenaExternalId("org-1"));
+  assert.notEqual(getAthenaExternalId("org-1"), getAthenaExternalId("org-2"));
+});
@@ -3,17 +3,263 @@ import {
   StartQueryExecutionCommand,
   GetQueryExecutionCommand,
   GetQueryResultsCommand,
+  StopQueryExecutionCommand,
+  type QueryExecution,
+  type StartQueryExecutionCommandInput,
 } from "@aws-sdk/client-athena";
+import { STSClient, AssumeRoleCommand } from "@aws-sdk/client-sts";
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 
 const EXPORTS_DIR = path.join(process.cwd(), 'exports');
 
+// Assumed-role credentials are renewed this long before they expire
+const ASSUMED_ROLE_REFRESH_MARGIN = 5 * 60 * 1000;
+const ASSUMED_ROLE_SESSION_NAME = 'voyager-athena';
+// IAM role ARN: partition, 12-digit account and a role name, optionally under a path
+const ROLE_ARN_PATTERN = /^arn:aws(-[a-z]+)*:iam::\d{12}:role\/[\w+=,.@\/-]{1,512}$/;
+
+// Athena list price per TB scanned in most regions; only used for cost estimates
+export const ATHENA_PRICE_PER_TB_USD = 5;
+const MB = 1024 * 1024;
+const TB = 1024 * 1024 * MB;
+// Athena bills at least 10 MB per query, rounded up to the next MB
+const ATHENA_MIN_BILLED_BYTES = 10 * MB;
+// Longest age ResultReuseByAgeConfiguration accepts (7 days)
+const ATHENA_MAX_RESULT_REUSE_MINUTES = 7 * 24 * 60;
+
+/**
+ * Athena authentication and query placement, as stored on both organization AWS configs
+ * and Athena database connections
+ */
+export interface AthenaSettings {
+  organizationId: string;
+  awsAuthMode: string;
+  awsAccessKeyId: string | null;
+  awsSecretAccessKey: string | null;
+  awsRegion: string | null;
+  awsRoleArn: string | null;
+  s3OutputLocation: string | null;
+  athenaWorkGroup: string | null;
+  athenaCatalog: string | null;
+}
+
+/**
+ * An Athena client plus where its queries run. The result location may be empty when the
+ * workgroup enforces its own.
+ */
+export interface AthenaContext {
+  client: AthenaClient;
+  s3OutputLocation: string | null;
+  workGroup: string | null;
+  catalog: string | null;
+  // When set, Athena may return a previous execution's result up to this old instead of re-scanning
+  resultReuseMaxAgeMinutes: number | null;
+}
+
+interface TemporaryCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  expiration?: Date;
+}
+
+// Keyed by role, organization, region and source credentials, so configs sharing a role share a session
+const assumedRoleCredentials = new Map<string, Promise<TemporaryCredentials>>();
+
+/**
+ * Whether organizations may use the server's own AWS identity (instance role, environment
+ * credentials): the default_chain mode, and assume_role without access keys. Off unless the
+ * operator sets ATHENA_ALLOW_SERVER_CREDENTIALS=true, as any org admin could otherwise
+ * query with the server's permissions.
+ */
+export function serverAwsCredentialsAllowed(): boolean {
+  return process.env.ATHENA_ALLOW_SERVER_CREDENTIALS === 'true';
+}
+
+/**
+ * External ID sent with AssumeRole for an organization. It is fixed per organization and
+ * never taken from user input, so one organization cannot assume a role whose trust policy
+ * names another organization's ID (the confused deputy problem). It need not be secret.
+ */
+export function getAthenaExternalId(organizationId: string): string {
+  return `voyager-${organizationId}`;
+}
+
+/**
+ * Check the role ARN and use of the server's own credentials. Unlike the rest of
+ * getAthenaSettingsError, this is enforced when settings are saved too.
+ * Returns an error message, or null when the settings are allowed.
+ */
+export function getAwsRoleSettingsError(
+  settings: Pick<AthenaSettings, 'awsAuthMode' | 'awsAccessKeyId' | 'awsSecretAccessKey' | 'awsRoleArn'>
+): string | null {
+  if (settings.awsAuthMode === 'default_chain' && !serverAwsCredentialsAllowed()) {
+    return 'This server does not allow its own AWS credentials to be used. Use access keys, or assume a role with access keys.';
+  }
+  if (settings.awsAuthMode === 'assume_role') {
+    if (settings.awsRoleArn && !ROLE_ARN_PATTERN.test(settings.awsRoleArn)) {
+      return 'IAM role ARN must look like arn:aws:iam::123456789012:role/RoleName.';
+    }
+    if (!settings.awsAccessKeyId && !settings.awsSecretAccessKey && !serverAwsCredentialsAllowed()) {
+      return 'AWS access keys are required to assume the role: this server does not allow its own AWS credentials to be used.';
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate Athena settings before a client is built.
+ * Returns an error message, or null when the settings can be used.
+ */
+export function getAthenaSettingsError(settings: AthenaSettings): string | null {
+  switch (settings.awsAuthMode) {
+    case 'access_keys':
+      if (!settings.awsAccessKeyId || !settings.awsSecretAccessKey) {
+        return 'AWS Access Key ID and Secret Access Key are required.';
+      }
+      break;
+    case 'assume_role':
+      if (!settings.awsRoleArn) {
+        return 'An IAM role ARN is required for assume-role authentication.';
+      }
+      if (!!settings.awsAccessKeyId !== !!settings.awsSecretAccessKey) {
+        return 'Provide both AWS access keys, or neither to assume the role from the default credential chain.';
+      }
+      break;
+    case 'default_chain':
+      break;
+    default:
+      return `Unsupported AWS authentication mode: ${settings.awsAuthMode}`;
+  }
+  const roleError = getAwsRoleSettingsError(settings);
+  if (roleError) {
+    return roleError;
+  }
+  if (!settings.s3OutputLocation && !settings.athenaWorkGroup) {
+    return 'S3 output location is required unless a workgroup provides one.';
+  }
+  return null;
+}
+
+function staticCredentials(settings: AthenaSettings): TemporaryCredentials | undefined {
+  return settings.awsAccessKeyId && settings.awsSecretAccessKey
+    ? { accessKeyId: settings.awsAccessKeyId, secretAccessKey: settings.awsSecretAccessKey }
+    : undefined;
+}
+
+async function assumeRole(settings: AthenaSettings, region: string): Promise<TemporaryCredentials> {
+  // Without access keys, STS signs with the default chain (environment, instance role, ...)
+  const sts = new STSClient({ region, credentials: staticCredentials(settings) });
+  const { Credentials } = await sts.send(new AssumeRoleCommand({
+    RoleArn: settings.awsRoleArn!,
+    RoleSessionName: ASSUMED_ROLE_SESSION_NAME,
+    ExternalId: getAthenaExternalId(settings.organizationId),
+  }));
+  if (!Credentials?.AccessKeyId || !Credentials.SecretAccessKey) {
+    throw new Error(`AssumeRole returned no credentials for ${settings.awsRoleArn}`);
+  }
+  return {
+    accessKeyId: Credentials.AccessKeyId,
+    secretAccessKey: Credentials.SecretAccessKey,
+    sessionToken: Credentials.SessionToken,
+    expiration: Credentials.Expiration,
+  };
+}
+
+/**
+ * Credential provider for assume-role settings. Sessions are cached per role and renewed
+ * shortly before they expire rather than on every client.
+ */
+function assumeRoleProvider(settings: AthenaSettings, region: string): () => Promise<TemporaryCredentials> {
+  const key = crypto.createHash('sha256').update(JSON.stringify([
+    settings.awsRoleArn, settings.organizationId, region, settings.awsAccessKeyId, settings.awsSecretAccessKey,
+  ])).digest('hex');
+  return async () => {
+    const cached = assumedRoleCredentials.get(key);
+    if (cached) {
+      const credentials = await cached.catch(() => null);
+      if (credentials && (!credentials.expiration || credentials.expiration.getTime() - Date.now() > ASSUMED_ROLE_REFRESH_MARGIN)) {
+        return credentials;
+      }
+    }
+    const pending = assumeRole(settings, region);
+    assumedRoleCredentials.set(key, pending);
+    pending.catch(() => {
+      if (assumedRoleCredentials.get(key) === pending) assumedRoleCredentials.delete(key);
+    });
+    return pending;
+  };
+}
+
+/**
+ * Build an Athena client for the settings' authentication mode. Throws when the
+ * settings are incomplete (see getAthenaSettingsError).
+ */
+export function createAthenaContext(settings: AthenaSettings): AthenaContext {
+  const error = getAthenaSettingsError(settings);
+  if (error) {
+    throw new Error(error);
+  }
+  const region = settings.awsRegion || 'us-east-1';
+  const credentials = settings.awsAuthMode === 'assume_role'
+    ? assumeRoleProvider(settings, region)
+    // undefined lets the SDK use its default credential provider chain
+    : settings.awsAuthMode === 'access_keys' ? staticCredentials(settings) : undefined;
+  return {
+    client: new AthenaClient({ region, credentials }),
+    s3OutputLocation: settings.s3OutputLocation || null,
+    workGroup: settings.athenaWorkGroup || null,
+    catalog: settings.athenaCatalog || null,
+    resultReuseMaxAgeMinutes: null,
+  };
+}
+
+/**
+ * Athena result reuse age matching a result cache TTL, or null when caching is off
+ */
+export function athenaResultReuseMinutes(ttlSeconds: number): number | null {
+  if (ttlSeconds <= 0) return null;
+  return Math.min(Math.ceil(ttlSeconds / 60), ATHENA_MAX_RESULT_REUSE_MINUTES);
+}
+
+/**
+ * StartQueryExecution input that runs `query` in the context's workgroup and catalog
+ */
+export function athenaQueryInput(athena: AthenaContext, query: string): StartQueryExecutionCommandInput {
+  return {
+    QueryString: query,
+    WorkGroup: athena.workGroup || undefined,
+    QueryExecutionContext: athena.catalog ? { Catalog: athena.catalog } : undefined,
+    ResultConfiguration: athena.s3OutputLocation ? { OutputLocation: athena.s3OutputLocation } : undefined,
+    ResultReuseConfiguration: athena.resultReuseMaxAgeMinutes
+      ? { ResultReuseByAgeConfiguration: { Enabled: true, MaxAgeInMinutes: athena.resultReuseMaxAgeMinutes } }
+      : undefined,
+  };
+}
+
+/**
+ * What a finished Athena query cost, from QueryExecution.Statistics. Field names match
+ * the query_logs columns they are stored in.
+ */
+export interface AthenaQueryStatistics {
+  dataScannedBytes: number;
+  engineExecutionTimeMs: number;
+  queueTimeMs: number;
+  estimatedCostUsd: number;
+}
+
 export interface PaginatedQueryResult {
   columns: string[];
   data: Record<string, any>[];
   totalRows: number;
+  // True when more rows were available past rowLimit
+  truncated: boolean;
   filePath?: string;
+  statistics: AthenaQueryStatistics;
+  // Athena returned a previous execution's result (see AthenaContext.resultReuseMaxAgeMinutes)
+  resultReused: boolean;
 }
 
 export interface ProgressCallback {
@@ -48,25 +294,60 @@ function prepareExportPath(fileName: string): string {
   return fullPath;
 }
 
+/**
+ * Estimated charge for scanning `dataScannedBytes` at ATHENA_PRICE_PER_TB_USD.
+ * Queries that scan nothing (DDL, metadata-only) are not billed.
+ */
+export function estimateAthenaCostUsd(dataScannedBytes: number): number {
+  if (dataScannedBytes <= 0) return 0;
+  const billedBytes = Math.max(Math.ceil(dataScannedBytes / MB) * MB, ATHENA_MIN_BILLED_BYTES);
+  return (billedBytes / TB) * ATHENA_PRICE_PER_TB_USD;
+}
+
+function readQueryStatistics(execution: QueryExecution | undefined): AthenaQueryStatistics {
+  const stats = execution?.Statistics;
+  const dataScannedBytes = stats?.DataScannedInBytes ?? 0;
+  return {
+    dataScannedBytes,
+    engineExecutionTimeMs: stats?.EngineExecutionTimeInMillis ?? 0,
+    queueTimeMs: stats?.QueryQueueTimeInMillis ?? 0,
+    estimatedCostUsd: estimateAthenaCostUsd(dataScannedBytes),
+  };
+}
+
+/**
+ * Render a value as a SQL string literal (single quotes doubled).
+ * Athena execution parameters are substituted as literals, so string values must be quoted.
+ */
+function toSqlStringLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
 /**
  * Execute Athena query with pagination support
  * Fetches all pages up to the specified row limit
  * If exportToFile is provided, streams to CSV and doesn't accumulate in memory
+ * If signal aborts, the Athena execution is stopped via StopQueryExecution
+ * If params are provided, they are bound to the query's `?` placeholders as string literals
  */
 export async function executeAthenaQueryWithPagination(
-  athenaClient: AthenaClient,
+  athena: AthenaContext,
   query: string,
-  s3OutputLocation: string,
   rowLimit: number,
   exportToFile?: string,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+  params?: string[]
 ): Promise<PaginatedQueryResult> {
+  if (signal?.aborted) {
+    throw new Error('Query cancelled');
+  }
+  const athenaClient = athena.client;
+
   // Start query execution
   const startCommand = new StartQueryExecutionCommand({
-    QueryString: query,
-    ResultConfiguration: {
-      OutputLocation: s3OutputLocation,
-    },
+    ...athenaQueryInput(athena, query),
+    ExecutionParameters: params && params.length > 0 ? params.map(toSqlStringLiteral) : undefined,
   });
 
   const startResponse = await athenaClient.send(startCommand);
@@ -76,14 +357,31 @@ export async function executeAthenaQueryWithPagination(
     throw new Error('Failed to start query execution');
   }
 
+  // Stop the execution on Athena as soon as cancellation is requested
+  const stopExecution = () => {
+    athenaClient.send(new StopQueryExecutionCommand({ QueryExecutionId: queryExecutionId }))
+      .catch(err => console.error('Failed to stop Athena query:', err));
+  };
+  signal?.addEventListener('abort', stopExecution, { once: true });
+
   // Poll for query completion
   let queryStatus = 'RUNNING';
+  let queryExecution: QueryExecution | undefined;
   const getExecutionCommand = new GetQueryExecutionCommand({ QueryExecutionId: queryExecutionId });
 
-  while (queryStatus === 'RUNNING' || queryStatus === 'QUEUED') {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    const executionResponse = await athenaClient.send(getExecutionCommand);
-    queryStatus = executionResponse.QueryExecution?.Status?.State || 'FAILED';
+  try {
+    while (queryStatus === 'RUNNING' || queryStatus === 'QUEUED') {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      const executionResponse = await athenaClient.send(getExecutionCommand);
+      queryExecution = executionResponse.QueryExecution;
+      queryStatus = queryExecution?.Status?.State || 'FAILED';
+    }
+  } finally {
+    signal?.removeEventListener('abort', stopExecution);
+  }
+
+  if (signal?.aborted || queryStatus === 'CANCELLED') {
+    throw new Error('Query cancelled');
   }
 
   if (queryStatus !== 'SUCCEEDED') {
@@ -108,6 +406,10 @@ export async function executeAthenaQueryWithPagination(
 
   try {
     do {
+      if (signal?.aborted) {
+        throw new Error('Query cancelled');
+      }
+
       // AWS Athena has a max of 1000 rows per request
       const pageSize = Math.min(1000, rowLimit - totalFetched);
       
@@ -206,6 +508,28 @@ export async function executeAthenaQueryWithPagination(
     columns,
     data: allData,
     totalRows: totalFetched,
+    truncated: totalFetched >= rowLimit && !!nextToken,
     filePath: finalFilePath,
+    statistics: readQueryStatistics(queryExecution),
+    resultReused: !!queryExecution?.Statistics?.ResultReuseInformation?.ReusedPreviousResult,
   };
 }
+
+/**
+ * Write an already-fetched result set to a CSV file in the exports directory
+ * Used by export jobs on non-Athena connections, whose drivers return rows in one batch
+ */
+export async function writeRowsToCsvFile(
+  fileName: string,
+  columns: string[],
+  rows: Record<string, any>[]
+): Promise<string> {
+  const filePath = prepareExportPath(fileName);
+  const escape = (value: any) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+  const lines = [columns.map(escape).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(col => escape(row[col])).join(','));
+  }
+  await fs.promises.writeFile(filePath, lines.join('\n') + '\n');
+  return filePath;
+}
@@ -0,0 +1,172 @@
+// Background health checks for database connections. Each connection is tested on an
+// interval with its driver's testConnection (a SELECT 1, which scans no data), every
+// result is stored in connection_health_checks, and the connection's status follows its
+// recent history. Checks are claimed in Postgres, so several server instances do not
+// test the same connection twice.
+import { storage } from "./storage";
+import { getDriver } from "./database-drivers";
+import type {
+  OrganizationDatabaseConnection, ConnectionHealthCheck, ConnectionHealthStatus,
+} from "@shared/schema";
+
+export const HEALTH_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+// A passing check slower than this marks the connection degraded
+export const SLOW_CHECK_THRESHOLD_MS = 5000;
+// This many failed checks in a row mark the connection down; fewer mark it degraded
+export const DOWN_AFTER_FAILURES = 3;
+// History older than this is deleted
+export const HEALTH_HISTORY_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+const TICK_INTERVAL = 60 * 1000; // 1 minute
+// Drivers have their own timeouts, but a check must not hold up the others indefinitely
+const CHECK_TIMEOUT = 30 * 1000;
+
+// Failures listed per connection in the health summary
+const RECENT_FAILURES = 5;
+
+export interface ConnectionHealthSummary {
+  connectionId: string;
+  status: string;
+  lastCheckedAt: string | null;
+  // Share of passing checks in the window; null when there are none
+  uptimePercent: number | null;
+  averageLatencyMs: number | null;
+  checks: { checkedAt: string; success: boolean; latencyMs: number }[];
+  recentFailures: { checkedAt: string; errorMessage: string | null; stage: string | null }[];
+}
+
+let started = false;
+let tickInProgress = false;
+
+/**
+ * Status implied by the most recent checks (newest first)
+ */
+export function healthStatusFromChecks(recent: Pick<ConnectionHealthCheck, 'success' | 'latencyMs'>[]): ConnectionHealthStatus {
+  const latest = recent[0];
+  if (!latest) return 'active';
+  if (latest.success) {
+    return latest.latencyMs >= SLOW_CHECK_THRESHOLD_MS ? 'degraded' : 'active';
+  }
+  const failures = recent.slice(0, DOWN_AFTER_FAILURES).filter(check => !check.success).length;
+  return failures >= DOWN_AFTER_FAILURES ? 'down' : 'degraded';
+}
+
+async function testWithTimeout(connection: OrganizationDatabaseConnection) {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Connection test timed out after ${CHECK_TIMEOUT / 1000}s`)), CHECK_TIMEOUT);
+  });
+  try {
+    return await Promise.race([getDriver(connection.type).testConnection(connection), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Test a connection now, record the result and update the connection's status.
+ * Used by the background checker and by the manual test endpoint.
+ */
+export async function checkConnectionHealth(connection: OrganizationDatabaseConnection): Promise<{
+  check: ConnectionHealthCheck;
+  status: ConnectionHealthStatus;
+  message: string;
+}> {
+  const startTime = Date.now();
+  let success: boolean;
+  let message: string;
+  let stage: string | null = null;
+  try {
+    const result = await testWithTimeout(connection);
+    success = result.success;
+    message = result.message;
+    stage = result.success ? null : result.stage ?? 'database';
+  } catch (error: any) {
+    success = false;
+    message = error.message || 'Connection test failed';
+    stage = 'database';
+  }
+
+  const check = await storage.createConnectionHealthCheck({
+    connectionId: connection.id,
+    organizationId: connection.organizationId,
+    success,
+    latencyMs: Date.now() - startTime,
+    errorMessage: success ? null : message,
+    stage,
+  });
+  const recent = await storage.getRecentConnectionHealthChecks(connection.id, DOWN_AFTER_FAILURES);
+  const status = healthStatusFromChecks(recent);
+  if (status !== connection.status) {
+    await storage.setDatabaseConnectionStatus(connection.id, status);
+  }
+  return { check, status, message };
+}
+
+/**
+ * Per-connection uptime, latency and failures from the checks in a window (oldest first)
+ */
+export function summarizeConnectionHealth(
+  connections: OrganizationDatabaseConnection[],
+  checks: ConnectionHealthCheck[]
+): ConnectionHealthSummary[] {
+  return connections.map(connection => {
+    const own = checks.filter(check => check.connectionId === connection.id);
+    const passed = own.filter(check => check.success);
+    return {
+      connectionId: connection.id,
+      status: connection.status,
+      lastCheckedAt: own.length > 0 ? own[own.length - 1].checkedAt.toISOString() : null,
+      uptimePercent: own.length > 0 ? Math.round((passed.length / own.length) * 1000) / 10 : null,
+      averageLatencyMs: passed.length > 0
+        ? Math.round(passed.reduce((sum, check) => sum + check.latencyMs, 0) / passed.length)
+        : null,
+      checks: own.map(check => ({
+        checkedAt: check.checkedAt.toISOString(),
+        success: check.success,
+        latencyMs: check.latencyMs,
+      })),
+      recentFailures: own.filter(check => !check.success).slice(-RECENT_FAILURES).reverse().map(check => ({
+        checkedAt: check.checkedAt.toISOString(),
+        errorMessage: check.errorMessage,
+        stage: check.stage,
+      })),
+    };
+  });
+}
+
+async function tick() {
+  if (tickInProgress) return;
+  tickInProgress = true;
+  try {
+    const now = new Date();
+    const dueBefore = new Date(now.getTime() - HEALTH_CHECK_INTERVAL);
+    const due = await storage.getConnectionsDueForHealthCheck(dueBefore);
+    for (const connection of due) {
+      try {
+        const claimed = await storage.claimConnectionHealthCheck(connection.id, dueBefore, new Date());
+        if (claimed) {
+          await checkConnectionHealth(connection);
+        }
+      } catch (error) {
+        console.error(`Health check for connection ${connection.id} failed:`, error);
+      }
+    }
+    await storage.deleteConnectionHealthChecksBefore(new Date(now.getTime() - HEALTH_HISTORY_RETENTION));
+  } catch (error) {
+    console.error('Connection health checker tick failed:', error);
+  } finally {
+    tickInProgress = false;
+  }
+}
+
+/**
+ * Start the once-a-minute loop that tests connections whose last check is older than
+ * HEALTH_CHECK_INTERVAL
+ */
+export function startConnectionHealthChecker() {
+  if (started) return;
+  started = true;
+  const timer = setInterval(tick, TICK_INTERVAL);
+  timer.unref?.();
+}
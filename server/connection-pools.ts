@@ -0,0 +1,225 @@
+// Per-connection pools for the SQL drivers, keyed by organization_database_connections.id.
+// Pools live in process memory (one set per server instance) and are rebuilt whenever the
+// connection's settings change, so an edit made through another instance is picked up too.
+import crypto from "crypto";
+import type { OrganizationDatabaseConnection } from "@shared/schema";
+import { openSshTunnel, usesSshTunnel, type SshTunnel } from "./ssh-tunnel";
+
+// Bounds for the per-connection pool_max_connections setting
+export const MIN_POOL_MAX_CONNECTIONS = 1;
+export const MAX_POOL_MAX_CONNECTIONS = 50;
+
+// Single idle connections are dropped by the driver after this long
+export const POOL_CONNECTION_IDLE_TIMEOUT = 60 * 1000;
+// A whole pool that has not been used for this long is closed
+const POOL_IDLE_TIMEOUT = 10 * 60 * 1000;
+const SWEEP_INTERVAL = 60 * 1000;
+
+export interface PoolCounts {
+  // null when the driver does not expose the number
+  open: number | null;
+  idle: number | null;
+  waiting: number | null;
+}
+
+/**
+ * How a driver creates, closes and inspects its native pool object
+ */
+export interface PoolAdapter<T> {
+  // Port used when the connection has none; an SSH tunnel forwards to it
+  defaultPort: number;
+  create(connection: ConnectionTarget, maxSize: number): Promise<T>;
+  close(pool: T): Promise<void>;
+  counts(pool: T): PoolCounts;
+}
+
+/**
+ * Connection settings as a driver dials them. Behind an SSH tunnel host/port point at the
+ * local end, and tlsServerName keeps the real hostname for certificate checks.
+ */
+export type ConnectionTarget = OrganizationDatabaseConnection & { tlsServerName?: string | null };
+
+export interface ConnectionPoolStats extends PoolCounts {
+  connectionId: string;
+  type: string;
+  maxSize: number;
+  inUse: number;
+  acquisitions: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+interface PoolEntry {
+  connectionId: string;
+  type: string;
+  fingerprint: string;
+  maxSize: number;
+  adapter: PoolAdapter<any>;
+  pool: Promise<any>;
+  // Set once the SSH tunnel (if any) is open; the pool connects through it
+  tunnel: SshTunnel | null;
+  inUse: number;
+  acquisitions: number;
+  createdAt: Date;
+  lastUsedAt: Date;
+  // Set once the entry is replaced or invalidated; the pool closes when its last user finishes
+  retired: boolean;
+}
+
+const pools = new Map<string, PoolEntry>();
+
+const sweepTimer = setInterval(() => {
+  const cutoff = Date.now() - POOL_IDLE_TIMEOUT;
+  pools.forEach(entry => {
+    if (entry.inUse === 0 && entry.lastUsedAt.getTime() < cutoff) {
+      retire(entry);
+    }
+  });
+}, SWEEP_INTERVAL);
+sweepTimer.unref?.();
+
+// Everything a driver uses to open a connection; any change means a new pool
+function connectionFingerprint(conn: OrganizationDatabaseConnection): string {
+  const settings = [
+    conn.type, conn.host, conn.port, conn.database, conn.username, conn.password, conn.ssl,
+    conn.sslMode, conn.sslCaCert, conn.sslClientCert, conn.sslClientKey,
+    conn.account, conn.warehouse, conn.schema, conn.role, conn.poolMaxConnections,
+    conn.sshEnabled, conn.sshHost, conn.sshPort, conn.sshUsername, conn.sshPassword,
+    conn.sshPrivateKey, conn.sshPassphrase,
+  ];
+  return crypto.createHash('sha256').update(JSON.stringify(settings)).digest('hex');
+}
+
+/**
+ * Validate pool_max_connections from a request body.
+ * Returns an error message, or null when the value is valid (or not provided).
+ */
+export function validatePoolMaxConnections(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (!Number.isInteger(value) || (value as number) < MIN_POOL_MAX_CONNECTIONS || (value as number) > MAX_POOL_MAX_CONNECTIONS) {
+    return `poolMaxConnections must be a whole number between ${MIN_POOL_MAX_CONNECTIONS} and ${MAX_POOL_MAX_CONNECTIONS}`;
+  }
+  return null;
+}
+
+function closeEntry(entry: PoolEntry) {
+  // A pool that never started has nothing to close
+  entry.pool
+    .then(pool => entry.adapter.close(pool), () => {})
+    .catch(error => console.error(`Failed to close connection pool for ${entry.connectionId}:`, error))
+    .finally(() => entry.tunnel?.close());
+}
+
+// The connection as the driver should dial it: through the tunnel when there is one
+function tunnelTarget(conn: OrganizationDatabaseConnection, tunnel: SshTunnel | null): ConnectionTarget {
+  return tunnel ? { ...conn, host: tunnel.host, port: tunnel.port, tlsServerName: conn.host } : conn;
+}
+
+function retire(entry: PoolEntry) {
+  if (pools.get(entry.connectionId) === entry) {
+    pools.delete(entry.connectionId);
+  }
+  if (entry.retired) return;
+  entry.retired = true;
+  if (entry.inUse === 0) closeEntry(entry);
+}
+
+function getEntry<T>(conn: OrganizationDatabaseConnection, adapter: PoolAdapter<T>): PoolEntry {
+  const fingerprint = connectionFingerprint(conn);
+  const existing = pools.get(conn.id);
+  if (existing && existing.fingerprint === fingerprint) {
+    return existing;
+  }
+  if (existing) retire(existing);
+
+  const maxSize = Math.min(
+    Math.max(conn.poolMaxConnections || MIN_POOL_MAX_CONNECTIONS, MIN_POOL_MAX_CONNECTIONS),
+    MAX_POOL_MAX_CONNECTIONS
+  );
+  const entry: PoolEntry = {
+    connectionId: conn.id,
+    type: conn.type,
+    fingerprint,
+    maxSize,
+    adapter,
+    pool: Promise.resolve(),
+    tunnel: null,
+    inUse: 0,
+    acquisitions: 0,
+    createdAt: new Date(),
+    lastUsedAt: new Date(),
+    retired: false,
+  };
+  entry.pool = (async () => {
+    if (usesSshTunnel(conn)) {
+      // A dropped SSH session breaks every pooled connection, so start over on next use
+      entry.tunnel = await openSshTunnel(conn, conn.port || adapter.defaultPort, () => retire(entry));
+    }
+    return adapter.create(tunnelTarget(conn, entry.tunnel), maxSize);
+  })();
+  // A pool that fails to start is dropped so the next call tries again
+  entry.pool.catch(() => {
+    entry.tunnel?.close();
+    if (pools.get(conn.id) === entry) pools.delete(conn.id);
+  });
+  pools.set(conn.id, entry);
+  return entry;
+}
+
+/**
+ * Run `fn` with the connection's pool, creating the pool on first use. `fn` also gets the
+ * connection settings the pool dials (host and port point at the SSH tunnel when there is
+ * one), for side connections such as query cancellation.
+ */
+export async function withConnectionPool<T, R>(
+  conn: OrganizationDatabaseConnection,
+  adapter: PoolAdapter<T>,
+  fn: (pool: T, target: ConnectionTarget) => Promise<R>
+): Promise<R> {
+  const entry = getEntry(conn, adapter);
+  entry.inUse++;
+  entry.acquisitions++;
+  entry.lastUsedAt = new Date();
+  try {
+    const pool = await entry.pool;
+    return await fn(pool, tunnelTarget(conn, entry.tunnel));
+  } finally {
+    entry.inUse--;
+    entry.lastUsedAt = new Date();
+    if (entry.retired && entry.inUse === 0) closeEntry(entry);
+  }
+}
+
+/**
+ * Close the pool for a connection that was edited or deleted. Queries already
+ * running on it finish first.
+ */
+export function invalidateConnectionPool(connectionId: string) {
+  const entry = pools.get(connectionId);
+  if (entry) retire(entry);
+}
+
+export async function getConnectionPoolStats(connectionIds: string[]): Promise<ConnectionPoolStats[]> {
+  const stats: ConnectionPoolStats[] = [];
+  for (const connectionId of connectionIds) {
+    const entry = pools.get(connectionId);
+    if (!entry) continue;
+    let counts: PoolCounts = { open: null, idle: null, waiting: null };
+    try {
+      counts = entry.adapter.counts(await entry.pool);
+    } catch {
+      // Pool failed to start; report it with unknown counts
+    }
+    stats.push({
+      connectionId,
+      type: entry.type,
+      maxSize: entry.maxSize,
+      inUse: entry.inUse,
+      acquisitions: entry.acquisitions,
+      createdAt: entry.createdAt.toISOString(),
+      lastUsedAt: entry.lastUsedAt.toISOString(),
+      ...counts,
+    });
+  }
+  return stats;
+}
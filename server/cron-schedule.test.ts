@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getNextCronRun, isValidCronExpression, parseCronExpression } from "./cron-schedule";
+
+const at = (iso: string) => new Date(iso);
+
+test("parses lists, ranges, steps and names", () => {
+  const fields = parseCronExpression("0,30 9-17/4 * JAN-MAR MON-FRI");
+  assert.deepEqual([...fields.minutes], [0, 30]);
+  assert.deepEqual([...fields.hours], [9, 13, 17]);
+  assert.deepEqual([...fields.months], [1, 2, 3]);
+  assert.deepEqual([...fields.daysOfWeek], [1, 2, 3, 4, 5]);
+});
+
+test("day-of-week 7 is Sunday", () => {
+  assert.deepEqual([...parseCronExpression("0 0 * * 7").daysOfWeek], [0]);
+});
+
+test("rejects malformed expressions", () => {
+  for (const expression of ["* * * *", "60 * * * *", "* 24 * * *", "*/0 * * * *", "5-1 * * * *", "a * * * *"]) {
+    assert.equal(isValidCronExpression(expression), false, expression);
+  }
+  assert.throws(() => parseCronExpression("* * *"), /expected 5 fields/);
+});
+
+test("next run is the next matching minute, strictly after the given time", () => {
+  assert.deepEqual(getNextCronRun("*/15 * * * *", at("2024-01-01T10:07:30Z")), at("2024-01-01T10:15:00Z"));
+  assert.deepEqual(getNextCronRun("*/15 * * * *", at("2024-01-01T10:15:00Z")), at("2024-01-01T10:30:00Z"));
+  assert.deepEqual(getNextCronRun("0 9 * * *", at("2024-01-31T09:00:00Z")), at("2024-02-01T09:00:00Z"));
+  assert.deepEqual(getNextCronRun("0 0 1 * *", at("2024-12-15T00:00:00Z")), at("2025-01-01T00:00:00Z"));
+});
+
+test("restricted day-of-month and day-of-week match either", () => {
+  // 2024-03-01 is a Friday; the 13th or any Monday, whichever comes first
+  assert.deepEqual(getNextCronRun("0 0 13 * MON", at("2024-03-01T12:00:00Z")), at("2024-03-04T00:00:00Z"));
+});
+
+test("finds leap days and gives up on dates that never occur", () => {
+  assert.deepEqual(getNextCronRun("0 0 29 2 *", at("2024-03-01T00:00:00Z")), at("2028-02-29T00:00:00Z"));
+  assert.throws(() => getNextCronRun("0 0 30 2 *", at("2024-01-01T00:00:00Z")), /no run time/);
+});
@@ -0,0 +1,149 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC.
+// Supports *, lists (1,15), ranges (1-5), steps (*/15, 0-30/10) and JAN-DEC / SUN-SAT names.
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, a day matching either one runs
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Give up looking for a next run after this many years (e.g. "0 0 30 2 *" never matches)
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(token: string, names: string[] | undefined, nameOffset: number): number {
+  const upper = token.toUpperCase();
+  if (names) {
+    const index = names.indexOf(upper);
+    if (index >= 0) return index + nameOffset;
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`"${token}" is not a number`);
+  }
+  return parseInt(token, 10);
+}
+
+function parseField(field: string, min: number, max: number, names?: string[], nameOffset = 0): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+    if (stepPart !== undefined && (!/^\d+$/.test(stepPart) || step < 1)) {
+      throw new Error(`invalid step "${stepPart}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, names, nameOffset);
+      end = parseValue(to, names, nameOffset);
+    } else {
+      start = parseValue(rangePart, names, nameOffset);
+      // "5/15" means every 15 starting at 5
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`"${part}" is outside ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression. Throws with a descriptive message when it is invalid.
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week)`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+
+  try {
+    // Day-of-week accepts 0-7 where both 0 and 7 are Sunday
+    const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+    if (daysOfWeek.has(7)) {
+      daysOfWeek.delete(7);
+      daysOfWeek.add(0);
+    }
+    return {
+      minutes: parseField(minute, 0, 59),
+      hours: parseField(hour, 0, 23),
+      daysOfMonth: parseField(dayOfMonth, 1, 31),
+      months: parseField(month, 1, 12, MONTH_NAMES, 1),
+      daysOfWeek,
+      daysOfMonthRestricted: dayOfMonth !== '*',
+      daysOfWeekRestricted: dayOfWeek !== '*',
+    };
+  } catch (error: any) {
+    throw new Error(`Invalid cron expression "${expression}": ${error.message}`);
+  }
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const domMatch = fields.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = fields.daysOfWeek.has(date.getUTCDay());
+  if (fields.daysOfMonthRestricted && fields.daysOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next time (UTC, whole minute) strictly after `after` that matches the expression
+ */
+export function getNextCronRun(expression: string, after: Date = new Date()): Date {
+  const fields = parseCronExpression(expression);
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  const limit = after.getUTCFullYear() + MAX_SEARCH_YEARS;
+  while (next.getUTCFullYear() <= limit) {
+    if (!fields.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(fields, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!fields.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!fields.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  throw new Error(`Cron expression "${expression}" has no run time in the next ${MAX_SEARCH_YEARS} years`);
+}
@@ -15,7 +15,9 @@ export function generateCsrfToken(): string {
 }
 
 export function ensureCsrfToken(req: Request, res: Response, next: NextFunction) {
-  if (!req.session.csrfToken) {
+  // API-key requests have no session. Anonymous sessions get a token from /api/csrf-token
+  // instead, so requests that never need one (bots, health probes) store no session.
+  if (req.session?.userId && !req.session.csrfToken) {
     req.session.csrfToken = generateCsrfToken();
   }
   next();
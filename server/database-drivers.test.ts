@@ -0,0 +1,95 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EventEmitter } from "events";
+import { readMysqlRows, readMssqlRows } from "./database-drivers";
+
+type Event = [string, ...unknown[]];
+
+// A mysql2 callback connection whose query emits the given events, then records pauses
+function fakeMysqlConnection(events: Event[]) {
+  const connection = {
+    paused: false,
+    query() {
+      const stream = new EventEmitter();
+      setImmediate(() => {
+        for (const [name, ...args] of events) {
+          if (connection.paused) break;
+          stream.emit(name, ...args);
+        }
+      });
+      return stream;
+    },
+    pause() {
+      connection.paused = true;
+    },
+  };
+  return connection;
+}
+
+// An mssql streaming request that emits the given events, then records cancellation
+class FakeMssqlRequest extends EventEmitter {
+  stream = false;
+  cancelled = false;
+  constructor(private events: Event[]) {
+    super();
+  }
+  query() {
+    setImmediate(() => {
+      for (const [name, ...args] of this.events) {
+        if (this.cancelled) break;
+        this.emit(name, ...args);
+      }
+    });
+  }
+  cancel() {
+    this.cancelled = true;
+  }
+}
+
+const fields: Event = ["fields", [{ name: "id" }]];
+const rows = (count: number): Event[] => Array.from({ length: count }, (_, i) => ["result", { id: i + 1 }]);
+
+test("MySQL reads stop past the row limit and pause the connection", async () => {
+  const connection = fakeMysqlConnection([fields, ...rows(5), ["end"]]);
+  const result = await readMysqlRows(connection as any, "SELECT id FROM t", undefined, 3);
+
+  assert.deepEqual(result, { columns: ["id"], rows: [{ id: 1 }, { id: 2 }, { id: 3 }], truncated: true });
+  // The result is left half-read, so the driver must destroy this connection
+  assert.equal(connection.paused, true);
+});
+
+test("MySQL results that fit the row limit are not truncated", async () => {
+  const connection = fakeMysqlConnection([fields, ...rows(3), ["end"]]);
+  const result = await readMysqlRows(connection as any, "SELECT id FROM t", undefined, 3);
+
+  assert.equal(result.rows.length, 3);
+  assert.equal(result.truncated, false);
+  assert.equal(connection.paused, false);
+});
+
+test("MySQL statements without a result set return no rows", async () => {
+  const connection = fakeMysqlConnection([["result", { affectedRows: 2 }], ["end"]]);
+  assert.deepEqual(await readMysqlRows(connection as any, "UPDATE t SET a = 1", undefined, 3), { columns: [], rows: [], truncated: false });
+});
+
+test("MySQL errors reject the read", async () => {
+  const connection = fakeMysqlConnection([["error", new Error("Table 't' doesn't exist")]]);
+  await assert.rejects(readMysqlRows(connection as any, "SELECT id FROM t", undefined, 3), /doesn't exist/);
+});
+
+test("SQL Server reads cancel the batch past the row limit", async () => {
+  const request = new FakeMssqlRequest([["recordset", { id: {} }], ["row", { id: 1 }], ["row", { id: 2 }], ["row", { id: 3 }], ["done", {}]]);
+  const result = await readMssqlRows(request as any, "SELECT id FROM t", 2);
+
+  assert.deepEqual(result, { columns: ["id"], rows: [{ id: 1 }, { id: 2 }], truncated: true });
+  assert.equal(request.stream, true);
+  assert.equal(request.cancelled, true);
+});
+
+test("SQL Server results that fit the row limit report the affected row count", async () => {
+  const request = new FakeMssqlRequest([["recordset", { id: {} }], ["row", { id: 1 }], ["done", { rowsAffected: [1] }]]);
+  const result = await readMssqlRows(request as any, "SELECT id FROM t", 2);
+
+  assert.deepEqual(result, { columns: ["id"], rows: [{ id: 1 }], truncated: false, rowsAffected: 1 });
+  assert.equal(request.cancelled, false);
+});
@@ -1,18 +1,158 @@
-import type { OrganizationDatabaseConnection, DatabaseType } from "@shared/schema";
+import crypto from "crypto";
+import https from "https";
+import net from "net";
+import tls from "tls";
+import { SSL_MODES, type OrganizationDatabaseConnection, type DatabaseType, type SslMode } from "@shared/schema";
+import { withConnectionPool, POOL_CONNECTION_IDLE_TIMEOUT, type PoolAdapter, type ConnectionTarget } from "./connection-pools";
+import { SshTunnelError } from "./ssh-tunnel";
+import {
+  getAthenaSettingsError, createAthenaContext, athenaQueryInput, executeAthenaQueryWithPagination,
+  type AthenaQueryStatistics,
+} from "./athena-helper";
 
 export interface QueryResult {
   columns: string[];
   rows: Record<string, any>[];
   rowCount: number;
   executionTimeMs: number;
+  // True when the query produced more than rowLimit rows and reading stopped at the limit
+  truncated: boolean;
+  // Data scanned and estimated cost (Athena only)
+  statistics?: AthenaQueryStatistics;
+  // Athena served a previous execution's result (see ExecuteOptions.resultReuseMaxAgeMinutes)
+  resultReused?: boolean;
+}
+
+export interface SchemaColumn {
+  name: string;
+  type: string;
+}
+
+export interface SchemaTable {
+  schema: string;
+  name: string;
+  columns: SchemaColumn[];
+}
+
+export interface DatabaseSchema {
+  database: string;
+  schemas: string[];
+  tables: SchemaTable[];
+}
+
+export interface ExecuteOptions {
+  // Aborting the signal cancels the running statement on the database side
+  signal?: AbortSignal;
+  // String values bound to the query's placeholders, in the driver's native style
+  // (e.g. $1 for PostgreSQL, ? for MySQL, @p1 for SQL Server, {p1:String} for ClickHouse)
+  params?: string[];
+  // Run in the engine's read-only mode (PostgreSQL and MySQL read-only transactions,
+  // ClickHouse readonly=2). Only these engines allow read-only connections.
+  readOnly?: boolean;
+  // Athena only: reuse a previous execution's result up to this many minutes old
+  resultReuseMaxAgeMinutes?: number | null;
+}
+
+export interface ConnectionTestResult {
+  success: boolean;
+  message: string;
+  // Which step failed: reaching the database through the SSH bastion, or the database itself
+  stage?: 'tunnel' | 'database';
 }
 
 export interface DatabaseDriver {
-  testConnection(connection: OrganizationDatabaseConnection): Promise<{ success: boolean; message: string }>;
-  executeQuery(connection: OrganizationDatabaseConnection, query: string, rowLimit: number): Promise<QueryResult>;
+  testConnection(connection: OrganizationDatabaseConnection): Promise<ConnectionTestResult>;
+  executeQuery(connection: OrganizationDatabaseConnection, query: string, rowLimit: number, options?: ExecuteOptions): Promise<QueryResult>;
+  getSchema?(connection: OrganizationDatabaseConnection): Promise<DatabaseSchema>;
   disconnect?(): Promise<void>;
 }
 
+// Upper bound on column rows read during schema introspection
+const SCHEMA_COLUMN_LIMIT = 50000;
+
+// Identifiers interpolated into introspection SQL (Athena database, BigQuery project/dataset/region)
+const SAFE_IDENTIFIER = /^[a-zA-Z0-9_-]+$/;
+
+function assertSafeIdentifier(value: string, label: string): string {
+  if (!SAFE_IDENTIFIER.test(value)) {
+    throw new Error(`Invalid ${label}: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Run `handler` once when the signal aborts; returns a function that detaches the listener
+ */
+function onAbort(signal: AbortSignal | undefined, handler: () => Promise<void> | void): () => void {
+  if (!signal) return () => {};
+  const listener = () => {
+    Promise.resolve().then(handler).catch(err => console.error('Query cancellation failed:', err));
+  };
+  if (signal.aborted) {
+    listener();
+    return () => {};
+  }
+  signal.addEventListener('abort', listener, { once: true });
+  return () => signal.removeEventListener('abort', listener);
+}
+
+/**
+ * Failed testConnection result, keeping SSH tunnel failures apart from database errors
+ */
+function connectionTestFailure(error: any, fallback: string): ConnectionTestResult {
+  if (error instanceof SshTunnelError) {
+    return { success: false, stage: 'tunnel', message: error.message };
+  }
+  return { success: false, stage: 'database', message: error.message || fallback };
+}
+
+/**
+ * Drop leading whitespace, comments and opening parentheses so the first keyword can be inspected
+ */
+function stripLeadingComments(query: string): string {
+  let rest = query;
+  for (;;) {
+    rest = rest.trimStart();
+    if (rest.startsWith('--')) {
+      const newline = rest.indexOf('\n');
+      rest = newline === -1 ? '' : rest.slice(newline + 1);
+    } else if (rest.startsWith('/*')) {
+      const end = rest.indexOf('*/');
+      rest = end === -1 ? '' : rest.slice(end + 2);
+    } else if (rest.startsWith('(')) {
+      rest = rest.slice(1);
+    } else {
+      return rest;
+    }
+  }
+}
+
+/**
+ * Group information_schema-style rows (table_schema, table_name, column_name, data_type)
+ * into tables with ordered columns
+ */
+function buildSchemaFromColumnRows(database: string, rows: Record<string, any>[]): DatabaseSchema {
+  const tables = new Map<string, SchemaTable>();
+  for (const row of rows) {
+    const schema = String(row.table_schema ?? '');
+    const name = String(row.table_name ?? '');
+    if (!name) continue;
+    const key = `${schema}.${name}`;
+    let table = tables.get(key);
+    if (!table) {
+      table = { schema, name, columns: [] };
+      tables.set(key, table);
+    }
+    table.columns.push({ name: String(row.column_name ?? ''), type: String(row.data_type ?? '') });
+  }
+  const tableList = Array.from(tables.values());
+  return {
+    database,
+    schemas: Array.from(new Set(tableList.map(t => t.schema))),
+    tables: tableList,
+  };
+}
+
 function getDefaultPort(type: DatabaseType): number {
   switch (type) {
     case 'postgresql': return 5432;
@@ -24,176 +164,447 @@ function getDefaultPort(type: DatabaseType): number {
   }
 }
 
+interface TlsSettings {
+  // Check the certificate chain against sslCaCert (or the system CAs when there is none)
+  verifyCertificate: boolean;
+  // Also check the certificate was issued for the server's hostname
+  verifyHostname: boolean;
+  // Hostname the certificate must match; the real host when dialling through an SSH tunnel
+  serverName: string;
+  ca?: string;
+  cert?: string;
+  key?: string;
+}
+
+/**
+ * TLS settings for the connection's sslMode, or null when TLS is disabled
+ */
+function tlsSettings(conn: ConnectionTarget): TlsSettings | null {
+  const mode = conn.sslMode as SslMode;
+  if (!SSL_MODES.includes(mode)) {
+    throw new Error(`Unsupported TLS mode: ${conn.sslMode}`);
+  }
+  if (mode === 'disable') return null;
+  return {
+    verifyCertificate: mode === 'verify-ca' || mode === 'verify-full',
+    verifyHostname: mode === 'verify-full',
+    serverName: conn.tlsServerName || conn.host || 'localhost',
+    ca: conn.sslCaCert || undefined,
+    cert: conn.sslClientCert || undefined,
+    key: conn.sslClientKey || undefined,
+  };
+}
+
+// Options for drivers that hand them straight to Node's tls.connect (pg, https.Agent)
+function nodeTlsOptions(settings: TlsSettings): tls.ConnectionOptions {
+  return {
+    rejectUnauthorized: settings.verifyCertificate,
+    ca: settings.ca,
+    cert: settings.cert,
+    key: settings.key,
+    // SNI only carries hostnames
+    servername: net.isIP(settings.serverName) ? undefined : settings.serverName,
+    checkServerIdentity: settings.verifyHostname
+      ? (_host, cert) => tls.checkServerIdentity(settings.serverName, cert)
+      : () => undefined,
+  };
+}
+
+/**
+ * Validate sslMode from a request body and keep the legacy ssl flag in step with it.
+ * A body that only sets ssl maps to require/disable. Returns an error message, or null.
+ */
+export function applySslMode(data: { ssl?: unknown; sslMode?: unknown }): string | null {
+  if (data.sslMode === undefined) {
+    if (data.ssl !== undefined) data.sslMode = data.ssl ? 'require' : 'disable';
+    return null;
+  }
+  if (!SSL_MODES.includes(data.sslMode as SslMode)) {
+    return `sslMode must be one of: ${SSL_MODES.join(', ')}`;
+  }
+  data.ssl = data.sslMode !== 'disable';
+  return null;
+}
+
+function postgresConfig(conn: ConnectionTarget) {
+  const settings = tlsSettings(conn);
+  return {
+    host: conn.host || 'localhost',
+    port: conn.port || 5432,
+    database: conn.database || 'postgres',
+    user: conn.username || 'postgres',
+    password: conn.password || '',
+    ssl: settings ? nodeTlsOptions(settings) : false,
+    connectionTimeoutMillis: 10000,
+  };
+}
+
+const postgresPools: PoolAdapter<import('pg').Pool> = {
+  defaultPort: 5432,
+  async create(conn, maxSize) {
+    const { default: pg } = await import('pg');
+    const pool = new pg.Pool({ ...postgresConfig(conn), max: maxSize, idleTimeoutMillis: POOL_CONNECTION_IDLE_TIMEOUT });
+    // Without a listener, an idle client losing its connection would crash the process
+    pool.on('error', err => console.error(`PostgreSQL pool error (${conn.id}):`, err.message));
+    return pool;
+  },
+  close: pool => pool.end(),
+  counts: pool => ({ open: pool.totalCount, idle: pool.idleCount, waiting: pool.waitingCount }),
+};
+
+// Statements Postgres accepts in DECLARE CURSOR; anything else runs as a plain query
+const POSTGRES_CURSOR_STATEMENT = /^(select|with|values|table)\b/i;
+
 const postgresDriver: DatabaseDriver = {
   async testConnection(conn) {
-    const { default: pg } = await import('pg');
-    const client = new pg.Client({
-      host: conn.host || 'localhost',
-      port: conn.port || 5432,
-      database: conn.database || 'postgres',
-      user: conn.username || 'postgres',
-      password: conn.password || '',
-      ssl: conn.ssl ? { rejectUnauthorized: false } : false,
-      connectionTimeoutMillis: 10000,
-    });
     try {
-      await client.connect();
-      await client.query('SELECT 1');
-      await client.end();
+      await withConnectionPool(conn, postgresPools, pool => pool.query('SELECT 1'));
       return { success: true, message: 'Successfully connected to PostgreSQL database.' };
     } catch (error: any) {
-      try { await client.end(); } catch {}
-      return { success: false, message: error.message || 'Failed to connect to PostgreSQL.' };
+      return connectionTestFailure(error, 'Failed to connect to PostgreSQL.');
     }
   },
-  async executeQuery(conn, query, rowLimit) {
+  async executeQuery(conn, query, rowLimit, options) {
     const { default: pg } = await import('pg');
-    const client = new pg.Client({
-      host: conn.host || 'localhost',
-      port: conn.port || 5432,
-      database: conn.database || 'postgres',
-      user: conn.username || 'postgres',
-      password: conn.password || '',
-      ssl: conn.ssl ? { rejectUnauthorized: false } : false,
-      connectionTimeoutMillis: 10000,
+    return withConnectionPool(conn, postgresPools, async (pool, target) => {
+      const startTime = Date.now();
+      const client = await pool.connect();
+      let failure: Error | undefined;
+      // Cancel from a second session, as pg_cancel_backend needs the running backend's pid
+      const detachCancel = onAbort(options?.signal, async () => {
+        const canceller = new pg.Client(postgresConfig(target));
+        await canceller.connect();
+        try {
+          await canceller.query('SELECT pg_cancel_backend($1)', [(client as import('pg').PoolClient & { processID: number }).processID]);
+        } finally {
+          await canceller.end();
+        }
+      });
+      try {
+        const useCursor = POSTGRES_CURSOR_STATEMENT.test(stripLeadingComments(query));
+        const inTransaction = useCursor || !!options?.readOnly;
+        if (inTransaction) {
+          await client.query(options?.readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+        }
+        let result;
+        if (useCursor) {
+          // Fetch through a server-side cursor so Postgres never sends rows past the limit
+          await client.query(`DECLARE voyager_result NO SCROLL CURSOR FOR ${query.trim().replace(/;+$/, '')}`, options?.params);
+          result = await client.query(`FETCH FORWARD ${rowLimit + 1} FROM voyager_result`);
+        } else {
+          result = await client.query(query, options?.params);
+        }
+        if (inTransaction) {
+          await client.query('COMMIT');
+        }
+        const executionTimeMs = Date.now() - startTime;
+        const columns = result.fields?.map(f => f.name) || [];
+        const truncated = (result.rows || []).length > rowLimit;
+        const rows = (result.rows || []).slice(0, rowLimit);
+        const rowCount = useCursor ? rows.length : (result.rowCount || rows.length);
+        return { columns, rows, rowCount, executionTimeMs, truncated };
+      } catch (error: any) {
+        failure = error;
+        throw error;
+      } finally {
+        detachCancel();
+        // A failed or cancelled statement can leave the session mid-transaction, so drop it from the pool
+        client.release(failure);
+      }
     });
-    const startTime = Date.now();
-    try {
-      await client.connect();
-      const result = await client.query(query);
-      const executionTimeMs = Date.now() - startTime;
-      const columns = result.fields?.map(f => f.name) || [];
-      const rows = (result.rows || []).slice(0, rowLimit);
-      await client.end();
-      return { columns, rows, rowCount: result.rowCount || rows.length, executionTimeMs };
-    } catch (error: any) {
-      try { await client.end(); } catch {}
-      throw error;
-    }
+  },
+  async getSchema(conn) {
+    const result = await postgresDriver.executeQuery(conn, `
+      SELECT table_schema, table_name, column_name, data_type
+      FROM information_schema.columns
+      WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
+        AND table_schema NOT LIKE 'pg_toast%'
+      ORDER BY table_schema, table_name, ordinal_position`, SCHEMA_COLUMN_LIMIT);
+    return buildSchemaFromColumnRows(conn.database || 'postgres', result.rows);
+  }
+};
+
+function mysqlConfig(conn: ConnectionTarget) {
+  const settings = tlsSettings(conn);
+  // mysql2 matches the certificate against the host it dials, which is 127.0.0.1 behind a tunnel
+  if (settings?.verifyHostname && conn.tlsServerName) {
+    throw new Error('TLS mode verify-full is not supported for MySQL through an SSH tunnel; use verify-ca');
   }
+  return {
+    host: conn.host || 'localhost',
+    port: conn.port || 3306,
+    database: conn.database || '',
+    user: conn.username || 'root',
+    password: conn.password || '',
+    ssl: settings ? {
+      ca: settings.ca,
+      cert: settings.cert,
+      key: settings.key,
+      rejectUnauthorized: settings.verifyCertificate,
+      verifyIdentity: settings.verifyHostname,
+    } : undefined,
+    connectTimeout: 10000,
+  };
+}
+
+// Undocumented queues of mysql2's callback pool, read for pool stats only (hence optional)
+interface MysqlPoolInternals {
+  _allConnections?: { length: number };
+  _freeConnections?: { length: number };
+  _connectionQueue?: { length: number };
+}
+
+const mysqlPools: PoolAdapter<import('mysql2/promise').Pool> = {
+  defaultPort: 3306,
+  async create(conn, maxSize) {
+    const mysql = await import('mysql2/promise');
+    return mysql.createPool({
+      ...mysqlConfig(conn),
+      connectionLimit: maxSize,
+      maxIdle: maxSize,
+      idleTimeout: POOL_CONNECTION_IDLE_TIMEOUT,
+      waitForConnections: true,
+    });
+  },
+  close: pool => pool.end(),
+  counts: pool => {
+    // mysql2 does not expose pool sizes publicly; read them from the underlying callback pool
+    const inner = pool.pool as unknown as MysqlPoolInternals;
+    return {
+      open: inner?._allConnections?.length ?? null,
+      idle: inner?._freeConnections?.length ?? null,
+      waiting: inner?._connectionQueue?.length ?? null,
+    };
+  },
 };
 
+/**
+ * Stream a query's rows, stopping after `rowLimit`. When the result is truncated the
+ * connection is left paused mid-result and must be destroyed, not returned to the pool.
+ */
+export function readMysqlRows(
+  connection: import('mysql2').Connection,
+  query: string,
+  params: string[] | undefined,
+  rowLimit: number
+): Promise<{ columns: string[]; rows: Record<string, any>[]; truncated: boolean }> {
+  return new Promise((resolve, reject) => {
+    const rows: Record<string, any>[] = [];
+    let columns: string[] = [];
+    let settled = false;
+    const finish = (truncated: boolean) => {
+      if (settled) return;
+      settled = true;
+      resolve({ columns, rows, truncated });
+    };
+    connection.query(query, params)
+      .on('fields', (fields: any[]) => {
+        if (columns.length === 0) columns = fields.map(f => f.name);
+      })
+      .on('result', (row: any) => {
+        // Statements without a result set (INSERT, UPDATE, ...) emit an OK packet instead of rows
+        if (settled || columns.length === 0) return;
+        if (rows.length < rowLimit) {
+          rows.push(row);
+          return;
+        }
+        connection.pause();
+        finish(true);
+      })
+      .on('error', (error: Error) => {
+        if (settled) return;
+        settled = true;
+        reject(error);
+      })
+      .on('end', () => finish(false));
+  });
+}
+
 const mysqlDriver: DatabaseDriver = {
   async testConnection(conn) {
-    const mysql = await import('mysql2/promise');
-    let connection;
     try {
-      connection = await mysql.createConnection({
-        host: conn.host || 'localhost',
-        port: conn.port || 3306,
-        database: conn.database || '',
-        user: conn.username || 'root',
-        password: conn.password || '',
-        ssl: conn.ssl ? { rejectUnauthorized: false } : undefined,
-        connectTimeout: 10000,
-      });
-      await connection.query('SELECT 1');
-      await connection.end();
+      await withConnectionPool(conn, mysqlPools, pool => pool.query('SELECT 1'));
       return { success: true, message: 'Successfully connected to MySQL database.' };
     } catch (error: any) {
-      try { if (connection) await connection.end(); } catch {}
-      return { success: false, message: error.message || 'Failed to connect to MySQL.' };
+      return connectionTestFailure(error, 'Failed to connect to MySQL.');
     }
   },
-  async executeQuery(conn, query, rowLimit) {
+  async executeQuery(conn, query, rowLimit, options) {
     const mysql = await import('mysql2/promise');
-    const startTime = Date.now();
-    const connection = await mysql.createConnection({
-      host: conn.host || 'localhost',
-      port: conn.port || 3306,
-      database: conn.database || '',
-      user: conn.username || 'root',
-      password: conn.password || '',
-      ssl: conn.ssl ? { rejectUnauthorized: false } : undefined,
-      connectTimeout: 10000,
+    return withConnectionPool(conn, mysqlPools, async (pool, target) => {
+      const startTime = Date.now();
+      const connection = await pool.getConnection();
+      let discard = false;
+      // KILL QUERY must be issued from another connection while the statement runs
+      const detachCancel = onAbort(options?.signal, async () => {
+        const killer = await mysql.createConnection(mysqlConfig(target));
+        try {
+          await killer.query(`KILL QUERY ${Number(connection.threadId)}`);
+        } finally {
+          await killer.end();
+        }
+      });
+      try {
+        // `.connection` is the underlying callback connection (the typings call it a promise Connection)
+        const core = connection.connection as unknown as import('mysql2').Connection;
+        if (options?.readOnly) {
+          await connection.query('START TRANSACTION READ ONLY');
+        }
+        const { columns, rows, truncated } = await readMysqlRows(core, query, options?.params, rowLimit);
+        discard = truncated;
+        if (options?.readOnly && !truncated) {
+          await connection.query('COMMIT');
+        }
+        const executionTimeMs = Date.now() - startTime;
+        return { columns, rows, rowCount: rows.length, executionTimeMs, truncated };
+      } catch (error: any) {
+        discard = true;
+        throw error;
+      } finally {
+        detachCancel();
+        // Drop the session after a failed, killed or partly-read statement rather than reusing it
+        if (discard) connection.destroy();
+        else connection.release();
+      }
     });
-    try {
-      const [rows, fields] = await connection.query(query);
-      const executionTimeMs = Date.now() - startTime;
-      const resultRows = Array.isArray(rows) ? rows.slice(0, rowLimit) : [];
-      const columns = Array.isArray(fields) ? fields.map((f: any) => f.name) : [];
-      await connection.end();
-      return { columns, rows: resultRows as Record<string, any>[], rowCount: resultRows.length, executionTimeMs };
-    } catch (error: any) {
-      try { await connection.end(); } catch {}
-      throw error;
-    }
+  },
+  async getSchema(conn) {
+    const schemaFilter = conn.database
+      ? 'table_schema = DATABASE()'
+      : "table_schema NOT IN ('mysql', 'information_schema', 'performance_schema', 'sys')";
+    const result = await mysqlDriver.executeQuery(conn, `
+      SELECT table_schema AS table_schema, table_name AS table_name,
+             column_name AS column_name, column_type AS data_type
+      FROM information_schema.columns
+      WHERE ${schemaFilter}
+      ORDER BY table_schema, table_name, ordinal_position`, SCHEMA_COLUMN_LIMIT);
+    return buildSchemaFromColumnRows(conn.database || '', result.rows);
   }
 };
 
+function mssqlConfig(conn: ConnectionTarget) {
+  const settings = tlsSettings(conn);
+  return {
+    server: conn.host || 'localhost',
+    port: conn.port || 1433,
+    database: conn.database || 'master',
+    user: conn.username || '',
+    password: conn.password || '',
+    // Tedious always checks the hostname once it verifies certificates, so verify-ca
+    // behaves like verify-full here
+    options: {
+      encrypt: !!settings,
+      trustServerCertificate: !settings?.verifyCertificate,
+      serverName: conn.tlsServerName || undefined,
+      cryptoCredentialsDetails: settings ? { ca: settings.ca, cert: settings.cert, key: settings.key } : undefined,
+    },
+    connectionTimeout: 10000,
+  };
+}
+
+const mssqlPools: PoolAdapter<import('mssql').ConnectionPool> = {
+  defaultPort: 1433,
+  async create(conn, maxSize) {
+    const sql = await import('mssql');
+    const pool = new sql.default.ConnectionPool({
+      ...mssqlConfig(conn),
+      pool: { max: maxSize, min: 0, idleTimeoutMillis: POOL_CONNECTION_IDLE_TIMEOUT },
+    });
+    pool.on('error', err => console.error(`SQL Server pool error (${conn.id}):`, err.message));
+    await pool.connect();
+    return pool;
+  },
+  close: pool => pool.close(),
+  counts: pool => ({ open: pool.size, idle: pool.available, waiting: pool.pending }),
+};
+
+/**
+ * Stream a request's rows, cancelling the batch once more than `rowLimit` rows have arrived
+ */
+export function readMssqlRows(
+  request: import('mssql').Request,
+  query: string,
+  rowLimit: number
+): Promise<{ columns: string[]; rows: Record<string, any>[]; truncated: boolean; rowsAffected?: number }> {
+  return new Promise((resolve, reject) => {
+    const rows: Record<string, any>[] = [];
+    let columns: string[] = [];
+    let settled = false;
+    request.stream = true;
+    request.on('recordset', (recordsetColumns: Record<string, unknown>) => {
+      if (columns.length === 0) columns = Object.keys(recordsetColumns);
+    });
+    request.on('row', (row: Record<string, any>) => {
+      if (settled) return;
+      if (rows.length < rowLimit) {
+        rows.push(row);
+        return;
+      }
+      settled = true;
+      request.cancel();
+      resolve({ columns, rows, truncated: true });
+    });
+    request.on('error', (error: Error) => {
+      if (settled) return;
+      settled = true;
+      reject(error);
+    });
+    request.on('done', (result: { rowsAffected?: number[] }) => {
+      if (settled) return;
+      settled = true;
+      resolve({ columns, rows, truncated: false, rowsAffected: result?.rowsAffected?.[0] });
+    });
+    request.query(query);
+  });
+}
+
 const mssqlDriver: DatabaseDriver = {
   async testConnection(conn) {
-    const sql = await import('mssql');
     try {
-      const pool = await sql.default.connect({
-        server: conn.host || 'localhost',
-        port: conn.port || 1433,
-        database: conn.database || 'master',
-        user: conn.username || '',
-        password: conn.password || '',
-        options: {
-          encrypt: conn.ssl,
-          trustServerCertificate: true,
-        },
-        connectionTimeout: 10000,
-      });
-      await pool.request().query('SELECT 1');
-      await pool.close();
+      await withConnectionPool(conn, mssqlPools, pool => pool.request().query('SELECT 1'));
       return { success: true, message: 'Successfully connected to SQL Server.' };
     } catch (error: any) {
-      return { success: false, message: error.message || 'Failed to connect to SQL Server.' };
+      return connectionTestFailure(error, 'Failed to connect to SQL Server.');
     }
   },
-  async executeQuery(conn, query, rowLimit) {
-    const sql = await import('mssql');
-    const startTime = Date.now();
-    const pool = await sql.default.connect({
-      server: conn.host || 'localhost',
-      port: conn.port || 1433,
-      database: conn.database || 'master',
-      user: conn.username || '',
-      password: conn.password || '',
-      options: {
-        encrypt: conn.ssl,
-        trustServerCertificate: true,
-      },
-      connectionTimeout: 10000,
+  async executeQuery(conn, query, rowLimit, options) {
+    return withConnectionPool(conn, mssqlPools, async pool => {
+      const startTime = Date.now();
+      const request = pool.request();
+      options?.params?.forEach((value, index) => request.input(`p${index + 1}`, value));
+      // Request.cancel() sends a TDS attention signal to stop the running batch
+      const detachCancel = onAbort(options?.signal, () => request.cancel());
+      try {
+        const { columns, rows, truncated, rowsAffected } = await readMssqlRows(request, query, rowLimit);
+        const executionTimeMs = Date.now() - startTime;
+        const rowCount = truncated ? rows.length : (rowsAffected || rows.length);
+        return { columns, rows, rowCount, executionTimeMs, truncated };
+      } finally {
+        detachCancel();
+      }
     });
-    try {
-      const result = await pool.request().query(query);
-      const executionTimeMs = Date.now() - startTime;
-      const rows = (result.recordset || []).slice(0, rowLimit);
-      const columns = result.recordset?.columns ? Object.keys(result.recordset.columns) : (rows.length > 0 ? Object.keys(rows[0]) : []);
-      await pool.close();
-      return { columns, rows, rowCount: result.rowsAffected?.[0] || rows.length, executionTimeMs };
-    } catch (error: any) {
-      try { await pool.close(); } catch {}
-      throw error;
-    }
+  },
+  async getSchema(conn) {
+    const result = await mssqlDriver.executeQuery(conn, `
+      SELECT TABLE_SCHEMA AS table_schema, TABLE_NAME AS table_name,
+             COLUMN_NAME AS column_name, DATA_TYPE AS data_type
+      FROM INFORMATION_SCHEMA.COLUMNS
+      ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION`, SCHEMA_COLUMN_LIMIT);
+    return buildSchemaFromColumnRows(conn.database || 'master', result.rows);
   }
 };
 
 const athenaDriver: DatabaseDriver = {
   async testConnection(conn) {
-    const { AthenaClient, StartQueryExecutionCommand, GetQueryExecutionCommand } = await import('@aws-sdk/client-athena');
+    const { GetQueryExecutionCommand, StartQueryExecutionCommand } = await import('@aws-sdk/client-athena');
     try {
-      if (!conn.awsAccessKeyId || !conn.awsSecretAccessKey) {
-        return { success: false, message: 'AWS Access Key ID and Secret Access Key are required.' };
-      }
-      if (!conn.s3OutputLocation) {
-        return { success: false, message: 'S3 Output Location is required.' };
+      const settingsError = getAthenaSettingsError(conn);
+      if (settingsError) {
+        return { success: false, message: settingsError };
       }
-      const client = new AthenaClient({
-        region: conn.awsRegion || 'us-east-1',
-        credentials: {
-          accessKeyId: conn.awsAccessKeyId,
-          secretAccessKey: conn.awsSecretAccessKey,
-        },
-      });
-      const startCmd = new StartQueryExecutionCommand({
-        QueryString: 'SELECT 1',
-        ResultConfiguration: { OutputLocation: conn.s3OutputLocation },
-      });
+      const athena = createAthenaContext(conn);
+      const client = athena.client;
+      const startCmd = new StartQueryExecutionCommand(athenaQueryInput(athena, 'SELECT 1'));
       const startRes = await client.send(startCmd);
       const qid = startRes.QueryExecutionId;
       if (!qid) return { success: false, message: 'Failed to start test query.' };
@@ -215,25 +626,14 @@ const athenaDriver: DatabaseDriver = {
       return { success: false, message: error.message || 'Failed to connect to AWS Athena.' };
     }
   },
-  async executeQuery(conn, query, rowLimit) {
-    const { executeAthenaQueryWithPagination } = await import('./athena-helper');
-    const { AthenaClient } = await import('@aws-sdk/client-athena');
-
-    if (!conn.awsAccessKeyId || !conn.awsSecretAccessKey || !conn.s3OutputLocation) {
-      throw new Error('AWS credentials and S3 output location are required.');
-    }
-
-    const client = new AthenaClient({
-      region: conn.awsRegion || 'us-east-1',
-      credentials: {
-        accessKeyId: conn.awsAccessKeyId,
-        secretAccessKey: conn.awsSecretAccessKey,
-      },
-    });
-
+  async executeQuery(conn, query, rowLimit, options) {
     const startTime = Date.now();
+    const athena = {
+      ...createAthenaContext(conn),
+      resultReuseMaxAgeMinutes: options?.resultReuseMaxAgeMinutes ?? null,
+    };
     const result = await executeAthenaQueryWithPagination(
-      client, query, conn.s3OutputLocation, rowLimit
+      athena, query, rowLimit, undefined, undefined, options?.signal, options?.params
     );
     const executionTimeMs = Date.now() - startTime;
 
@@ -242,116 +642,231 @@ const athenaDriver: DatabaseDriver = {
       rows: result.data,
       rowCount: result.totalRows,
       executionTimeMs,
+      truncated: result.truncated,
+      statistics: result.statistics,
+      resultReused: result.resultReused,
     };
+  },
+  async getSchema(conn) {
+    if (!conn.database) {
+      throw new Error('Database name not configured on this Athena connection.');
+    }
+    const database = assertSafeIdentifier(conn.database, 'Athena database name');
+    const result = await athenaDriver.executeQuery(conn, `
+      SELECT table_schema, table_name, column_name, data_type
+      FROM information_schema.columns
+      WHERE table_schema = '${database}'
+      ORDER BY table_name, ordinal_position`, SCHEMA_COLUMN_LIMIT);
+    return buildSchemaFromColumnRows(database, result.rows);
   }
 };
 
-const clickhouseDriver: DatabaseDriver = {
-  async testConnection(conn) {
+// The ClickHouse client talks HTTP; pooling it keeps keep-alive sockets open between queries
+const clickhousePools: PoolAdapter<import('@clickhouse/client').ClickHouseClient> = {
+  defaultPort: 8123,
+  async create(conn, maxSize) {
     const { createClient } = await import('@clickhouse/client');
-    const client = createClient({
-      url: `${conn.ssl ? 'https' : 'http'}://${conn.host || 'localhost'}:${conn.port || 8123}`,
+    const settings = tlsSettings(conn);
+    return createClient({
+      url: `${settings ? 'https' : 'http'}://${conn.host || 'localhost'}:${conn.port || 8123}`,
       username: conn.username || 'default',
       password: conn.password || '',
       database: conn.database || 'default',
-      request_timeout: 10000,
+      request_timeout: 60000,
+      max_open_connections: maxSize,
+      // The client's own tls option cannot skip verification or override the hostname
+      http_agent: settings
+        ? new https.Agent({ keepAlive: true, maxSockets: maxSize, ...nodeTlsOptions(settings) })
+        : undefined,
     });
+  },
+  close: client => client.close(),
+  counts: () => ({ open: null, idle: null, waiting: null }),
+};
+
+const clickhouseDriver: DatabaseDriver = {
+  async testConnection(conn) {
     try {
-      await client.query({ query: 'SELECT 1' });
-      await client.close();
+      await withConnectionPool(conn, clickhousePools, client => client.query({ query: 'SELECT 1' }));
       return { success: true, message: 'Successfully connected to ClickHouse.' };
     } catch (error: any) {
-      try { await client.close(); } catch {}
-      return { success: false, message: error.message || 'Failed to connect to ClickHouse.' };
+      return connectionTestFailure(error, 'Failed to connect to ClickHouse.');
     }
   },
-  async executeQuery(conn, query, rowLimit) {
-    const { createClient } = await import('@clickhouse/client');
-    const startTime = Date.now();
-    const client = createClient({
-      url: `${conn.ssl ? 'https' : 'http'}://${conn.host || 'localhost'}:${conn.port || 8123}`,
-      username: conn.username || 'default',
-      password: conn.password || '',
-      database: conn.database || 'default',
-      request_timeout: 60000,
+  async executeQuery(conn, query, rowLimit, options) {
+    return withConnectionPool(conn, clickhousePools, async client => {
+      const startTime = Date.now();
+      const queryId = crypto.randomUUID();
+      // Aborting the HTTP request alone leaves the query running server-side, so KILL it too
+      const detachCancel = onAbort(options?.signal, async () => {
+        await client.command({ query: `KILL QUERY WHERE query_id = '${queryId}'` });
+      });
+      try {
+        const queryParams = options?.params
+          ? Object.fromEntries(options.params.map((value, index) => [`p${index + 1}`, value]))
+          : undefined;
+        const result = await client.query({
+          query,
+          format: 'JSONEachRow',
+          query_id: queryId,
+          query_params: queryParams,
+          abort_signal: options?.signal,
+          // 2 = reads only, but the request may still change settings
+          clickhouse_settings: options?.readOnly ? { readonly: '2' } : undefined,
+        });
+        const rows: Record<string, any>[] = [];
+        let truncated = false;
+        // Leaving the loop early closes the response stream, so unread rows are never downloaded
+        for await (const batch of result.stream()) {
+          for (const row of batch) {
+            if (rows.length >= rowLimit) {
+              truncated = true;
+              break;
+            }
+            rows.push(row.json() as Record<string, any>);
+          }
+          if (truncated) break;
+        }
+        if (truncated) {
+          client.command({ query: `KILL QUERY WHERE query_id = '${queryId}'` })
+            .catch(err => console.error('Failed to stop truncated ClickHouse query:', err));
+        }
+        const executionTimeMs = Date.now() - startTime;
+        const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+        return { columns, rows, rowCount: rows.length, executionTimeMs, truncated };
+      } finally {
+        detachCancel();
+      }
     });
-    try {
-      const result = await client.query({ query, format: 'JSONEachRow' });
-      const rows = await result.json() as Record<string, any>[];
-      const executionTimeMs = Date.now() - startTime;
-      const limitedRows = rows.slice(0, rowLimit);
-      const columns = limitedRows.length > 0 ? Object.keys(limitedRows[0]) : [];
-      await client.close();
-      return { columns, rows: limitedRows, rowCount: rows.length, executionTimeMs };
-    } catch (error: any) {
-      try { await client.close(); } catch {}
-      throw error;
-    }
+  },
+  async getSchema(conn) {
+    // system.columns is ClickHouse's native equivalent of information_schema.columns
+    const result = await clickhouseDriver.executeQuery(conn, `
+      SELECT database AS table_schema, table AS table_name, name AS column_name, type AS data_type
+      FROM system.columns
+      WHERE database = currentDatabase()
+      ORDER BY table, position`, SCHEMA_COLUMN_LIMIT);
+    return buildSchemaFromColumnRows(conn.database || 'default', result.rows);
   }
 };
 
+function snowflakeConfig(conn: OrganizationDatabaseConnection) {
+  return {
+    account: conn.account || '',
+    username: conn.username || '',
+    password: conn.password || '',
+    database: conn.database || '',
+    warehouse: conn.warehouse || '',
+    schema: conn.schema || 'PUBLIC',
+    role: conn.role || '',
+  };
+}
+
+type SnowflakePool = ReturnType<typeof import('snowflake-sdk').createPool>;
+type SnowflakeConnection = Parameters<Parameters<SnowflakePool['use']>[0]>[0];
+
+const snowflakePools: PoolAdapter<SnowflakePool> = {
+  defaultPort: 443,
+  async create(conn, maxSize) {
+    const snowflake = await import('snowflake-sdk');
+    return snowflake.createPool(snowflakeConfig(conn), {
+      max: maxSize,
+      min: 0,
+      idleTimeoutMillis: POOL_CONNECTION_IDLE_TIMEOUT,
+      evictionRunIntervalMillis: POOL_CONNECTION_IDLE_TIMEOUT,
+      // generic-pool never fails a waiting acquire when connecting errors, so bound the wait
+      acquireTimeoutMillis: 60000,
+    });
+  },
+  async close(pool) {
+    await pool.drain();
+    await pool.clear();
+  },
+  counts: pool => ({ open: pool.size, idle: pool.available, waiting: pool.pending }),
+};
+
+/**
+ * Run a statement and stream back at most `rowLimit` rows; only the result chunks
+ * covering those rows are downloaded
+ */
+function runSnowflakeStatement(
+  connection: SnowflakeConnection,
+  query: string,
+  rowLimit: number,
+  options?: ExecuteOptions
+): Promise<{ rows: Record<string, any>[]; truncated: boolean }> {
+  return new Promise((resolve, reject) => {
+    let detachCancel = () => {};
+    const statement = connection.execute({
+      sqlText: query,
+      binds: options?.params,
+      streamResult: true,
+      complete: (execErr, stmt) => {
+        if (execErr) {
+          detachCancel();
+          return reject(execErr);
+        }
+        const totalRows = stmt.getNumRows();
+        const rows: Record<string, any>[] = [];
+        const end = Math.min(totalRows, rowLimit);
+        if (end === 0) {
+          detachCancel();
+          return resolve({ rows, truncated: totalRows > rowLimit });
+        }
+        stmt.streamRows({ start: 0, end: end - 1 })
+          .on('data', (row: Record<string, any>) => rows.push(row))
+          .on('error', (streamErr: Error) => {
+            detachCancel();
+            reject(streamErr);
+          })
+          .on('end', () => {
+            detachCancel();
+            resolve({ rows, truncated: totalRows > rowLimit });
+          });
+      },
+    });
+    detachCancel = onAbort(options?.signal, () => statement.cancel());
+  });
+}
+
 const snowflakeDriver: DatabaseDriver = {
   async testConnection(conn) {
     try {
-      const snowflake = await import('snowflake-sdk');
-      return new Promise((resolve) => {
-        const connection = snowflake.createConnection({
-          account: conn.account || '',
-          username: conn.username || '',
-          password: conn.password || '',
-          database: conn.database || '',
-          warehouse: conn.warehouse || '',
-          schema: conn.schema || 'PUBLIC',
-          role: conn.role || '',
-        });
-        connection.connect((err) => {
-          if (err) {
-            resolve({ success: false, message: err.message || 'Failed to connect to Snowflake.' });
-          } else {
-            connection.destroy((destroyErr) => {
-              resolve({ success: true, message: 'Successfully connected to Snowflake.' });
-            });
-          }
-        });
-        setTimeout(() => {
-          resolve({ success: false, message: 'Connection timed out.' });
-        }, 15000);
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Connection timed out.')), 15000);
       });
+      try {
+        await Promise.race([
+          withConnectionPool(conn, snowflakePools, pool => pool.use(connection => runSnowflakeStatement(connection, 'SELECT 1', 1))),
+          timeout,
+        ]);
+      } finally {
+        clearTimeout(timer);
+      }
+      return { success: true, message: 'Successfully connected to Snowflake.' };
     } catch (error: any) {
       return { success: false, message: error.message || 'Failed to connect to Snowflake.' };
     }
   },
-  async executeQuery(conn, query, rowLimit) {
-    const snowflake = await import('snowflake-sdk');
-    const startTime = Date.now();
-    return new Promise((resolve, reject) => {
-      const connection = snowflake.createConnection({
-        account: conn.account || '',
-        username: conn.username || '',
-        password: conn.password || '',
-        database: conn.database || '',
-        warehouse: conn.warehouse || '',
-        schema: conn.schema || 'PUBLIC',
-        role: conn.role || '',
-      });
-      connection.connect((err) => {
-        if (err) return reject(err);
-        connection.execute({
-          sqlText: query,
-          complete: (execErr, stmt, rows) => {
-            const executionTimeMs = Date.now() - startTime;
-            if (execErr) {
-              connection.destroy(() => {});
-              return reject(execErr);
-            }
-            const resultRows = (rows || []).slice(0, rowLimit) as Record<string, any>[];
-            const columns = resultRows.length > 0 ? Object.keys(resultRows[0]) : [];
-            connection.destroy(() => {});
-            resolve({ columns, rows: resultRows, rowCount: (rows || []).length, executionTimeMs });
-          },
-        });
-      });
-    });
+  async executeQuery(conn, query, rowLimit, options) {
+    return withConnectionPool(conn, snowflakePools, pool => pool.use(async connection => {
+      const startTime = Date.now();
+      const { rows, truncated } = await runSnowflakeStatement(connection, query, rowLimit, options);
+      const executionTimeMs = Date.now() - startTime;
+      const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+      return { columns, rows, rowCount: rows.length, executionTimeMs, truncated };
+    }));
+  },
+  async getSchema(conn) {
+    // Quoted aliases keep the lower-case keys Snowflake would otherwise upper-case
+    const result = await snowflakeDriver.executeQuery(conn, `
+      SELECT TABLE_SCHEMA AS "table_schema", TABLE_NAME AS "table_name",
+             COLUMN_NAME AS "column_name", DATA_TYPE AS "data_type"
+      FROM INFORMATION_SCHEMA.COLUMNS
+      WHERE TABLE_SCHEMA <> 'INFORMATION_SCHEMA'
+      ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION`, SCHEMA_COLUMN_LIMIT);
+    return buildSchemaFromColumnRows(conn.database || '', result.rows);
   }
 };
 
@@ -378,7 +893,7 @@ const bigqueryDriver: DatabaseDriver = {
       return { success: false, message: error.message || 'Failed to connect to BigQuery.' };
     }
   },
-  async executeQuery(conn, query, rowLimit) {
+  async executeQuery(conn, query, rowLimit, options) {
     const { BigQuery } = await import('@google-cloud/bigquery');
     if (!conn.credentialsJson) {
       throw new Error('Service account credentials JSON is required.');
@@ -389,15 +904,42 @@ const bigqueryDriver: DatabaseDriver = {
       credentials,
     });
     const startTime = Date.now();
-    const [rows] = await bigquery.query({
+    // Run as an explicit job so it can be cancelled while results are pending
+    const [job] = await bigquery.createQueryJob({
       query,
       location: conn.awsRegion || 'US',
-      maxResults: rowLimit,
+      params: options?.params,
     });
+    const detachCancel = onAbort(options?.signal, async () => {
+      await job.cancel();
+    });
+    let rows: Record<string, any>[];
+    try {
+      // One extra row tells whether the result was cut off at the limit
+      [rows] = await job.getQueryResults({ maxResults: rowLimit + 1 });
+    } finally {
+      detachCancel();
+    }
     const executionTimeMs = Date.now() - startTime;
     const resultRows = (rows || []).slice(0, rowLimit);
     const columns = resultRows.length > 0 ? Object.keys(resultRows[0]) : [];
-    return { columns, rows: resultRows, rowCount: resultRows.length, executionTimeMs };
+    return { columns, rows: resultRows, rowCount: resultRows.length, executionTimeMs, truncated: (rows || []).length > rowLimit };
+  },
+  async getSchema(conn) {
+    if (!conn.credentialsJson) {
+      throw new Error('Service account credentials JSON is required.');
+    }
+    const credentials = JSON.parse(conn.credentialsJson);
+    const projectId = assertSafeIdentifier(conn.projectId || credentials.project_id || '', 'BigQuery project ID');
+    // Dataset-scoped view when a dataset is configured, otherwise every dataset in the region
+    const source = conn.dataset
+      ? `\`${projectId}.${assertSafeIdentifier(conn.dataset, 'BigQuery dataset')}\``
+      : `\`${projectId}\`.\`region-${assertSafeIdentifier((conn.awsRegion || 'US').toLowerCase(), 'BigQuery location')}\``;
+    const result = await bigqueryDriver.executeQuery(conn, `
+      SELECT table_schema, table_name, column_name, data_type
+      FROM ${source}.INFORMATION_SCHEMA.COLUMNS
+      ORDER BY table_schema, table_name, ordinal_position`, SCHEMA_COLUMN_LIMIT);
+    return buildSchemaFromColumnRows(conn.dataset || projectId, result.rows);
   }
 };
 
@@ -411,6 +953,19 @@ const driverRegistry: Record<string, DatabaseDriver> = {
   bigquery: bigqueryDriver,
 };
 
+// Engines with a server-side read-only session. The statement check in sql-guard cannot
+// see through stored procedures or dynamic SQL, so it is not enough on its own.
+export const READ_ONLY_SESSION_TYPES = ['postgresql', 'mysql', 'clickhouse'];
+
+/**
+ * Why a connection of this type cannot be read-only, or null when it can
+ */
+export function getReadOnlyModeError(type: string): string | null {
+  if (READ_ONLY_SESSION_TYPES.includes(type)) return null;
+  const label = DATABASE_TYPE_LABELS[type]?.label ?? type;
+  return `${label} has no read-only session mode, so read-only connections are not supported. Use a database login with read-only permissions instead.`;
+}
+
 export function getDriver(type: string): DatabaseDriver {
   const driver = driverRegistry[type];
   if (!driver) {
@@ -433,13 +988,25 @@ export function maskConnectionCredentials(conn: OrganizationDatabaseConnection):
   if (masked.credentialsJson) {
     masked.credentialsJson = '********';
   }
+  if (masked.sshPassword) {
+    masked.sshPassword = '********';
+  }
+  if (masked.sshPrivateKey) {
+    masked.sshPrivateKey = '********';
+  }
+  if (masked.sshPassphrase) {
+    masked.sshPassphrase = '********';
+  }
+  if (masked.sslClientKey) {
+    masked.sslClientKey = '********';
+  }
   return masked;
 }
 
 export function hasCredentials(conn: OrganizationDatabaseConnection): boolean {
   switch (conn.type) {
     case 'athena':
-      return !!(conn.awsAccessKeyId && conn.awsSecretAccessKey && conn.s3OutputLocation);
+      return !getAthenaSettingsError(conn);
     case 'bigquery':
       return !!conn.credentialsJson;
     case 'snowflake':
@@ -44,3 +44,56 @@ export async function sendVerificationEmail(
     `,
   });
 }
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
+/**
+ * Deliver a scheduled query result. Unlike verification emails this throws when
+ * email is not configured, so the schedule run is recorded as failed.
+ */
+export async function sendScheduledQueryEmail(
+  to: string[],
+  queryName: string,
+  rowCount: number,
+  attachment: EmailAttachment
+): Promise<void> {
+  if (!process.env.RESEND_API_KEY) {
+    throw new Error("Email delivery is not configured (RESEND_API_KEY not set)");
+  }
+
+  const resend = new Resend(process.env.RESEND_API_KEY);
+  const { error } = await resend.emails.send({
+    from: FROM_EMAIL,
+    to,
+    subject: `${APP_NAME} scheduled query: ${queryName}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
+        <h2 style="color: #1a1a1a; margin-bottom: 8px;">${escapeHtml(queryName)}</h2>
+        <p style="color: #555; margin-bottom: 24px;">
+          Your scheduled query returned ${rowCount} row${rowCount === 1 ? '' : 's'}.
+          The results are attached as <strong>${escapeHtml(attachment.filename)}</strong>.
+        </p>
+        <hr style="border: none; border-top: 1px solid #eee; margin: 24px 0;" />
+        <p style="color: #aaa; font-size: 12px;">
+          You are receiving this because a ${APP_NAME} schedule lists your address as a recipient.
+        </p>
+      </div>
+    `,
+    attachments: [{ filename: attachment.filename, content: attachment.content }],
+  });
+
+  if (error) {
+    throw new Error(`Email delivery failed: ${error.message}`);
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -16,6 +16,16 @@ function getKey(): Buffer | null {
   return buf;
 }
 
+/**
+ * A key for one purpose (e.g. 'ai-redaction'), derived from ENCRYPTION_KEY with HKDF so
+ * it is unrelated to the encryption key itself. Null when ENCRYPTION_KEY is not set.
+ */
+export function deriveKey(purpose: string): Buffer | null {
+  const key = getKey();
+  if (!key) return null;
+  return Buffer.from(crypto.hkdfSync('sha256', key, Buffer.alloc(0), purpose, KEY_LENGTH));
+}
+
 export function encrypt(plaintext: string | null | undefined): string | null | undefined {
   if (!plaintext) return plaintext;
   const key = getKey();
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ExplorerDataSource } from "@shared/schema";
+import {
+  buildLookupQuery, chunkLookupValues, normalizeLookupValues, summarizeLookupValues, toExplorerSources, type ExplorerSource,
+} from "./explorer-helper";
+
+const source: ExplorerSource = { key: "billing", label: "Billing", table: "billing_events", column: "msisdn", connectionId: null };
+
+test("one value is bound with =", () => {
+  assert.deepEqual(buildLookupQuery("postgresql", undefined, source, "4917012"), {
+    query: "SELECT * FROM billing_events WHERE msisdn = $1",
+    params: ["4917012"],
+  });
+});
+
+test("several values are bound in one IN list, in each dialect's placeholder style", () => {
+  const values = ["1", "2", "3"];
+  assert.equal(buildLookupQuery("mysql", undefined, source, values).query, "SELECT * FROM `billing_events` WHERE `msisdn` IN (?, ?, ?)");
+  assert.equal(buildLookupQuery("mssql", undefined, source, values).query, "SELECT * FROM [billing_events] WHERE [msisdn] IN (@p1, @p2, @p3)");
+  assert.equal(
+    buildLookupQuery("clickhouse", undefined, source, values).query,
+    "SELECT * FROM `billing_events` WHERE `msisdn` IN ({p1:String}, {p2:String}, {p3:String})"
+  );
+  assert.deepEqual(buildLookupQuery("mysql", undefined, source, values).params, values);
+});
+
+test("bare Athena tables resolve in the configured database", () => {
+  assert.equal(buildLookupQuery("athena", "cdr", source, "1").query, 'SELECT * FROM "cdr"."billing_events" WHERE "msisdn" = ?');
+  const qualified = { ...source, table: "other.billing_events" };
+  assert.equal(buildLookupQuery("athena", "cdr", qualified, "1").query, 'SELECT * FROM "other"."billing_events" WHERE "msisdn" = ?');
+});
+
+test("rejects unsupported engines, invalid database names and empty lookups", () => {
+  assert.throws(() => buildLookupQuery("oracle", undefined, source, "1"), /not supported/);
+  assert.throws(() => buildLookupQuery("athena", "cdr; DROP", source, "1"), /Invalid database name/);
+  assert.throws(() => buildLookupQuery("athena", "cdr", source, []), /At least one lookup value/);
+});
+
+test("lookup values are trimmed, deduplicated and batched", () => {
+  assert.deepEqual(normalizeLookupValues([" 1 ", "2", "1", "", null, 3]), ["1", "2", "3"]);
+  assert.deepEqual(chunkLookupValues(["a", "b", "c"], 2), [["a", "b"], ["c"]]);
+});
+
+test("hits are counted per value and source", () => {
+  const { valueSummary, noHitValues } = summarizeLookupValues(["1", "2"], [source], [{
+    name: "Billing", columns: ["MSISDN"], data: [{ MSISDN: "1" }, { MSISDN: 1 }], rowsReturned: 2,
+    truncated: false, status: "success", error: null,
+  }]);
+  assert.deepEqual(valueSummary.map(v => [v.value, v.totalHits]), [["1", 2], ["2", 0]]);
+  assert.deepEqual(noHitValues, ["2"]);
+});
+
+test("a stored source with an invalid identifier is reported as a failed source", () => {
+  const record = (key: string, tableName: string): ExplorerDataSource => ({
+    id: key, organizationId: "org-1", key, label: key.toUpperCase(), description: null,
+    tableName, lookupColumn: "msisdn", connectionId: null, createdAt: new Date(), updatedAt: new Date(),
+  });
+  const { sources, invalid } = toExplorerSources([record("billing", "billing_events"), record("cdr", "cdr; DROP TABLE x")]);
+
+  assert.deepEqual(sources.map(s => s.key), ["billing"]);
+  assert.equal(invalid.length, 1);
+  assert.equal(invalid[0].name, "CDR");
+  assert.equal(invalid[0].status, "error");
+  assert.match(invalid[0].error ?? "", /invalid table or column name/);
+});
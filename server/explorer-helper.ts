@@ -0,0 +1,246 @@
+// Explorer lookup helpers: source configuration, identifier validation and
+// parameterized lookup SQL. Lookup values are never interpolated into SQL text.
+import type { ExplorerDataSource } from "@shared/schema";
+
+export interface ExplorerSource {
+  key: string;
+  label: string;
+  table: string;
+  column: string;
+  // null = the org's Athena config with the athena_database setting
+  connectionId: string | null;
+}
+
+export interface ExplorerLookupQuery {
+  query: string;
+  params: string[];
+}
+
+export interface ExplorerSourceResult {
+  name: string;
+  columns: string[];
+  data: Record<string, any>[];
+  rowsReturned: number;
+  // More rows matched than the row limit allowed
+  truncated: boolean;
+  status: string;
+  error: string | null;
+}
+
+export interface LookupValueSummary {
+  value: string;
+  hits: Record<string, number>;
+  totalHits: number;
+}
+
+// Upper bound on values per lookup request (pasted list or uploaded file)
+export const MAX_LOOKUP_VALUES = 1000;
+// Values bound into a single IN (...) query; larger lists run as sequential batches
+export const LOOKUP_BATCH_SIZE = 100;
+
+// Table may be schema-qualified ("schema.table"); database and column are single identifiers
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const TABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+export function isValidExplorerIdentifier(value: string, kind: 'table' | 'column' | 'database'): boolean {
+  return (kind === 'table' ? TABLE_PATTERN : IDENTIFIER_PATTERN).test(value);
+}
+
+/**
+ * Validate a settings write for the athena_database setting, which is used as a SQL identifier.
+ * Returns an error message, or null when the key is not an identifier setting or the value is valid.
+ */
+export function validateExplorerSetting(key: string, value: string): string | null {
+  if (key !== 'athena_database' || value === '') return null;
+  if (isValidExplorerIdentifier(value, 'database')) return null;
+  return `Invalid database name "${value}". Use letters, numbers and underscores only.`;
+}
+
+/**
+ * Validate the identifiers of a data source before it is saved.
+ * Returns an error message, or null when the source is valid.
+ */
+export function validateExplorerSourceInput(input: { key?: string; table?: string; column?: string }): string | null {
+  if (!input.key || !/^[a-z0-9_]+$/.test(input.key)) {
+    return 'Key is required and may only contain lowercase letters, numbers and underscores';
+  }
+  if (!input.table || !isValidExplorerIdentifier(input.table, 'table')) {
+    return `Invalid table name "${input.table ?? ''}". Use letters, numbers and underscores, optionally as schema.table.`;
+  }
+  if (!input.column || !isValidExplorerIdentifier(input.column, 'column')) {
+    return `Invalid column name "${input.column ?? ''}". Use letters, numbers and underscores only.`;
+  }
+  return null;
+}
+
+/**
+ * Map a stored data source to the lookup shape.
+ * Throws when a row has an invalid identifier (e.g. edited directly in the database).
+ */
+export function toExplorerSource(record: ExplorerDataSource): ExplorerSource {
+  if (!isValidExplorerIdentifier(record.tableName, 'table') || !isValidExplorerIdentifier(record.lookupColumn, 'column')) {
+    throw new Error(`Data source "${record.label}" has an invalid table or column name. Please update it in Admin > Explorer Configuration.`);
+  }
+  return {
+    key: record.key,
+    label: record.label,
+    table: record.tableName,
+    column: record.lookupColumn,
+    connectionId: record.connectionId,
+  };
+}
+
+/**
+ * Map stored data sources to the lookup shape. A row with an invalid identifier does not
+ * fail the whole lookup: it is returned as a failed source result instead.
+ */
+export function toExplorerSources(records: ExplorerDataSource[]): { sources: ExplorerSource[]; invalid: ExplorerSourceResult[] } {
+  const sources: ExplorerSource[] = [];
+  const invalid: ExplorerSourceResult[] = [];
+  for (const record of records) {
+    try {
+      sources.push(toExplorerSource(record));
+    } catch (error: any) {
+      invalid.push({
+        name: record.label,
+        columns: [],
+        data: [],
+        rowsReturned: 0,
+        truncated: false,
+        status: 'error',
+        error: error.message,
+      });
+    }
+  }
+  return { sources, invalid };
+}
+
+// Identifier quoting and bind placeholders (1-based) per connection type; these match
+// how each driver binds ExecuteOptions.params. PostgreSQL and Snowflake fold unquoted
+// names, so identifiers stay bare there to resolve the way the tables were created.
+const LOOKUP_DIALECTS: Record<string, { quote: (part: string) => string; placeholder: (index: number) => string }> = {
+  athena: { quote: part => `"${part}"`, placeholder: () => '?' },
+  postgresql: { quote: part => part, placeholder: index => `$${index}` },
+  mysql: { quote: part => `\`${part}\``, placeholder: () => '?' },
+  mssql: { quote: part => `[${part}]`, placeholder: index => `@p${index}` },
+  clickhouse: { quote: part => `\`${part}\``, placeholder: index => `{p${index}:String}` },
+  snowflake: { quote: part => part, placeholder: () => '?' },
+  bigquery: { quote: part => `\`${part}\``, placeholder: () => '?' },
+};
+
+/**
+ * Validate one lookup value against the org's explorer_lookup_validation mode.
+ * Returns an error message, or null when the value is acceptable.
+ */
+export function validateLookupValue(value: string, validationType: string, lookupLabel: string): string | null {
+  if (validationType === 'digits_only' && !/^\d+$/.test(value)) {
+    return `${lookupLabel} must contain digits only (invalid value "${value}")`;
+  }
+  if (validationType === 'alphanumeric' && !/^[a-zA-Z0-9]+$/.test(value)) {
+    return `${lookupLabel} must contain letters and numbers only (invalid value "${value}")`;
+  }
+  // 'any': free text is safe because values are bound as query parameters
+  return null;
+}
+
+/**
+ * Trim, drop empty entries and de-duplicate lookup values, keeping input order
+ */
+export function normalizeLookupValues(values: unknown[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  for (const raw of values) {
+    if (raw === null || raw === undefined) continue;
+    const value = String(raw).trim();
+    if (!value || seen.has(value)) continue;
+    seen.add(value);
+    normalized.push(value);
+  }
+  return normalized;
+}
+
+export function chunkLookupValues(values: string[], size: number = LOOKUP_BATCH_SIZE): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Build a parameterized lookup for one source in the dialect of its connection type.
+ * Lookup values are bound to placeholders: one value uses `=`, several use a single `IN (...)`.
+ * On Athena, bare table names resolve in `databaseName` when given.
+ */
+export function buildLookupQuery(
+  connectionType: string,
+  databaseName: string | undefined,
+  source: ExplorerSource,
+  lookupValues: string | string[]
+): ExplorerLookupQuery {
+  const dialect = LOOKUP_DIALECTS[connectionType];
+  if (!dialect) {
+    throw new Error(`Explorer lookups are not supported on ${connectionType} connections`);
+  }
+  const values = Array.isArray(lookupValues) ? lookupValues : [lookupValues];
+  if (values.length === 0) {
+    throw new Error('At least one lookup value is required');
+  }
+  if (databaseName && !isValidExplorerIdentifier(databaseName, 'database')) {
+    throw new Error(`Invalid database name "${databaseName}". Please update it in Admin > Explorer Configuration.`);
+  }
+
+  // Identifiers are validated first, so quoting only needs to wrap each dotted part
+  const quote = (identifier: string) => identifier.split('.').map(dialect.quote).join('.');
+  const tableRef = connectionType === 'athena' && databaseName && !source.table.includes('.')
+    ? `${quote(databaseName)}.${quote(source.table)}`
+    : quote(source.table);
+  const predicate = values.length === 1
+    ? `${quote(source.column)} = ${dialect.placeholder(1)}`
+    : `${quote(source.column)} IN (${values.map((_, i) => dialect.placeholder(i + 1)).join(', ')})`;
+
+  return {
+    query: `SELECT * FROM ${tableRef} WHERE ${predicate}`,
+    params: values,
+  };
+}
+
+/**
+ * Count hits per input value in each source by matching the source's lookup column
+ * in the returned rows (Athena lowercases result column names, so match case-insensitively).
+ */
+export function summarizeLookupValues(
+  values: string[],
+  sources: ExplorerSource[],
+  results: ExplorerSourceResult[]
+): { valueSummary: LookupValueSummary[]; noHitValues: string[] } {
+  const countsBySource = sources.map((source, index) => {
+    const counts = new Map<string, number>();
+    const result = results[index];
+    const column = result?.columns.find(c => c.toLowerCase() === source.column.toLowerCase());
+    if (result && column) {
+      for (const row of result.data) {
+        const cell = row[column];
+        if (cell === null || cell === undefined) continue;
+        const key = String(cell).trim();
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+    }
+    return { label: source.label, counts };
+  });
+
+  const valueSummary = values.map(value => {
+    const hits: Record<string, number> = {};
+    let totalHits = 0;
+    for (const { label, counts } of countsBySource) {
+      hits[label] = counts.get(value) || 0;
+      totalHits += hits[label];
+    }
+    return { value, hits, totalHits };
+  });
+
+  return {
+    valueSummary,
+    noHitValues: valueSummary.filter(v => v.totalHits === 0).map(v => v.value),
+  };
+}
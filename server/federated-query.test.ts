@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  runFederatedQuery, validateFederatedQuery, getFederatedSourceRowLimit, MAX_FEDERATED_SOURCE_ROWS, MAX_FEDERATED_TOTAL_ROWS,
+  type FederatedSourceResult,
+} from "./federated-query";
+
+const sources: FederatedSourceResult[] = [
+  { alias: "users", columns: ["id", "name"], rows: [{ id: 1, name: "Ana" }, { id: 2, name: "Ben" }], truncated: false },
+  { alias: "orders", columns: ["user_id", "total"], rows: [{ user_id: 1, total: 10 }, { user_id: 1, total: 5 }], truncated: false },
+];
+
+test("joins the source tables", async () => {
+  const result = await runFederatedQuery(
+    sources,
+    "SELECT u.name, SUM(o.total) AS total FROM users u JOIN orders o ON o.user_id = u.id GROUP BY u.name",
+    100
+  );
+  assert.deepEqual(result, { columns: ["name", "total"], rows: [{ name: "Ana", total: 15 }], truncated: false });
+});
+
+test("stops at the display limit", async () => {
+  const result = await runFederatedQuery(sources, "SELECT * FROM users, orders", 3);
+  assert.equal(result.rows.length, 3);
+  assert.equal(result.truncated, true);
+});
+
+test("reports SQL errors", async () => {
+  await assert.rejects(runFederatedQuery(sources, "SELECT * FROM missing", 100), /no such table/);
+});
+
+test("cancelling stops a query that would never finish", async () => {
+  const controller = new AbortController();
+  const run = runFederatedQuery(
+    sources,
+    "WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n) SELECT COUNT(*) FROM n",
+    100,
+    controller.signal
+  );
+  setTimeout(() => controller.abort(), 200);
+  await assert.rejects(run, /Query cancelled/);
+});
+
+test("the final query must be a single read", () => {
+  const valid = [{ alias: "a", connectionId: null, query: "SELECT 1" }, { alias: "b", connectionId: "c1", query: "SELECT 2" }];
+  assert.equal(validateFederatedQuery(valid, "SELECT * FROM a JOIN b"), null);
+  assert.match(validateFederatedQuery(valid, "DELETE FROM a") ?? "", /DELETE/);
+  assert.match(validateFederatedQuery(valid, "SELECT 1; SELECT 2") ?? "", /single statement/);
+  assert.match(validateFederatedQuery([valid[0], { ...valid[1], alias: "A" }], "SELECT 1") ?? "", /more than once/);
+});
+
+test("sources share the total row budget", () => {
+  assert.equal(getFederatedSourceRowLimit(1000, 5), 1000);
+  assert.equal(getFederatedSourceRowLimit(1_000_000, 2), MAX_FEDERATED_SOURCE_ROWS);
+  assert.equal(getFederatedSourceRowLimit(1_000_000, 5), MAX_FEDERATED_TOTAL_ROWS / 5);
+});
+
+test("refuses sources larger than the staging limit", async () => {
+  const wide = "x".repeat(1024 * 1024);
+  const large: FederatedSourceResult[] = [
+    { alias: "a", columns: ["v"], rows: Array.from({ length: 40 }, () => ({ v: wide })), truncated: false },
+    sources[1],
+  ];
+  await assert.rejects(runFederatedQuery(large, "SELECT COUNT(*) FROM a", 10), /more than the 64 MB/);
+});
@@ -0,0 +1,278 @@
+// Federated queries join results from several connections. Each source query runs on its
+// own connection, its rows are loaded into an in-memory SQLite database (sql.js) as a
+// table named by the source's alias, and a final SQL statement runs over those tables.
+// The database only lives for one run, in a worker thread so it can be stopped.
+import { createRequire } from "module";
+import { Worker } from "worker_threads";
+import type { SqlValue } from "sql.js";
+import type { FederatedQuerySource } from "@shared/schema";
+import { classifySql } from "./sql-guard";
+
+export const MIN_FEDERATED_SOURCES = 2;
+export const MAX_FEDERATED_SOURCES = 5;
+// Rows loaded per source, on top of the org row_limit. Every row is copied to the worker,
+// so the staged data is kept small enough to load and join quickly.
+export const MAX_FEDERATED_SOURCE_ROWS = 50000;
+// Rows loaded across all sources of one run; the sources share this evenly
+export const MAX_FEDERATED_TOTAL_ROWS = 100000;
+// Approximate size of the staged values across all sources. The rows are held by the
+// server while they are copied to the worker and again into the SQLite heap there.
+export const MAX_FEDERATED_STAGED_BYTES = 64 * 1024 * 1024;
+// JavaScript heap of the worker; a run that needs more is stopped
+const WORKER_RESOURCE_LIMITS = { maxOldGenerationSizeMb: 512, maxYoungGenerationSizeMb: 64 };
+// The worker is terminated past this; sql.js cannot interrupt a statement from outside
+export const FEDERATED_QUERY_TIMEOUT = 60 * 1000;
+
+// Table names the final query refers to; SQLite reserves the sqlite_ prefix
+const ALIAS_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,62}$/;
+
+export interface FederatedSourceResult {
+  alias: string;
+  columns: string[];
+  rows: Record<string, any>[];
+  // The source returned more rows than it was allowed to load
+  truncated: boolean;
+}
+
+export interface FederatedQueryResult {
+  columns: string[];
+  rows: Record<string, any>[];
+  // The final query produced more than displayLimit rows
+  truncated: boolean;
+}
+
+// A source as the worker loads it: column names and rows of SQLite values
+interface StagedTable {
+  alias: string;
+  columns: string[];
+  rows: SqlValue[][];
+}
+
+type WorkerResponse =
+  | { columns: string[]; rows: SqlValue[][]; truncated: boolean }
+  | { error: string };
+
+// Resolved here, as code evaluated in a worker resolves modules from the working directory
+const SQL_JS_PATH = createRequire(import.meta.url).resolve('sql.js');
+
+// Evaluated in the worker rather than loaded from a file, so it runs the same under tsx
+// and from the esbuild bundle. Plain CommonJS: it is not compiled.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const initSqlJs = require(workerData.sqlJsPath);
+const quote = name => '"' + name.replace(/"/g, '""') + '"';
+
+initSqlJs().then(SQL => {
+  const { tables, query, displayLimit } = workerData;
+  const db = new SQL.Database();
+  try {
+    // Columns have no declared type, so values keep the type they were loaded with
+    db.run('BEGIN');
+    for (const table of tables) {
+      db.run('CREATE TABLE ' + quote(table.alias) + ' (' + table.columns.map(quote).join(', ') + ')');
+      const insert = db.prepare('INSERT INTO ' + quote(table.alias) + ' VALUES (' + table.columns.map(() => '?').join(', ') + ')');
+      try {
+        for (const row of table.rows) insert.run(row);
+      } finally {
+        insert.free();
+      }
+    }
+    db.run('COMMIT');
+
+    const statement = db.prepare(query);
+    try {
+      const columns = statement.getColumnNames();
+      const rows = [];
+      let truncated = false;
+      while (statement.step()) {
+        if (rows.length >= displayLimit) {
+          truncated = true;
+          break;
+        }
+        rows.push(statement.get());
+      }
+      parentPort.postMessage({ columns, rows, truncated });
+    } finally {
+      statement.free();
+    }
+  } finally {
+    db.close();
+  }
+}).catch(error => parentPort.postMessage({ error: error.message }));
+`;
+
+/**
+ * Validate the sources and final query of a federated query from a request body.
+ * Returns an error message, or null when they are valid.
+ */
+export function validateFederatedQuery(sources: unknown, query: unknown): string | null {
+  if (!Array.isArray(sources) || sources.length < MIN_FEDERATED_SOURCES || sources.length > MAX_FEDERATED_SOURCES) {
+    return `A federated query needs between ${MIN_FEDERATED_SOURCES} and ${MAX_FEDERATED_SOURCES} sources`;
+  }
+  const aliases = new Set<string>();
+  for (const source of sources) {
+    if (!source || typeof source !== 'object') {
+      return "Each source needs an alias, a connection and a query";
+    }
+    const { alias, connectionId, query: sourceQuery } = source as Record<string, unknown>;
+    if (typeof alias !== 'string' || !ALIAS_PATTERN.test(alias) || alias.toLowerCase().startsWith('sqlite_')) {
+      return `Source alias "${String(alias ?? '')}" must start with a letter or underscore and contain only letters, digits and underscores`;
+    }
+    // SQLite table names are case-insensitive
+    if (aliases.has(alias.toLowerCase())) {
+      return `Source alias "${alias}" is used more than once`;
+    }
+    aliases.add(alias.toLowerCase());
+    if (connectionId !== null && connectionId !== undefined && typeof connectionId !== 'string') {
+      return `Source "${alias}" has an invalid connection`;
+    }
+    if (typeof sourceQuery !== 'string' || !sourceQuery.trim()) {
+      return `Source "${alias}" needs a query`;
+    }
+  }
+  if (typeof query !== 'string' || !query.trim()) {
+    return "The final query is required";
+  }
+  const classification = classifySql(query);
+  if (classification.unterminated) {
+    return "The final query has an unterminated string, quoted identifier or comment";
+  }
+  if (classification.statementCount !== 1) {
+    return "The final query must be a single statement";
+  }
+  if (!classification.readOnly) {
+    return `The final query can only read the source tables: ${classification.writeKeyword} is not allowed`;
+  }
+  return null;
+}
+
+/**
+ * Normalize validated sources for storage and execution
+ */
+export function readFederatedSources(sources: any[]): FederatedQuerySource[] {
+  return sources.map(source => ({
+    alias: source.alias,
+    connectionId: source.connectionId || null,
+    query: source.query.trim(),
+  }));
+}
+
+// SQLite stores numbers, text, blobs and NULL; everything else is converted to one of those
+function toSqlValue(value: unknown): SqlValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : String(value);
+  if (typeof value === 'string') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'bigint') {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Rows each source may load: the org row limit, capped per source and by an even share
+ * of MAX_FEDERATED_TOTAL_ROWS
+ */
+export function getFederatedSourceRowLimit(rowLimit: number, sourceCount: number): number {
+  return Math.min(rowLimit, MAX_FEDERATED_SOURCE_ROWS, Math.floor(MAX_FEDERATED_TOTAL_ROWS / Math.max(1, sourceCount)));
+}
+
+// Rough size of a staged value: strings by length, everything else as 8 bytes
+function stagedValueBytes(value: SqlValue): number {
+  if (typeof value === 'string') return value.length * 2;
+  if (value instanceof Uint8Array) return value.byteLength;
+  return 8;
+}
+
+function stageSource(source: FederatedSourceResult): StagedTable {
+  // Drivers key rows by column name, so repeated names hold a single value
+  const columns = Array.from(new Set(source.columns));
+  if (columns.length === 0) {
+    throw new Error(`Source "${source.alias}" returned no columns`);
+  }
+  return {
+    alias: source.alias,
+    columns,
+    rows: source.rows.map(row => columns.map(column => toSqlValue(row[column]))),
+  };
+}
+
+/**
+ * Load the source results as tables and run the final query over them in a worker thread,
+ * returning at most `displayLimit` rows. The worker is terminated when `signal` aborts or
+ * after FEDERATED_QUERY_TIMEOUT, so a runaway query (a recursive CTE, a large cross join)
+ * cannot hold the server.
+ */
+export function runFederatedQuery(
+  sources: FederatedSourceResult[],
+  query: string,
+  displayLimit: number,
+  signal?: AbortSignal
+): Promise<FederatedQueryResult> {
+  if (signal?.aborted) {
+    return Promise.reject(new Error('Query cancelled'));
+  }
+  let tables: StagedTable[];
+  try {
+    tables = sources.map(stageSource);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+  let stagedBytes = 0;
+  for (const table of tables) {
+    for (const row of table.rows) {
+      for (const value of row) stagedBytes += stagedValueBytes(value);
+    }
+  }
+  if (stagedBytes > MAX_FEDERATED_STAGED_BYTES) {
+    return Promise.reject(new Error(
+      `The sources returned about ${Math.ceil(stagedBytes / 1024 / 1024)} MB, more than the ${MAX_FEDERATED_STAGED_BYTES / 1024 / 1024} MB a federated query can load. Select fewer rows or columns in the source queries.`
+    ));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { sqlJsPath: SQL_JS_PATH, tables, query, displayLimit },
+      resourceLimits: WORKER_RESOURCE_LIMITS,
+    });
+    let settled = false;
+    const finish = (error: Error | null, result?: FederatedQueryResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate().catch(() => {});
+      if (error) reject(error);
+      else resolve(result!);
+    };
+    const onAbort = () => finish(new Error('Query cancelled'));
+    const timer = setTimeout(
+      () => finish(new Error(`The final query did not finish within ${FEDERATED_QUERY_TIMEOUT / 1000}s`)),
+      FEDERATED_QUERY_TIMEOUT
+    );
+    signal?.addEventListener('abort', onAbort);
+
+    worker.on('message', (message: WorkerResponse) => {
+      if ('error' in message) {
+        finish(new Error(message.error));
+        return;
+      }
+      const rows = message.rows.map(values => {
+        const row: Record<string, any> = {};
+        message.columns.forEach((column, index) => {
+          const value = values[index];
+          row[column] = value instanceof Uint8Array ? Buffer.from(value).toString('base64') : value;
+        });
+        return row;
+      });
+      finish(null, { columns: message.columns, rows, truncated: message.truncated });
+    });
+    worker.on('error', (error: Error & { code?: string }) => finish(
+      error.code === 'ERR_WORKER_OUT_OF_MEMORY' ? new Error('The final query ran out of memory') : error
+    ));
+    worker.on('exit', code => finish(new Error(`The final query stopped unexpectedly (exit code ${code})`)));
+  });
+}
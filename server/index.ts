@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
-import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import { pool } from "./db";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
@@ -14,6 +15,11 @@ declare module 'express-session' {
     organizationId?: string;
     isSuperAdmin?: boolean;
     csrfToken?: string;
+    // Shown in the user's active session list
+    userAgent?: string;
+    ipAddress?: string;
+    loginAt?: string;
+    lastSeenAt?: string;
   }
 }
 
@@ -45,15 +51,19 @@ log(`Environment variables validated: ${Object.keys(requiredEnvVars).join(', ')}
 // Trust first proxy for secure cookies behind load balancer/reverse proxy
 app.set('trust proxy', 1);
 
-const MemoryStore = createMemoryStore(session);
+// Sessions live in PostgreSQL so restarts and deploys keep users (and impersonation) logged in
+const PgStore = connectPgSimple(session);
 
-app.use(session({
-  store: new MemoryStore({
-    checkPeriod: 86400000 // prune expired entries every 24h
+const sessionMiddleware = session({
+  store: new PgStore({
+    pool,
+    tableName: 'session',
+    createTableIfMissing: true,
+    pruneSessionInterval: 60 * 15, // prune expired rows every 15 minutes
   }),
   secret: process.env.SESSION_SECRET!,
-  resave: true, // Ensure session is saved on each request
-  saveUninitialized: true, // Create session even for unauthenticated requests (needed for CSRF)
+  resave: false, // The store's touch() refreshes expiry without rewriting unchanged sessions
+  saveUninitialized: false, // Sessions are stored once they hold a CSRF token or a login
   proxy: true, // Trust the reverse proxy
   cookie: {
     secure: false, // Disable secure cookies temporarily for debugging
@@ -61,7 +71,14 @@ app.use(session({
     sameSite: 'lax',
     maxAge: 1000 * 60 * 60 * 24 * 7, // 7 days
   }
-}));
+});
+
+// API-key requests authenticate per request (see resolveApiKeyAuth) and must not
+// create or overwrite a cookie session, so they skip the session middleware
+app.use((req, res, next) => {
+  if (req.headers.authorization?.startsWith('Bearer vgr_')) return next();
+  sessionMiddleware(req, res, next);
+});
 
 app.use(express.json({
   limit: '10mb', // Increased limit for large SQL queries
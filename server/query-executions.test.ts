@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createQueryExecution, getQueryExecution, cancelQueryExecution, finishQueryExecution, releaseQueryExecution,
+  MAX_FINISHED_EXECUTIONS,
+} from "./query-executions";
+
+const start = () => createQueryExecution({ organizationId: "org-1", userId: "user-1", query: "SELECT 1" });
+
+test("cancelling a running execution aborts its signal", () => {
+  const execution = start();
+  assert.equal(getQueryExecution(execution.id)?.status, "running");
+
+  cancelQueryExecution(execution.id);
+  assert.equal(execution.status, "cancelling");
+  assert.equal(execution.controller.signal.aborted, true);
+
+  finishQueryExecution(execution.id, "cancelled", { error: "Query cancelled" });
+  assert.equal(getQueryExecution(execution.id)?.status, "cancelled");
+});
+
+test("a finished execution cannot be cancelled", () => {
+  const execution = start();
+  finishQueryExecution(execution.id, "succeeded", { result: { data: [] } });
+  cancelQueryExecution(execution.id);
+  assert.equal(execution.status, "succeeded");
+  assert.equal(execution.controller.signal.aborted, false);
+});
+
+test("finishing records the outcome until the client has fetched it", () => {
+  const running = start();
+  releaseQueryExecution(running.id);
+  assert.ok(getQueryExecution(running.id), "running executions are kept");
+
+  finishQueryExecution(running.id, "succeeded", { result: { data: [{ a: 1 }] } });
+  const finished = getQueryExecution(running.id);
+  assert.equal(finished?.status, "succeeded");
+  assert.deepEqual(finished?.result, { data: [{ a: 1 }] });
+  assert.ok(finished?.finishedAt);
+
+  releaseQueryExecution(running.id);
+  assert.equal(getQueryExecution(running.id), undefined);
+});
+
+test("only the newest finished executions are kept", () => {
+  const stillRunning = start();
+  const ids = Array.from({ length: MAX_FINISHED_EXECUTIONS + 5 }, () => {
+    const execution = start();
+    finishQueryExecution(execution.id, "succeeded", { result: { data: [] } });
+    return execution.id;
+  });
+
+  assert.equal(ids.filter(id => getQueryExecution(id)).length, MAX_FINISHED_EXECUTIONS);
+  assert.equal(getQueryExecution(ids[0]), undefined);
+  assert.ok(getQueryExecution(ids[ids.length - 1]));
+  assert.ok(getQueryExecution(stillRunning.id));
+});
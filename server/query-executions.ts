@@ -0,0 +1,99 @@
+import crypto from "crypto";
+
+export type QueryExecutionStatus = 'running' | 'cancelling' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface QueryExecution {
+  id: string;
+  organizationId: string;
+  userId: string;
+  connectionId: string | null;
+  query: string;
+  status: QueryExecutionStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  result?: Record<string, any>;
+  error?: string;
+  controller: AbortController;
+}
+
+// Finished executions stay pollable for this long before they are dropped
+const FINISHED_EXECUTION_TTL = 10 * 60 * 1000; // 10 minutes
+// Results are held in memory until fetched, so at most this many finished executions are
+// kept; past it the oldest are dropped before their TTL
+export const MAX_FINISHED_EXECUTIONS = 100;
+
+// In-process registry of query executions (handles are only valid on the server that issued them)
+const executions = new Map<string, QueryExecution>();
+
+function scheduleCleanup(id: string) {
+  const timer = setTimeout(() => executions.delete(id), FINISHED_EXECUTION_TTL);
+  timer.unref?.();
+}
+
+// Drop the oldest finished executions (the map keeps start order) beyond the cap
+function evictFinishedExecutions() {
+  const finished = Array.from(executions.values()).filter(execution => execution.finishedAt);
+  for (const execution of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_EXECUTIONS))) {
+    executions.delete(execution.id);
+  }
+}
+
+export function createQueryExecution(params: {
+  organizationId: string;
+  userId: string;
+  connectionId?: string | null;
+  query: string;
+}): QueryExecution {
+  const execution: QueryExecution = {
+    id: crypto.randomUUID(),
+    organizationId: params.organizationId,
+    userId: params.userId,
+    connectionId: params.connectionId || null,
+    query: params.query,
+    status: 'running',
+    startedAt: new Date(),
+    controller: new AbortController(),
+  };
+  executions.set(execution.id, execution);
+  return execution;
+}
+
+export function getQueryExecution(id: string): QueryExecution | undefined {
+  return executions.get(id);
+}
+
+/**
+ * Request cancellation: aborts the execution's signal so the driver can stop the
+ * query on the database side. The runner records the final `cancelled` state.
+ */
+export function cancelQueryExecution(id: string): QueryExecution | undefined {
+  const execution = executions.get(id);
+  if (!execution || execution.status !== 'running') return execution;
+  execution.status = 'cancelling';
+  execution.controller.abort();
+  return execution;
+}
+
+export function finishQueryExecution(
+  id: string,
+  status: 'succeeded' | 'failed' | 'cancelled',
+  outcome: { result?: Record<string, any>; error?: string } = {}
+) {
+  const execution = executions.get(id);
+  if (!execution) return;
+  execution.status = status;
+  execution.finishedAt = new Date();
+  execution.result = outcome.result;
+  execution.error = outcome.error;
+  scheduleCleanup(id);
+  evictFinishedExecutions();
+}
+
+/**
+ * Forget a finished execution once its outcome has been sent to the client, so its
+ * result does not stay in memory until the TTL. Running executions are kept.
+ */
+export function releaseQueryExecution(id: string) {
+  const execution = executions.get(id);
+  if (execution?.finishedAt) executions.delete(id);
+}
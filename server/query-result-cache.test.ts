@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { invalidateResultCache, normalizeSql, resultCacheKey, withResultCache } from "./query-result-cache";
+
+test("formatting-only differences normalize to the same SQL", () => {
+  const expected = "SELECT a, b FROM t WHERE x = 1";
+  for (const query of [
+    "SELECT a, b FROM t WHERE x = 1",
+    "  SELECT a,  b\n\tFROM t\nWHERE x = 1;",
+    "SELECT a, b -- columns\nFROM t WHERE x = 1 ;;",
+    "SELECT a, b /* all rows */ FROM t WHERE x = 1",
+  ]) {
+    assert.equal(normalizeSql(query), expected, JSON.stringify(query));
+  }
+});
+
+test("literals and quoted identifiers are kept as written", () => {
+  assert.equal(normalizeSql("SELECT 'a  b -- c' AS \"x  y\""), "SELECT 'a  b -- c' AS \"x  y\"");
+  assert.equal(normalizeSql("SELECT 'it''s  here'"), "SELECT 'it''s  here'");
+  assert.notEqual(normalizeSql("SELECT 'a  b'"), normalizeSql("SELECT 'a b'"));
+});
+
+test("MySQL executable comments are kept", () => {
+  assert.notEqual(normalizeSql("SELECT 1 /*! , 2 */"), normalizeSql("SELECT 1"));
+});
+
+test("cache keys depend on the caller's permissions, not their order", () => {
+  const input = { organizationId: "org", connectionId: null, query: "SELECT 1", limit: 100, permissions: ["a", "b"], readOnly: false };
+  assert.equal(resultCacheKey(input), resultCacheKey({ ...input, query: "SELECT  1;", permissions: ["b", "a"] }));
+  assert.notEqual(resultCacheKey(input), resultCacheKey({ ...input, permissions: ["a"] }));
+  assert.notEqual(resultCacheKey(input), resultCacheKey({ ...input, organizationId: "other" }));
+});
+
+test("invalidation drops only the organization's entries for that connection", async () => {
+  let runs = 0;
+  const run = () => withResultCache("key-athena", { ttlSeconds: 60, organizationId: "org", connectionId: null }, async () => ++runs);
+  await run();
+  assert.equal((await run()).cache.hit, true);
+
+  invalidateResultCache("other-org", null);
+  invalidateResultCache("org", "some-connection");
+  assert.equal((await run()).cache.hit, true);
+
+  invalidateResultCache("org", null);
+  const refreshed = await run();
+  assert.equal(refreshed.cache.hit, false);
+  assert.equal(refreshed.value, 2);
+});
@@ -0,0 +1,212 @@
+// Result cache for dashboard queries, so charts that mount repeatedly do not re-run the
+// same SQL. Entries live in process memory (one cache per server instance) and are keyed
+// by organization, connection, normalized SQL, row limit and the caller's permissions.
+import crypto from "crypto";
+
+// Bounds for the per-chart and per-connection TTL settings; 0 turns caching off
+export const MAX_RESULT_CACHE_TTL_SECONDS = 24 * 60 * 60;
+// Used when neither the chart nor the connection sets a TTL
+export const DEFAULT_RESULT_CACHE_TTL_SECONDS = 5 * 60;
+
+// Oldest entries are dropped past this many, to bound memory
+const MAX_ENTRIES = 500;
+const SWEEP_INTERVAL = 60 * 1000;
+
+export interface ResultCacheKeyInput {
+  organizationId: string;
+  // null for the organization's Athena configuration
+  connectionId: string | null;
+  query: string;
+  limit: number;
+  // Effective RBAC permissions and read-only mode of the caller
+  permissions: string[];
+  readOnly: boolean;
+}
+
+export interface ResultCacheInfo {
+  hit: boolean;
+  cachedAt: string;
+  expiresAt: string | null;
+  ttlSeconds: number;
+}
+
+// Which connection's results an entry holds; null is the organization's Athena configuration
+interface CacheSource {
+  organizationId: string;
+  connectionId: string | null;
+}
+
+interface CacheEntry extends CacheSource {
+  value: unknown;
+  cachedAt: Date;
+  expiresAt: Date;
+}
+
+const entries = new Map<string, CacheEntry>();
+// Runs in progress, so identical requests arriving together share one execution
+const pending = new Map<string, CacheSource & { promise: Promise<{ value: unknown; cachedAt: Date }> }>();
+
+const sweepTimer = setInterval(() => {
+  const now = Date.now();
+  entries.forEach((entry, key) => {
+    if (entry.expiresAt.getTime() <= now) entries.delete(key);
+  });
+}, SWEEP_INTERVAL);
+sweepTimer.unref?.();
+
+/**
+ * Validate a cache TTL (in seconds) from a request body.
+ * Returns an error message, or null when the value is valid, null or not provided.
+ */
+export function validateResultCacheTtl(value: unknown, field: string): string | null {
+  if (value === undefined || value === null) return null;
+  if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > MAX_RESULT_CACHE_TTL_SECONDS) {
+    return `${field} must be a whole number of seconds between 0 and ${MAX_RESULT_CACHE_TTL_SECONDS}`;
+  }
+  return null;
+}
+
+/**
+ * The chart's TTL wins over the connection's; both unset means the default
+ */
+export function resolveResultCacheTtl(chartTtl: number | null | undefined, connectionTtl: number | null | undefined): number {
+  return chartTtl ?? connectionTtl ?? DEFAULT_RESULT_CACHE_TTL_SECONDS;
+}
+
+/**
+ * Collapse whitespace and drop comments and trailing semicolons outside string literals
+ * and quoted identifiers, so formatting-only differences share a cache entry
+ */
+export function normalizeSql(query: string): string {
+  let normalized = '';
+  let i = 0;
+  const appendSpace = () => {
+    if (normalized && !normalized.endsWith(' ')) normalized += ' ';
+  };
+  while (i < query.length) {
+    const ch = query[i];
+    const next = query[i + 1];
+    if (ch === '-' && next === '-') {
+      const newline = query.indexOf('\n', i);
+      i = newline === -1 ? query.length : newline + 1;
+      appendSpace();
+      continue;
+    }
+    // MySQL runs the contents of /*! ... */ comments, so those are kept
+    if (ch === '/' && next === '*' && query[i + 2] !== '!') {
+      const end = query.indexOf('*/', i + 2);
+      i = end === -1 ? query.length : end + 2;
+      appendSpace();
+      continue;
+    }
+    if (ch === "'" || ch === '"' || ch === '`') {
+      let end = i + 1;
+      while (end < query.length) {
+        if (query[end] === ch) {
+          // A doubled quote is an escaped quote inside the literal
+          if (query[end + 1] === ch) {
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        end++;
+      }
+      normalized += query.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      appendSpace();
+      i++;
+      continue;
+    }
+    normalized += ch;
+    i++;
+  }
+  return normalized.trim().replace(/[\s;]+$/, '');
+}
+
+export function resultCacheKey(input: ResultCacheKeyInput): string {
+  const parts = [
+    input.organizationId,
+    input.connectionId,
+    normalizeSql(input.query),
+    input.limit,
+    [...input.permissions].sort(),
+    input.readOnly,
+  ];
+  return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+function store(key: string, value: unknown, source: CacheSource, cachedAt: Date, ttlSeconds: number) {
+  entries.delete(key);
+  entries.set(key, { ...source, value, cachedAt, expiresAt: new Date(cachedAt.getTime() + ttlSeconds * 1000) });
+  // Maps iterate in insertion order, so the first keys are the oldest
+  while (entries.size > MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value!);
+  }
+}
+
+/**
+ * Return the cached result for `key`, or run `fn` and cache what it returns for
+ * `ttlSeconds`. `forceRefresh` skips the cached value (the new result still replaces it).
+ * Failed runs are not cached.
+ */
+export async function withResultCache<T>(
+  key: string,
+  options: CacheSource & { ttlSeconds: number; forceRefresh?: boolean },
+  fn: () => Promise<T>
+): Promise<{ value: T; cache: ResultCacheInfo }> {
+  const { ttlSeconds, forceRefresh = false, organizationId, connectionId } = options;
+  const info = (hit: boolean, cachedAt: Date): ResultCacheInfo => ({
+    hit,
+    cachedAt: cachedAt.toISOString(),
+    expiresAt: ttlSeconds > 0 ? new Date(cachedAt.getTime() + ttlSeconds * 1000).toISOString() : null,
+    ttlSeconds,
+  });
+
+  if (ttlSeconds <= 0) {
+    const value = await fn();
+    return { value, cache: info(false, new Date()) };
+  }
+
+  if (!forceRefresh) {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt.getTime() > Date.now()) {
+      return { value: entry.value as T, cache: { ...info(true, entry.cachedAt), expiresAt: entry.expiresAt.toISOString() } };
+    }
+    const inFlight = pending.get(key);
+    if (inFlight) {
+      const { value, cachedAt } = await inFlight.promise;
+      return { value: value as T, cache: info(true, cachedAt) };
+    }
+  }
+
+  const promise = fn().then(value => ({ value: value as unknown, cachedAt: new Date() }));
+  pending.set(key, { organizationId, connectionId, promise });
+  try {
+    const { value, cachedAt } = await promise;
+    // A connection edited while the query ran may have produced a stale result
+    if (pending.get(key)?.promise === promise) {
+      store(key, value, { organizationId, connectionId }, cachedAt, ttlSeconds);
+    }
+    return { value: value as T, cache: info(false, cachedAt) };
+  } finally {
+    if (pending.get(key)?.promise === promise) pending.delete(key);
+  }
+}
+
+/**
+ * Drop cached results for a connection that was edited or deleted. A null connectionId
+ * is the organization's Athena configuration (AWS config changes).
+ */
+export function invalidateResultCache(organizationId: string, connectionId: string | null) {
+  const matches = (source: CacheSource) => source.organizationId === organizationId && source.connectionId === connectionId;
+  entries.forEach((entry, key) => {
+    if (matches(entry)) entries.delete(key);
+  });
+  pending.forEach((run, key) => {
+    if (matches(run)) pending.delete(key);
+  });
+}
@@ -0,0 +1,314 @@
+// Background runner for saved-query schedules. Each run executes as the schedule's
+// owner (their current RBAC permissions, the org quota and row limit), renders the
+// result as CSV/XLSX and delivers it by email, SFTP upload or webhook POST.
+import XLSX from "xlsx";
+import { storage } from "./storage";
+import { getNextCronRun, isValidCronExpression } from "./cron-schedule";
+import { checkQueryQuota, getEffectiveRowLimits } from "./quota-service";
+import { sendScheduledQueryEmail } from "./email";
+import { uploadSftpFile } from "./sftp-helper";
+import { assertWebhookTargetAllowed, getWebhookUrlError } from "./webhook-url";
+import type { AthenaQueryStatistics } from "./athena-helper";
+import {
+  SCHEDULE_DELIVERY_TYPES, SCHEDULE_OUTPUT_FORMATS,
+  type QuerySchedule, type QueryScheduleRun, type SavedQuery, type ScheduleOutputFormat,
+} from "@shared/schema";
+
+export type ScheduledQueryExecutor = (
+  organizationId: string,
+  connectionId: string | null,
+  query: string,
+  rowLimit: number,
+  owner: { id: string; isSuperAdmin: boolean }
+) => Promise<{ columns: string[]; rows: Record<string, any>[]; statistics?: AthenaQueryStatistics }>;
+
+const TICK_INTERVAL = 60 * 1000; // 1 minute
+const WEBHOOK_TIMEOUT = 30 * 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+let executor: ScheduledQueryExecutor | null = null;
+let tickInProgress = false;
+
+function isScheduleOutputFormat(value: unknown): value is ScheduleOutputFormat {
+  return typeof value === 'string' && (SCHEDULE_OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Validate schedule fields before they are saved.
+ * Returns an error message, or null when the input is valid.
+ */
+export function validateQueryScheduleInput(input: {
+  cronExpression?: string;
+  outputFormat?: string;
+  deliveryType?: string;
+  emailRecipients?: unknown;
+  sftpConfigId?: string | null;
+  webhookUrl?: string | null;
+}): string | null {
+  if (!input.cronExpression || !isValidCronExpression(input.cronExpression)) {
+    return `Invalid cron expression "${input.cronExpression ?? ''}". Use 5 fields: minute hour day-of-month month day-of-week (UTC).`;
+  }
+  try {
+    getNextCronRun(input.cronExpression);
+  } catch (error: any) {
+    return error.message;
+  }
+  if (!isScheduleOutputFormat(input.outputFormat)) {
+    return `Output format must be one of: ${SCHEDULE_OUTPUT_FORMATS.join(', ')}`;
+  }
+  switch (input.deliveryType) {
+    case 'email': {
+      const recipients = Array.isArray(input.emailRecipients) ? input.emailRecipients : [];
+      if (recipients.length === 0) return 'At least one email recipient is required';
+      const invalid = recipients.find(r => typeof r !== 'string' || !EMAIL_PATTERN.test(r));
+      if (invalid !== undefined) return `Invalid email address "${invalid}"`;
+      return null;
+    }
+    case 'sftp':
+      return input.sftpConfigId ? null : 'An SFTP configuration is required';
+    case 'webhook':
+      return getWebhookUrlError(input.webhookUrl);
+    default:
+      return `Delivery type must be one of: ${SCHEDULE_DELIVERY_TYPES.join(', ')}`;
+  }
+}
+
+function renderResultFile(
+  format: string,
+  baseName: string,
+  columns: string[],
+  rows: Record<string, any>[]
+): { fileName: string; content: Buffer; contentType: string } {
+  if (format === 'xlsx') {
+    const sheet = XLSX.utils.aoa_to_sheet([columns, ...rows.map(row => columns.map(col => row[col] ?? ''))]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Results');
+    return {
+      fileName: `${baseName}.xlsx`,
+      content: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    };
+  }
+
+  const escape = (value: any) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+  const lines = [columns.map(escape).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(col => escape(row[col])).join(','));
+  }
+  return {
+    fileName: `${baseName}.csv`,
+    content: Buffer.from(lines.join('\n') + '\n'),
+    contentType: 'text/csv',
+  };
+}
+
+async function deliverResult(
+  schedule: QuerySchedule,
+  run: QueryScheduleRun,
+  savedQuery: SavedQuery,
+  columns: string[],
+  file: { fileName: string; content: Buffer; contentType: string },
+  rowCount: number
+) {
+  switch (schedule.deliveryType) {
+    case 'email':
+      await sendScheduledQueryEmail(schedule.emailRecipients, savedQuery.name, rowCount, {
+        filename: file.fileName,
+        content: file.content,
+      });
+      return;
+    case 'sftp': {
+      const config = schedule.sftpConfigId ? await storage.getSftpConfigById(schedule.sftpConfigId) : undefined;
+      if (!config || config.organizationId !== schedule.organizationId) {
+        throw new Error('The SFTP configuration for this schedule no longer exists');
+      }
+      await uploadSftpFile(config, schedule.sftpRemotePath || config.remotePaths[0] || '/', file.fileName, file.content);
+      return;
+    }
+    case 'webhook': {
+      // Schedules saved before the https and internal-address rules are checked here too
+      await assertWebhookTargetAllowed(schedule.webhookUrl || '');
+      const response = await fetch(schedule.webhookUrl!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          event: 'scheduled_query.completed',
+          scheduleId: schedule.id,
+          runId: run.id,
+          queryName: savedQuery.name,
+          rowCount,
+          columns,
+          format: schedule.outputFormat,
+          fileName: file.fileName,
+          contentType: file.contentType,
+          content: file.content.toString('base64'),
+        }),
+        // A redirect could lead to an internal address that was never checked
+        redirect: 'error',
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+      }
+      return;
+    }
+    default:
+      throw new Error(`Unsupported delivery type "${schedule.deliveryType}"`);
+  }
+}
+
+/**
+ * Execute one schedule now and record the run. Never throws: failures are stored
+ * on the run row and the schedule's last_run_status.
+ */
+export async function runQuerySchedule(
+  schedule: QuerySchedule,
+  trigger: 'schedule' | 'manual'
+): Promise<QueryScheduleRun> {
+  const run = await storage.createQueryScheduleRun({
+    scheduleId: schedule.id,
+    organizationId: schedule.organizationId,
+    trigger,
+    status: 'running',
+  });
+  const startTime = Date.now();
+  let owner: { id: string; username: string } | undefined;
+  let query: string | undefined;
+
+  try {
+    if (!executor) {
+      throw new Error('Query scheduler is not running');
+    }
+
+    // Permissions are re-checked on every run so role changes apply to existing schedules
+    const user = await storage.getUser(schedule.userId);
+    if (!user || user.deletedAt || user.status !== 'active') {
+      throw new Error('The schedule owner is no longer active');
+    }
+    if (!user.isSuperAdmin) {
+      const permissions = await storage.getUserPermissions(user.id, schedule.organizationId);
+      if (!permissions.includes('execute_queries') || !permissions.includes('export_data')) {
+        throw new Error('The schedule owner no longer has permission to execute and export queries');
+      }
+    }
+    owner = { id: user.id, username: user.username };
+
+    const savedQuery = await storage.getSavedQuery(schedule.savedQueryId);
+    if (!savedQuery || savedQuery.organizationId !== schedule.organizationId) {
+      throw new Error('The saved query for this schedule no longer exists');
+    }
+    if (savedQuery.federatedSources) {
+      throw new Error('Federated queries cannot be scheduled');
+    }
+    query = savedQuery.query;
+
+    const quota = await checkQueryQuota(schedule.organizationId);
+    if (!quota.allowed) {
+      throw new Error(quota.message);
+    }
+
+    const { rowLimit } = await getEffectiveRowLimits(schedule.organizationId);
+    const { columns, rows, statistics } = await executor(
+      schedule.organizationId, schedule.connectionId, savedQuery.query, rowLimit,
+      { id: user.id, isSuperAdmin: user.isSuperAdmin }
+    );
+
+    const safeName = savedQuery.name.replace(/[^A-Za-z0-9_-]+/g, '_').slice(0, 60) || 'query';
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const file = renderResultFile(schedule.outputFormat, `${safeName}_${timestamp}`, columns, rows);
+
+    await deliverResult(schedule, run, savedQuery, columns, file, rows.length);
+    await logScheduledQuery(schedule, owner, query, 'success', rows.length, Date.now() - startTime, statistics);
+
+    return await finishRun(schedule, run, {
+      status: 'success',
+      rowsReturned: rows.length,
+      fileName: file.fileName,
+    });
+  } catch (error: any) {
+    console.error(`Scheduled query ${schedule.id} failed:`, error);
+    if (owner && query) {
+      await logScheduledQuery(schedule, owner, query, 'error', 0, Date.now() - startTime);
+    }
+    return await finishRun(schedule, run, {
+      status: 'failed',
+      errorMessage: error.message || 'Scheduled run failed',
+    });
+  }
+}
+
+function logScheduledQuery(
+  schedule: QuerySchedule,
+  owner: { id: string; username: string },
+  query: string,
+  status: string,
+  rowsReturned: number,
+  executionTime: number,
+  statistics?: AthenaQueryStatistics
+) {
+  return storage.createQueryLog({
+    userId: owner.id,
+    organizationId: schedule.organizationId,
+    username: owner.username,
+    query,
+    rowsReturned,
+    executionTime,
+    status,
+    connectionId: schedule.connectionId,
+    ...statistics,
+  }).catch(logError => console.error('Failed to log scheduled query:', logError));
+}
+
+async function finishRun(
+  schedule: QuerySchedule,
+  run: QueryScheduleRun,
+  outcome: { status: 'success' | 'failed'; rowsReturned?: number; fileName?: string; errorMessage?: string }
+): Promise<QueryScheduleRun> {
+  const finishedAt = new Date();
+  try {
+    await storage.updateQuerySchedule(schedule.id, { lastRunAt: finishedAt, lastRunStatus: outcome.status });
+    const updated = await storage.updateQueryScheduleRun(run.id, { ...outcome, finishedAt });
+    return updated ?? run;
+  } catch (error) {
+    console.error(`Failed to record run for schedule ${schedule.id}:`, error);
+    return run;
+  }
+}
+
+// Claim each due schedule by advancing next_run_at first, so a slow run is not picked
+// up again by the next tick (or another server) while it is still executing
+async function tick() {
+  if (tickInProgress) return;
+  tickInProgress = true;
+  try {
+    const now = new Date();
+    const due = await storage.getDueQuerySchedules(now);
+    for (const schedule of due) {
+      let nextRunAt: Date | null;
+      try {
+        nextRunAt = getNextCronRun(schedule.cronExpression, now);
+      } catch {
+        nextRunAt = null;
+      }
+      const claimed = await storage.claimQuerySchedule(schedule.id, schedule.nextRunAt!, nextRunAt);
+      if (claimed) {
+        await runQuerySchedule(schedule, 'schedule');
+      }
+    }
+  } catch (error) {
+    console.error('Query scheduler tick failed:', error);
+  } finally {
+    tickInProgress = false;
+  }
+}
+
+/**
+ * Start the once-a-minute scheduler loop. `run` executes a query on the org's
+ * connection (or default Athena config when connectionId is null).
+ */
+export function startQueryScheduler(run: ScheduledQueryExecutor) {
+  if (executor) return;
+  executor = run;
+  const timer = setInterval(tick, TICK_INTERVAL);
+  timer.unref?.();
+}
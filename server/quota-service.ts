@@ -0,0 +1,170 @@
+import { storage } from "./storage";
+import type { SubscriptionPlan, OrganizationSubscription } from "@shared/schema";
+
+// Defaults used when an org has no row_limit / display_limit setting of its own
+const DEFAULT_ROW_LIMIT = 1000;
+// The public API has always returned up to 10000 rows by default
+export const API_DEFAULT_ROW_LIMIT = 10000;
+const DEFAULT_DISPLAY_LIMIT = 10000;
+
+export interface QuotaCheck {
+  allowed: boolean;
+  used: number;
+  limit: number;
+  message?: string;
+}
+
+export interface QueryQuotaCheck extends QuotaCheck {
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+export interface RowLimits {
+  rowLimit: number;
+  displayLimit: number;
+}
+
+// Subscription statuses (Stripe's) that keep the subscribed plan's limits
+const ACTIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing'];
+const FALLBACK_PLAN_SLUG = 'free';
+
+/**
+ * Load the org's subscription together with its plan.
+ * Returns undefined for orgs without a subscription (legacy orgs are not metered).
+ * A subscription that is not active (canceled, past_due, ...) gets the free plan's limits.
+ */
+export async function getOrganizationPlan(
+  organizationId: string
+): Promise<{ subscription: OrganizationSubscription; plan: SubscriptionPlan } | undefined> {
+  const subscription = await storage.getOrganizationSubscription(organizationId);
+  if (!subscription) return undefined;
+  const plan = ACTIVE_SUBSCRIPTION_STATUSES.includes(subscription.status)
+    ? await storage.getSubscriptionPlan(subscription.planId)
+    : await storage.getSubscriptionPlanBySlug(FALLBACK_PLAN_SLUG) ?? await storage.getSubscriptionPlan(subscription.planId);
+  if (!plan) return undefined;
+  return { subscription, plan };
+}
+
+/**
+ * Resolve the billing period that contains `now`.
+ * Uses the Stripe-synced period when it is current; otherwise rolls monthly
+ * (or yearly) windows forward from the period start / subscription creation date.
+ */
+export function getBillingPeriod(
+  subscription: OrganizationSubscription,
+  now: Date = new Date()
+): { start: Date; end: Date } {
+  const { currentPeriodStart, currentPeriodEnd } = subscription;
+  if (currentPeriodStart && currentPeriodEnd && currentPeriodStart <= now && now < currentPeriodEnd) {
+    return { start: currentPeriodStart, end: currentPeriodEnd };
+  }
+
+  const monthsPerPeriod = subscription.billingCycle === 'yearly' ? 12 : 1;
+  const anchor = currentPeriodStart ?? subscription.createdAt;
+  const addPeriods = (n: number) => {
+    const d = new Date(anchor);
+    d.setMonth(d.getMonth() + n * monthsPerPeriod);
+    return d;
+  };
+
+  const elapsedMonths = (now.getFullYear() - anchor.getFullYear()) * 12 + (now.getMonth() - anchor.getMonth());
+  let periods = Math.max(0, Math.floor(elapsedMonths / monthsPerPeriod));
+  while (periods > 0 && addPeriods(periods) > now) periods--;
+  while (addPeriods(periods + 1) <= now) periods++;
+
+  return { start: addPeriods(periods), end: addPeriods(periods + 1) };
+}
+
+/**
+ * Check the org's query count for the current billing period against maxQueriesPerMonth
+ */
+export async function checkQueryQuota(organizationId: string): Promise<QueryQuotaCheck> {
+  const orgPlan = await getOrganizationPlan(organizationId);
+  const now = new Date();
+  if (!orgPlan) {
+    return { allowed: true, used: 0, limit: Infinity, periodStart: now, periodEnd: now };
+  }
+
+  const { start, end } = getBillingPeriod(orgPlan.subscription, now);
+  const used = await storage.countQueryLogsSince(organizationId, start);
+  const limit = orgPlan.plan.maxQueriesPerMonth;
+  const allowed = used < limit;
+
+  return {
+    allowed,
+    used,
+    limit,
+    periodStart: start,
+    periodEnd: end,
+    message: allowed
+      ? undefined
+      : `Query quota exceeded: your ${orgPlan.plan.name} plan allows ${limit} queries per billing period (resets ${end.toISOString().slice(0, 10)}). Upgrade your plan for more.`,
+  };
+}
+
+/**
+ * Check the org's member count against maxUsers before adding another member
+ */
+export async function checkUserQuota(organizationId: string): Promise<QuotaCheck> {
+  const orgPlan = await getOrganizationPlan(organizationId);
+  const members = await storage.getOrganizationMembers(organizationId);
+  if (!orgPlan) {
+    return { allowed: true, used: members.length, limit: Infinity };
+  }
+
+  const limit = orgPlan.plan.maxUsers;
+  const allowed = members.length < limit;
+  return {
+    allowed,
+    used: members.length,
+    limit,
+    message: allowed
+      ? undefined
+      : `User limit reached: your ${orgPlan.plan.name} plan allows ${limit} user${limit === 1 ? '' : 's'}. Upgrade your plan to add more members.`,
+  };
+}
+
+/**
+ * Cap a requested limit at a plan ceiling (plans without a subscription are uncapped)
+ */
+function capAt(value: number, ceiling: number | undefined): number {
+  return ceiling === undefined ? value : Math.min(value, ceiling);
+}
+
+/**
+ * Read the org's row_limit (export) and display_limit settings, capped at the
+ * plan's maxRowsExport / maxRowsDisplay ceilings. `defaultRowLimit` applies when the
+ * org has no row_limit setting.
+ */
+export async function getEffectiveRowLimits(
+  organizationId: string,
+  defaultRowLimit: number = DEFAULT_ROW_LIMIT
+): Promise<RowLimits> {
+  const [exportLimitSetting, displayLimitSetting, orgPlan] = await Promise.all([
+    storage.getSetting('row_limit', organizationId),
+    storage.getSetting('display_limit', organizationId),
+    getOrganizationPlan(organizationId),
+  ]);
+
+  const rowLimit = exportLimitSetting ? parseInt(exportLimitSetting.value) : defaultRowLimit;
+  const displayLimit = displayLimitSetting ? parseInt(displayLimitSetting.value) : DEFAULT_DISPLAY_LIMIT;
+
+  return {
+    rowLimit: capAt(rowLimit, orgPlan?.plan.maxRowsExport),
+    displayLimit: capAt(displayLimit, orgPlan?.plan.maxRowsDisplay),
+  };
+}
+
+/**
+ * Clamp a row_limit / display_limit setting value to the plan ceiling before it is saved.
+ * Other settings are returned unchanged.
+ */
+export async function capLimitSetting(organizationId: string, key: string, value: string): Promise<string> {
+  if (key !== 'row_limit' && key !== 'display_limit') return value;
+  const parsed = parseInt(value);
+  if (isNaN(parsed)) return value;
+
+  const orgPlan = await getOrganizationPlan(organizationId);
+  const ceiling = key === 'row_limit' ? orgPlan?.plan.maxRowsExport : orgPlan?.plan.maxRowsDisplay;
+  return String(capAt(parsed, ceiling));
+}
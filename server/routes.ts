@@ -4,8 +4,8 @@ import { storage } from "./storage";
 import bcrypt from "bcrypt";
 import { z } from "zod";
 import crypto from "crypto";
-import { insertUserSchema, insertQueryLogSchema, RBAC_FEATURES, ORG_ROLES, DEFAULT_PERMISSIONS, API_KEY_SCOPES, type RbacFeature, type OrgRole, type ApiKeyScope } from "@shared/schema";
-import { AthenaClient, StartQueryExecutionCommand, GetQueryExecutionCommand, GetQueryResultsCommand } from "@aws-sdk/client-athena";
+import { insertUserSchema, insertQueryLogSchema, RBAC_FEATURES, ORG_ROLES, DEFAULT_PERMISSIONS, API_KEY_SCOPES, AWS_AUTH_MODES, type RbacFeature, type OrgRole, type ApiKeyScope, type ExportJob, type OrganizationDatabaseConnection, type DashboardChart, type QuerySchedule, type ApiKey, type FederatedQuerySource, type InsertOrganizationAiConfig, type OrganizationAiConfig, type AiUsageFeature } from "@shared/schema";
+import { StartQueryExecutionCommand, GetQueryExecutionCommand, GetQueryResultsCommand } from "@aws-sdk/client-athena";
 import { ensureCsrfToken, verifyCsrfToken, getCsrfToken } from "./csrf";
 import multer from "multer";
 import * as fs from "fs";
@@ -14,12 +14,56 @@ import { fileURLToPath } from 'url';
 import { parseFile, compareDatasets, cleanupOldFiles } from "./file-comparison-helper";
 import { checkSftpFiles, testSftpConnection } from "./sftp-helper";
 import { insertSftpConfigSchema } from "@shared/schema";
-import { executeAthenaQueryWithPagination } from "./athena-helper";
-import { getDriver, maskConnectionCredentials, hasCredentials, DATABASE_TYPE_LABELS } from "./database-drivers";
-import { analyzeData, getValidatedModel, type AIProvider } from "./ai-service";
+import {
+  executeAthenaQueryWithPagination, writeRowsToCsvFile, createAthenaContext, getAthenaSettingsError, getAwsRoleSettingsError, getAthenaExternalId, serverAwsCredentialsAllowed, athenaQueryInput,
+  athenaResultReuseMinutes, type AthenaContext, type AthenaQueryStatistics,
+} from "./athena-helper";
+import { getDriver, maskConnectionCredentials, hasCredentials, applySslMode, getReadOnlyModeError, DATABASE_TYPE_LABELS, type QueryResult } from "./database-drivers";
+import { invalidateConnectionPool, getConnectionPoolStats, validatePoolMaxConnections } from "./connection-pools";
+import { startConnectionHealthChecker, checkConnectionHealth, summarizeConnectionHealth } from "./connection-health";
+import {
+  withResultCache, resultCacheKey, resolveResultCacheTtl, validateResultCacheTtl, invalidateResultCache,
+} from "./query-result-cache";
+import { getReadOnlyViolation } from "./sql-guard";
+import { validateFederatedQuery, readFederatedSources, runFederatedQuery, getFederatedSourceRowLimit } from "./federated-query";
+import {
+  analyzeData, assistWithSql, testAIConnection, streamAnalysis, buildAnalysisMessage, getAnalysisDataBudget,
+  AIProviderError, SQL_ASSIST_MODES, type AIConfig, type ChatUsage, type SchemaContextTable,
+} from "./ai-service";
+import { checkAiBudget, recordAiUsage, validateAiBudgetInput } from "./ai-usage";
+import {
+  redactAnalysisData, formatRedactionReport, validateAiRedactionRules, readAiRedactionRules,
+  DEFAULT_AI_REDACTION_RULES,
+} from "./ai-redaction";
+import {
+  createAnalysisConversation, getAnalysisConversation, deleteAnalysisConversation, countFollowUpQuestions,
+  MAX_FOLLOW_UP_QUESTIONS, MAX_FOLLOW_UP_LENGTH, type AnalysisConversation,
+} from "./ai-conversations";
+import {
+  resolveAiConfig, getAiConfigError, toAiConfigResponse, validateAiConfigInput, nextAiApiKey, isAiProvider,
+  migrateAiSettings, LEGACY_AI_SETTING_KEYS, AI_API_KEY_FIELDS,
+} from "./ai-config";
 import { stripeService } from "./stripeService";
 import { sendVerificationEmail } from "./email";
 import { getStripePublishableKey } from "./stripeClient";
+import { checkQueryQuota, checkUserQuota, getEffectiveRowLimits, capLimitSetting, API_DEFAULT_ROW_LIMIT } from "./quota-service";
+import { createQueryExecution, getQueryExecution, cancelQueryExecution, finishQueryExecution, releaseQueryExecution } from "./query-executions";
+import { consumeApiKeyRequest, consumeApiKeyDailyQuery, setRateLimitHeaders, validateApiKeyLimits } from "./api-key-limits";
+import { startQueryScheduler, runQuerySchedule, validateQueryScheduleInput } from "./query-scheduler";
+import { getNextCronRun } from "./cron-schedule";
+import {
+  toExplorerSources,
+  buildLookupQuery,
+  validateExplorerSetting,
+  validateExplorerSourceInput,
+  validateLookupValue,
+  normalizeLookupValues,
+  chunkLookupValues,
+  summarizeLookupValues,
+  MAX_LOOKUP_VALUES,
+  type ExplorerSource,
+  type ExplorerSourceResult,
+} from "./explorer-helper";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -34,8 +78,8 @@ async function logAuditEvent(
 ) {
   try {
     await storage.createAuditLog({
-      organizationId: req.session.organizationId || null,
-      userId: req.session.userId || null,
+      organizationId: req.session?.organizationId || null,
+      userId: req.session?.userId || null,
       action,
       resourceType,
       resourceId: resourceId || null,
@@ -73,17 +117,46 @@ const upload = multer({
   },
 });
 
+// How often a request refreshes the session's lastSeenAt (avoids a session write per request)
+const SESSION_LAST_SEEN_INTERVAL = 60 * 1000;
+
+// Public identifier for a session: a hash of the session ID, which is itself a credential
+function sessionHandle(sid: string): string {
+  return crypto.createHash('sha256').update(sid).digest('hex').slice(0, 32);
+}
+
+// The authenticated caller for this request: a cookie session, or an API key resolved by
+// requireApiKeyOrSession. API-key principals live on res.locals only and are never written
+// to the session (API-key requests skip the session middleware entirely, see index.ts).
+interface RequestPrincipal {
+  userId: string;
+  organizationId?: string;
+  isSuperAdmin: boolean;
+  apiKey?: ApiKey;
+}
+
+function getPrincipal(req: Request, res: Response): RequestPrincipal | undefined {
+  if (res.locals.apiKeyPrincipal) return res.locals.apiKeyPrincipal;
+  if (!req.session?.userId) return undefined;
+  return {
+    userId: req.session.userId,
+    organizationId: req.session.organizationId,
+    isSuperAdmin: req.session.isSuperAdmin || false,
+  };
+}
+
 // Middleware to check if user is authenticated
 function requireAuth(req: Request, res: Response, next: Function) {
-  if (!req.session.userId) {
+  const principal = getPrincipal(req, res);
+  if (!principal) {
     return res.status(401).json({ message: "Unauthorized" });
   }
   // Super admins can access without organization context (for platform management)
-  if (req.session.isSuperAdmin) {
+  if (principal.isSuperAdmin) {
     return next();
   }
   // Regular users need organization context for tenant isolation
-  if (!req.session.organizationId) {
+  if (!principal.organizationId) {
     return res.status(403).json({ message: "Organization context required - please re-login" });
   }
   next();
@@ -91,7 +164,7 @@ function requireAuth(req: Request, res: Response, next: Function) {
 
 // Middleware to check if user is org admin
 function requireAdmin(req: Request, res: Response, next: Function) {
-  if (!req.session.userId || req.session.role !== 'admin') {
+  if (!req.session?.userId || req.session.role !== 'admin') {
     return res.status(403).json({ message: "Forbidden - Admin access required" });
   }
   next();
@@ -99,7 +172,7 @@ function requireAdmin(req: Request, res: Response, next: Function) {
 
 // Middleware to check if user is super admin (platform-level)
 function requireSuperAdmin(req: Request, res: Response, next: Function) {
-  if (!req.session.userId || !req.session.isSuperAdmin) {
+  if (!req.session?.userId || !req.session.isSuperAdmin) {
     return res.status(403).json({ message: "Forbidden - Super Admin access required" });
   }
   next();
@@ -108,11 +181,12 @@ function requireSuperAdmin(req: Request, res: Response, next: Function) {
 // Middleware factory to check if user has a specific feature permission in their org
 function requirePermission(feature: RbacFeature) {
   return async (req: Request, res: Response, next: Function) => {
+    const principal = getPrincipal(req, res);
     // Super admins bypass feature permission checks
-    if (req.session.isSuperAdmin) return next();
+    if (principal?.isSuperAdmin) return next();
 
-    const userId = req.session.userId;
-    const organizationId = req.session.organizationId;
+    const userId = principal?.userId;
+    const organizationId = principal?.organizationId;
 
     if (!userId || !organizationId) {
       return res.status(403).json({ message: "Organization context required" });
@@ -132,9 +206,10 @@ function requirePermission(feature: RbacFeature) {
 
 // Middleware: org admin (by org member role, not session role)
 async function requireOrgAdmin(req: Request, res: Response, next: Function) {
-  if (req.session.isSuperAdmin) return next();
-  const userId = req.session.userId;
-  const organizationId = req.session.organizationId;
+  const principal = getPrincipal(req, res);
+  if (principal?.isSuperAdmin) return next();
+  const userId = principal?.userId;
+  const organizationId = principal?.organizationId;
   if (!userId || !organizationId) {
     return res.status(403).json({ message: "Organization context required" });
   }
@@ -149,45 +224,136 @@ async function requireOrgAdmin(req: Request, res: Response, next: Function) {
   }
 }
 
+/**
+ * Decide how a user's query may run on a connection. Read-only connections reject writes
+ * unless the user's role has write_queries; `readOnly` says whether the driver should
+ * also use the engine's read-only mode for this run.
+ */
+async function resolveReadOnlyAccess(
+  connection: OrganizationDatabaseConnection,
+  query: string,
+  userId: string,
+  isSuperAdmin: boolean
+): Promise<{ readOnly: boolean; violation: string | null }> {
+  if (!connection.readOnly || isSuperAdmin) {
+    return { readOnly: false, violation: null };
+  }
+  const permissions = await storage.getUserPermissions(userId, connection.organizationId);
+  if (permissions.includes('write_queries')) {
+    return { readOnly: false, violation: null };
+  }
+  // Connections saved before read-only mode was limited to these engines fail closed
+  const modeError = getReadOnlyModeError(connection.type);
+  if (modeError) {
+    return { readOnly: true, violation: modeError };
+  }
+  return { readOnly: true, violation: getReadOnlyViolation(query) };
+}
+
+// Middleware: reject query execution once the org has used its plan's query quota
+// for the current billing period (counted from query_logs)
+async function requireQueryQuota(req: Request, res: Response, next: Function) {
+  const principal = getPrincipal(req, res);
+  if (principal?.isSuperAdmin) return next();
+  const organizationId = principal?.organizationId;
+  if (!organizationId) {
+    return res.status(403).json({ message: "Organization context required" });
+  }
+  try {
+    const quota = await checkQueryQuota(organizationId);
+    if (!quota.allowed) {
+      return res.status(429).json({
+        message: quota.message,
+        quota: 'queries',
+        used: quota.used,
+        limit: quota.limit,
+        resetsAt: quota.periodEnd,
+      });
+    }
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: "Quota check failed" });
+  }
+}
+
+// Middleware: reject AI calls when the org's plan does not include AI, or once the org
+// has reached its monthly AI token or cost cap (counted from ai_usage_logs)
+async function requireAiBudget(req: Request, res: Response, next: Function) {
+  const principal = getPrincipal(req, res);
+  if (principal?.isSuperAdmin) return next();
+  const organizationId = principal?.organizationId;
+  if (!organizationId) {
+    return res.status(403).json({ message: "Organization context required" });
+  }
+  try {
+    const budget = await checkAiBudget(organizationId, await storage.getOrganizationAiConfig(organizationId));
+    if (!budget.allowed) {
+      return res.status(budget.planIncludesAi ? 429 : 402).json({
+        message: budget.message,
+        quota: 'ai',
+        used: budget.tokensUsed,
+        limit: budget.tokenLimit,
+        costUsedUsd: budget.costUsedUsd,
+        costLimitUsd: budget.costLimitUsd,
+        resetsAt: budget.periodEnd,
+      });
+    }
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: "AI budget check failed" });
+  }
+}
+
 // ─── API Key Auth Helper ──────────────────────────────────────────────────────
-// Reads Authorization: Bearer vgr_... header and populates session-like context
+// Reads Authorization: Bearer vgr_... header and sets a request-scoped principal
 // on res.locals so downstream requireAuth / requirePermission still work.
-// Returns true if the request was authenticated via API key.
-async function resolveApiKeyAuth(req: Request, res: Response): Promise<boolean> {
+// Returns the key if the request was authenticated via API key.
+async function resolveApiKeyAuth(req: Request, res: Response): Promise<ApiKey | undefined> {
   const authHeader = req.headers.authorization;
-  if (!authHeader || !authHeader.startsWith('Bearer vgr_')) return false;
+  if (!authHeader || !authHeader.startsWith('Bearer vgr_')) return undefined;
 
   const rawKey = authHeader.slice('Bearer '.length).trim();
   const keyHash = crypto.createHash('sha256').update(rawKey).digest('hex');
 
-  try {
-    const apiKey = await storage.getApiKeyByHash(keyHash);
-    if (!apiKey) return false;
-    if (apiKey.expiresAt && apiKey.expiresAt < new Date()) return false;
-
-    // Inject into session so existing auth middleware works transparently
-    req.session.userId = apiKey.userId;
-    req.session.organizationId = apiKey.organizationId;
-    req.session.isSuperAdmin = false;
-
-    // Store key metadata for scope checks and touch
-    res.locals.apiKeyId = apiKey.id;
-    res.locals.apiKeyScopes = apiKey.scopes as string[];
-
-    // Touch async (non-blocking)
-    storage.touchApiKey(apiKey.id).catch(() => {});
-    return true;
-  } catch {
-    return false;
-  }
+  const apiKey = await storage.getApiKeyByHash(keyHash);
+  if (!apiKey) return undefined;
+  if (apiKey.expiresAt && apiKey.expiresAt < new Date()) return undefined;
+
+  // Keys stop working as soon as their owner is deactivated or deleted
+  const owner = await storage.getUser(apiKey.userId);
+  if (!owner || owner.deletedAt || owner.status !== 'active') return undefined;
+
+  const principal: RequestPrincipal = {
+    userId: apiKey.userId,
+    organizationId: apiKey.organizationId,
+    isSuperAdmin: false,
+    apiKey,
+  };
+  res.locals.apiKeyPrincipal = principal;
+
+  // Touch async (non-blocking)
+  storage.touchApiKey(apiKey.id).catch(() => {});
+  return apiKey;
 }
 
-// Middleware: allow API key OR session (for Executor / Explorer public API routes)
+// Middleware: allow API key OR session (for Executor / Explorer public API routes).
+// API-key requests are also held to the key's requests-per-minute limit here.
 function requireApiKeyOrSession(req: Request, res: Response, next: Function) {
-  resolveApiKeyAuth(req, res).then(authenticatedViaKey => {
-    if (authenticatedViaKey) return next();
+  resolveApiKeyAuth(req, res).then(apiKey => {
+    if (apiKey) {
+      const rate = consumeApiKeyRequest(apiKey);
+      setRateLimitHeaders(res, rate);
+      if (!rate.allowed) {
+        res.setHeader('Retry-After', String(Math.max(1, Math.ceil((rate.resetAt.getTime() - Date.now()) / 1000))));
+        return res.status(429).json({ message: `Rate limit exceeded: this API key allows ${rate.limit} requests per minute` });
+      }
+      return next();
+    }
+    if (req.headers.authorization?.startsWith('Bearer vgr_')) {
+      return res.status(401).json({ message: "Invalid, expired or revoked API key" });
+    }
     // Fall back to normal session auth
-    if (!req.session.userId) {
+    if (!req.session?.userId) {
       return res.status(401).json({ message: "Unauthorized — provide a session cookie or Authorization: Bearer <api_key>" });
     }
     if (!req.session.isSuperAdmin && !req.session.organizationId) {
@@ -201,16 +367,33 @@ function requireApiKeyOrSession(req: Request, res: Response, next: Function) {
 function requireApiKeyScope(scope: ApiKeyScope) {
   return (req: Request, res: Response, next: Function) => {
     // If authenticated via API key, enforce scope
-    if (res.locals.apiKeyId) {
-      const scopes: string[] = res.locals.apiKeyScopes || [];
-      if (!scopes.includes(scope)) {
-        return res.status(403).json({ message: `This API key does not have the '${scope}' scope` });
-      }
+    const apiKey = getPrincipal(req, res)?.apiKey;
+    if (apiKey && !(apiKey.scopes as string[]).includes(scope)) {
+      return res.status(403).json({ message: `This API key does not have the '${scope}' scope` });
     }
     next();
   };
 }
 
+// Middleware: count an API-key request that runs queries against the key's queries-per-day limit
+async function requireApiKeyDailyQuota(req: Request, res: Response, next: Function) {
+  const apiKey = getPrincipal(req, res)?.apiKey;
+  if (!apiKey) return next();
+  try {
+    const usage = await consumeApiKeyDailyQuery(apiKey);
+    setRateLimitHeaders(res, usage, '-Day');
+    if (!usage.allowed) {
+      res.setHeader('Retry-After', String(Math.max(1, Math.ceil((usage.resetAt.getTime() - Date.now()) / 1000))));
+      return res.status(429).json({
+        message: `Daily query limit reached: this API key allows ${usage.limit} queries per day (resets ${usage.resetAt.toISOString()})`,
+      });
+    }
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: "Rate limit check failed" });
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Ensure CSRF token exists in session
   app.use(ensureCsrfToken);
@@ -221,6 +404,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // CSRF verification temporarily disabled for debugging cookie issues
   // app.use('/api', verifyCsrfToken);
 
+  // Keep the session's last-seen time and IP current for the active sessions list.
+  // Throttled so sessions are only rewritten at most once a minute.
+  app.use((req, _res, next) => {
+    if (req.session?.userId) {
+      const lastSeen = req.session.lastSeenAt ? Date.parse(req.session.lastSeenAt) : 0;
+      if (Date.now() - lastSeen > SESSION_LAST_SEEN_INTERVAL) {
+        req.session.lastSeenAt = new Date().toISOString();
+        req.session.ipAddress = req.ip;
+      }
+    }
+    next();
+  });
+
   // Authentication routes
   app.post("/api/auth/login", async (req, res) => {
     try {
@@ -282,6 +478,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.session.role = user.role;
         req.session.organizationId = organizationId;
         req.session.isSuperAdmin = user.isSuperAdmin || false;
+        req.session.userAgent = req.get('user-agent')?.slice(0, 512);
+        req.session.ipAddress = req.ip;
+        req.session.loginAt = new Date().toISOString();
+        req.session.lastSeenAt = req.session.loginAt;
         
         // Generate new CSRF token for the new session
         req.session.csrfToken = undefined;
@@ -384,6 +584,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Active sessions: list the caller's sessions and revoke them.
+  // Sessions are addressed by a hash of the session ID so the raw ID never leaves the server.
+  app.get("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      const rows = await storage.getUserSessions(req.session.userId!);
+      const currentHandle = sessionHandle(req.sessionID);
+      res.json(rows.map(row => {
+        const sess = row.sess as Record<string, any>;
+        const id = sessionHandle(row.sid);
+        return {
+          id,
+          current: id === currentHandle,
+          userAgent: sess.userAgent ?? null,
+          ipAddress: sess.ipAddress ?? null,
+          loginAt: sess.loginAt ?? null,
+          lastSeenAt: sess.lastSeenAt ?? null,
+          expiresAt: row.expire,
+        };
+      }));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      if (req.params.id === sessionHandle(req.sessionID)) {
+        return res.status(400).json({ message: "Use sign out to end your current session" });
+      }
+      const target = (await storage.getUserSessions(userId)).find(row => sessionHandle(row.sid) === req.params.id);
+      if (!target || !(await storage.deleteUserSession(target.sid, userId))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      await logAuditEvent(req, 'session_revoked', 'auth', userId, 'Revoked one session');
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Sign out everywhere else
+  app.post("/api/auth/sessions/revoke-others", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const revoked = await storage.deleteUserSessions(userId, req.sessionID);
+      await logAuditEvent(req, 'session_revoked', 'auth', userId, `Revoked ${revoked} other session(s)`);
+      res.json({ success: true, revoked });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // RBAC: Get current user's resolved permissions
   app.get("/api/permissions/my-permissions", requireAuth, async (req, res) => {
     try {
@@ -490,6 +743,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         rawBody.email = `${rawBody.username.toLowerCase().replace(/[^a-z0-9]/g, '.')}@placeholder.local`;
       }
       const userData = insertUserSchema.parse(rawBody);
+
+      const userQuota = await checkUserQuota(organizationId);
+      if (!userQuota.allowed) {
+        return res.status(402).json({ message: userQuota.message, quota: 'users', used: userQuota.used, limit: userQuota.limit });
+      }
+
       const existingUser = await storage.getUserByUsername(userData.username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
@@ -628,8 +887,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
+      // Deactivation takes effect immediately: end every session the member has open
+      let revokedSessions = 0;
+      if (status === 'inactive') {
+        revokedSessions = await storage.deleteUserSessions(id);
+      }
+
       // Audit log: user status change
-      await logAuditEvent(req, 'user_status_changed', 'user', id, `Status changed to ${status}`);
+      await logAuditEvent(req, 'user_status_changed', 'user', id,
+        `Status changed to ${status}${revokedSessions ? ` (${revokedSessions} session(s) revoked)` : ''}`);
 
       const { password, ...userWithoutPassword } = user;
       res.json(userWithoutPassword);
@@ -690,8 +956,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Organization context required" });
       }
       
+      // AI provider settings live in organization_ai_configs; leave out any not yet migrated
       const orgSettings = await storage.getSettingsByOrganization(organizationId);
-      res.json(orgSettings);
+      res.json(orgSettings.filter(s => !LEGACY_AI_SETTING_KEYS.includes(s.key)));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -741,8 +1008,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!key || value === undefined) {
         return res.status(400).json({ message: "Key and value are required" });
       }
+      if (LEGACY_AI_SETTING_KEYS.includes(key)) {
+        return res.status(400).json({ message: "AI provider settings are managed through /api/ai-config" });
+      }
 
-      const setting = await storage.upsertSetting({ key, value, organizationId });
+      // Explorer table/column/database settings are used as SQL identifiers
+      const identifierError = validateExplorerSetting(key, String(value).trim());
+      if (identifierError) {
+        return res.status(400).json({ message: identifierError });
+      }
+
+      // row_limit / display_limit can never exceed the subscription plan ceilings
+      const cappedValue = organizationId ? await capLimitSetting(organizationId, key, String(value)) : value;
+      const setting = await storage.upsertSetting({ key, value: cappedValue, organizationId });
       res.json(setting);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -774,7 +1052,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       const config = await storage.getOrganizationAwsConfig(organizationId);
       if (!config) {
-        return res.json({ organizationId, awsAccessKeyId: '', awsSecretAccessKey: '', awsRegion: 'us-east-1', s3OutputLocation: '' });
+        return res.json({
+          organizationId, awsAuthMode: 'access_keys', awsAccessKeyId: '', awsSecretAccessKey: '', awsRegion: 'us-east-1',
+          awsRoleArn: '', awsExternalId: getAthenaExternalId(organizationId), s3OutputLocation: '', athenaWorkGroup: '', athenaCatalog: '',
+          serverCredentialsAllowed: serverAwsCredentialsAllowed(),
+        });
       }
       const maskKey = (key: string | null) => {
         if (!key || key.length < 8) return key ? '****' : '';
@@ -786,8 +1068,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         awsAccessKeyId: maskKey(config.awsAccessKeyId),
         awsSecretAccessKey: config.awsSecretAccessKey ? '********' : '',
         awsRegion: config.awsRegion || 'us-east-1',
+        awsAuthMode: config.awsAuthMode,
+        awsRoleArn: config.awsRoleArn || '',
+        awsExternalId: getAthenaExternalId(organizationId),
         s3OutputLocation: config.s3OutputLocation || '',
-        hasCredentials: !!(config.awsAccessKeyId && config.awsSecretAccessKey),
+        athenaWorkGroup: config.athenaWorkGroup || '',
+        athenaCatalog: config.athenaCatalog || '',
+        hasCredentials: !getAthenaSettingsError(config),
+        serverCredentialsAllowed: serverAwsCredentialsAllowed(),
       });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -801,18 +1089,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Organization context required" });
       }
 
-      const { awsAccessKeyId, awsSecretAccessKey, awsRegion, s3OutputLocation } = req.body;
+      const { awsAccessKeyId, awsSecretAccessKey, awsRegion, s3OutputLocation, awsRoleArn, athenaWorkGroup, athenaCatalog } = req.body;
+      const awsAuthMode = req.body.awsAuthMode || 'access_keys';
 
       if (!awsRegion) {
         return res.status(400).json({ message: "AWS Region is required" });
       }
+      if (!AWS_AUTH_MODES.includes(awsAuthMode)) {
+        return res.status(400).json({ message: `awsAuthMode must be one of: ${AWS_AUTH_MODES.join(', ')}` });
+      }
 
       const existing = await storage.getOrganizationAwsConfig(organizationId);
 
       const configData: any = {
         organizationId,
         awsRegion,
+        awsAuthMode,
+        awsRoleArn: awsRoleArn || null,
         s3OutputLocation: s3OutputLocation || null,
+        athenaWorkGroup: athenaWorkGroup || null,
+        athenaCatalog: athenaCatalog || null,
       };
 
       const isMaskedAccessKey = awsAccessKeyId && /^\w{4}\*{4}\w{4}$/.test(awsAccessKeyId);
@@ -829,10 +1125,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         configData.awsSecretAccessKey = existing.awsSecretAccessKey;
       }
 
+      const roleError = getAwsRoleSettingsError(configData);
+      if (roleError) {
+        return res.status(400).json({ message: roleError });
+      }
+
       const result = await storage.upsertOrganizationAwsConfig(configData);
+      // Dashboard results cached from the old Athena settings
+      invalidateResultCache(organizationId, null);
 
       await logAuditEvent(req, 'aws_config_update', 'aws_config', organizationId,
-        `region=${awsRegion}, credentialsUpdated=${!isMaskedAccessKey || !isMaskedSecretKey}`
+        `region=${awsRegion}, authMode=${awsAuthMode}, credentialsUpdated=${!isMaskedAccessKey || !isMaskedSecretKey}`
       );
 
       const maskKey = (key: string | null) => {
@@ -845,8 +1148,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         awsAccessKeyId: maskKey(result.awsAccessKeyId),
         awsSecretAccessKey: result.awsSecretAccessKey ? '********' : '',
         awsRegion: result.awsRegion || 'us-east-1',
+        awsAuthMode: result.awsAuthMode,
+        awsRoleArn: result.awsRoleArn || '',
+        awsExternalId: getAthenaExternalId(organizationId),
         s3OutputLocation: result.s3OutputLocation || '',
-        hasCredentials: !!(result.awsAccessKeyId && result.awsSecretAccessKey),
+        athenaWorkGroup: result.athenaWorkGroup || '',
+        athenaCatalog: result.athenaCatalog || '',
+        hasCredentials: !getAthenaSettingsError(result),
+        serverCredentialsAllowed: serverAwsCredentialsAllowed(),
       });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -861,28 +1170,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const config = await storage.getOrganizationAwsConfig(organizationId);
-      if (!config || !config.awsAccessKeyId || !config.awsSecretAccessKey) {
+      if (!config) {
         return res.status(400).json({ message: "AWS credentials not configured. Please save your configuration first." });
       }
-      if (!config.s3OutputLocation) {
-        return res.status(400).json({ message: "S3 output location not configured." });
+      const settingsError = getAthenaSettingsError(config);
+      if (settingsError) {
+        return res.status(400).json({ message: settingsError });
       }
 
-      const testClient = new AthenaClient({
-        region: config.awsRegion || 'us-east-1',
-        credentials: {
-          accessKeyId: config.awsAccessKeyId,
-          secretAccessKey: config.awsSecretAccessKey,
-        },
-      });
+      const athena = createAthenaContext(config);
+      const testClient = athena.client;
 
       const athenaDbSetting = await storage.getSetting('athena_database', organizationId);
       const databaseName = athenaDbSetting?.value || 'default';
 
-      const startCommand = new StartQueryExecutionCommand({
-        QueryString: `SELECT 1`,
-        ResultConfiguration: { OutputLocation: config.s3OutputLocation },
-      });
+      const startCommand = new StartQueryExecutionCommand(athenaQueryInput(athena, `SELECT 1`));
 
       const startResponse = await testClient.send(startCommand);
       const queryExecutionId = startResponse.QueryExecutionId;
@@ -911,6 +1213,146 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // AI Configuration routes (admin only, per-organization; API keys encrypted at rest)
+  app.get("/api/ai-config", requireAuth, requireOrgAdmin, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      const config = await storage.getOrganizationAiConfig(organizationId);
+      res.json(toAiConfigResponse(organizationId, config));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/ai-config", requireAuth, requireOrgAdmin, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+
+      const validationError = validateAiConfigInput(req.body)
+        ?? validateAiBudgetInput(req.body)
+        ?? (req.body.redactionRules !== undefined ? validateAiRedactionRules(req.body.redactionRules) : null);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      const { aiProvider, aiModel, customPrompt, ollamaEndpoint, redactionRules, monthlyTokenLimit, monthlyCostLimitUsd } = req.body;
+      const existing = await storage.getOrganizationAiConfig(organizationId);
+
+      const configData: InsertOrganizationAiConfig = {
+        organizationId,
+        aiProvider: aiProvider ?? existing?.aiProvider ?? 'openai',
+        aiModel: aiModel?.trim() ?? existing?.aiModel ?? 'gpt-4o',
+        customPrompt: customPrompt !== undefined ? customPrompt || null : existing?.customPrompt ?? null,
+        ollamaEndpoint: ollamaEndpoint !== undefined ? ollamaEndpoint?.trim() || null : existing?.ollamaEndpoint ?? null,
+        // null uses the default rules; an empty list turns redaction off
+        redactionRules: redactionRules !== undefined ? readAiRedactionRules(redactionRules) : existing?.redactionRules ?? null,
+        monthlyTokenLimit: monthlyTokenLimit !== undefined ? monthlyTokenLimit : existing?.monthlyTokenLimit ?? null,
+        monthlyCostLimitUsd: monthlyCostLimitUsd !== undefined ? monthlyCostLimitUsd : existing?.monthlyCostLimitUsd ?? null,
+      };
+      const keysUpdated: string[] = [];
+      for (const field of Object.values(AI_API_KEY_FIELDS)) {
+        configData[field] = nextAiApiKey(req.body[field], existing?.[field]);
+        if (configData[field] !== (existing?.[field] ?? null)) keysUpdated.push(field);
+      }
+
+      const result = await storage.upsertOrganizationAiConfig(configData);
+
+      // Never log the keys themselves, only which ones changed
+      await logAuditEvent(req, 'ai_config_update', 'ai_config', organizationId,
+        `provider=${result.aiProvider}, model=${result.aiModel}, keysUpdated=${keysUpdated.join(',') || 'none'}, ` +
+        `redactionRules=${result.redactionRules ? result.redactionRules.length : 'default'}, ` +
+        `monthlyTokenLimit=${result.monthlyTokenLimit ?? 'none'}, monthlyCostLimitUsd=${result.monthlyCostLimitUsd ?? 'none'}`
+      );
+
+      res.json(toAiConfigResponse(organizationId, result));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // AI usage for the organization: this month's totals against its caps, and tokens and
+  // estimated cost per day over the last `days` (default 30)
+  app.get("/api/ai-usage", requireAuth, requireOrgAdmin, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+
+      const days = req.query.days === undefined ? 30 : Number(req.query.days);
+      if (!Number.isInteger(days) || days < 1 || days > 366) {
+        return res.status(400).json({ message: "days must be a whole number between 1 and 366" });
+      }
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      since.setUTCHours(0, 0, 0, 0);
+
+      const [budget, daily] = await Promise.all([
+        checkAiBudget(organizationId, await storage.getOrganizationAiConfig(organizationId)),
+        storage.getAiUsageByDay(organizationId, since),
+      ]);
+      res.json({ since: since.toISOString(), days, budget, daily });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Test one provider with the saved configuration. An unsaved key or Ollama endpoint in the
+  // body is tested instead of the saved one, so admins can check before saving.
+  app.post("/api/ai-config/test/:provider", requireAuth, requireOrgAdmin, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      const { provider } = req.params;
+      if (!isAiProvider(provider)) {
+        return res.status(400).json({ message: `Unknown AI provider: ${provider}` });
+      }
+
+      const stored = await storage.getOrganizationAiConfig(organizationId);
+      const config = resolveAiConfig(stored, provider);
+      const { apiKey, ollamaEndpoint, model } = req.body || {};
+      if (provider !== 'ollama' && typeof apiKey === 'string' && apiKey.trim()) {
+        config.apiKey = nextAiApiKey(apiKey, config.apiKey) || undefined;
+      }
+      if (provider === 'ollama' && typeof ollamaEndpoint === 'string' && ollamaEndpoint.trim()) {
+        const endpointError = validateAiConfigInput({ ollamaEndpoint });
+        if (endpointError) {
+          return res.status(400).json({ message: endpointError });
+        }
+        config.ollamaUrl = ollamaEndpoint.trim();
+      }
+      if (typeof model === 'string' && model.trim()) {
+        config.model = model.trim();
+      }
+      const configError = getAiConfigError(config);
+      if (configError) {
+        return res.status(400).json({ message: configError });
+      }
+
+      const { usage, ...result } = await testAIConnection(config);
+      await recordAiUsage({
+        organizationId,
+        userId: req.session.userId!,
+        feature: 'connection_test',
+        config,
+        usage,
+        latencyMs: result.latencyMs,
+        status: result.success ? 'success' : 'error',
+        errorMessage: result.success ? undefined : result.message,
+      });
+      res.json({ ...result, provider, model: config.model });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // ============================================================
   // DATABASE CONNECTIONS routes (multi-database support)
   // ============================================================
@@ -936,6 +1378,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(DATABASE_TYPE_LABELS);
   });
 
+  // Live pool usage on this server instance for the org's connections
+  app.get("/api/db-connections/pool-stats", requireAuth, requireOrgAdmin, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      const connections = await storage.getDatabaseConnectionsByOrganization(organizationId);
+      res.json(await getConnectionPoolStats(connections.map(c => c.id)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Health check history for the org's connections: uptime, latency and recent failures
+  app.get("/api/db-connections/health", requireAuth, requireOrgAdmin, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      const hours = req.query.hours === undefined ? 24 : Number(req.query.hours);
+      if (!Number.isInteger(hours) || hours < 1 || hours > 168) {
+        return res.status(400).json({ message: "hours must be a whole number between 1 and 168" });
+      }
+      const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+      const [connections, checks] = await Promise.all([
+        storage.getDatabaseConnectionsByOrganization(organizationId),
+        storage.getConnectionHealthChecksSince(organizationId, since),
+      ]);
+      res.json({ since: since.toISOString(), hours, connections: summarizeConnectionHealth(connections, checks) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/db-connections/:id", requireAuth, async (req, res) => {
     try {
       const organizationId = req.session.organizationId;
@@ -965,6 +1443,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!name || !type) {
         return res.status(400).json({ message: "Name and type are required" });
       }
+      // Maintained by the health checker
+      delete rest.status;
+      delete rest.lastHealthCheckAt;
+      const poolSizeError = validatePoolMaxConnections(rest.poolMaxConnections);
+      if (poolSizeError) {
+        return res.status(400).json({ message: poolSizeError });
+      }
+      const cacheTtlError = validateResultCacheTtl(rest.resultCacheTtlSeconds, 'resultCacheTtlSeconds');
+      if (cacheTtlError) {
+        return res.status(400).json({ message: cacheTtlError });
+      }
+      const sslModeError = applySslMode(rest);
+      if (sslModeError) {
+        return res.status(400).json({ message: sslModeError });
+      }
+      if (rest.awsAuthMode !== undefined && !AWS_AUTH_MODES.includes(rest.awsAuthMode)) {
+        return res.status(400).json({ message: `awsAuthMode must be one of: ${AWS_AUTH_MODES.join(', ')}` });
+      }
+      const readOnlyError = rest.readOnly ? getReadOnlyModeError(type) : null;
+      if (readOnlyError) {
+        return res.status(400).json({ message: readOnlyError });
+      }
+      const roleError = type === 'athena'
+        ? getAwsRoleSettingsError({ awsAuthMode: 'access_keys', awsAccessKeyId: null, awsSecretAccessKey: null, awsRoleArn: null, ...rest })
+        : null;
+      if (roleError) {
+        return res.status(400).json({ message: roleError });
+      }
       const connection = await storage.createDatabaseConnection({
         organizationId,
         name,
@@ -991,7 +1497,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!existing || existing.organizationId !== organizationId) {
         return res.status(404).json({ message: "Connection not found" });
       }
+      const poolSizeError = validatePoolMaxConnections(req.body.poolMaxConnections);
+      if (poolSizeError) {
+        return res.status(400).json({ message: poolSizeError });
+      }
+      const cacheTtlError = validateResultCacheTtl(req.body.resultCacheTtlSeconds, 'resultCacheTtlSeconds');
+      if (cacheTtlError) {
+        return res.status(400).json({ message: cacheTtlError });
+      }
       const updateData = { ...req.body };
+      const sslModeError = applySslMode(updateData);
+      if (sslModeError) {
+        return res.status(400).json({ message: sslModeError });
+      }
+      if (updateData.awsAuthMode !== undefined && !AWS_AUTH_MODES.includes(updateData.awsAuthMode)) {
+        return res.status(400).json({ message: `awsAuthMode must be one of: ${AWS_AUTH_MODES.join(', ')}` });
+      }
+      const readOnlyError = (updateData.readOnly ?? existing.readOnly)
+        ? getReadOnlyModeError(updateData.type ?? existing.type)
+        : null;
+      if (readOnlyError) {
+        return res.status(400).json({ message: readOnlyError });
+      }
       if (updateData.password === '********') {
         updateData.password = existing.password;
       }
@@ -1004,15 +1531,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (updateData.credentialsJson === '********') {
         updateData.credentialsJson = existing.credentialsJson;
       }
+      for (const field of ['sshPassword', 'sshPrivateKey', 'sshPassphrase', 'sslClientKey'] as const) {
+        if (updateData[field] === '********') {
+          updateData[field] = existing[field];
+        }
+      }
+      const roleError = (updateData.type ?? existing.type) === 'athena'
+        ? getAwsRoleSettingsError({ ...existing, ...updateData })
+        : null;
+      if (roleError) {
+        return res.status(400).json({ message: roleError });
+      }
       delete updateData.id;
       delete updateData.organizationId;
       delete updateData.createdAt;
       delete updateData.updatedAt;
       delete updateData.hasCredentials;
+      delete updateData.status;
+      // Check the edited settings on the next health checker tick
+      updateData.lastHealthCheckAt = null;
       const updated = await storage.updateDatabaseConnection(req.params.id, updateData);
       if (!updated) {
         return res.status(404).json({ message: "Connection not found" });
       }
+      invalidateConnectionPool(req.params.id);
+      invalidateResultCache(organizationId, req.params.id);
       await logAuditEvent(req, 'db_connection_updated', 'database_connection', req.params.id, `Updated connection: ${updated.name}`);
       res.json({
         ...maskConnectionCredentials(updated),
@@ -1037,6 +1580,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!deleted) {
         return res.status(404).json({ message: "Connection not found" });
       }
+      invalidateConnectionPool(req.params.id);
+      invalidateResultCache(organizationId, req.params.id);
       await logAuditEvent(req, 'db_connection_deleted', 'database_connection', req.params.id, `Deleted connection: ${existing.name}`);
       res.json({ success: true });
     } catch (error: any) {
@@ -1050,12 +1595,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!organizationId) {
         return res.status(403).json({ message: "Organization context required" });
       }
-      const { type, host, port, database, username, password, ssl, awsAccessKeyId, awsSecretAccessKey, awsRegion, s3OutputLocation, projectId, credentialsJson, dataset, account, warehouse, schema, role } = req.body;
+      const { type, host, port, database, username, password, ssl, sslMode, sslCaCert, sslClientCert, sslClientKey, awsAccessKeyId, awsSecretAccessKey, awsRegion, s3OutputLocation, projectId, credentialsJson, dataset, account, warehouse, schema, role,
+        awsAuthMode, awsRoleArn, athenaWorkGroup, athenaCatalog,
+        sshEnabled, sshHost, sshPort, sshUsername, sshPassword, sshPrivateKey, sshPassphrase } = req.body;
       if (!type) {
         return res.status(400).json({ success: false, message: "Database type is required" });
       }
       const connectionData = {
-        id: 'test-inline',
+        // Unique id so the throwaway pool never collides with another test
+        id: `test-inline-${crypto.randomUUID()}`,
         organizationId,
         name: 'Test',
         type,
@@ -1065,10 +1613,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         username: username || null,
         password: password || null,
         ssl: ssl || false,
+        sslMode: sslMode || (ssl ? 'require' : 'disable'),
+        sslCaCert: sslCaCert || null,
+        sslClientCert: sslClientCert || null,
+        sslClientKey: sslClientKey || null,
         awsAccessKeyId: awsAccessKeyId || null,
         awsSecretAccessKey: awsSecretAccessKey || null,
         awsRegion: awsRegion || null,
         s3OutputLocation: s3OutputLocation || null,
+        awsAuthMode: awsAuthMode || 'access_keys',
+        awsRoleArn: awsRoleArn || null,
+        athenaWorkGroup: athenaWorkGroup || null,
+        athenaCatalog: athenaCatalog || null,
         projectId: projectId || null,
         credentialsJson: credentialsJson || null,
         dataset: dataset || null,
@@ -1076,14 +1632,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         warehouse: warehouse || null,
         schema: schema || null,
         role: role || null,
+        sshEnabled: sshEnabled || false,
+        sshHost: sshHost || null,
+        sshPort: sshPort ? parseInt(sshPort) : null,
+        sshUsername: sshUsername || null,
+        sshPassword: sshPassword || null,
+        sshPrivateKey: sshPrivateKey || null,
+        sshPassphrase: sshPassphrase || null,
         isDefault: false,
         status: 'active',
         createdAt: new Date(),
         updatedAt: new Date(),
       } as any;
       const driver = getDriver(type);
-      const result = await driver.testConnection(connectionData);
-      res.json(result);
+      try {
+        res.json(await driver.testConnection(connectionData));
+      } finally {
+        invalidateConnectionPool(connectionData.id);
+      }
     } catch (error: any) {
       res.json({ success: false, message: error.message });
     }
@@ -1099,9 +1665,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!connection || connection.organizationId !== organizationId) {
         return res.status(404).json({ message: "Connection not found" });
       }
-      const driver = getDriver(connection.type);
-      const result = await driver.testConnection(connection);
-      res.json(result);
+      // Recorded in the health history like a background check
+      const { check, status, message } = await checkConnectionHealth(connection);
+      res.json({
+        success: check.success,
+        message,
+        ...(check.stage ? { stage: check.stage } : {}),
+        latencyMs: check.latencyMs,
+        status,
+      });
     } catch (error: any) {
       res.json({ success: false, message: error.message });
     }
@@ -1148,7 +1720,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.session.userId!;
       const organizationId = req.session.organizationId;
-      const { name, query } = req.body;
+      const { name, query, federatedSources } = req.body;
       
       if (!organizationId) {
         return res.status(403).json({ message: "Organization context required" });
@@ -1157,8 +1729,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!name || !query) {
         return res.status(400).json({ message: "Name and query are required" });
       }
+
+      // A federated query stores its sources alongside the final SQL
+      if (federatedSources !== undefined && federatedSources !== null) {
+        const federatedError = validateFederatedQuery(federatedSources, query);
+        if (federatedError) {
+          return res.status(400).json({ message: federatedError });
+        }
+        for (const source of federatedSources) {
+          if (!source.connectionId) continue;
+          const connection = await storage.getDatabaseConnectionById(source.connectionId);
+          if (!connection || connection.organizationId !== organizationId) {
+            return res.status(404).json({ message: `Database connection for source "${source.alias}" not found` });
+          }
+        }
+      }
       
-      const savedQuery = await storage.createSavedQuery({ userId, name, query, organizationId });
+      const savedQuery = await storage.createSavedQuery({
+        userId,
+        name,
+        query,
+        organizationId,
+        federatedSources: federatedSources ? readFederatedSources(federatedSources) : null,
+      });
       res.json(savedQuery);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -1200,22 +1793,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Helper to get Athena client from per-org AWS config
-  async function getOrgAthenaClient(organizationId: string): Promise<{ client: AthenaClient; s3OutputLocation: string }> {
+  async function getOrgAthenaClient(organizationId: string): Promise<AthenaContext> {
     const config = await storage.getOrganizationAwsConfig(organizationId);
-    if (!config || !config.awsAccessKeyId || !config.awsSecretAccessKey) {
+    if (!config) {
       throw new Error("AWS credentials not configured. Please set them up in Admin > Configurations > AWS.");
     }
-    if (!config.s3OutputLocation) {
-      throw new Error("S3 output location not configured. Please set it in Admin > Configurations > AWS.");
+    const settingsError = getAthenaSettingsError(config);
+    if (settingsError) {
+      throw new Error(`${settingsError} Please update Admin > Configurations > AWS.`);
     }
-    const client = new AthenaClient({
-      region: config.awsRegion || 'us-east-1',
-      credentials: {
-        accessKeyId: config.awsAccessKeyId,
-        secretAccessKey: config.awsSecretAccessKey,
-      },
-    });
-    return { client, s3OutputLocation: config.s3OutputLocation };
+    return createAthenaContext(config);
   }
 
   // Schema cache per organization to avoid hammering Athena (tenant isolated)
@@ -1225,6 +1812,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }> = new Map();
   const SCHEMA_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
 
+  // Introspect a non-Athena connection through its driver (tables and columns in one pass)
+  async function getConnectionSchema(cacheKey: string, connection: OrganizationDatabaseConnection) {
+    const cached = schemaCacheByOrg.get(cacheKey);
+    if (cached && (Date.now() - cached.timestamp) < SCHEMA_CACHE_TTL) {
+      return cached.data;
+    }
+
+    const driver = getDriver(connection.type);
+    if (!driver.getSchema) {
+      throw new Error(`Schema browsing is not supported for ${connection.type} connections.`);
+    }
+    const introspected = await driver.getSchema(connection);
+
+    // Qualify table names with their schema only when more than one schema is visible
+    const qualify = introspected.schemas.length > 1;
+    const responseData = {
+      database: introspected.database,
+      schemas: introspected.schemas,
+      tables: introspected.tables.map(t => ({
+        name: qualify ? `${t.schema}.${t.name}` : t.name,
+        schema: t.schema,
+        columns: t.columns,
+      })),
+      totalTables: introspected.tables.length,
+      fetchedTables: introspected.tables.length,
+    };
+
+    schemaCacheByOrg.set(cacheKey, { data: responseData, timestamp: Date.now() });
+    return responseData;
+  }
+
   // Database schema endpoint - get tables only (columns fetched on demand)
   app.get("/api/query/athena-databases", requireAuth, async (req, res) => {
     try {
@@ -1234,8 +1852,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const connectionId = req.query.connectionId as string | undefined;
-      let athenaClient: AthenaClient;
-      let s3OutputLocation: string;
+      let athena: AthenaContext;
 
       if (connectionId) {
         const connection = await storage.getDatabaseConnectionById(connectionId);
@@ -1245,30 +1862,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (connection.type !== 'athena') {
           return res.status(400).json({ message: "This endpoint is only for Athena connections." });
         }
-        if (!connection.awsAccessKeyId || !connection.awsSecretAccessKey) {
-          return res.status(400).json({ message: "AWS credentials not configured." });
-        }
-        if (!connection.s3OutputLocation) {
-          return res.status(400).json({ message: "S3 output location not configured." });
+        const settingsError = getAthenaSettingsError(connection);
+        if (settingsError) {
+          return res.status(400).json({ message: settingsError });
         }
-        athenaClient = new AthenaClient({
-          region: connection.awsRegion || 'us-east-1',
-          credentials: {
-            accessKeyId: connection.awsAccessKeyId,
-            secretAccessKey: connection.awsSecretAccessKey,
-          },
-        });
-        s3OutputLocation = connection.s3OutputLocation;
+        athena = createAthenaContext(connection);
       } else {
-        const result = await getOrgAthenaClient(organizationId);
-        athenaClient = result.client;
-        s3OutputLocation = result.s3OutputLocation;
+        athena = await getOrgAthenaClient(organizationId);
       }
+      const athenaClient = athena.client;
 
-      const startCommand = new StartQueryExecutionCommand({
-        QueryString: 'SHOW DATABASES',
-        ResultConfiguration: { OutputLocation: s3OutputLocation },
-      });
+      const startCommand = new StartQueryExecutionCommand(athenaQueryInput(athena, 'SHOW DATABASES'));
       const startResponse = await athenaClient.send(startCommand);
       const queryExecutionId = startResponse.QueryExecutionId;
       if (!queryExecutionId) throw new Error('Failed to start query');
@@ -1318,8 +1922,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json(orgCache.data);
       }
 
-      let athenaClient: AthenaClient;
-      let s3OutputLocation: string;
+      let athena: AthenaContext;
       let databaseName: string;
 
       if (connectionId) {
@@ -1328,30 +1931,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Database connection not found" });
         }
         if (connection.type !== 'athena') {
-          return res.status(400).json({ message: "Schema browsing via this endpoint is only supported for Athena connections." });
-        }
-        if (!connection.awsAccessKeyId || !connection.awsSecretAccessKey) {
-          return res.status(400).json({ message: "AWS credentials not configured on this connection." });
+          return res.json(await getConnectionSchema(cacheKey, connection));
         }
-        if (!connection.s3OutputLocation) {
-          return res.status(400).json({ message: "S3 output location not configured on this connection." });
+        const settingsError = getAthenaSettingsError(connection);
+        if (settingsError) {
+          return res.status(400).json({ message: settingsError });
         }
-        athenaClient = new AthenaClient({
-          region: connection.awsRegion || 'us-east-1',
-          credentials: {
-            accessKeyId: connection.awsAccessKeyId,
-            secretAccessKey: connection.awsSecretAccessKey,
-          },
-        });
-        s3OutputLocation = connection.s3OutputLocation;
+        athena = createAthenaContext(connection);
         databaseName = connection.database || '';
         if (!databaseName) {
           return res.status(400).json({ message: "Database name not configured on this Athena connection." });
         }
       } else {
-        const result = await getOrgAthenaClient(organizationId);
-        athenaClient = result.client;
-        s3OutputLocation = result.s3OutputLocation;
+        athena = await getOrgAthenaClient(organizationId);
         const athenaDbSetting = await storage.getSetting('athena_database', req.session.organizationId);
         if (!athenaDbSetting?.value) {
           return res.status(400).json({ message: "Athena database not configured. Please configure it in Admin > Explorer Configuration." });
@@ -1359,12 +1951,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         databaseName = athenaDbSetting.value;
       }
 
+      const athenaClient = athena.client;
+
       // Helper function to execute a query and get results
       const executeSchemaQuery = async (query: string): Promise<string[][]> => {
-        const startCommand = new StartQueryExecutionCommand({
-          QueryString: query,
-          ResultConfiguration: { OutputLocation: s3OutputLocation },
-        });
+        const startCommand = new StartQueryExecutionCommand(athenaQueryInput(athena, query));
 
         const startResponse = await athenaClient.send(startCommand);
         const queryExecutionId = startResponse.QueryExecutionId;
@@ -1430,7 +2021,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { tableName } = req.params;
       
-      if (!tableName || !/^[a-zA-Z0-9_]+$/.test(tableName)) {
+      if (!tableName || !/^[a-zA-Z0-9_$.-]+$/.test(tableName)) {
         return res.status(400).json({ message: "Invalid table name" });
       }
 
@@ -1439,19 +2030,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Organization context required" });
       }
 
-      const { client: athenaClient, s3OutputLocation } = await getOrgAthenaClient(organizationId);
-      
-      // Get Athena database name from settings (organization-scoped)
-      const athenaDbSetting = await storage.getSetting('athena_database', organizationId);
-      if (!athenaDbSetting?.value) {
-        return res.status(400).json({ message: "Athena database not configured. Please configure it in Admin > Explorer Configuration." });
+      const connectionId = req.query.connectionId as string | undefined;
+      const connection = connectionId ? await storage.getDatabaseConnectionById(connectionId) : undefined;
+      if (connectionId && (!connection || connection.organizationId !== organizationId)) {
+        return res.status(404).json({ message: "Database connection not found" });
       }
-      const databaseName = athenaDbSetting.value;
 
-      const startCommand = new StartQueryExecutionCommand({
-        QueryString: `SHOW COLUMNS IN \`${databaseName}\`.\`${tableName}\``,
-        ResultConfiguration: { OutputLocation: s3OutputLocation },
-      });
+      // Non-Athena schemas are introspected with their columns; answer from the cached schema
+      if (connection && connection.type !== 'athena') {
+        const schema = await getConnectionSchema(`${organizationId}:${connection.id}`, connection);
+        const table = schema.tables.find((t: { name: string }) => t.name === tableName);
+        if (!table) {
+          return res.status(404).json({ message: "Table not found" });
+        }
+        return res.json({ tableName, columns: table.columns });
+      }
+
+      if (!/^[a-zA-Z0-9_]+$/.test(tableName)) {
+        return res.status(400).json({ message: "Invalid table name" });
+      }
+
+      let athena: AthenaContext;
+      let databaseName: string;
+
+      if (connection) {
+        const settingsError = getAthenaSettingsError(connection);
+        if (settingsError) {
+          return res.status(400).json({ message: settingsError });
+        }
+        if (!connection.database) {
+          return res.status(400).json({ message: "Database name not configured on this Athena connection." });
+        }
+        athena = createAthenaContext(connection);
+        databaseName = connection.database;
+      } else {
+        athena = await getOrgAthenaClient(organizationId);
+
+        // Get Athena database name from settings (organization-scoped)
+        const athenaDbSetting = await storage.getSetting('athena_database', organizationId);
+        if (!athenaDbSetting?.value) {
+          return res.status(400).json({ message: "Athena database not configured. Please configure it in Admin > Explorer Configuration." });
+        }
+        databaseName = athenaDbSetting.value;
+      }
+
+      const athenaClient = athena.client;
+      const startCommand = new StartQueryExecutionCommand(
+        athenaQueryInput(athena, `SHOW COLUMNS IN \`${databaseName}\`.\`${tableName}\``)
+      );
 
       const startResponse = await athenaClient.send(startCommand);
       const queryExecutionId = startResponse.QueryExecutionId;
@@ -1495,7 +2121,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Query execution route (supports multi-database connections)
-  app.post("/api/query/execute", requireAuth, requirePermission("execute_queries"), async (req, res) => {
+  // Returns an execution handle immediately; the query runs in the background and
+  // clients poll GET /api/query/:executionId/status or cancel via POST /api/query/:executionId/cancel
+  app.post("/api/query/execute", requireAuth, requirePermission("execute_queries"), requireQueryQuota, async (req, res) => {
     try {
       const { query, connectionId } = req.body;
       if (!query) {
@@ -1507,276 +2135,965 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Organization context required" });
       }
 
-      const exportLimitSetting = await storage.getSetting('row_limit', organizationId);
-      const rowLimit = exportLimitSetting ? parseInt(exportLimitSetting.value) : 1000;
-      const displayLimitSetting = await storage.getSetting('display_limit', organizationId);
-      const displayLimit = displayLimitSetting ? parseInt(displayLimitSetting.value) : 10000;
+      const { rowLimit, displayLimit } = await getEffectiveRowLimits(organizationId);
 
-      let columns: string[];
-      let data: Record<string, any>[];
-      let executionTime: number;
+      // Resolve the target before handing out a handle so configuration errors surface synchronously
+      let runQuery: (signal: AbortSignal) => Promise<{
+        columns: string[];
+        data: Record<string, any>[];
+        executionTime: number;
+        truncated: boolean;
+        statistics?: AthenaQueryStatistics;
+      }>;
 
       if (connectionId) {
         const connection = await storage.getDatabaseConnectionById(connectionId);
         if (!connection || connection.organizationId !== organizationId) {
           return res.status(404).json({ message: "Database connection not found" });
         }
+        const access = await resolveReadOnlyAccess(connection, query, req.session.userId!, !!req.session.isSuperAdmin);
+        if (access.violation) {
+          return res.status(403).json({ message: access.violation });
+        }
         const driver = getDriver(connection.type);
-        const result = await driver.executeQuery(connection, query, displayLimit);
-        columns = result.columns;
-        data = result.rows;
-        executionTime = result.executionTimeMs;
+        runQuery = async (signal) => {
+          const result = await driver.executeQuery(connection, query, displayLimit, { signal, readOnly: access.readOnly });
+          return {
+            columns: result.columns,
+            data: result.rows,
+            executionTime: result.executionTimeMs,
+            truncated: result.truncated,
+            statistics: result.statistics,
+          };
+        };
       } else {
-        const { client: athenaClient, s3OutputLocation } = await getOrgAthenaClient(organizationId);
-        const startTime = Date.now();
-        const result = await executeAthenaQueryWithPagination(
-          athenaClient, query, s3OutputLocation, displayLimit
-        );
-        columns = result.columns;
-        data = result.data;
-        executionTime = Date.now() - startTime;
+        const athena = await getOrgAthenaClient(organizationId);
+        runQuery = async (signal) => {
+          const startTime = Date.now();
+          const result = await executeAthenaQueryWithPagination(
+            athena, query, displayLimit, undefined, undefined, signal
+          );
+          return {
+            columns: result.columns,
+            data: result.data,
+            executionTime: Date.now() - startTime,
+            truncated: result.truncated,
+            statistics: result.statistics,
+          };
+        };
       }
 
-      await storage.createQueryLog({
+      const execution = createQueryExecution({
+        organizationId,
         userId: req.session.userId!,
-        organizationId: req.session.organizationId || null,
-        username: req.session.username!,
+        connectionId,
         query,
-        rowsReturned: data.length,
-        executionTime,
-        status: 'success',
       });
+      const userId = req.session.userId!;
+      const username = req.session.username!;
+      const startTime = Date.now();
 
-      res.json({
-        columns,
-        data,
-        rowsReturned: data.length,
-        executionTime,
-        rowLimit,
-      });
-    } catch (error: any) {
-      try {
-        await storage.createQueryLog({
-          userId: req.session.userId!,
-          organizationId: req.session.organizationId || null,
-          username: req.session.username!,
-          query: req.body.query || '',
-          rowsReturned: 0,
-          executionTime: 0,
-          status: 'error',
+      const logExecution = (status: string, rowsReturned: number, executionTime: number, statistics?: AthenaQueryStatistics) =>
+        storage.createQueryLog({
+          userId,
+          organizationId,
+          username,
+          query,
+          rowsReturned,
+          executionTime,
+          status,
+          connectionId: connectionId || null,
+          ...statistics,
+        }).catch(logError => console.error('Failed to log query execution:', logError));
+
+      runQuery(execution.controller.signal)
+        .then(async ({ columns, data, executionTime, truncated, statistics }) => {
+          await logExecution('success', data.length, executionTime, statistics);
+          finishQueryExecution(execution.id, 'succeeded', {
+            result: { columns, data, rowsReturned: data.length, executionTime, rowLimit, truncated, statistics },
+          });
+        })
+        .catch(async (error: any) => {
+          const cancelled = execution.controller.signal.aborted;
+          await logExecution(cancelled ? 'cancelled' : 'error', 0, Date.now() - startTime);
+          finishQueryExecution(execution.id, cancelled ? 'cancelled' : 'failed', {
+            error: cancelled ? 'Query cancelled' : error.message,
+          });
         });
-      } catch (logError) {
-        console.error('Failed to log error query:', logError);
+
+      res.status(202).json({ executionId: execution.id, status: execution.status });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Federated query: run each source on its connection, then a final SQL over their results
+  // (see federated-query.ts). Returns an execution handle like /api/query/execute; each
+  // source run is logged as its own query against its connection.
+  app.post("/api/query/federated", requireAuth, requirePermission("execute_queries"), requireQueryQuota, async (req, res) => {
+    try {
+      const { sources: rawSources, query } = req.body;
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+
+      const validationError = validateFederatedQuery(rawSources, query);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+      const sources = readFederatedSources(rawSources);
+      const userId = req.session.userId!;
+      const username = req.session.username!;
+
+      const { rowLimit, displayLimit } = await getEffectiveRowLimits(organizationId);
+      const sourceRowLimit = getFederatedSourceRowLimit(rowLimit, sources.length);
+
+      // Resolve every source before handing out a handle so configuration errors surface synchronously
+      let athena: AthenaContext | undefined;
+      const runners: ((signal: AbortSignal) => Promise<QueryResult>)[] = [];
+      for (const source of sources) {
+        if (source.connectionId) {
+          const connection = await storage.getDatabaseConnectionById(source.connectionId);
+          if (!connection || connection.organizationId !== organizationId) {
+            return res.status(404).json({ message: `Database connection for source "${source.alias}" not found` });
+          }
+          const access = await resolveReadOnlyAccess(connection, source.query, userId, !!req.session.isSuperAdmin);
+          if (access.violation) {
+            return res.status(403).json({ message: `Source "${source.alias}": ${access.violation}` });
+          }
+          const driver = getDriver(connection.type);
+          runners.push(signal => driver.executeQuery(connection, source.query, sourceRowLimit, { signal, readOnly: access.readOnly }));
+        } else {
+          athena = athena || await getOrgAthenaClient(organizationId);
+          const context = athena;
+          runners.push(async signal => {
+            const startTime = Date.now();
+            const result = await executeAthenaQueryWithPagination(
+              context, source.query, sourceRowLimit, undefined, undefined, signal
+            );
+            return {
+              columns: result.columns,
+              rows: result.data,
+              rowCount: result.data.length,
+              executionTimeMs: Date.now() - startTime,
+              truncated: result.truncated,
+              statistics: result.statistics,
+            };
+          });
+        }
       }
+
+      const execution = createQueryExecution({ organizationId, userId, connectionId: null, query });
+      const signal = execution.controller.signal;
+      const startTime = Date.now();
+
+      const logSource = (source: FederatedQuerySource, status: string, rowsReturned: number, executionTime: number, statistics?: AthenaQueryStatistics) =>
+        storage.createQueryLog({
+          userId,
+          organizationId,
+          username,
+          query: source.query,
+          rowsReturned,
+          executionTime,
+          status,
+          connectionId: source.connectionId,
+          ...statistics,
+        }).catch(logError => console.error('Failed to log federated source query:', logError));
+
+      const runSources = () => Promise.all(sources.map(async (source, index) => {
+        const sourceStart = Date.now();
+        try {
+          const result = await runners[index](signal);
+          await logSource(source, 'success', result.rows.length, result.executionTimeMs, result.statistics);
+          return { alias: source.alias, columns: result.columns, rows: result.rows, truncated: result.truncated, statistics: result.statistics };
+        } catch (error: any) {
+          await logSource(source, signal.aborted ? 'cancelled' : 'error', 0, Date.now() - sourceStart);
+          throw new Error(`Source "${source.alias}": ${error.message}`);
+        }
+      }));
+
+      runSources()
+        .then(async results => {
+          if (signal.aborted) throw new Error('Query cancelled');
+          const { columns, rows, truncated } = await runFederatedQuery(results, query, displayLimit, signal);
+          finishQueryExecution(execution.id, 'succeeded', {
+            result: {
+              columns,
+              data: rows,
+              rowsReturned: rows.length,
+              executionTime: Date.now() - startTime,
+              rowLimit,
+              truncated,
+              sources: results.map(result => ({
+                alias: result.alias,
+                rowsLoaded: result.rows.length,
+                truncated: result.truncated,
+                statistics: result.statistics,
+              })),
+            },
+          });
+        })
+        .catch((error: any) => {
+          // Stop sources still running once one has failed
+          if (!signal.aborted) execution.controller.abort();
+          const cancelled = execution.status === 'cancelling';
+          finishQueryExecution(execution.id, cancelled ? 'cancelled' : 'failed', {
+            error: cancelled ? 'Query cancelled' : error.message,
+          });
+        });
+
+      res.status(202).json({ executionId: execution.id, status: execution.status });
+    } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // MSISDN Lookup route - executes multiple queries in parallel
-  app.post("/api/query/msisdn-lookup", requireAuth, requirePermission("msisdn_lookup"), async (req, res) => {
+  // Poll a query execution started by /api/query/execute or /api/query/federated
+  app.get("/api/query/:executionId/status", requireAuth, async (req, res) => {
     try {
-      const { msisdn } = req.body;
-      if (!msisdn) {
-        return res.status(400).json({ message: "MSISDN is required" });
+      const execution = getQueryExecution(req.params.executionId);
+      if (!execution || execution.organizationId !== req.session.organizationId || execution.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Query execution not found" });
       }
 
-      // Trim whitespace
-      const trimmedMsisdn = typeof msisdn === 'string' ? msisdn.trim() : '';
-      
-      if (!trimmedMsisdn) {
-        return res.status(400).json({ message: "Lookup value is required" });
+      res.json({
+        executionId: execution.id,
+        status: execution.status,
+        startedAt: execution.startedAt,
+        finishedAt: execution.finishedAt,
+        ...(execution.error ? { message: execution.error } : {}),
+        ...(execution.result || {}),
+      });
+      // The client stops polling once it has the outcome
+      releaseQueryExecution(execution.id);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Cancel a running query execution (StopQueryExecution on Athena, driver-level cancel elsewhere)
+  app.post("/api/query/:executionId/cancel", requireAuth, async (req, res) => {
+    try {
+      const execution = getQueryExecution(req.params.executionId);
+      if (!execution || execution.organizationId !== req.session.organizationId || execution.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Query execution not found" });
+      }
+      if (execution.status !== 'running') {
+        return res.status(409).json({ message: `Query is not running (status: ${execution.status})` });
       }
 
-      // Get settings (organization-scoped)
+      cancelQueryExecution(execution.id);
+      res.status(202).json({ executionId: execution.id, status: execution.status });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ============================================================
+  // EXPLORER DATA SOURCES - tables searched by the Explorer lookup
+  // ============================================================
+
+  // Resolve a source's connection: null = org Athena config, undefined = not in this org
+  async function resolveExplorerSourceConnection(organizationId: string, connectionId: unknown): Promise<string | null | undefined> {
+    if (!connectionId) return null;
+    const connection = await storage.getDatabaseConnectionById(String(connectionId));
+    if (!connection || connection.organizationId !== organizationId) return undefined;
+    return connection.id;
+  }
+
+  app.get("/api/explorer/sources", requireAuth, async (req, res) => {
+    try {
       const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      const sources = await storage.getExplorerDataSources(organizationId);
+      res.json(sources);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Read configured validation type and label for helpful error messages
-      const lookupValidationSetting = await storage.getSetting('explorer_lookup_validation', organizationId);
-      const lookupLabelSetting = await storage.getSetting('explorer_lookup_label', organizationId);
-      const validationType = lookupValidationSetting?.value || 'digits_only';
-      const lookupLabel = lookupLabelSetting?.value || 'MSISDN';
+  app.post("/api/explorer/sources", requireAuth, requireOrgAdmin, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      const { key, label, description, tableName, lookupColumn, connectionId } = req.body;
+      const validationError = validateExplorerSourceInput({ key, table: tableName, column: lookupColumn });
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
 
-      // Validate input according to configured type
-      if (validationType === 'digits_only' && !/^\d+$/.test(trimmedMsisdn)) {
-        return res.status(400).json({ message: `${lookupLabel} must contain digits only` });
+      const existing = await storage.getExplorerDataSources(organizationId);
+      if (existing.some(s => s.key === key)) {
+        return res.status(409).json({ message: "A data source with this key already exists" });
       }
-      if (validationType === 'alphanumeric' && !/^[a-zA-Z0-9]+$/.test(trimmedMsisdn)) {
-        return res.status(400).json({ message: `${lookupLabel} must contain letters and numbers only` });
+      const resolvedConnectionId = await resolveExplorerSourceConnection(organizationId, connectionId);
+      if (resolvedConnectionId === undefined) {
+        return res.status(400).json({ message: "Connection not found" });
       }
-      // 'any' validation: only check non-empty (already done above)
 
-      const sanitizedMsisdn = trimmedMsisdn;
-      
-      // Get row limit setting (used for export restriction)
-      const exportLimitSetting = await storage.getSetting('row_limit', organizationId);
-      const rowLimit = exportLimitSetting ? parseInt(exportLimitSetting.value) : 1000;
-      
-      // Get display limit setting (for results shown in UI)
-      const displayLimitSetting = await storage.getSetting('display_limit', organizationId);
-      const displayLimit = displayLimitSetting ? parseInt(displayLimitSetting.value) : 10000;
+      const source = await storage.createExplorerDataSource({
+        organizationId,
+        key,
+        label: label || String(key).toUpperCase(),
+        description: description || null,
+        tableName,
+        lookupColumn,
+        connectionId: resolvedConnectionId,
+      });
+      await logAuditEvent(req, 'explorer_source_created', 'explorer_source', source.id, `Data source "${source.label}" created`);
+      res.status(201).json(source);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Get Athena database name from settings (organization-scoped)
-      const athenaDbSetting = await storage.getSetting('athena_database', req.session.organizationId);
-      if (!athenaDbSetting?.value) {
-        return res.status(400).json({ message: "Athena database not configured. Please configure it in Admin > Explorer Configuration." });
+  app.put("/api/explorer/sources/:id", requireAuth, requireOrgAdmin, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      const existing = await storage.getExplorerDataSource(req.params.id);
+      if (!existing || existing.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Data source not found" });
       }
-      const databaseName = athenaDbSetting.value;
-
-      // Dynamically build data source queries from configured settings only
-      const allOrgSettings = organizationId 
-        ? await storage.getSettingsByOrganization(organizationId)
-        : [];
-      const settingsMap = new Map(allOrgSettings.map(s => [s.key, s.value]));
 
-      const explorerSourceKeys = new Set<string>();
-      settingsMap.forEach((_, key) => {
-        const match = key.match(/^explorer_table_(.+)$/);
-        if (match) explorerSourceKeys.add(match[1]);
+      const { label, description, tableName, lookupColumn, connectionId } = req.body;
+      const validationError = validateExplorerSourceInput({
+        key: existing.key,
+        table: tableName ?? existing.tableName,
+        column: lookupColumn ?? existing.lookupColumn,
+      });
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+      const resolvedConnectionId = connectionId === undefined
+        ? existing.connectionId
+        : await resolveExplorerSourceConnection(existing.organizationId, connectionId);
+      if (resolvedConnectionId === undefined) {
+        return res.status(400).json({ message: "Connection not found" });
+      }
+
+      const updated = await storage.updateExplorerDataSource(existing.id, {
+        label: label || existing.label,
+        description: description ?? existing.description,
+        tableName: tableName ?? existing.tableName,
+        lookupColumn: lookupColumn ?? existing.lookupColumn,
+        connectionId: resolvedConnectionId,
       });
+      await logAuditEvent(req, 'explorer_source_updated', 'explorer_source', existing.id, `Data source "${updated?.label}" updated`);
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      if (explorerSourceKeys.size === 0) {
-        return res.status(400).json({ message: "No data sources configured. Please configure them in Admin > Explorer Configuration." });
+  app.delete("/api/explorer/sources/:id", requireAuth, requireOrgAdmin, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      const existing = await storage.getExplorerDataSource(req.params.id);
+      if (!existing || existing.organizationId !== organizationId) {
+        return res.status(404).json({ message: "Data source not found" });
       }
+      await storage.deleteExplorerDataSource(existing.id);
+      await logAuditEvent(req, 'explorer_source_deleted', 'explorer_source', existing.id, `Data source "${existing.label}" deleted`);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      const queries = Array.from(explorerSourceKeys).map(key => {
-        const table = settingsMap.get(`explorer_table_${key}`);
-        const column = settingsMap.get(`explorer_column_${key}`);
-        const label = settingsMap.get(`explorer_label_${key}`) || key.toUpperCase();
-        if (!table || !column) {
-          throw new Error(`Data source "${key}" is missing table or column configuration. Please update it in Admin > Explorer Configuration.`);
+  // Run lookup values against every Explorer source, sources in parallel. Sources with a
+  // connection run through that connection's driver; the rest run on the org's Athena config.
+  // Values are bound as query parameters so they never become part of the SQL text;
+  // each source runs one IN (...) query per batch of LOOKUP_BATCH_SIZE values.
+  async function runExplorerLookup(
+    organizationId: string,
+    databaseName: string | undefined,
+    sources: ExplorerSource[],
+    lookupValues: string[],
+    rowLimit: number
+  ): Promise<ExplorerSourceResult[]> {
+    const orgConnections = await storage.getDatabaseConnectionsByOrganization(organizationId);
+
+    // Sources without a connection share one Athena client: the first fully configured
+    // Athena connection, falling back to the org AWS config. Resolved only when such a source exists.
+    let legacyAthena: Promise<AthenaContext> | undefined;
+    const getLegacyAthena = () => {
+      legacyAthena ??= (async () => {
+        const athenaConnection = orgConnections.find(c => c.type === 'athena' && !getAthenaSettingsError(c));
+        return athenaConnection ? createAthenaContext(athenaConnection) : getOrgAthenaClient(organizationId);
+      })();
+      return legacyAthena;
+    };
+
+    // Run one batch for a source and return up to `maxRows` rows
+    const executeBatch = async (source: ExplorerSource, values: string[], maxRows: number) => {
+      if (source.connectionId) {
+        const connection = orgConnections.find(c => c.id === source.connectionId);
+        if (!connection) {
+          throw new Error(`Connection for ${source.label} not found. Please update it in Admin > Explorer Configuration.`);
         }
+        const { query, params } = buildLookupQuery(
+          connection.type, connection.type === 'athena' ? connection.database || undefined : undefined, source, values
+        );
+        const result = await getDriver(connection.type).executeQuery(connection, query, maxRows, { params });
+        return { columns: result.columns, data: result.rows, truncated: result.truncated };
+      }
+
+      const athena = await getLegacyAthena();
+      const { query, params } = buildLookupQuery('athena', databaseName, source, values);
+      const result = await executeAthenaQueryWithPagination(
+        athena, query, maxRows, undefined, undefined, undefined, params
+      );
+      return { columns: result.columns, data: result.data, truncated: result.truncated };
+    };
+
+    const executeSource = async (source: ExplorerSource): Promise<ExplorerSourceResult> => {
+      try {
+        let columns: string[] = [];
+        const data: Record<string, any>[] = [];
+        let truncated = false;
+
+        // Batches run in sequence so the source's row budget is shared across them
+        for (const batch of chunkLookupValues(lookupValues)) {
+          if (data.length >= rowLimit) {
+            // Remaining batches were never run, so there may be more matches
+            truncated = true;
+            break;
+          }
+          const batchResult = await executeBatch(source, batch, rowLimit - data.length);
+          if (columns.length === 0) columns = batchResult.columns;
+          data.push(...batchResult.data);
+          truncated = batchResult.truncated;
+        }
+
         return {
-          name: label,
-          query: `select * from "${databaseName}".${table} where ${column} = '${sanitizedMsisdn}'`,
+          name: source.label,
+          columns,
+          data,
+          rowsReturned: data.length,
+          truncated,
+          status: 'success',
+          error: null,
         };
-      });
+      } catch (error: any) {
+        return {
+          name: source.label,
+          columns: [],
+          data: [],
+          rowsReturned: 0,
+          truncated: false,
+          status: 'error',
+          error: error.message,
+        };
+      }
+    };
 
-      // Try to get Athena client from database connection first, fall back to org AWS config
-      let athenaClient: AthenaClient;
-      let s3OutputLocation: string;
-      
-      const orgConnections = await storage.getDatabaseConnectionsByOrganization(organizationId!);
-      const athenaConnection = orgConnections.find(c => c.type === 'athena' && c.awsAccessKeyId && c.awsSecretAccessKey);
-      
-      if (athenaConnection) {
-        athenaClient = new AthenaClient({
-          region: athenaConnection.awsRegion || 'us-east-1',
-          credentials: {
-            accessKeyId: athenaConnection.awsAccessKeyId!,
-            secretAccessKey: athenaConnection.awsSecretAccessKey!,
-          },
-        });
-        s3OutputLocation = athenaConnection.s3OutputLocation || '';
-        if (!s3OutputLocation) {
-          return res.status(400).json({ message: "S3 output location not configured on the Athena connection." });
-        }
-      } else {
-        const orgClient = await getOrgAthenaClient(organizationId!);
-        athenaClient = orgClient.client;
-        s3OutputLocation = orgClient.s3OutputLocation;
+    return Promise.all(sources.map(executeSource));
+  }
+
+  // Lookup values as written to the query log: the value itself, or a count and the first few
+  function describeLookupValues(lookupValues: string[]): string {
+    return lookupValues.length === 1
+      ? lookupValues[0]
+      : `${lookupValues.length} values (${lookupValues.slice(0, 5).join(', ')}${lookupValues.length > 5 ? ', ...' : ''})`;
+  }
+
+  // Validate, run and log an Explorer lookup for one or more values, then send the response
+  async function respondWithExplorerLookup(req: Request, res: Response, rawValues: unknown[]) {
+    const organizationId = req.session.organizationId;
+
+    // Read configured validation type and label for helpful error messages
+    const lookupValidationSetting = await storage.getSetting('explorer_lookup_validation', organizationId);
+    const lookupLabelSetting = await storage.getSetting('explorer_lookup_label', organizationId);
+    const validationType = lookupValidationSetting?.value || 'digits_only';
+    const lookupLabel = lookupLabelSetting?.value || 'MSISDN';
+
+    const lookupValues = normalizeLookupValues(rawValues);
+    if (lookupValues.length === 0) {
+      return res.status(400).json({ message: "Lookup value is required" });
+    }
+    if (lookupValues.length > MAX_LOOKUP_VALUES) {
+      return res.status(400).json({ message: `Too many lookup values (${lookupValues.length}). At most ${MAX_LOOKUP_VALUES} values can be looked up at once.` });
+    }
+
+    // Validate input according to configured type
+    for (const value of lookupValues) {
+      const validationError = validateLookupValue(value, validationType, lookupLabel);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
       }
+    }
 
-      const startTime = Date.now();
+    // Row limit (export restriction) and display limit (UI results), capped at plan ceilings
+    const { rowLimit, displayLimit } = await getEffectiveRowLimits(organizationId!);
 
-      // Execute all queries in parallel
-      const executeQuery = async (queryConfig: { name: string; query: string }) => {
-        try {
-          // Start query execution
-          const startCommand = new StartQueryExecutionCommand({
-            QueryString: queryConfig.query,
-            ResultConfiguration: {
-              OutputLocation: s3OutputLocation,
-            },
-          });
+    // Data sources come from the org's configured sources only (identifiers validated);
+    // invalid ones are reported as failed sources
+    const { sources, invalid } = toExplorerSources(await storage.getExplorerDataSources(organizationId!));
 
-          const startResponse = await athenaClient.send(startCommand);
-          const queryExecutionId = startResponse.QueryExecutionId;
+    if (sources.length === 0 && invalid.length === 0) {
+      return res.status(400).json({ message: "No data sources configured. Please configure them in Admin > Explorer Configuration." });
+    }
 
-          if (!queryExecutionId) {
-            throw new Error(`Failed to start query execution for ${queryConfig.name}`);
-          }
+    // Sources without a connection run on Athena in the configured Explorer database
+    const athenaDbSetting = await storage.getSetting('athena_database', organizationId);
+    if (sources.some(s => !s.connectionId) && !athenaDbSetting?.value) {
+      return res.status(400).json({ message: "Athena database not configured. Please configure it in Admin > Explorer Configuration." });
+    }
+    const databaseName = athenaDbSetting?.value || undefined;
+
+    const startTime = Date.now();
+    const sourceResults = await runExplorerLookup(organizationId!, databaseName, sources, lookupValues, displayLimit);
+    const executionTime = Date.now() - startTime;
+    const results = [...sourceResults, ...invalid];
+    const { valueSummary, noHitValues } = summarizeLookupValues(lookupValues, sources, results);
+    const totalRows = results.reduce((sum, r) => sum + r.rowsReturned, 0);
+
+    // One log entry per source query, as in the public API, so both count the same
+    // towards the org's query quota
+    const loggedValues = describeLookupValues(lookupValues);
+    await Promise.all(sourceResults.map((result, index) => storage.createQueryLog({
+      userId: req.session.userId!,
+      organizationId: organizationId || null,
+      username: req.session.username!,
+      query: `MSISDN Lookup (${result.name}): ${loggedValues}`,
+      rowsReturned: result.rowsReturned,
+      executionTime,
+      status: result.status === 'error' ? 'error' : 'success',
+      connectionId: sources[index].connectionId || null,
+    })));
+
+    res.json({
+      msisdn: lookupValues[0],
+      values: lookupValues,
+      results,
+      valueSummary,
+      noHitValues,
+      totalRowsReturned: totalRows,
+      executionTime,
+      rowLimit,
+    });
+  }
 
-          // Poll for query completion
-          let queryStatus = 'RUNNING';
-          const getExecutionCommand = new GetQueryExecutionCommand({ QueryExecutionId: queryExecutionId });
+  // MSISDN Lookup route - accepts one value (msisdn) or a pasted list (msisdns)
+  app.post("/api/query/msisdn-lookup", requireAuth, requirePermission("msisdn_lookup"), requireQueryQuota, async (req, res) => {
+    try {
+      const { msisdn, msisdns } = req.body;
+      if (msisdns !== undefined && !Array.isArray(msisdns)) {
+        return res.status(400).json({ message: "msisdns must be an array of values" });
+      }
+      const rawValues: unknown[] = Array.isArray(msisdns) ? msisdns : [msisdn];
+      if (rawValues.some(v => v !== undefined && v !== null && typeof v !== 'string' && typeof v !== 'number')) {
+        return res.status(400).json({ message: "Lookup values must be strings" });
+      }
 
-          while (queryStatus === 'RUNNING' || queryStatus === 'QUEUED') {
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            const executionResponse = await athenaClient.send(getExecutionCommand);
-            queryStatus = executionResponse.QueryExecution?.Status?.State || 'FAILED';
-          }
+      await respondWithExplorerLookup(req, res, rawValues);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-          if (queryStatus !== 'SUCCEEDED') {
-            const failExec = await athenaClient.send(new GetQueryExecutionCommand({ QueryExecutionId: queryExecutionId }));
-            const reason = failExec.QueryExecution?.Status?.StateChangeReason || 'Unknown reason';
-            throw new Error(`Query failed: ${reason}`);
+  // Bulk MSISDN Lookup from an uploaded CSV/XLSX file. Values are read from the
+  // `column` field when given, otherwise from the file's first column.
+  app.post("/api/query/msisdn-lookup/upload", requireAuth, requirePermission("msisdn_lookup"), requireQueryQuota, upload.single('file'), async (req, res) => {
+    const file = req.file;
+    try {
+      if (!file) {
+        return res.status(400).json({ message: "A CSV or XLSX file is required" });
+      }
+
+      const parsed = parseFile(file.path);
+      const requestedColumn = typeof req.body.column === 'string' ? req.body.column.trim() : '';
+      if (requestedColumn && !parsed.columns.includes(requestedColumn)) {
+        return res.status(400).json({ message: `Column "${requestedColumn}" not found in file. Available columns: ${parsed.columns.join(', ')}` });
+      }
+      const column = requestedColumn || parsed.columns[0];
+      if (!column) {
+        return res.status(400).json({ message: "The uploaded file has no columns" });
+      }
+
+      const rawValues: unknown[] = parsed.data.map(row => row[column]);
+      // A headerless list of numbers: the first "column name" is itself a value
+      if (!requestedColumn && /^\d+$/.test(column)) {
+        rawValues.unshift(column);
+      }
+
+      await respondWithExplorerLookup(req, res, rawValues);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    } finally {
+      if (file && fs.existsSync(file.path)) fs.unlinkSync(file.path);
+    }
+  });
+
+  // ============================================================
+  // EXPORT JOBS - background CSV exports up to the org row_limit
+  // ============================================================
+
+  // Runs an export job to completion, recording progress on the export_jobs row
+  async function runExportJob(job: ExportJob, connectionId?: string, readOnly = false) {
+    const { id: jobId, query, rowLimit } = job;
+    const organizationId = job.organizationId!;
+    const fileName = `export_${jobId}.csv`;
+    const startTime = Date.now();
+    const logExportQuery = (status: string, rowsReturned: number, statistics?: AthenaQueryStatistics) =>
+      storage.createQueryLog({
+        userId: job.userId,
+        organizationId,
+        username: job.username,
+        query,
+        rowsReturned,
+        executionTime: Date.now() - startTime,
+        status,
+        connectionId: connectionId || null,
+        ...statistics,
+      }).catch(logError => console.error('Failed to log export query:', logError));
+
+    try {
+      await storage.updateExportJobStatus(jobId, 'running');
+
+      const connection = connectionId ? await storage.getDatabaseConnectionById(connectionId) : undefined;
+      let filePath: string | undefined;
+      let totalRows: number;
+      let statistics: AthenaQueryStatistics | undefined;
+
+      if (connection && connection.type !== 'athena') {
+        const driver = getDriver(connection.type);
+        const result = await driver.executeQuery(connection, query, rowLimit, { readOnly });
+        filePath = await writeRowsToCsvFile(fileName, result.columns, result.rows);
+        totalRows = result.rows.length;
+      } else {
+        const athena = connection ? createAthenaContext(connection) : await getOrgAthenaClient(organizationId);
+
+        const result = await executeAthenaQueryWithPagination(
+          athena, query, rowLimit, fileName,
+          (fetched, total) => {
+            const progress = Math.min(99, Math.round((fetched / total) * 100));
+            storage.updateExportJobProgress(jobId, progress, fetched).catch(() => {});
           }
+        );
+        filePath = result.filePath;
+        totalRows = result.totalRows;
+        statistics = result.statistics;
+      }
 
-          // Get query results (AWS Athena has a max limit of 1000 per request)
-          // Use displayLimit for fetching results shown in UI
-          const getResultsCommand = new GetQueryResultsCommand({
-            QueryExecutionId: queryExecutionId,
-            MaxResults: Math.min(displayLimit, 1000),
-          });
+      await storage.updateExportJobProgress(jobId, 100, totalRows);
+      await storage.updateExportJobStatus(jobId, 'completed', filePath);
+      await logExportQuery('success', totalRows, statistics);
+    } catch (error: any) {
+      console.error(`Export job ${jobId} failed:`, error);
+      await logExportQuery('error', 0);
+      await storage.updateExportJobStatus(jobId, 'failed', undefined, error.message || 'Export failed')
+        .catch(() => {});
+    }
+  }
 
-          const resultsResponse = await athenaClient.send(getResultsCommand);
-          const rows = resultsResponse.ResultSet?.Rows || [];
+  // Strip the server-side file path before returning a job to the client
+  const toExportJobResponse = ({ filePath, ...job }: ExportJob) => job;
 
-          // Parse results
-          const columns = rows[0]?.Data?.map(col => col.VarCharValue || '') || [];
-          const data = rows.slice(1).map(row => {
-            const rowData: Record<string, any> = {};
-            row.Data?.forEach((cell, idx) => {
-              rowData[columns[idx]] = cell.VarCharValue;
-            });
-            return rowData;
-          });
+  app.get("/api/exports", requireAuth, requirePermission("export_data"), async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      const jobs = await storage.getExportJobsByUser(req.session.userId!);
+      res.json(jobs.filter(j => j.organizationId === organizationId).map(toExportJobResponse));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-          return {
-            name: queryConfig.name,
-            columns,
-            data,
-            rowsReturned: data.length,
-            status: 'success',
-            error: null,
-          };
-        } catch (error: any) {
-          return {
-            name: queryConfig.name,
-            columns: [],
-            data: [],
-            rowsReturned: 0,
-            status: 'error',
-            error: error.message,
-          };
+  app.post("/api/exports", requireAuth, requirePermission("execute_queries"), requirePermission("export_data"), requireQueryQuota, async (req, res) => {
+    try {
+      const { query, connectionId } = req.body;
+      if (!query || typeof query !== 'string') {
+        return res.status(400).json({ message: "Query is required" });
+      }
+
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+
+      let queryType = 'athena';
+      let readOnly = false;
+      if (connectionId) {
+        const connection = await storage.getDatabaseConnectionById(connectionId);
+        if (!connection || connection.organizationId !== organizationId) {
+          return res.status(404).json({ message: "Database connection not found" });
         }
-      };
+        const access = await resolveReadOnlyAccess(connection, query, req.session.userId!, !!req.session.isSuperAdmin);
+        if (access.violation) {
+          return res.status(403).json({ message: access.violation });
+        }
+        queryType = connection.type;
+        readOnly = access.readOnly;
+      }
+
+      const { rowLimit } = await getEffectiveRowLimits(organizationId);
+
+      const job = await storage.createExportJob({
+        organizationId,
+        userId: req.session.userId!,
+        username: req.session.username!,
+        queryType,
+        query,
+        status: 'pending',
+        rowLimit,
+      });
+
+      await logAuditEvent(req, 'export_requested', 'export_job', job.id, `Export queued (${queryType}, limit ${rowLimit} rows)`);
+
+      // Run in the background; clients poll GET /api/exports/:id for progress
+      runExportJob(job, connectionId, readOnly);
+
+      res.status(202).json(toExportJobResponse(job));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/exports/:id", requireAuth, requirePermission("export_data"), async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      const job = await storage.getExportJob(req.params.id);
+      if (!job || job.organizationId !== organizationId || job.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Export job not found" });
+      }
+      res.json(toExportJobResponse(job));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/exports/:id/download", requireAuth, requirePermission("export_data"), async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      const job = await storage.getExportJob(req.params.id);
+      if (!job || job.organizationId !== organizationId || job.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Export job not found" });
+      }
+      if (job.status !== 'completed' || !job.filePath) {
+        return res.status(409).json({ message: `Export is not ready (status: ${job.status})` });
+      }
+      if (!fs.existsSync(job.filePath)) {
+        return res.status(410).json({ message: "Export file is no longer available" });
+      }
+
+      await logAuditEvent(req, 'export_downloaded', 'export_job', job.id);
+
+      res.download(job.filePath, `export_${job.id}.csv`, (err) => {
+        if (err) {
+          console.error('Error downloading export:', err);
+          if (!res.headersSent) {
+            res.status(500).json({ message: "Error downloading file" });
+          }
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ============================================================
+  // QUERY SCHEDULES - cron schedules that run a saved query as its
+  // owner and deliver the result by email, SFTP or webhook
+  // ============================================================
+
+  // Read the editable schedule fields from a request body, falling back to `current` on update
+  function readQueryScheduleBody(body: any, current?: QuerySchedule) {
+    const pick = <K extends keyof QuerySchedule>(key: K): any =>
+      body[key] !== undefined ? body[key] : current?.[key];
+    const cronExpression = pick('cronExpression');
+    const emailRecipients = pick('emailRecipients');
+    return {
+      savedQueryId: pick('savedQueryId') as string | undefined,
+      connectionId: (pick('connectionId') || null) as string | null,
+      cronExpression: typeof cronExpression === 'string' ? cronExpression.trim() : undefined,
+      outputFormat: (pick('outputFormat') ?? 'csv') as string,
+      deliveryType: pick('deliveryType') as string | undefined,
+      emailRecipients: Array.isArray(emailRecipients)
+        ? emailRecipients.map((r: unknown) => String(r).trim()).filter(Boolean)
+        : [],
+      sftpConfigId: (pick('sftpConfigId') || null) as string | null,
+      sftpRemotePath: (pick('sftpRemotePath') || null) as string | null,
+      webhookUrl: (pick('webhookUrl') || null) as string | null,
+      enabled: pick('enabled') !== false,
+    };
+  }
+
+  // Validate a schedule body against the caller's org. Returns an error message or null.
+  async function validateQueryScheduleTargets(
+    organizationId: string,
+    userId: string,
+    fields: ReturnType<typeof readQueryScheduleBody>
+  ): Promise<string | null> {
+    const inputError = validateQueryScheduleInput(fields);
+    if (inputError) return inputError;
+
+    const savedQuery = fields.savedQueryId ? await storage.getSavedQuery(fields.savedQueryId) : undefined;
+    if (!savedQuery || savedQuery.organizationId !== organizationId || savedQuery.userId !== userId) {
+      return "Saved query not found";
+    }
+    if (savedQuery.federatedSources) {
+      return "Federated queries cannot be scheduled";
+    }
+    if (fields.connectionId) {
+      const connection = await storage.getDatabaseConnectionById(fields.connectionId);
+      if (!connection || connection.organizationId !== organizationId) {
+        return "Database connection not found";
+      }
+    }
+    if (fields.deliveryType === 'sftp') {
+      const sftpConfig = await storage.getSftpConfigById(fields.sftpConfigId!);
+      if (!sftpConfig || sftpConfig.organizationId !== organizationId) {
+        return "SFTP configuration not found";
+      }
+    }
+    return null;
+  }
+
+  // Load a schedule owned by the caller in their current org
+  async function getOwnQuerySchedule(req: Request): Promise<QuerySchedule | undefined> {
+    const schedule = await storage.getQuerySchedule(req.params.id);
+    if (!schedule || schedule.organizationId !== req.session.organizationId || schedule.userId !== req.session.userId) {
+      return undefined;
+    }
+    return schedule;
+  }
+
+  app.get("/api/query-schedules", requireAuth, requirePermission("execute_queries"), async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      const schedules = await storage.getQuerySchedulesByUser(req.session.userId!, organizationId);
+      res.json(schedules);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // SFTP destinations a schedule can deliver to (names and paths only, no credentials)
+  app.get("/api/query-schedules/sftp-targets", requireAuth, requirePermission("execute_queries"), async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      const configs = await storage.getSftpConfigsByOrganization(organizationId);
+      res.json(configs.map(c => ({ id: c.id, name: c.name, host: c.host, remotePaths: c.remotePaths })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/query-schedules", requireAuth, requirePermission("execute_queries"), requirePermission("export_data"), async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      const userId = req.session.userId!;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+
+      const fields = readQueryScheduleBody(req.body);
+      const validationError = await validateQueryScheduleTargets(organizationId, userId, fields);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      const schedule = await storage.createQuerySchedule({
+        ...fields,
+        savedQueryId: fields.savedQueryId!,
+        cronExpression: fields.cronExpression!,
+        deliveryType: fields.deliveryType!,
+        organizationId,
+        userId,
+        nextRunAt: fields.enabled ? getNextCronRun(fields.cronExpression!) : null,
+      });
+
+      await logAuditEvent(req, 'query_schedule_created', 'query_schedule', schedule.id, `${schedule.cronExpression} → ${schedule.deliveryType}`);
+      res.json(schedule);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/query-schedules/:id", requireAuth, requirePermission("execute_queries"), requirePermission("export_data"), async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      const existing = await getOwnQuerySchedule(req);
+      if (!existing) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
 
-      // Execute all queries in parallel
-      const results = await Promise.all(queries.map(executeQuery));
-      const executionTime = Date.now() - startTime;
+      const fields = readQueryScheduleBody(req.body, existing);
+      const validationError = await validateQueryScheduleTargets(organizationId, req.session.userId!, fields);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
 
-      // Log the MSISDN lookup
-      const totalRows = results.reduce((sum, r) => sum + r.rowsReturned, 0);
-      const hasErrors = results.some(r => r.status === 'error');
-      
-      await storage.createQueryLog({
-        userId: req.session.userId!,
-        organizationId: req.session.organizationId || null,
-        username: req.session.username!,
-        query: `MSISDN Lookup: ${sanitizedMsisdn}`,
-        rowsReturned: totalRows,
-        executionTime,
-        status: hasErrors ? 'error' : 'success',
+      const schedule = await storage.updateQuerySchedule(existing.id, {
+        ...fields,
+        savedQueryId: fields.savedQueryId!,
+        cronExpression: fields.cronExpression!,
+        deliveryType: fields.deliveryType!,
+        nextRunAt: fields.enabled ? getNextCronRun(fields.cronExpression!) : null,
       });
 
-      res.json({
-        msisdn: sanitizedMsisdn,
-        results,
-        totalRowsReturned: totalRows,
-        executionTime,
-        rowLimit,
-      });
+      await logAuditEvent(req, 'query_schedule_updated', 'query_schedule', existing.id);
+      res.json(schedule);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/query-schedules/:id", requireAuth, async (req, res) => {
+    try {
+      const schedule = await getOwnQuerySchedule(req);
+      if (!schedule) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      await storage.deleteQuerySchedule(schedule.id);
+      await logAuditEvent(req, 'query_schedule_deleted', 'query_schedule', schedule.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Run a schedule now; the run executes in the background and appears in its history
+  app.post("/api/query-schedules/:id/run", requireAuth, requirePermission("execute_queries"), requirePermission("export_data"), requireQueryQuota, async (req, res) => {
+    try {
+      const schedule = await getOwnQuerySchedule(req);
+      if (!schedule) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      runQuerySchedule(schedule, 'manual');
+      await logAuditEvent(req, 'query_schedule_run', 'query_schedule', schedule.id, 'Manual run');
+      res.status(202).json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/query-schedules/:id/runs", requireAuth, async (req, res) => {
+    try {
+      const schedule = await getOwnQuerySchedule(req);
+      if (!schedule) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      const runs = await storage.getQueryScheduleRuns(schedule.id);
+      res.json(runs);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -1806,6 +3123,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Athena data scanned and estimated cost per user over the last `days` (default 30).
+  // Org owners/admins get every user plus the organization total; others get their own.
+  app.get("/api/logs/scan-totals", requireAuth, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+
+      const days = req.query.days === undefined ? 30 : Number(req.query.days);
+      if (!Number.isInteger(days) || days < 1 || days > 366) {
+        return res.status(400).json({ message: "days must be a whole number between 1 and 366" });
+      }
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      const member = await storage.getOrganizationMember(organizationId, req.session.userId!);
+      const isOrgAdmin = ['owner', 'admin'].includes(member?.role ?? '');
+
+      const users = await storage.getQueryScanTotalsByUser(
+        organizationId, since, isOrgAdmin ? undefined : req.session.userId!
+      );
+      const organization = isOrgAdmin
+        ? users.reduce(
+            (total, user) => ({
+              queries: total.queries + user.queries,
+              dataScannedBytes: total.dataScannedBytes + user.dataScannedBytes,
+              estimatedCostUsd: total.estimatedCostUsd + user.estimatedCostUsd,
+            }),
+            { queries: 0, dataScannedBytes: 0, estimatedCostUsd: 0 }
+          )
+        : null;
+
+      res.json({ since: since.toISOString(), days, organization, users });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // File Comparison routes
   app.post("/api/compare/execute", requireAuth, requirePermission("file_compare"), upload.fields([
     { name: 'file1', maxCount: 1 },
@@ -2231,51 +3586,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AI Analysis endpoint
-  app.post("/api/ai/analyze", requireAuth, async (req, res) => {
-    try {
-      const { data, sourceName } = req.body;
-      
-      if (!data || !Array.isArray(data) || data.length === 0) {
-        return res.status(400).json({ message: "Data is required for analysis" });
-      }
-
-      // Get AI settings (organization-scoped)
-      const organizationId = req.session.organizationId;
-      const providerSetting = await storage.getSetting('ai_provider', organizationId);
-      const modelSetting = await storage.getSetting('ai_model', organizationId);
-      const promptSetting = await storage.getSetting('ai_analysis_prompt', organizationId);
-      const ollamaUrlSetting = await storage.getSetting('ollama_url', organizationId);
-
-      const provider = (providerSetting?.value || 'openai') as AIProvider;
-      const model = getValidatedModel(provider, modelSetting?.value);
-      
-      // Get API key for the selected provider (organization-scoped)
-      let apiKey: string | undefined;
-      if (provider === 'openai') {
-        const keySetting = await storage.getSetting('openai_api_key', organizationId);
-        apiKey = keySetting?.value;
-      } else if (provider === 'anthropic') {
-        const keySetting = await storage.getSetting('anthropic_api_key', organizationId);
-        apiKey = keySetting?.value;
-      } else if (provider === 'gemini') {
-        const keySetting = await storage.getSetting('gemini_api_key', organizationId);
-        apiKey = keySetting?.value;
-      }
-
-      // Validate API key (not required for Ollama)
-      if (provider !== 'ollama' && !apiKey) {
-        const providerNames: Record<string, string> = {
-          openai: 'OpenAI',
-          anthropic: 'Anthropic',
-          gemini: 'Google Gemini',
-        };
-        return res.status(400).json({ 
-          message: `${providerNames[provider] || provider} API key not configured. Please configure it in Administration > AI Configuration.` 
-        });
-      }
-
-      const defaultPrompt = `You are a data analyst assistant. Analyze the following data and provide insights in plain, human-readable text format.
+  // System prompt for data analysis: the organization's custom prompt, or the default
+  function getAnalysisSystemPrompt(customPrompt: string | null | undefined): string {
+    const defaultPrompt = `You are a data analyst assistant. Analyze the following data and provide insights in plain, human-readable text format.
 
 IMPORTANT: Do NOT output JSON or any structured data format. Write your analysis as clear, readable paragraphs and bullet points.
 
@@ -2287,45 +3600,148 @@ Please provide:
 
 Be concise and focus on the most important insights. Use clear headings and bullet points for readability.`;
 
-      // If custom prompt exists but doesn't specify format, append format instructions
-      let systemPrompt = promptSetting?.value || defaultPrompt;
-      if (promptSetting?.value && !promptSetting.value.toLowerCase().includes('json')) {
-        systemPrompt = promptSetting.value + '\n\nIMPORTANT: Provide your response in plain text format with clear headings and bullet points. Do NOT use JSON format.';
+    // If custom prompt exists but doesn't specify format, append format instructions
+    if (customPrompt && !customPrompt.toLowerCase().includes('json')) {
+      return customPrompt + '\n\nIMPORTANT: Provide your response in plain text format with clear headings and bullet points. Do NOT use JSON format.';
+    }
+    return customPrompt || defaultPrompt;
+  }
+
+  // Redact the data with the organization's rules, fit it to the model's context window and
+  // record in the audit log which columns go to which provider
+  async function prepareAnalysisData(
+    req: Request,
+    data: any[],
+    sourceName: string | undefined,
+    stored: OrganizationAiConfig | undefined,
+    config: AIConfig,
+    systemPrompt: string
+  ) {
+    const rules = stored?.redactionRules ?? DEFAULT_AI_REDACTION_RULES;
+    const { data: redacted, report } = redactAnalysisData(data, rules, req.session.organizationId!);
+    const prepared = buildAnalysisMessage(redacted, sourceName || '', getAnalysisDataBudget(config, systemPrompt));
+    await logAuditEvent(req, 'ai_data_sent', 'ai_analysis', undefined,
+      `source=${sourceName || 'Analysis'}, provider=${config.provider}, model=${config.model}, rows=${prepared.rowsSent}/${prepared.totalRows}, ` +
+      `~${prepared.estimatedTokens} tokens, columns: ${formatRedactionReport(report)}`
+    );
+    return prepared;
+  }
+
+  // Server-sent events over a POST response. Returns a sender, and aborts `controller`
+  // when the client goes away before the stream ends.
+  function startEventStream(res: Response, controller: AbortController) {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Stop reverse proxies from buffering the stream
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    return (event: string, data: unknown) => {
+      if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+  }
+
+  // Run one AI provider call and record its tokens, latency and cost in ai_usage_logs,
+  // whether it succeeds, fails or is aborted through `signal`
+  async function meterAiCall<T extends { usage: ChatUsage }>(
+    meter: { organizationId: string; userId: string; feature: AiUsageFeature; config: AIConfig },
+    call: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const startTime = Date.now();
+    try {
+      const result = await call();
+      await recordAiUsage({ ...meter, usage: result.usage, latencyMs: Date.now() - startTime, status: 'success' });
+      return result;
+    } catch (error: any) {
+      if (error instanceof AIProviderError) {
+        await recordAiUsage({
+          ...meter,
+          usage: error.usage,
+          latencyMs: Date.now() - startTime,
+          status: signal?.aborted ? 'cancelled' : 'error',
+          errorMessage: error.message,
+        });
       }
+      throw error;
+    }
+  }
 
-      const analysis = await analyzeData({
-        data,
-        sourceName,
-        systemPrompt,
-        config: {
-          provider,
-          apiKey,
-          model,
-          ollamaUrl: ollamaUrlSetting?.value || 'http://localhost:11434',
-        },
-      });
+  // Stream the next reply of an analysis conversation and record it. The conversation is
+  // left as it was when the reply fails.
+  async function streamConversationReply(
+    conversation: AnalysisConversation,
+    config: AIConfig,
+    feature: 'analysis' | 'follow_up',
+    send: (event: string, data: unknown) => void,
+    signal: AbortSignal
+  ) {
+    conversation.busy = true;
+    try {
+      const { text } = await meterAiCall(
+        { organizationId: conversation.organizationId, userId: conversation.userId, feature, config },
+        () => streamAnalysis(config, conversation.systemPrompt, conversation.messages, text => send('delta', { text }), signal),
+        signal
+      );
+      conversation.messages.push({ role: 'assistant', content: text || "Unable to generate analysis." });
+      send('done', {});
+    } catch (error: any) {
+      if (!signal.aborted) {
+        console.error("AI analysis error:", error);
+        send('error', { message: error.message || "Failed to analyze data" });
+      }
+      throw error;
+    } finally {
+      conversation.busy = false;
+    }
+  }
 
-      // Calculate total rows (handle multi-source format)
-      const isMultiSource = Array.isArray(data) && data.length > 0 && 
-        data[0]?.source !== undefined && Array.isArray(data[0]?.data);
+  // AI Analysis endpoint
+  app.post("/api/ai/analyze", requireAuth, requireAiBudget, async (req, res) => {
+    try {
+      const { data, sourceName } = req.body;
       
-      let totalRows = 0;
-      if (isMultiSource) {
-        for (const sourceData of data) {
-          totalRows += sourceData.data?.length || 0;
-        }
-      } else {
-        totalRows = data.length;
+      if (!data || !Array.isArray(data) || data.length === 0) {
+        return res.status(400).json({ message: "Data is required for analysis" });
+      }
+
+      // Get AI configuration (organization-scoped)
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
       }
+      const stored = await storage.getOrganizationAiConfig(organizationId);
+      const config = resolveAiConfig(stored);
+      const configError = getAiConfigError(config);
+      if (configError) {
+        return res.status(400).json({ message: configError });
+      }
+      const { provider, model } = config;
+
+      const systemPrompt = getAnalysisSystemPrompt(stored?.customPrompt);
+      const prepared = await prepareAnalysisData(req, data, sourceName, stored, config, systemPrompt);
+      const { analysis } = await meterAiCall(
+        { organizationId, userId: req.session.userId!, feature: 'analysis', config },
+        () => analyzeData({
+          dataMessage: prepared.message,
+          systemPrompt,
+          config,
+        })
+      );
 
       res.json({
         analysis,
         provider,
         model,
         sourceName,
-        rowsAnalyzed: totalRows,
-        totalRows: totalRows,
-        sourcesAnalyzed: isMultiSource ? data.length : 1,
+        rowsAnalyzed: prepared.rowsSent,
+        totalRows: prepared.totalRows,
+        sourcesAnalyzed: prepared.sourcesAnalyzed,
+        sampled: prepared.sampled,
       });
     } catch (error: any) {
       console.error("AI analysis error:", error);
@@ -2335,6 +3751,222 @@ Be concise and focus on the most important insights. Use clear headings and bull
     }
   });
 
+  // Streaming analysis (server-sent events). Starts a conversation that keeps the data on
+  // the server for follow-up questions. Events: start, delta, done and error.
+  app.post("/api/ai/analyze/stream", requireAuth, requireAiBudget, async (req, res) => {
+    const controller = new AbortController();
+    let conversationId: string | null = null;
+    try {
+      const { data, sourceName } = req.body;
+      if (!data || !Array.isArray(data) || data.length === 0) {
+        return res.status(400).json({ message: "Data is required for analysis" });
+      }
+
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      const stored = await storage.getOrganizationAiConfig(organizationId);
+      const config = resolveAiConfig(stored);
+      const configError = getAiConfigError(config);
+      if (configError) {
+        return res.status(400).json({ message: configError });
+      }
+
+      const systemPrompt = getAnalysisSystemPrompt(stored?.customPrompt);
+      const prepared = await prepareAnalysisData(req, data, sourceName, stored, config, systemPrompt);
+      const conversation = createAnalysisConversation({
+        organizationId,
+        userId: req.session.userId!,
+        sourceName: sourceName || 'Analysis',
+        systemPrompt,
+        dataMessage: prepared.message,
+      });
+      conversationId = conversation.id;
+
+      const send = startEventStream(res, controller);
+      send('start', {
+        conversationId,
+        provider: config.provider,
+        model: config.model,
+        sourceName: conversation.sourceName,
+        rowsAnalyzed: prepared.rowsSent,
+        totalRows: prepared.totalRows,
+        sourcesAnalyzed: prepared.sourcesAnalyzed,
+        sampled: prepared.sampled,
+      });
+      await streamConversationReply(conversation, config, 'analysis', send, controller.signal);
+      res.end();
+    } catch (error: any) {
+      // Without a first reply there is nothing to follow up on
+      if (conversationId) deleteAnalysisConversation(conversationId);
+      if (!res.headersSent) {
+        console.error("AI analysis error:", error);
+        return res.status(500).json({ message: error.message || "Failed to analyze data" });
+      }
+      res.end();
+    }
+  });
+
+  // Ask a follow-up question in an analysis conversation; streamed like the analysis
+  app.post("/api/ai/conversations/:id/messages", requireAuth, requireAiBudget, async (req, res) => {
+    const controller = new AbortController();
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      const conversation = getAnalysisConversation(req.params.id, organizationId, req.session.userId!);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found or expired. Run the analysis again." });
+      }
+
+      const message = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+      if (!message) {
+        return res.status(400).json({ message: "A question is required" });
+      }
+      if (message.length > MAX_FOLLOW_UP_LENGTH) {
+        return res.status(400).json({ message: `Questions are limited to ${MAX_FOLLOW_UP_LENGTH} characters` });
+      }
+      if (conversation.busy) {
+        return res.status(409).json({ message: "Wait for the current answer to finish" });
+      }
+      // Claimed before the first await, so a question sent meanwhile gets the 409 above
+      conversation.busy = true;
+      try {
+        if (countFollowUpQuestions(conversation) >= MAX_FOLLOW_UP_QUESTIONS) {
+          return res.status(400).json({ message: `A conversation is limited to ${MAX_FOLLOW_UP_QUESTIONS} follow-up questions. Run the analysis again to start a new one.` });
+        }
+
+        const config = resolveAiConfig(await storage.getOrganizationAiConfig(organizationId));
+        const configError = getAiConfigError(config);
+        if (configError) {
+          return res.status(400).json({ message: configError });
+        }
+
+        conversation.messages.push({ role: 'user', content: message });
+        const send = startEventStream(res, controller);
+        send('start', { conversationId: conversation.id, provider: config.provider, model: config.model });
+        try {
+          await streamConversationReply(conversation, config, 'follow_up', send, controller.signal);
+        } catch (error) {
+          // Drop the unanswered question so the turns keep alternating
+          conversation.messages.pop();
+          throw error;
+        }
+        res.end();
+      } finally {
+        conversation.busy = false;
+      }
+    } catch (error: any) {
+      if (!res.headersSent) {
+        console.error("AI analysis error:", error);
+        return res.status(500).json({ message: error.message || "Failed to answer question" });
+      }
+      res.end();
+    }
+  });
+
+  app.delete("/api/ai/conversations/:id", requireAuth, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+      if (getAnalysisConversation(req.params.id, organizationId, req.session.userId!)) {
+        deleteAnalysisConversation(req.params.id);
+      }
+      res.json({ message: "Conversation deleted" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // AI SQL assistant: write SQL for a question from the connection's cached schema, or
+  // explain or fix a query that failed
+  app.post("/api/ai/generate-sql", requireAuth, requirePermission("execute_queries"), requireAiBudget, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId;
+      if (!organizationId) {
+        return res.status(403).json({ message: "Organization context required" });
+      }
+
+      const { mode = 'generate', question, connectionId, tableColumns, query, error: queryError } = req.body;
+      if (!SQL_ASSIST_MODES.includes(mode)) {
+        return res.status(400).json({ message: `mode must be one of: ${SQL_ASSIST_MODES.join(', ')}` });
+      }
+      if (mode === 'generate' && (typeof question !== 'string' || !question.trim())) {
+        return res.status(400).json({ message: "A question is required" });
+      }
+      if (mode !== 'generate' && (typeof query !== 'string' || !query.trim() || typeof queryError !== 'string' || !queryError.trim())) {
+        return res.status(400).json({ message: "The failed query and its error message are required" });
+      }
+      if (connectionId !== undefined && connectionId !== null && typeof connectionId !== 'string') {
+        return res.status(400).json({ message: "connectionId must be a string" });
+      }
+
+      let connectionType = 'athena';
+      if (connectionId) {
+        const connection = await storage.getDatabaseConnectionById(connectionId);
+        if (!connection || connection.organizationId !== organizationId) {
+          return res.status(404).json({ message: "Database connection not found" });
+        }
+        connectionType = connection.type;
+      }
+
+      // Same cache the schema browser fills, so the prompt sees what the user sees
+      const cacheKey = connectionId ? `${organizationId}:${connectionId}` : organizationId;
+      const cached = schemaCacheByOrg.get(cacheKey);
+      const schema = cached && (Date.now() - cached.timestamp) < SCHEMA_CACHE_TTL ? cached.data : null;
+      if (!schema && mode === 'generate') {
+        return res.status(400).json({ message: "Load the schema for this connection before asking for SQL" });
+      }
+
+      // Athena columns are loaded on demand by the client; use the ones it already has
+      const loadedColumns: Record<string, { name: string; type: string }[]> =
+        tableColumns && typeof tableColumns === 'object' && !Array.isArray(tableColumns) ? tableColumns : {};
+      const tables: SchemaContextTable[] = (schema?.tables || []).map((table: any) => ({
+        name: table.name,
+        schema: table.schema,
+        columns: table.columns?.length > 0
+          ? table.columns
+          : Array.isArray(loadedColumns[table.name]) ? loadedColumns[table.name] : [],
+      }));
+
+      const config = resolveAiConfig(await storage.getOrganizationAiConfig(organizationId));
+      const configError = getAiConfigError(config);
+      if (configError) {
+        return res.status(400).json({ message: configError });
+      }
+
+      const result = await meterAiCall(
+        { organizationId, userId: req.session.userId!, feature: 'sql_assist', config },
+        () => assistWithSql({
+          mode,
+          connectionType,
+          database: schema?.database,
+          tables,
+          question: typeof question === 'string' ? question.trim() : undefined,
+          query,
+          error: queryError,
+          config,
+        })
+      );
+
+      res.json({
+        mode,
+        sql: result.sql,
+        explanation: result.explanation,
+        dialect: result.dialect,
+        provider: config.provider,
+        model: config.model,
+      });
+    } catch (error: any) {
+      console.error("AI SQL assistant error:", error);
+      res.status(500).json({ message: error.message || "Failed to generate SQL" });
+    }
+  });
+
   // ============================================================
   // SAAS ROUTES - Registration, Organizations, Billing
   // ============================================================
@@ -2651,6 +4283,11 @@ Be concise and focus on the most important insights. Use clear headings and bull
       const existingUser = await storage.getUserByEmail(invitation.email);
       
       if (existingUser) {
+        const userQuota = await checkUserQuota(invitation.organizationId);
+        if (!userQuota.allowed) {
+          return res.status(402).json({ message: userQuota.message, quota: 'users', used: userQuota.used, limit: userQuota.limit });
+        }
+
         // Add to organization
         await storage.addOrganizationMember({
           organizationId: invitation.organizationId,
@@ -2790,7 +4427,26 @@ Be concise and focus on the most important insights. Use clear headings and bull
       }
 
       const plan = await storage.getSubscriptionPlan(subscription.planId);
-      res.json({ subscription, plan });
+      const [queryQuota, userQuota, aiBudget] = await Promise.all([
+        checkQueryQuota(id),
+        checkUserQuota(id),
+        storage.getOrganizationAiConfig(id).then(config => checkAiBudget(id, config)),
+      ]);
+      res.json({
+        subscription,
+        plan,
+        usage: {
+          queries: { used: queryQuota.used, limit: queryQuota.limit, periodStart: queryQuota.periodStart, periodEnd: queryQuota.periodEnd },
+          users: { used: userQuota.used, limit: userQuota.limit },
+          aiTokens: {
+            included: aiBudget.planIncludesAi,
+            used: aiBudget.tokensUsed,
+            limit: aiBudget.tokenLimit,
+            periodStart: aiBudget.periodStart,
+            periodEnd: aiBudget.periodEnd,
+          },
+        },
+      });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -3141,10 +4797,14 @@ Be concise and focus on the most important insights. Use clear headings and bull
   app.post("/api/dashboard/charts", requireAuth, requirePermission("depiction"), async (req, res) => {
     try {
       const organizationId = req.session.organizationId!;
-      const { name, description, sqlQuery, chartType, xAxisColumn, yAxisColumns, connectionId } = req.body;
+      const { name, description, sqlQuery, chartType, xAxisColumn, yAxisColumns, connectionId, cacheTtlSeconds } = req.body;
       if (!name || !sqlQuery || !xAxisColumn) {
         return res.status(400).json({ message: "name, sqlQuery, and xAxisColumn are required" });
       }
+      const cacheTtlError = validateResultCacheTtl(cacheTtlSeconds, 'cacheTtlSeconds');
+      if (cacheTtlError) {
+        return res.status(400).json({ message: cacheTtlError });
+      }
       const chart = await storage.createDashboardChart({
         organizationId,
         name,
@@ -3154,6 +4814,7 @@ Be concise and focus on the most important insights. Use clear headings and bull
         xAxisColumn,
         yAxisColumns: yAxisColumns || [],
         connectionId: connectionId || null,
+        cacheTtlSeconds: cacheTtlSeconds ?? null,
       });
       res.json(chart);
     } catch (error: any) {
@@ -3168,9 +4829,13 @@ Be concise and focus on the most important insights. Use clear headings and bull
       if (!chart || chart.organizationId !== organizationId) {
         return res.status(404).json({ message: "Chart not found" });
       }
-      const { name, description, sqlQuery, chartType, xAxisColumn, yAxisColumns, connectionId } = req.body;
+      const { name, description, sqlQuery, chartType, xAxisColumn, yAxisColumns, connectionId, cacheTtlSeconds } = req.body;
+      const cacheTtlError = validateResultCacheTtl(cacheTtlSeconds, 'cacheTtlSeconds');
+      if (cacheTtlError) {
+        return res.status(400).json({ message: cacheTtlError });
+      }
       const updated = await storage.updateDashboardChart(req.params.id, {
-        name, description, sqlQuery, chartType, xAxisColumn, yAxisColumns, connectionId,
+        name, description, sqlQuery, chartType, xAxisColumn, yAxisColumns, connectionId, cacheTtlSeconds,
       });
       res.json(updated);
     } catch (error: any) {
@@ -3192,32 +4857,104 @@ Be concise and focus on the most important insights. Use clear headings and bull
     }
   });
 
-  app.post("/api/dashboard/execute", requireAuth, async (req, res) => {
+  // Runs chart SQL through the result cache. `chartId` selects the chart's cache TTL;
+  // `forceRefresh` re-runs the query (and skips Athena result reuse) even when cached.
+  app.post("/api/dashboard/execute", requireAuth, requireQueryQuota, async (req, res) => {
     try {
       const organizationId = req.session.organizationId!;
-      const { sql: query, connectionId, limit = 500 } = req.body;
+      const userId = req.session.userId!;
+      const { sql: query, connectionId, chartId, limit: requestedLimit = 500, forceRefresh = false } = req.body;
       if (!query) return res.status(400).json({ message: "sql is required" });
 
-      let columns: string[];
-      let data: Record<string, any>[];
+      const { displayLimit } = await getEffectiveRowLimits(organizationId);
+      const limit = Math.min(Number(requestedLimit) || 500, displayLimit);
+
+      let chart: DashboardChart | undefined;
+      if (chartId) {
+        chart = await storage.getDashboardChart(chartId);
+        if (!chart || chart.organizationId !== organizationId) {
+          return res.status(404).json({ message: "Chart not found" });
+        }
+      }
 
+      let connection: OrganizationDatabaseConnection | undefined;
+      let readOnly = false;
       if (connectionId) {
-        const connection = await storage.getDatabaseConnectionById(connectionId);
+        connection = await storage.getDatabaseConnectionById(connectionId);
         if (!connection || connection.organizationId !== organizationId) {
           return res.status(404).json({ message: "Database connection not found" });
         }
-        const driver = getDriver(connection.type);
-        const result = await driver.executeQuery(connection, query, limit);
-        columns = result.columns;
-        data = result.rows;
-      } else {
-        const { client: athenaClient, s3OutputLocation } = await getOrgAthenaClient(organizationId);
-        const result = await executeAthenaQueryWithPagination(athenaClient, query, s3OutputLocation, limit);
-        columns = result.columns;
-        data = result.data;
+        const access = await resolveReadOnlyAccess(connection, query, userId, !!req.session.isSuperAdmin);
+        if (access.violation) {
+          return res.status(403).json({ message: access.violation });
+        }
+        readOnly = access.readOnly;
       }
 
-      res.json({ columns, rows: data });
+      const ttlSeconds = resolveResultCacheTtl(chart?.cacheTtlSeconds, connection?.resultCacheTtlSeconds);
+      const permissions = req.session.isSuperAdmin
+        ? ['super_admin']
+        : await storage.getUserPermissions(userId, organizationId);
+      const cacheKey = resultCacheKey({
+        organizationId, connectionId: connectionId || null, query, limit, permissions, readOnly,
+      });
+      const resultReuseMaxAgeMinutes = forceRefresh ? null : athenaResultReuseMinutes(ttlSeconds);
+
+      const { value, cache } = await withResultCache(
+        cacheKey,
+        { ttlSeconds, forceRefresh: !!forceRefresh, organizationId, connectionId: connectionId || null },
+        async () => {
+          const startTime = Date.now();
+          let result: {
+            columns: string[];
+            rows: Record<string, any>[];
+            statistics?: AthenaQueryStatistics;
+            resultReused: boolean;
+          };
+          if (connection) {
+            const driverResult = await getDriver(connection.type).executeQuery(connection, query, limit, {
+              readOnly, resultReuseMaxAgeMinutes,
+            });
+            result = {
+              columns: driverResult.columns,
+              rows: driverResult.rows,
+              statistics: driverResult.statistics,
+              resultReused: !!driverResult.resultReused,
+            };
+          } else {
+            const athena = { ...(await getOrgAthenaClient(organizationId)), resultReuseMaxAgeMinutes };
+            const athenaResult = await executeAthenaQueryWithPagination(athena, query, limit);
+            result = {
+              columns: athenaResult.columns,
+              rows: athenaResult.data,
+              statistics: athenaResult.statistics,
+              resultReused: athenaResult.resultReused,
+            };
+          }
+
+          // Dashboard queries count towards the plan's monthly query quota; cache hits do not run
+          await storage.createQueryLog({
+            userId,
+            organizationId,
+            username: req.session.username || 'dashboard',
+            query,
+            rowsReturned: result.rows.length,
+            executionTime: Date.now() - startTime,
+            status: 'success',
+            connectionId: connectionId || null,
+            ...result.statistics,
+          });
+          return result;
+        }
+      );
+
+      res.json({
+        columns: value.columns,
+        rows: value.rows,
+        // Statistics describe the run that produced the result, which a cache hit did not pay for
+        statistics: cache.hit ? undefined : value.statistics,
+        cache: { ...cache, athenaResultReused: value.resultReused },
+      });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -3238,10 +4975,14 @@ Be concise and focus on the most important insights. Use clear headings and bull
   // Create a new API key — returns the raw key ONCE
   app.post("/api/user/api-keys", requireAuth, async (req, res) => {
     try {
-      const { name, scopes, expiresAt } = req.body;
+      const { name, scopes, expiresAt, requestsPerMinute, queriesPerDay } = req.body;
       if (!name || typeof name !== 'string' || !name.trim()) {
         return res.status(400).json({ message: "Key name is required" });
       }
+      const limitsError = validateApiKeyLimits({ requestsPerMinute, queriesPerDay });
+      if (limitsError) {
+        return res.status(400).json({ message: limitsError });
+      }
       if (!scopes || !Array.isArray(scopes) || scopes.length === 0) {
         return res.status(400).json({ message: "At least one scope is required" });
       }
@@ -3263,6 +5004,8 @@ Be concise and focus on the most important insights. Use clear headings and bull
         scopes,
         revoked: false,
         expiresAt: expiresAt ? new Date(expiresAt) : null,
+        ...(requestsPerMinute !== undefined ? { requestsPerMinute } : {}),
+        ...(queriesPerDay !== undefined ? { queriesPerDay } : {}),
       });
 
       res.json({ ...apiKey, keyHash: undefined, rawKey });
@@ -3271,6 +5014,27 @@ Be concise and focus on the most important insights. Use clear headings and bull
     }
   });
 
+  // Update an API key's rate limits
+  app.patch("/api/user/api-keys/:id", requireAuth, async (req, res) => {
+    try {
+      const { requestsPerMinute, queriesPerDay } = req.body;
+      if (requestsPerMinute === undefined || queriesPerDay === undefined) {
+        return res.status(400).json({ message: "requestsPerMinute and queriesPerDay are required" });
+      }
+      const limitsError = validateApiKeyLimits({ requestsPerMinute, queriesPerDay });
+      if (limitsError) {
+        return res.status(400).json({ message: limitsError });
+      }
+      const updated = await storage.updateApiKeyLimits(req.params.id, req.session.userId!, { requestsPerMinute, queriesPerDay });
+      if (!updated) return res.status(404).json({ message: "Key not found or not yours" });
+      await logAuditEvent(req, 'api_key_limits_updated', 'api_key', updated.id,
+        `${requestsPerMinute} requests/min, ${queriesPerDay} queries/day`);
+      res.json({ ...updated, keyHash: undefined });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Revoke an API key
   app.delete("/api/user/api-keys/:id", requireAuth, async (req, res) => {
     try {
@@ -3285,40 +5049,50 @@ Be concise and focus on the most important insights. Use clear headings and bull
   // ─── Public API v1 — Executor ─────────────────────────────────────────────────
   // Accepts: Authorization: Bearer vgr_... OR session cookie
 
-  app.post("/api/v1/execute", requireApiKeyOrSession, requireApiKeyScope('execute_queries'), requirePermission('execute_queries'), async (req, res) => {
+  app.post("/api/v1/execute", requireApiKeyOrSession, requireApiKeyScope('execute_queries'), requirePermission('execute_queries'), requireQueryQuota, requireApiKeyDailyQuota, async (req, res) => {
     try {
-      const organizationId = req.session.organizationId!;
-      const userId = req.session.userId!;
+      const principal = getPrincipal(req, res)!;
+      const organizationId = principal.organizationId!;
+      const userId = principal.userId;
       const { query, connectionId } = req.body;
 
       if (!query || typeof query !== 'string') {
         return res.status(400).json({ message: "query (string) is required" });
       }
 
-      const exportLimitSetting = await storage.getSetting('row_limit', organizationId);
-      const rowLimit = exportLimitSetting ? parseInt(exportLimitSetting.value) : 10000;
+      const { rowLimit } = await getEffectiveRowLimits(organizationId, API_DEFAULT_ROW_LIMIT);
 
       let columns: string[];
       let rows: Record<string, any>[];
       let executionTime: number;
+      let truncated: boolean;
+      let statistics: AthenaQueryStatistics | undefined;
 
       if (connectionId) {
         const connection = await storage.getDatabaseConnectionById(connectionId);
         if (!connection || connection.organizationId !== organizationId) {
           return res.status(404).json({ message: "Database connection not found" });
         }
+        const access = await resolveReadOnlyAccess(connection, query, userId, principal.isSuperAdmin);
+        if (access.violation) {
+          return res.status(403).json({ message: access.violation });
+        }
         const driver = getDriver(connection.type);
-        const result = await driver.executeQuery(connection, query, rowLimit);
+        const result = await driver.executeQuery(connection, query, rowLimit, { readOnly: access.readOnly });
         columns = result.columns;
         rows = result.rows;
         executionTime = result.executionTimeMs;
+        truncated = result.truncated;
+        statistics = result.statistics;
       } else {
-        const { client: athenaClient, s3OutputLocation } = await getOrgAthenaClient(organizationId);
+        const athena = await getOrgAthenaClient(organizationId);
         const startTime = Date.now();
-        const result = await executeAthenaQueryWithPagination(athenaClient, query, s3OutputLocation, rowLimit);
+        const result = await executeAthenaQueryWithPagination(athena, query, rowLimit);
         columns = result.columns;
         rows = result.data;
         executionTime = Date.now() - startTime;
+        truncated = result.truncated;
+        statistics = result.statistics;
       }
 
       const apiUser = await storage.getUser(userId);
@@ -3331,9 +5105,10 @@ Be concise and focus on the most important insights. Use clear headings and bull
         rowsReturned: rows.length,
         executionTime,
         connectionId: connectionId || null,
+        ...statistics,
       });
 
-      res.json({ columns, rows, rowCount: rows.length, executionTime });
+      res.json({ columns, rows, rowCount: rows.length, executionTime, truncated });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -3341,48 +5116,89 @@ Be concise and focus on the most important insights. Use clear headings and bull
 
   // ─── Public API v1 — Explorer lookup ─────────────────────────────────────────
 
-  app.post("/api/v1/explorer/lookup", requireApiKeyOrSession, requireApiKeyScope('explorer'), requirePermission('explorer'), async (req, res) => {
+  app.post("/api/v1/explorer/lookup", requireApiKeyOrSession, requireApiKeyScope('explorer'), requirePermission('explorer'), requireQueryQuota, requireApiKeyDailyQuota, async (req, res) => {
     try {
-      const organizationId = req.session.organizationId!;
-      const { value } = req.body;
-      if (!value || typeof value !== 'string') {
-        return res.status(400).json({ message: "value (string) is required" });
+      const principal = getPrincipal(req, res)!;
+      const organizationId = principal.organizationId!;
+      const { value, values } = req.body;
+      if (values !== undefined && (!Array.isArray(values) || values.some((v: unknown) => typeof v !== 'string'))) {
+        return res.status(400).json({ message: "values must be an array of strings" });
+      }
+      if (values === undefined && (!value || typeof value !== 'string')) {
+        return res.status(400).json({ message: "value (string) or values (string[]) is required" });
+      }
+      const lookupValues = normalizeLookupValues(values ?? [value]);
+      if (lookupValues.length === 0) {
+        return res.status(400).json({ message: "At least one non-empty lookup value is required" });
+      }
+      if (lookupValues.length > MAX_LOOKUP_VALUES) {
+        return res.status(400).json({ message: `At most ${MAX_LOOKUP_VALUES} values can be looked up at once` });
       }
 
-      // Re-use msisdn-lookup internal logic by forwarding to the internal handler
-      // We read the org settings and run queries against configured explorer tables
-      const orgSettings = await storage.getSettingsByOrganization(organizationId);
-      const getSetting = (key: string) => orgSettings.find(s => s.key === key)?.value;
-
-      const tableKeys = orgSettings.filter(s => s.key.startsWith('explorer_table_')).map(s => s.key.replace('explorer_table_', ''));
+      // Same parameterized lookup as the Explorer page, capped at 100 rows per source
+      const { sources, invalid } = toExplorerSources(await storage.getExplorerDataSources(organizationId));
 
-      if (tableKeys.length === 0) {
+      if (sources.length === 0 && invalid.length === 0) {
         return res.json({ results: [], message: "No explorer sources configured for this organization" });
       }
 
-      const { client: athenaClient, s3OutputLocation } = await getOrgAthenaClient(organizationId);
-
-      const results = await Promise.allSettled(tableKeys.map(async (sourceKey) => {
-        const table = getSetting(`explorer_table_${sourceKey}`);
-        const column = getSetting(`explorer_column_${sourceKey}`) || getSetting(`explorer_lookup_column_${sourceKey}`);
-        const label = getSetting(`explorer_label_${sourceKey}`) || sourceKey;
-        if (!table || !column) return { source: label, status: 'skipped', rows: [] };
-
-        const safeValue = value.replace(/'/g, "''");
-        const sql = `SELECT * FROM ${table} WHERE ${column} = '${safeValue}' LIMIT 100`;
-        const result = await executeAthenaQueryWithPagination(athenaClient, sql, s3OutputLocation, 100);
-        return { source: label, columns: result.columns, rows: result.data, rowCount: result.data.length };
-      }));
+      const databaseName = (await storage.getSetting('athena_database', organizationId))?.value || undefined;
+      const startTime = Date.now();
+      const sourceResults = await runExplorerLookup(organizationId, databaseName, sources, lookupValues, 100);
+      const executionTime = Date.now() - startTime;
+      const results = [...sourceResults, ...invalid];
+      const { valueSummary, noHitValues } = summarizeLookupValues(lookupValues, sources, results);
+
+      // One log entry per source query, so each counts towards the org's query quota
+      const apiUser = await storage.getUser(principal.userId);
+      const loggedValues = describeLookupValues(lookupValues);
+      await Promise.all(sourceResults.map((result, index) => storage.createQueryLog({
+        userId: principal.userId,
+        organizationId,
+        username: apiUser?.username ?? 'api',
+        query: `Explorer Lookup (${result.name}): ${loggedValues}`,
+        rowsReturned: result.rowsReturned,
+        executionTime,
+        status: result.status === 'error' ? 'error' : 'success',
+        connectionId: sources[index].connectionId || null,
+      })));
 
       res.json({
-        lookupValue: value,
-        results: results.map((r, i) => r.status === 'fulfilled' ? r.value : { source: tableKeys[i], status: 'error', error: (r as PromiseRejectedResult).reason?.message }),
+        lookupValue: values === undefined ? value : undefined,
+        lookupValues,
+        results: results.map(r => r.status === 'success'
+          ? { source: r.name, columns: r.columns, rows: r.data, rowCount: r.rowsReturned }
+          : { source: r.name, status: 'error', error: r.error }),
+        valueSummary,
+        noHitValues,
       });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  migrateAiSettings().catch(error => console.error('[ai-config] AI settings migration failed:', error));
+  startConnectionHealthChecker();
+
+  // Scheduled saved queries run with the same connection resolution as the Query Executor
+  startQueryScheduler(async (organizationId, connectionId, query, rowLimit, owner) => {
+    if (connectionId) {
+      const connection = await storage.getDatabaseConnectionById(connectionId);
+      if (!connection || connection.organizationId !== organizationId) {
+        throw new Error("The database connection for this schedule no longer exists");
+      }
+      const access = await resolveReadOnlyAccess(connection, query, owner.id, owner.isSuperAdmin);
+      if (access.violation) {
+        throw new Error(access.violation);
+      }
+      const result = await getDriver(connection.type).executeQuery(connection, query, rowLimit, { readOnly: access.readOnly });
+      return { columns: result.columns, rows: result.rows, statistics: result.statistics };
+    }
+    const athena = await getOrgAthenaClient(organizationId);
+    const result = await executeAthenaQueryWithPagination(athena, query, rowLimit);
+    return { columns: result.columns, rows: result.data, statistics: result.statistics };
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
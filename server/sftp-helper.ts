@@ -1,4 +1,5 @@
 import SftpClient from 'ssh2-sftp-client';
+import path from 'path';
 import type { SftpConfig } from '@shared/schema';
 
 function getCentralTimeDate(): { year: number; month: string; day: string; dateObj: Date } {
@@ -298,3 +299,22 @@ export async function testSftpConnection(config: Partial<SftpConfig> & { remoteP
     };
   }
 }
+
+/**
+ * Upload a file to `remoteDir` on the configured server (used for scheduled query delivery).
+ * Throws on connection or write failure.
+ */
+export async function uploadSftpFile(config: SftpConfig, remoteDir: string, fileName: string, content: Buffer): Promise<string> {
+  const sftp = new SftpClient();
+  const remotePath = path.posix.join(remoteDir || '/', fileName);
+
+  try {
+    await sftp.connect(buildConnectionOptions(config));
+    await sftp.put(content, remotePath);
+    return remotePath;
+  } finally {
+    try {
+      await sftp.end();
+    } catch {}
+  }
+}
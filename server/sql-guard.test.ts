@@ -0,0 +1,104 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { classifySql, getReadOnlyViolation } from "./sql-guard";
+
+test("single reads are allowed", () => {
+  for (const query of [
+    "SELECT * FROM users",
+    "  with t as (select 1) select * from t",
+    "SHOW TABLES",
+    "EXPLAIN SELECT 1",
+    "SELECT 1;",
+    "SELECT REPLACE(name, 'a', 'b'), INSERT(name, 1, 2, 'x'), TRUNCATE(price, 2) FROM t",
+  ]) {
+    assert.equal(getReadOnlyViolation(query), null, query);
+  }
+});
+
+test("keywords inside comments, literals and quoted identifiers are ignored", () => {
+  for (const query of [
+    "SELECT 'DROP TABLE users' AS note",
+    "SELECT 1 -- DELETE FROM users",
+    "SELECT 1 /* UPDATE users SET a = 1 */",
+    'SELECT "delete", `update` FROM t',
+    "SELECT 'it''s; DROP TABLE t'",
+  ]) {
+    assert.equal(getReadOnlyViolation(query), null, query);
+  }
+});
+
+test("writes are rejected", () => {
+  const cases: [string, string][] = [
+    ["DELETE FROM users", "DELETE"],
+    ["WITH d AS (DELETE FROM users RETURNING *) SELECT * FROM d", "DELETE"],
+    ["SELECT * INTO backup FROM users", "INTO"],
+    ["EXPLAIN ANALYZE UPDATE users SET a = 1", "UPDATE"],
+    ["VACUUM users", "VACUUM"],
+    ["SELECT 1 /*! DROP TABLE users */", "DROP"],
+  ];
+  for (const [query, keyword] of cases) {
+    const result = classifySql(query);
+    assert.equal(result.readOnly, false, query);
+    assert.equal(result.writeKeyword, keyword, query);
+  }
+});
+
+test("procedure calls, session commands and T-SQL batches are rejected", () => {
+  for (const query of [
+    "SELECT 1 EXEC sp_executesql N'DROP TABLE t'",
+    "SELECT 1 EXEC('DROP TABLE t')",
+    "SELECT * FROM t WHERE 1 = 1 EXECUTE dbo.cleanup",
+    "CALL refresh_stats()",
+    "SELECT 1 DBCC FREEPROCCACHE",
+    "SELECT 1 KILL 52",
+    "SELECT 1 SHUTDOWN WITH NOWAIT",
+    "SELECT 1 SET ANSI_NULLS OFF",
+    "SELECT 1 USE master",
+    "SELECT 1 DECLARE @x INT",
+    "SELECT 1 WAITFOR DELAY '01:00:00'",
+    "SELECT * FROM OPENROWSET('SQLNCLI', 'Server=x', 'SELECT 1')",
+  ]) {
+    assert.equal(classifySql(query).readOnly, false, query);
+  }
+});
+
+test("multi-statement batches are rejected", () => {
+  assert.match(getReadOnlyViolation("SELECT 1; SELECT 2") ?? "", /multi-statement/);
+});
+
+test("a literal that ends early under MySQL escaping cannot hide a write", () => {
+  // Standard SQL reads one literal; MySQL ends it at \' and sees DROP
+  const query = "SELECT 'a\\' ; DROP TABLE t; -- '";
+  assert.notEqual(getReadOnlyViolation(query), null);
+});
+
+test("a MySQL # comment cannot hide a quote from the scan", () => {
+  for (const query of [
+    "SELECT 1 # '\n; DROP TABLE t; -- '",
+    "SELECT 1 # '\nUNION SELECT * FROM t INTO OUTFILE '/tmp/x' -- '",
+  ]) {
+    assert.notEqual(getReadOnlyViolation(query), null, query);
+  }
+  assert.equal(getReadOnlyViolation("SELECT 1 # first row\nFROM dual"), null);
+});
+
+test("Postgres dollar-quoted strings cannot hide a quote from the scan", () => {
+  assert.equal(getReadOnlyViolation("SELECT $$note$$, $tag$a b$tag$ FROM t WHERE id = $1"), null);
+  assert.notEqual(getReadOnlyViolation("SELECT $$ ' $$; DROP TABLE t; -- '"), null);
+  assert.notEqual(getReadOnlyViolation("SELECT $a$ '; $a$ DELETE FROM t -- '"), null);
+});
+
+test("a quote or block comment left open is rejected", () => {
+  for (const query of [
+    "SELECT 'abc",
+    'SELECT "abc',
+    "SELECT `abc",
+    "SELECT 1 /* DROP TABLE t",
+    "SELECT $$abc",
+  ]) {
+    const result = classifySql(query);
+    assert.equal(result.readOnly, false, query);
+    assert.equal(result.unterminated, true, query);
+    assert.match(getReadOnlyViolation(query) ?? "", /unterminated/, query);
+  }
+});
@@ -0,0 +1,179 @@
+// Statement classification for read-only database connections. The scan is deliberately
+// conservative: anything it cannot show to be a single read statement counts as a write.
+// It is a first line of defence; read-only connections are only allowed on engines with a
+// read-only session mode, which drivers also use.
+
+export interface SqlClassification {
+  // Non-empty statements separated by top-level semicolons
+  statementCount: number;
+  readOnly: boolean;
+  // Keyword that made the batch a write, for error messages
+  writeKeyword: string | null;
+  // A quote or block comment is never closed; such a batch is never read-only
+  unterminated: boolean;
+}
+
+// Leading keywords of statements that only read
+const READ_KEYWORDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE', 'SHOW', 'DESCRIBE', 'DESC', 'EXPLAIN']);
+
+// Keywords that modify data, schema or session state, run other code or tie up the server,
+// wherever they appear: data-modifying CTEs, SELECT ... INTO, T-SQL batches without
+// semicolons (SELECT 1 EXEC ...), EXPLAIN ANALYZE <write> and procedure calls. Statements
+// that can only come first (VACUUM, LOCK, BEGIN, ...) are caught by READ_KEYWORDS instead,
+// so columns with those names stay usable.
+const WRITE_KEYWORDS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'REPLACE', 'TRUNCATE', 'DROP', 'CREATE',
+  'ALTER', 'GRANT', 'REVOKE', 'DENY', 'INTO', 'COPY', 'OUTFILE', 'DUMPFILE',
+  'EXEC', 'EXECUTE', 'CALL', 'DO', 'PREPARE', 'DEALLOCATE', 'IMMEDIATE',
+  'DBCC', 'KILL', 'SHUTDOWN', 'RECONFIGURE', 'SET', 'USE', 'DECLARE', 'WAITFOR',
+  'OPENROWSET', 'OPENQUERY', 'OPENDATASOURCE',
+]);
+
+// MySQL string and numeric functions that share a name with a write keyword; followed by
+// "(" they are calls and are allowed
+const FUNCTION_NAMES = new Set(['INSERT', 'REPLACE', 'TRUNCATE']);
+
+interface ScannedStatement {
+  words: { word: string; isCall: boolean }[];
+}
+
+interface ScanResult {
+  statements: ScannedStatement[];
+  // A string, quoted identifier or block comment was still open at the end of the query
+  unterminated: boolean;
+}
+
+// Postgres dollar-quote opening: $$ or $tag$ (a tag cannot start with a digit, unlike $1)
+const DOLLAR_QUOTE = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/;
+
+/**
+ * Split a batch into statements of bare words, skipping comments, string literals and
+ * quoted identifiers. `mysql` selects MySQL lexing (\' escapes a quote and # starts a line
+ * comment); otherwise standard SQL with Postgres dollar-quoted strings.
+ */
+function scanStatements(query: string, mysql: boolean): ScanResult {
+  const statements: ScannedStatement[] = [{ words: [] }];
+  let unterminated = false;
+  let i = 0;
+  while (i < query.length) {
+    const ch = query[i];
+    const next = query[i + 1];
+
+    if ((ch === '-' && next === '-') || (mysql && ch === '#')) {
+      const newline = query.indexOf('\n', i);
+      i = newline === -1 ? query.length : newline + 1;
+      continue;
+    }
+    // MySQL runs the contents of /*! ... */ comments, so those are scanned as code
+    if (ch === '/' && next === '*' && query[i + 2] !== '!') {
+      const end = query.indexOf('*/', i + 2);
+      if (end === -1) unterminated = true;
+      i = end === -1 ? query.length : end + 2;
+      continue;
+    }
+    if (!mysql && ch === '$') {
+      const tag = DOLLAR_QUOTE.exec(query.slice(i))?.[0];
+      if (tag) {
+        const end = query.indexOf(tag, i + tag.length);
+        if (end === -1) unterminated = true;
+        i = end === -1 ? query.length : end + tag.length;
+        continue;
+      }
+    }
+    if (ch === "'" || ch === '"' || ch === '`') {
+      let closed = false;
+      i++;
+      while (i < query.length) {
+        if (mysql && query[i] === '\\') {
+          i += 2;
+          continue;
+        }
+        if (query[i] === ch) {
+          // A doubled quote is an escaped quote inside the literal
+          if (query[i + 1] === ch) {
+            i += 2;
+            continue;
+          }
+          closed = true;
+          break;
+        }
+        i++;
+      }
+      if (!closed) unterminated = true;
+      i++;
+      continue;
+    }
+    if (ch === ';') {
+      statements.push({ words: [] });
+      i++;
+      continue;
+    }
+    if (/[A-Za-z_]/.test(ch)) {
+      let end = i + 1;
+      while (end < query.length && /[A-Za-z0-9_$]/.test(query[end])) end++;
+      let after = end;
+      while (after < query.length && /\s/.test(query[after])) after++;
+      statements[statements.length - 1].words.push({
+        word: query.slice(i, end).toUpperCase(),
+        isCall: query[after] === '(',
+      });
+      i = end;
+      continue;
+    }
+    i++;
+  }
+  return { statements: statements.filter(s => s.words.length > 0), unterminated };
+}
+
+function classifyWith(query: string, mysql: boolean): SqlClassification {
+  const { statements, unterminated } = scanStatements(query, mysql);
+  if (unterminated) {
+    return { statementCount: statements.length, readOnly: false, writeKeyword: null, unterminated: true };
+  }
+  for (const statement of statements) {
+    const leading = statement.words[0].word;
+    if (!READ_KEYWORDS.has(leading)) {
+      return { statementCount: statements.length, readOnly: false, writeKeyword: leading, unterminated: false };
+    }
+    const write = statement.words.find(w => WRITE_KEYWORDS.has(w.word) && !(w.isCall && FUNCTION_NAMES.has(w.word)));
+    if (write) {
+      return { statementCount: statements.length, readOnly: false, writeKeyword: write.word, unterminated: false };
+    }
+  }
+  return { statementCount: statements.length, readOnly: true, writeKeyword: null, unterminated: false };
+}
+
+/**
+ * Classify a SQL batch. It is scanned with both lexing conventions (standard SQL with
+ * dollar quotes, and MySQL with backslash escapes and # comments) and the stricter result
+ * wins, so a literal or comment that ends early in one dialect cannot hide a statement
+ * from the other.
+ */
+export function classifySql(query: string): SqlClassification {
+  const standard = classifyWith(query, false);
+  const mysql = classifyWith(query, true);
+  const write = !standard.readOnly ? standard : !mysql.readOnly ? mysql : null;
+  return {
+    statementCount: Math.max(standard.statementCount, mysql.statementCount),
+    readOnly: !write,
+    writeKeyword: write?.writeKeyword ?? null,
+    unterminated: write?.unterminated ?? false,
+  };
+}
+
+/**
+ * Why a query may not run on a read-only connection, or null when it is a single read
+ */
+export function getReadOnlyViolation(query: string): string | null {
+  const classification = classifySql(query);
+  if (classification.unterminated) {
+    return 'This connection is read-only: the query has an unterminated string, quoted identifier or comment';
+  }
+  if (classification.statementCount > 1) {
+    return 'This connection is read-only: multi-statement batches are not allowed';
+  }
+  if (!classification.readOnly) {
+    return `This connection is read-only: ${classification.writeKeyword} is not allowed`;
+  }
+  return null;
+}
@@ -0,0 +1,127 @@
+// SSH bastion tunnels for database connections in private networks. A tunnel listens on a
+// local port and forwards each socket through the bastion to the database host, so drivers
+// connect to 127.0.0.1:<port> unchanged. Tunnels are owned by connection-pools and live as
+// long as the pool that uses them.
+import net from "net";
+import type { ClientChannel, ConnectConfig } from "ssh2";
+import type { OrganizationDatabaseConnection } from "@shared/schema";
+
+// Types whose driver opens TCP sockets to host:port, so the database can sit behind a bastion
+export const SSH_TUNNEL_TYPES = ['postgresql', 'mysql', 'mssql', 'clickhouse'];
+
+const LOCALHOST = '127.0.0.1';
+const SSH_READY_TIMEOUT = 10000;
+
+/**
+ * The bastion could not be reached, rejected the login or could not reach the database
+ * host, as opposed to an error from the database itself
+ */
+export class SshTunnelError extends Error {
+  constructor(message: string) {
+    super(`SSH tunnel failed: ${message}`);
+    this.name = 'SshTunnelError';
+  }
+}
+
+export interface SshTunnel {
+  // Local address the driver connects to instead of the database host
+  host: string;
+  port: number;
+  close(): void;
+}
+
+export function usesSshTunnel(conn: OrganizationDatabaseConnection): boolean {
+  return conn.sshEnabled && SSH_TUNNEL_TYPES.includes(conn.type);
+}
+
+function forward(client: import('ssh2').Client, host: string, port: number): Promise<ClientChannel> {
+  return new Promise((resolve, reject) => {
+    client.forwardOut(LOCALHOST, 0, host, port, (err, channel) => (err ? reject(err) : resolve(channel)));
+  });
+}
+
+/**
+ * Log in to the bastion and listen on a local port that forwards to `targetPort` on the
+ * connection's host. Resolves only after one forward to the database host has succeeded,
+ * so a bad bastion route fails here rather than as a database error. `onClose` runs once
+ * when the SSH session ends for any reason other than close().
+ */
+export async function openSshTunnel(
+  conn: OrganizationDatabaseConnection,
+  targetPort: number,
+  onClose: () => void
+): Promise<SshTunnel> {
+  if (!conn.sshHost || !conn.sshUsername) {
+    throw new SshTunnelError('SSH host and username are required');
+  }
+  if (!conn.sshPassword && !conn.sshPrivateKey) {
+    throw new SshTunnelError('An SSH password or private key is required');
+  }
+  const targetHost = conn.host || 'localhost';
+
+  const { Client } = await import('ssh2');
+  const client = new Client();
+  const config: ConnectConfig = {
+    host: conn.sshHost,
+    port: conn.sshPort || 22,
+    username: conn.sshUsername,
+    readyTimeout: SSH_READY_TIMEOUT,
+    keepaliveInterval: 30000,
+  };
+  if (conn.sshPrivateKey) {
+    config.privateKey = conn.sshPrivateKey;
+    if (conn.sshPassphrase) config.passphrase = conn.sshPassphrase;
+  } else {
+    config.password = conn.sshPassword!;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    client.once('ready', () => resolve());
+    client.once('error', err => reject(new SshTunnelError(err.message)));
+    client.connect(config);
+  });
+
+  let server: net.Server | undefined;
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    server?.close();
+    client.end();
+  };
+  // Errors after login (e.g. a dropped session) surface through 'close'
+  client.on('error', err => console.error(`SSH tunnel error (${conn.id}):`, err.message));
+  client.on('close', () => {
+    if (closed) return;
+    close();
+    onClose();
+  });
+
+  try {
+    const probe = await forward(client, targetHost, targetPort).catch(err => {
+      throw new SshTunnelError(`bastion could not reach ${targetHost}:${targetPort} (${err.message})`);
+    });
+    probe.close();
+
+    server = net.createServer(socket => {
+      socket.on('error', () => socket.destroy());
+      forward(client, targetHost, targetPort).then(channel => {
+        channel.on('error', () => socket.destroy());
+        socket.on('close', () => channel.close());
+        socket.pipe(channel).pipe(socket);
+      }, err => {
+        console.error(`SSH forward to ${targetHost}:${targetPort} failed (${conn.id}):`, err.message);
+        socket.destroy();
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server!.once('error', reject);
+      server!.listen(0, LOCALHOST, () => resolve());
+    });
+  } catch (error) {
+    close();
+    throw error;
+  }
+
+  return { host: LOCALHOST, port: (server.address() as net.AddressInfo).port, close };
+}
@@ -4,8 +4,9 @@ import {
   organizations, subscriptionPlans, organizationSubscriptions, 
   organizationMembers, organizationInvitations, organizationAwsConfigs,
   organizationAiConfigs, organizationDatabaseConnections, auditLogs,
-  dashboardCharts, organizationRolePermissions, apiKeys,
-  RBAC_FEATURES, DEFAULT_PERMISSIONS,
+  dashboardCharts, organizationRolePermissions, apiKeys, explorerDataSources,
+  querySchedules, queryScheduleRuns, sessions, apiKeyDailyUsage, connectionHealthChecks,
+  aiUsageLogs, RBAC_FEATURES, DEFAULT_PERMISSIONS,
   type User, type InsertUser, type QueryLog, type InsertQueryLog, 
   type Setting, type InsertSetting, type ExportJob, type InsertExportJob, 
   type SftpConfig, type InsertSftpConfig, type SavedQuery, type InsertSavedQuery,
@@ -16,12 +17,16 @@ import {
   type OrganizationAwsConfig, type InsertOrganizationAwsConfig,
   type OrganizationAiConfig, type InsertOrganizationAiConfig,
   type OrganizationDatabaseConnection, type InsertOrganizationDatabaseConnection,
-  type AuditLog, type InsertAuditLog,
+  type ConnectionHealthCheck, type InsertConnectionHealthCheck, type ConnectionHealthStatus,
+  type AuditLog, type InsertAuditLog, type AiUsageLog, type InsertAiUsageLog,
   type DashboardChart, type InsertDashboardChart,
   type OrganizationRolePermission, type RbacFeature, type OrgRole,
   type ApiKey, type InsertApiKey,
+  type ExplorerDataSource, type InsertExplorerDataSource,
+  type QuerySchedule, type InsertQuerySchedule, type QueryScheduleRun, type InsertQueryScheduleRun,
+  type UserSession,
 } from "@shared/schema";
-import { eq, desc, and, or, isNull } from "drizzle-orm";
+import { eq, ne, desc, asc, and, or, isNull, isNotNull, gt, gte, lt, lte, inArray, count, sql } from "drizzle-orm";
 import bcrypt from "bcrypt";
 import { encrypt, decrypt } from "./encryption";
 
@@ -33,6 +38,12 @@ function encryptConnectionFields(c: Partial<InsertOrganizationDatabaseConnection
     password: c.password ? encrypt(c.password) as string : c.password,
     awsSecretAccessKey: c.awsSecretAccessKey ? encrypt(c.awsSecretAccessKey) as string : c.awsSecretAccessKey,
     credentialsJson: c.credentialsJson ? encrypt(c.credentialsJson) as string : c.credentialsJson,
+    sshPassword: c.sshPassword ? encrypt(c.sshPassword) as string : c.sshPassword,
+    sshPrivateKey: c.sshPrivateKey ? encrypt(c.sshPrivateKey) as string : c.sshPrivateKey,
+    sshPassphrase: c.sshPassphrase ? encrypt(c.sshPassphrase) as string : c.sshPassphrase,
+    sslCaCert: c.sslCaCert ? encrypt(c.sslCaCert) as string : c.sslCaCert,
+    sslClientCert: c.sslClientCert ? encrypt(c.sslClientCert) as string : c.sslClientCert,
+    sslClientKey: c.sslClientKey ? encrypt(c.sslClientKey) as string : c.sslClientKey,
   };
 }
 
@@ -42,6 +53,12 @@ function decryptConnectionFields(c: OrganizationDatabaseConnection): Organizatio
     password: c.password ? decrypt(c.password) as string : c.password,
     awsSecretAccessKey: c.awsSecretAccessKey ? decrypt(c.awsSecretAccessKey) as string : c.awsSecretAccessKey,
     credentialsJson: c.credentialsJson ? decrypt(c.credentialsJson) as string : c.credentialsJson,
+    sshPassword: c.sshPassword ? decrypt(c.sshPassword) as string : c.sshPassword,
+    sshPrivateKey: c.sshPrivateKey ? decrypt(c.sshPrivateKey) as string : c.sshPrivateKey,
+    sshPassphrase: c.sshPassphrase ? decrypt(c.sshPassphrase) as string : c.sshPassphrase,
+    sslCaCert: c.sslCaCert ? decrypt(c.sslCaCert) as string : c.sslCaCert,
+    sslClientCert: c.sslClientCert ? decrypt(c.sslClientCert) as string : c.sslClientCert,
+    sslClientKey: c.sslClientKey ? decrypt(c.sslClientKey) as string : c.sslClientKey,
   };
 }
 
@@ -92,6 +109,27 @@ function decryptAiConfigFields(c: OrganizationAiConfig): OrganizationAiConfig {
 const SALT_ROUNDS = 10;
 const DEFAULT_ORG_ID = 'default-org';
 
+// Athena data scanned by one user, summed over query_logs
+export interface QueryScanTotal {
+  userId: string;
+  username: string;
+  queries: number;
+  dataScannedBytes: number;
+  estimatedCostUsd: number;
+}
+
+// AI provider calls summed over ai_usage_logs, for a period or one UTC day
+export interface AiUsageTotal {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+}
+
+export interface AiUsageDay extends AiUsageTotal {
+  day: string; // YYYY-MM-DD
+}
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -113,11 +151,14 @@ export interface IStorage {
   getAllQueryLogs(): Promise<QueryLog[]>;
   getQueryLogsByUser(userId: string): Promise<QueryLog[]>;
   getQueryLogsByOrganization(organizationId: string): Promise<QueryLog[]>;
+  countQueryLogsSince(organizationId: string, since: Date): Promise<number>;
+  getQueryScanTotalsByUser(organizationId: string, since: Date, userId?: string): Promise<QueryScanTotal[]>;
   
   getSetting(key: string, organizationId?: string): Promise<Setting | undefined>;
   upsertSetting(setting: InsertSetting): Promise<Setting>;
   deleteSetting(key: string, organizationId: string): Promise<void>;
   getSettingsByOrganization(organizationId: string): Promise<Setting[]>;
+  getSettingsWithKeys(keys: string[]): Promise<Setting[]>;
   
   createExportJob(job: InsertExportJob): Promise<ExportJob>;
   getExportJob(id: string): Promise<ExportJob | undefined>;
@@ -135,6 +176,7 @@ export interface IStorage {
   deleteSftpConfig(id: string): Promise<boolean>;
   getSftpConfigsByOrganization(organizationId: string): Promise<SftpConfig[]>;
   
+  getSavedQuery(id: string): Promise<SavedQuery | undefined>;
   getSavedQueriesByUser(userId: string): Promise<SavedQuery[]>;
   createSavedQuery(query: InsertSavedQuery): Promise<SavedQuery>;
   deleteSavedQuery(id: string, userId: string): Promise<boolean>;
@@ -181,6 +223,19 @@ export interface IStorage {
   updateDatabaseConnection(id: string, connection: Partial<InsertOrganizationDatabaseConnection>): Promise<OrganizationDatabaseConnection | undefined>;
   deleteDatabaseConnection(id: string): Promise<boolean>;
   setDefaultDatabaseConnection(id: string, organizationId: string): Promise<void>;
+
+  // Connection health checks
+  getConnectionsDueForHealthCheck(dueBefore: Date): Promise<OrganizationDatabaseConnection[]>;
+  claimConnectionHealthCheck(id: string, dueBefore: Date, now: Date): Promise<boolean>;
+  createConnectionHealthCheck(check: InsertConnectionHealthCheck): Promise<ConnectionHealthCheck>;
+  setDatabaseConnectionStatus(id: string, status: ConnectionHealthStatus): Promise<void>;
+  getRecentConnectionHealthChecks(connectionId: string, limit: number): Promise<ConnectionHealthCheck[]>;
+  getConnectionHealthChecksSince(organizationId: string, since: Date): Promise<ConnectionHealthCheck[]>;
+  deleteConnectionHealthChecksBefore(cutoff: Date): Promise<number>;
+
+  createAiUsageLog(log: InsertAiUsageLog): Promise<AiUsageLog>;
+  getAiUsageTotalSince(organizationId: string, since: Date): Promise<AiUsageTotal>;
+  getAiUsageByDay(organizationId: string, since: Date): Promise<AiUsageDay[]>;
   
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
   getAuditLogsByOrganization(organizationId: string): Promise<AuditLog[]>;
@@ -203,6 +258,32 @@ export interface IStorage {
   getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
   revokeApiKey(id: string, userId: string): Promise<boolean>;
   touchApiKey(id: string): Promise<void>;
+  updateApiKeyLimits(id: string, userId: string, limits: { requestsPerMinute: number; queriesPerDay: number }): Promise<ApiKey | undefined>;
+  consumeApiKeyDailyQuery(apiKeyId: string, usageDate: string, limit: number): Promise<{ allowed: boolean; used: number }>;
+
+  // Explorer data sources
+  getExplorerDataSources(organizationId: string): Promise<ExplorerDataSource[]>;
+  getExplorerDataSource(id: string): Promise<ExplorerDataSource | undefined>;
+  createExplorerDataSource(source: InsertExplorerDataSource): Promise<ExplorerDataSource>;
+  updateExplorerDataSource(id: string, source: Partial<InsertExplorerDataSource>): Promise<ExplorerDataSource | undefined>;
+  deleteExplorerDataSource(id: string): Promise<void>;
+
+  // Query schedules
+  getQuerySchedulesByUser(userId: string, organizationId: string): Promise<QuerySchedule[]>;
+  getQuerySchedule(id: string): Promise<QuerySchedule | undefined>;
+  getDueQuerySchedules(now: Date): Promise<QuerySchedule[]>;
+  createQuerySchedule(schedule: InsertQuerySchedule): Promise<QuerySchedule>;
+  updateQuerySchedule(id: string, schedule: Partial<InsertQuerySchedule>): Promise<QuerySchedule | undefined>;
+  claimQuerySchedule(id: string, expectedNextRunAt: Date, nextRunAt: Date | null): Promise<boolean>;
+  deleteQuerySchedule(id: string): Promise<void>;
+  createQueryScheduleRun(run: InsertQueryScheduleRun): Promise<QueryScheduleRun>;
+  updateQueryScheduleRun(id: string, run: Partial<InsertQueryScheduleRun>): Promise<QueryScheduleRun | undefined>;
+  getQueryScheduleRuns(scheduleId: string, limit?: number): Promise<QueryScheduleRun[]>;
+
+  // Sessions (express-session rows, matched on the userId stored in the session)
+  getUserSessions(userId: string): Promise<UserSession[]>;
+  deleteUserSession(sid: string, userId: string): Promise<boolean>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<number>;
 }
 
 export class DbStorage implements IStorage {
@@ -343,6 +424,42 @@ export class DbStorage implements IStorage {
       .orderBy(desc(queryLogs.createdAt));
   }
 
+  async countQueryLogsSince(organizationId: string, since: Date): Promise<number> {
+    const result = await db.select({ total: count() }).from(queryLogs)
+      .where(and(eq(queryLogs.organizationId, organizationId), gte(queryLogs.createdAt, since)));
+    return Number(result[0]?.total ?? 0);
+  }
+
+  // Athena scan totals per user; only logs that recorded statistics are counted
+  async getQueryScanTotalsByUser(organizationId: string, since: Date, userId?: string): Promise<QueryScanTotal[]> {
+    const conditions = [
+      eq(queryLogs.organizationId, organizationId),
+      gte(queryLogs.createdAt, since),
+      isNotNull(queryLogs.dataScannedBytes),
+    ];
+    if (userId) conditions.push(eq(queryLogs.userId, userId));
+
+    // sum() over BIGINT is NUMERIC, which node-postgres returns as a string
+    const rows: { userId: string; username: string; queries: number; dataScannedBytes: string; estimatedCostUsd: string }[] = await db.select({
+      userId: queryLogs.userId,
+      username: sql<string>`max(${queryLogs.username})`,
+      queries: count(),
+      dataScannedBytes: sql<string>`coalesce(sum(${queryLogs.dataScannedBytes}), 0)`,
+      estimatedCostUsd: sql<string>`coalesce(sum(${queryLogs.estimatedCostUsd}), 0)`,
+    }).from(queryLogs)
+      .where(and(...conditions))
+      .groupBy(queryLogs.userId)
+      .orderBy(desc(sql`sum(${queryLogs.dataScannedBytes})`));
+
+    return rows.map(row => ({
+      userId: row.userId,
+      username: row.username,
+      queries: Number(row.queries),
+      dataScannedBytes: Number(row.dataScannedBytes),
+      estimatedCostUsd: Number(row.estimatedCostUsd),
+    }));
+  }
+
   async getSetting(key: string, organizationId?: string): Promise<Setting | undefined> {
     // Strict org scoping - require organizationId for proper tenant isolation
     if (!organizationId) {
@@ -390,6 +507,12 @@ export class DbStorage implements IStorage {
       .where(eq(settings.organizationId, organizationId));
   }
 
+  // Across all organizations; used by startup migrations
+  async getSettingsWithKeys(keys: string[]): Promise<Setting[]> {
+    return await db.select().from(settings)
+      .where(and(inArray(settings.key, keys), isNotNull(settings.organizationId)));
+  }
+
   async createExportJob(job: InsertExportJob): Promise<ExportJob> {
     const result = await db.insert(exportJobs).values({
       ...job,
@@ -492,6 +615,11 @@ export class DbStorage implements IStorage {
     return rows.map(decryptSftpFields);
   }
 
+  async getSavedQuery(id: string): Promise<SavedQuery | undefined> {
+    const result = await db.select().from(savedQueries).where(eq(savedQueries.id, id));
+    return result[0];
+  }
+
   async getSavedQueriesByUser(userId: string): Promise<SavedQuery[]> {
     return await db.select().from(savedQueries)
       .where(eq(savedQueries.userId, userId))
@@ -791,6 +919,111 @@ export class DbStorage implements IStorage {
       .where(eq(organizationDatabaseConnections.id, id));
   }
 
+  async getConnectionsDueForHealthCheck(dueBefore: Date): Promise<OrganizationDatabaseConnection[]> {
+    const rows = await db.select().from(organizationDatabaseConnections)
+      .where(or(
+        isNull(organizationDatabaseConnections.lastHealthCheckAt),
+        lt(organizationDatabaseConnections.lastHealthCheckAt, dueBefore)
+      ));
+    return rows.map(decryptConnectionFields);
+  }
+
+  // Stamp the check time first, so another server instance does not test the same connection
+  async claimConnectionHealthCheck(id: string, dueBefore: Date, now: Date): Promise<boolean> {
+    const result = await db.update(organizationDatabaseConnections)
+      .set({ lastHealthCheckAt: now })
+      .where(and(
+        eq(organizationDatabaseConnections.id, id),
+        or(
+          isNull(organizationDatabaseConnections.lastHealthCheckAt),
+          lt(organizationDatabaseConnections.lastHealthCheckAt, dueBefore)
+        )
+      ))
+      .returning({ id: organizationDatabaseConnections.id });
+    return result.length > 0;
+  }
+
+  async createConnectionHealthCheck(check: InsertConnectionHealthCheck): Promise<ConnectionHealthCheck> {
+    const result = await db.insert(connectionHealthChecks).values(check).returning();
+    return result[0];
+  }
+
+  // Not an edit of the connection's settings, so updatedAt is left alone
+  async setDatabaseConnectionStatus(id: string, status: ConnectionHealthStatus): Promise<void> {
+    await db.update(organizationDatabaseConnections)
+      .set({ status })
+      .where(eq(organizationDatabaseConnections.id, id));
+  }
+
+  async getRecentConnectionHealthChecks(connectionId: string, limit: number): Promise<ConnectionHealthCheck[]> {
+    return await db.select().from(connectionHealthChecks)
+      .where(eq(connectionHealthChecks.connectionId, connectionId))
+      .orderBy(desc(connectionHealthChecks.checkedAt))
+      .limit(limit);
+  }
+
+  async getConnectionHealthChecksSince(organizationId: string, since: Date): Promise<ConnectionHealthCheck[]> {
+    return await db.select().from(connectionHealthChecks)
+      .where(and(
+        eq(connectionHealthChecks.organizationId, organizationId),
+        gte(connectionHealthChecks.checkedAt, since)
+      ))
+      .orderBy(asc(connectionHealthChecks.checkedAt));
+  }
+
+  async deleteConnectionHealthChecksBefore(cutoff: Date): Promise<number> {
+    const result = await db.delete(connectionHealthChecks)
+      .where(lt(connectionHealthChecks.checkedAt, cutoff))
+      .returning({ id: connectionHealthChecks.id });
+    return result.length;
+  }
+
+  async createAiUsageLog(log: InsertAiUsageLog): Promise<AiUsageLog> {
+    const result = await db.insert(aiUsageLogs).values(log).returning();
+    return result[0];
+  }
+
+  async getAiUsageTotalSince(organizationId: string, since: Date): Promise<AiUsageTotal> {
+    // sum() over INTEGER is BIGINT, which node-postgres returns as a string
+    const rows: { requests: number; inputTokens: string; outputTokens: string; estimatedCostUsd: string }[] = await db.select({
+      requests: count(),
+      inputTokens: sql<string>`coalesce(sum(${aiUsageLogs.inputTokens}), 0)`,
+      outputTokens: sql<string>`coalesce(sum(${aiUsageLogs.outputTokens}), 0)`,
+      estimatedCostUsd: sql<string>`coalesce(sum(${aiUsageLogs.estimatedCostUsd}), 0)`,
+    }).from(aiUsageLogs)
+      .where(and(eq(aiUsageLogs.organizationId, organizationId), gte(aiUsageLogs.createdAt, since)));
+
+    return {
+      requests: Number(rows[0]?.requests ?? 0),
+      inputTokens: Number(rows[0]?.inputTokens ?? 0),
+      outputTokens: Number(rows[0]?.outputTokens ?? 0),
+      estimatedCostUsd: Number(rows[0]?.estimatedCostUsd ?? 0),
+    };
+  }
+
+  // Days without calls are left out
+  async getAiUsageByDay(organizationId: string, since: Date): Promise<AiUsageDay[]> {
+    const day = sql<string>`to_char(${aiUsageLogs.createdAt}, 'YYYY-MM-DD')`;
+    const rows: { day: string; requests: number; inputTokens: string; outputTokens: string; estimatedCostUsd: string }[] = await db.select({
+      day,
+      requests: count(),
+      inputTokens: sql<string>`coalesce(sum(${aiUsageLogs.inputTokens}), 0)`,
+      outputTokens: sql<string>`coalesce(sum(${aiUsageLogs.outputTokens}), 0)`,
+      estimatedCostUsd: sql<string>`coalesce(sum(${aiUsageLogs.estimatedCostUsd}), 0)`,
+    }).from(aiUsageLogs)
+      .where(and(eq(aiUsageLogs.organizationId, organizationId), gte(aiUsageLogs.createdAt, since)))
+      .groupBy(day)
+      .orderBy(day);
+
+    return rows.map(row => ({
+      day: row.day,
+      requests: Number(row.requests),
+      inputTokens: Number(row.inputTokens),
+      outputTokens: Number(row.outputTokens),
+      estimatedCostUsd: Number(row.estimatedCostUsd),
+    }));
+  }
+
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
     const result = await db.insert(auditLogs).values(log).returning();
     return result[0];
@@ -846,7 +1079,7 @@ export class DbStorage implements IStorage {
     const role = member.role as OrgRole;
 
     // Get permissions for this role in this org
-    const rows = await db.select().from(organizationRolePermissions)
+    const rows: OrganizationRolePermission[] = await db.select().from(organizationRolePermissions)
       .where(and(
         eq(organizationRolePermissions.organizationId, organizationId),
         eq(organizationRolePermissions.role, role)
@@ -860,7 +1093,13 @@ export class DbStorage implements IStorage {
         .map(([feature]) => feature);
     }
 
-    return rows.filter(r => r.enabled).map(r => r.feature as RbacFeature);
+    const permissions = rows.filter(r => r.enabled).map(r => r.feature as RbacFeature);
+    // write_queries was added after roles were seeded, so it has no row until the
+    // permission is edited; until then it follows the role default
+    if (!rows.some(r => r.feature === 'write_queries') && DEFAULT_PERMISSIONS[role]?.write_queries) {
+      permissions.push('write_queries');
+    }
+    return permissions;
   }
 
   async setRolePermission(organizationId: string, role: OrgRole, feature: RbacFeature, enabled: boolean): Promise<void> {
@@ -948,6 +1187,155 @@ export class DbStorage implements IStorage {
   async touchApiKey(id: string): Promise<void> {
     await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, id));
   }
+
+  async updateApiKeyLimits(id: string, userId: string, limits: { requestsPerMinute: number; queriesPerDay: number }): Promise<ApiKey | undefined> {
+    const result = await db.update(apiKeys)
+      .set(limits)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), eq(apiKeys.revoked, false)))
+      .returning();
+    return result[0];
+  }
+
+  /**
+   * Count one query against the key's daily limit. The increment only applies while
+   * the count is below `limit`, so concurrent requests cannot overshoot it.
+   */
+  async consumeApiKeyDailyQuery(apiKeyId: string, usageDate: string, limit: number): Promise<{ allowed: boolean; used: number }> {
+    const result = await db.insert(apiKeyDailyUsage)
+      .values({ apiKeyId, usageDate, queryCount: 1 })
+      .onConflictDoUpdate({
+        target: [apiKeyDailyUsage.apiKeyId, apiKeyDailyUsage.usageDate],
+        set: { queryCount: sql`${apiKeyDailyUsage.queryCount} + 1` },
+        setWhere: sql`${apiKeyDailyUsage.queryCount} < ${limit}`,
+      })
+      .returning({ queryCount: apiKeyDailyUsage.queryCount });
+    if (result.length > 0) {
+      return { allowed: true, used: result[0].queryCount };
+    }
+    return { allowed: false, used: limit };
+  }
+
+  // ---- Explorer data sources -------------------------------------------------
+
+  async getExplorerDataSources(organizationId: string): Promise<ExplorerDataSource[]> {
+    return await db.select().from(explorerDataSources)
+      .where(eq(explorerDataSources.organizationId, organizationId))
+      .orderBy(explorerDataSources.label);
+  }
+
+  async getExplorerDataSource(id: string): Promise<ExplorerDataSource | undefined> {
+    const result = await db.select().from(explorerDataSources).where(eq(explorerDataSources.id, id));
+    return result[0];
+  }
+
+  async createExplorerDataSource(source: InsertExplorerDataSource): Promise<ExplorerDataSource> {
+    const result = await db.insert(explorerDataSources).values(source).returning();
+    return result[0];
+  }
+
+  async updateExplorerDataSource(id: string, source: Partial<InsertExplorerDataSource>): Promise<ExplorerDataSource | undefined> {
+    const result = await db.update(explorerDataSources)
+      .set({ ...source, updatedAt: new Date() })
+      .where(eq(explorerDataSources.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteExplorerDataSource(id: string): Promise<void> {
+    await db.delete(explorerDataSources).where(eq(explorerDataSources.id, id));
+  }
+
+  // ---- Query schedules -------------------------------------------------------
+
+  async getQuerySchedulesByUser(userId: string, organizationId: string): Promise<QuerySchedule[]> {
+    return await db.select().from(querySchedules)
+      .where(and(eq(querySchedules.userId, userId), eq(querySchedules.organizationId, organizationId)))
+      .orderBy(desc(querySchedules.createdAt));
+  }
+
+  async getQuerySchedule(id: string): Promise<QuerySchedule | undefined> {
+    const result = await db.select().from(querySchedules).where(eq(querySchedules.id, id));
+    return result[0];
+  }
+
+  async getDueQuerySchedules(now: Date): Promise<QuerySchedule[]> {
+    return await db.select().from(querySchedules)
+      .where(and(eq(querySchedules.enabled, true), lte(querySchedules.nextRunAt, now)))
+      .orderBy(querySchedules.nextRunAt);
+  }
+
+  async createQuerySchedule(schedule: InsertQuerySchedule): Promise<QuerySchedule> {
+    const result = await db.insert(querySchedules).values(schedule).returning();
+    return result[0];
+  }
+
+  async updateQuerySchedule(id: string, schedule: Partial<InsertQuerySchedule>): Promise<QuerySchedule | undefined> {
+    const result = await db.update(querySchedules)
+      .set({ ...schedule, updatedAt: new Date() })
+      .where(eq(querySchedules.id, id))
+      .returning();
+    return result[0];
+  }
+
+  /**
+   * Advance a due schedule's next_run_at only if it still holds the value we read,
+   * so a run is claimed by exactly one server process
+   */
+  async claimQuerySchedule(id: string, expectedNextRunAt: Date, nextRunAt: Date | null): Promise<boolean> {
+    const result = await db.update(querySchedules)
+      .set({ nextRunAt })
+      .where(and(eq(querySchedules.id, id), eq(querySchedules.nextRunAt, expectedNextRunAt)))
+      .returning({ id: querySchedules.id });
+    return result.length > 0;
+  }
+
+  async deleteQuerySchedule(id: string): Promise<void> {
+    await db.delete(querySchedules).where(eq(querySchedules.id, id));
+  }
+
+  async createQueryScheduleRun(run: InsertQueryScheduleRun): Promise<QueryScheduleRun> {
+    const result = await db.insert(queryScheduleRuns).values(run).returning();
+    return result[0];
+  }
+
+  async updateQueryScheduleRun(id: string, run: Partial<InsertQueryScheduleRun>): Promise<QueryScheduleRun | undefined> {
+    const result = await db.update(queryScheduleRuns)
+      .set(run)
+      .where(eq(queryScheduleRuns.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getQueryScheduleRuns(scheduleId: string, limit: number = 50): Promise<QueryScheduleRun[]> {
+    return await db.select().from(queryScheduleRuns)
+      .where(eq(queryScheduleRuns.scheduleId, scheduleId))
+      .orderBy(desc(queryScheduleRuns.startedAt))
+      .limit(limit);
+  }
+
+  // ---- Sessions ----------------------------------------------------------------
+
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    return await db.select().from(sessions)
+      .where(and(sql`${sessions.sess}->>'userId' = ${userId}`, gt(sessions.expire, new Date())))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteUserSession(sid: string, userId: string): Promise<boolean> {
+    const result = await db.delete(sessions)
+      .where(and(eq(sessions.sid, sid), sql`${sessions.sess}->>'userId' = ${userId}`))
+      .returning({ sid: sessions.sid });
+    return result.length > 0;
+  }
+
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<number> {
+    const conditions = [sql`${sessions.sess}->>'userId' = ${userId}`];
+    if (exceptSid) conditions.push(ne(sessions.sid, exceptSid));
+    const result = await db.delete(sessions)
+      .where(and(...conditions))
+      .returning({ sid: sessions.sid });
+    return result.length;
+  }
 }
 
 export const storage = new DbStorage();
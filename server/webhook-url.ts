@@ -0,0 +1,91 @@
+// Checks for schedule webhook URLs. Webhooks are POSTed from the server, so a URL that
+// points at loopback, link-local (cloud metadata), private or otherwise internal
+// addresses would let any schedule editor reach services behind the firewall.
+import dns from "dns";
+import net from "net";
+
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+// Names that only resolve inside a network (metadata.google.internal, printer.local, ...)
+const INTERNAL_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.localdomain', '.lan', '.home.arpa'];
+
+/**
+ * Whether an IP address is loopback, link-local, private, reserved or multicast.
+ * IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as IPv4.
+ */
+export function isInternalAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isInternalAddress(mapped[1]);
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Validate a webhook URL before it is saved: https only, and not an internal host or
+ * address. Returns an error message, or null when the URL is acceptable.
+ */
+export function getWebhookUrlError(value: string | null | undefined): string | null {
+  let url: URL;
+  try {
+    url = new URL(value || '');
+  } catch {
+    return 'Webhook URL must be a valid https URL';
+  }
+  if (url.protocol !== 'https:') {
+    return 'Webhook URL must use https';
+  }
+  if (url.username || url.password) {
+    return 'Webhook URL must not contain credentials';
+  }
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (net.isIP(host)) {
+    return isInternalAddress(host) ? 'Webhook URL must not point to a private or internal address' : null;
+  }
+  if (host === 'localhost' || !host.includes('.') || INTERNAL_HOST_SUFFIXES.some(suffix => host.endsWith(suffix))) {
+    return 'Webhook URL must not point to a private or internal host';
+  }
+  return null;
+}
+
+/**
+ * Check a saved webhook URL again just before it is called, including every address its
+ * host resolves to, so a public name pointing at an internal address is refused too.
+ * Throws when the URL may not be called.
+ */
+export async function assertWebhookTargetAllowed(value: string): Promise<void> {
+  const error = getWebhookUrlError(value);
+  if (error) throw new Error(error);
+  const host = new URL(value).hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host)) return;
+  const addresses = await dns.promises.lookup(host, { all: true });
+  const internal = addresses.find(entry => isInternalAddress(entry.address));
+  if (internal) {
+    throw new Error(`Webhook host ${host} resolves to an internal address (${internal.address})`);
+  }
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, uniqueIndex, index, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, bigint, doublePrecision, boolean, uniqueIndex, index, date, json, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -48,6 +48,8 @@ export const subscriptionPlans = pgTable("subscription_plans", {
   maxRowsDisplay: integer("max_rows_display").notNull().default(1000),
   maxRowsExport: integer("max_rows_export").notNull().default(10000),
   features: text("features").array().notNull().default(sql`ARRAY['query', 'explorer', 'export']::text[]`),
+  // AI provider tokens per calendar month when the plan includes AI_PLAN_FEATURE; null is unlimited
+  maxAiTokensPerMonth: integer("max_ai_tokens_per_month"),
   isActive: boolean("is_active").notNull().default(true),
   sortOrder: integer("sort_order").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -63,6 +65,9 @@ export const insertSubscriptionPlanSchema = createInsertSchema(subscriptionPlans
 export type InsertSubscriptionPlan = z.infer<typeof insertSubscriptionPlanSchema>;
 export type SubscriptionPlan = typeof subscriptionPlans.$inferSelect;
 
+// Plans list this in `features` to include AI analysis and the SQL assistant
+export const AI_PLAN_FEATURE = 'ai';
+
 // ============================================================
 // ORGANIZATION SUBSCRIPTIONS
 // One subscription per organization (enforced by unique index)
@@ -185,6 +190,13 @@ export type OrganizationInvitation = typeof organizationInvitations.$inferSelect
 // This table is kept for backward compatibility with existing config UI
 // ============================================================
 
+// How Athena authenticates: static keys, an STS role (assumed with the keys when set,
+// else the default chain), or the server's default AWS credential provider chain. The
+// server's own credentials are only usable when ATHENA_ALLOW_SERVER_CREDENTIALS=true.
+export const AWS_AUTH_MODES = ['access_keys', 'assume_role', 'default_chain'] as const;
+
+export type AwsAuthMode = typeof AWS_AUTH_MODES[number];
+
 export const organizationAwsConfigs = pgTable("organization_aws_configs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
@@ -192,6 +204,10 @@ export const organizationAwsConfigs = pgTable("organization_aws_configs", {
   awsSecretAccessKey: text("aws_secret_access_key"), // encrypted at rest
   awsRegion: text("aws_region").notNull().default('us-east-1'),
   s3OutputLocation: text("s3_output_location"),
+  awsAuthMode: text("aws_auth_mode").notNull().default('access_keys'),
+  awsRoleArn: text("aws_role_arn"),
+  athenaWorkGroup: text("athena_work_group"),
+  athenaCatalog: text("athena_catalog"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -209,7 +225,7 @@ export type OrganizationAwsConfig = typeof organizationAwsConfigs.$inferSelect;
 
 // ============================================================
 // ORGANIZATION DATABASE CONNECTIONS (Multi-database support)
-// Credentials (password, awsSecretAccessKey, credentialsJson) are encrypted at rest
+// Credentials (password, awsSecretAccessKey, credentialsJson, SSH and TLS secrets) are encrypted at rest
 // ============================================================
 
 export const DATABASE_TYPES = [
@@ -218,6 +234,12 @@ export const DATABASE_TYPES = [
 
 export type DatabaseType = typeof DATABASE_TYPES[number];
 
+// TLS modes modelled on libpq's sslmode: require encrypts without checking the certificate,
+// verify-ca checks it against the CA, verify-full also checks the hostname
+export const SSL_MODES = ['disable', 'require', 'verify-ca', 'verify-full'] as const;
+
+export type SslMode = typeof SSL_MODES[number];
+
 export const organizationDatabaseConnections = pgTable("organization_database_connections", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
@@ -228,11 +250,19 @@ export const organizationDatabaseConnections = pgTable("organization_database_co
   database: text("database"),
   username: text("username"),
   password: text("password"), // encrypted at rest
-  ssl: boolean("ssl").notNull().default(false),
+  ssl: boolean("ssl").notNull().default(false), // kept in step with sslMode (true unless disable)
+  sslMode: text("ssl_mode").notNull().default('disable'),
+  sslCaCert: text("ssl_ca_cert"), // encrypted at rest
+  sslClientCert: text("ssl_client_cert"), // encrypted at rest
+  sslClientKey: text("ssl_client_key"), // encrypted at rest
   awsAccessKeyId: text("aws_access_key_id"),
   awsSecretAccessKey: text("aws_secret_access_key"), // encrypted at rest
   awsRegion: text("aws_region"),
   s3OutputLocation: text("s3_output_location"),
+  awsAuthMode: text("aws_auth_mode").notNull().default('access_keys'),
+  awsRoleArn: text("aws_role_arn"),
+  athenaWorkGroup: text("athena_work_group"),
+  athenaCatalog: text("athena_catalog"),
   projectId: text("project_id"),
   credentialsJson: text("credentials_json"), // encrypted at rest
   dataset: text("dataset"),
@@ -240,8 +270,21 @@ export const organizationDatabaseConnections = pgTable("organization_database_co
   warehouse: text("warehouse"),
   schema: text("schema"),
   role: text("role"),
+  poolMaxConnections: integer("pool_max_connections").notNull().default(5), // pooled drivers only
+  readOnly: boolean("read_only").notNull().default(false), // reject writes unless the role has write_queries
+  resultCacheTtlSeconds: integer("result_cache_ttl_seconds"), // dashboard result cache; null = default, 0 = off
+  // SSH bastion the drivers tunnel through (TCP-based types only)
+  sshEnabled: boolean("ssh_enabled").notNull().default(false),
+  sshHost: text("ssh_host"),
+  sshPort: integer("ssh_port"),
+  sshUsername: text("ssh_username"),
+  sshPassword: text("ssh_password"), // encrypted at rest
+  sshPrivateKey: text("ssh_private_key"), // encrypted at rest
+  sshPassphrase: text("ssh_passphrase"), // encrypted at rest
   isDefault: boolean("is_default").notNull().default(false),
+  // Kept current by the background health checker (see CONNECTION_HEALTH_STATUSES)
   status: text("status").notNull().default('active'),
+  lastHealthCheckAt: timestamp("last_health_check_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -257,11 +300,52 @@ export const insertOrganizationDatabaseConnectionSchema = createInsertSchema(org
 export type InsertOrganizationDatabaseConnection = z.infer<typeof insertOrganizationDatabaseConnectionSchema>;
 export type OrganizationDatabaseConnection = typeof organizationDatabaseConnections.$inferSelect;
 
+// active: recent checks pass; degraded: slow or failing; down: failing repeatedly
+export const CONNECTION_HEALTH_STATUSES = ['active', 'degraded', 'down'] as const;
+
+export type ConnectionHealthStatus = typeof CONNECTION_HEALTH_STATUSES[number];
+
+// One background (or manual) test of a database connection
+export const connectionHealthChecks = pgTable("connection_health_checks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  connectionId: varchar("connection_id").notNull().references(() => organizationDatabaseConnections.id, { onDelete: 'cascade' }),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  success: boolean("success").notNull(),
+  latencyMs: integer("latency_ms").notNull(),
+  errorMessage: text("error_message"),
+  stage: text("stage"), // 'tunnel' | 'database' when the test failed
+  checkedAt: timestamp("checked_at").defaultNow().notNull(),
+}, (table) => ({
+  idxHealthChecksConnection: index("idx_connection_health_checks_connection").on(table.connectionId, table.checkedAt),
+  idxHealthChecksOrg: index("idx_connection_health_checks_org").on(table.organizationId, table.checkedAt),
+}));
+
+export const insertConnectionHealthCheckSchema = createInsertSchema(connectionHealthChecks).omit({
+  id: true,
+  checkedAt: true,
+});
+
+export type InsertConnectionHealthCheck = z.infer<typeof insertConnectionHealthCheckSchema>;
+export type ConnectionHealthCheck = typeof connectionHealthChecks.$inferSelect;
+
 // ============================================================
 // ORGANIZATION AI CONFIGURATIONS
 // API keys are encrypted at rest
 // ============================================================
 
+export const AI_REDACTION_ACTIONS = ['mask', 'hash', 'remove'] as const;
+export type AiRedactionAction = typeof AI_REDACTION_ACTIONS[number];
+
+// A rule applied to data before it is sent to an AI provider. It matches columns by name,
+// values by regex, or both (see server/ai-redaction.ts).
+export interface AiRedactionRule {
+  // Case-insensitive regex on the column name; empty matches every column
+  columnPattern?: string | null;
+  // Regex on the value; matching parts are replaced. Empty replaces the whole value.
+  valuePattern?: string | null;
+  action: AiRedactionAction;
+}
+
 export const organizationAiConfigs = pgTable("organization_ai_configs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
@@ -272,6 +356,11 @@ export const organizationAiConfigs = pgTable("organization_ai_configs", {
   geminiApiKey: text("gemini_api_key"), // encrypted at rest
   ollamaEndpoint: text("ollama_endpoint"),
   customPrompt: text("custom_prompt"),
+  // null applies the built-in default rules; an empty list sends data unredacted
+  redactionRules: jsonb("redaction_rules").$type<AiRedactionRule[]>(),
+  // Caps per calendar month set by the organization's admins; null is no cap
+  monthlyTokenLimit: integer("monthly_token_limit"),
+  monthlyCostLimitUsd: doublePrecision("monthly_cost_limit_usd"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -287,6 +376,42 @@ export const insertOrganizationAiConfigSchema = createInsertSchema(organizationA
 export type InsertOrganizationAiConfig = z.infer<typeof insertOrganizationAiConfigSchema>;
 export type OrganizationAiConfig = typeof organizationAiConfigs.$inferSelect;
 
+// ============================================================
+// AI USAGE LOGS
+// One row per call to an AI provider, for metering and caps
+// ============================================================
+
+export const AI_USAGE_FEATURES = ['analysis', 'follow_up', 'sql_assist', 'connection_test'] as const;
+export type AiUsageFeature = typeof AI_USAGE_FEATURES[number];
+
+export const aiUsageLogs = pgTable("ai_usage_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: 'set null' }),
+  feature: text("feature").notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  // As reported by the provider, or estimated when it reports none
+  inputTokens: integer("input_tokens").notNull(),
+  outputTokens: integer("output_tokens").notNull(),
+  tokensEstimated: boolean("tokens_estimated").notNull().default(false),
+  latencyMs: integer("latency_ms").notNull(),
+  estimatedCostUsd: doublePrecision("estimated_cost_usd").notNull(),
+  status: text("status").notNull(), // 'success' | 'error' | 'cancelled'
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  idxAiUsageLogsOrg: index("idx_ai_usage_logs_org").on(table.organizationId, table.createdAt),
+}));
+
+export const insertAiUsageLogSchema = createInsertSchema(aiUsageLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAiUsageLog = z.infer<typeof insertAiUsageLogSchema>;
+export type AiUsageLog = typeof aiUsageLogs.$inferSelect;
+
 // ============================================================
 // QUERY LOGS (Updated with organization scope + connectionId)
 // ============================================================
@@ -301,6 +426,11 @@ export const queryLogs = pgTable("query_logs", {
   executionTime: integer("execution_time").notNull(),
   status: text("status").notNull(),
   connectionId: varchar("connection_id").references(() => organizationDatabaseConnections.id, { onDelete: 'set null' }),
+  // Athena QueryExecution.Statistics; null for other engines
+  dataScannedBytes: bigint("data_scanned_bytes", { mode: "number" }),
+  engineExecutionTimeMs: integer("engine_execution_time_ms"),
+  queueTimeMs: integer("queue_time_ms"),
+  estimatedCostUsd: doublePrecision("estimated_cost_usd"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   idxQueryLogsOrg: index("idx_query_logs_org").on(table.organizationId),
@@ -409,6 +539,14 @@ export type SftpConfig = typeof sftpConfigs.$inferSelect;
 // SAVED QUERIES (Updated with organization scope + connectionId)
 // ============================================================
 
+// One input of a federated query: its result is loaded as a table named `alias`.
+// connectionId null means the organization's Athena configuration.
+export interface FederatedQuerySource {
+  alias: string;
+  connectionId: string | null;
+  query: string;
+}
+
 export const savedQueries = pgTable("saved_queries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: 'cascade' }),
@@ -416,6 +554,8 @@ export const savedQueries = pgTable("saved_queries", {
   name: text("name").notNull(),
   query: text("query").notNull(),
   connectionId: varchar("connection_id").references(() => organizationDatabaseConnections.id, { onDelete: 'set null' }),
+  // Set for federated queries; `query` is then the final SQL run over these sources
+  federatedSources: jsonb("federated_sources").$type<FederatedQuerySource[]>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   idxSavedQueriesOrg: index("idx_saved_queries_org").on(table.organizationId),
@@ -446,6 +586,7 @@ export const dashboardCharts = pgTable("dashboard_charts", {
   xAxisColumn: text("x_axis_column").notNull(),
   yAxisColumns: text("y_axis_columns").array().notNull().default(sql`ARRAY[]::text[]`),
   connectionId: varchar("connection_id").references(() => organizationDatabaseConnections.id, { onDelete: 'set null' }),
+  cacheTtlSeconds: integer("cache_ttl_seconds"), // overrides the connection's result cache TTL when set
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -502,6 +643,7 @@ export const RBAC_FEATURES = [
   'sftp_monitor',
   'msisdn_lookup',
   'export_data',
+  'write_queries',
 ] as const;
 
 export type RbacFeature = typeof RBAC_FEATURES[number];
@@ -510,10 +652,10 @@ export const ORG_ROLES = ['owner', 'admin', 'member', 'viewer'] as const;
 export type OrgRole = typeof ORG_ROLES[number];
 
 export const DEFAULT_PERMISSIONS: Record<OrgRole, Record<RbacFeature, boolean>> = {
-  owner:  { execute_queries: true,  explorer: true,  depiction: true,  file_compare: true,  file_aggregate: true,  sftp_monitor: true,  msisdn_lookup: true,  export_data: true  },
-  admin:  { execute_queries: true,  explorer: true,  depiction: true,  file_compare: true,  file_aggregate: true,  sftp_monitor: true,  msisdn_lookup: true,  export_data: true  },
-  member: { execute_queries: true,  explorer: true,  depiction: true,  file_compare: true,  file_aggregate: true,  sftp_monitor: true,  msisdn_lookup: false, export_data: true  },
-  viewer: { execute_queries: false, explorer: false, depiction: false, file_compare: false, file_aggregate: false, sftp_monitor: true,  msisdn_lookup: false, export_data: false },
+  owner:  { execute_queries: true,  explorer: true,  depiction: true,  file_compare: true,  file_aggregate: true,  sftp_monitor: true,  msisdn_lookup: true,  export_data: true,  write_queries: true  },
+  admin:  { execute_queries: true,  explorer: true,  depiction: true,  file_compare: true,  file_aggregate: true,  sftp_monitor: true,  msisdn_lookup: true,  export_data: true,  write_queries: true  },
+  member: { execute_queries: true,  explorer: true,  depiction: true,  file_compare: true,  file_aggregate: true,  sftp_monitor: true,  msisdn_lookup: false, export_data: true,  write_queries: false },
+  viewer: { execute_queries: false, explorer: false, depiction: false, file_compare: false, file_aggregate: false, sftp_monitor: true,  msisdn_lookup: false, export_data: false, write_queries: false },
 };
 
 export const organizationRolePermissions = pgTable("organization_role_permissions", {
@@ -556,6 +698,9 @@ export const apiKeys = pgTable("api_keys", {
   lastUsedAt: timestamp("last_used_at"),
   expiresAt: timestamp("expires_at"),
   revoked: boolean("revoked").notNull().default(false),
+  // Per-key limits: requests per minute (any v1 call) and queries per UTC day (execute + lookup)
+  requestsPerMinute: integer("requests_per_minute").notNull().default(60),
+  queriesPerDay: integer("queries_per_day").notNull().default(1000),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   idxApiKeysOrg: index("idx_api_keys_org").on(table.organizationId),
@@ -571,3 +716,133 @@ export const insertApiKeySchema = createInsertSchema(apiKeys).omit({
 
 export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
 export type ApiKey = typeof apiKeys.$inferSelect;
+
+// Queries run per API key per UTC day, for the queriesPerDay limit
+export const apiKeyDailyUsage = pgTable("api_key_daily_usage", {
+  apiKeyId: varchar("api_key_id").notNull().references(() => apiKeys.id, { onDelete: 'cascade' }),
+  usageDate: date("usage_date").notNull(),
+  queryCount: integer("query_count").notNull().default(0),
+}, (table) => ({
+  uniqueKeyDate: uniqueIndex("unique_api_key_usage_date").on(table.apiKeyId, table.usageDate),
+}));
+
+export type ApiKeyDailyUsage = typeof apiKeyDailyUsage.$inferSelect;
+
+// ============================================================
+// EXPLORER DATA SOURCES
+// Tables searched by the Explorer lookup, one row per source.
+// connectionId NULL = the org's Athena config + athena_database setting
+// ============================================================
+
+export const explorerDataSources = pgTable("explorer_data_sources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  key: text("key").notNull(),
+  label: text("label").notNull(),
+  description: text("description"),
+  tableName: text("table_name").notNull(),
+  lookupColumn: text("lookup_column").notNull(),
+  connectionId: varchar("connection_id").references(() => organizationDatabaseConnections.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueOrgKey: uniqueIndex("unique_explorer_source_key").on(table.organizationId, table.key),
+  idxExplorerSourcesOrg: index("idx_explorer_sources_org").on(table.organizationId),
+}));
+
+export const insertExplorerDataSourceSchema = createInsertSchema(explorerDataSources).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertExplorerDataSource = z.infer<typeof insertExplorerDataSourceSchema>;
+export type ExplorerDataSource = typeof explorerDataSources.$inferSelect;
+
+// ============================================================
+// QUERY SCHEDULES
+// Cron schedules that run a saved query as its owner and deliver
+// the result file by email, SFTP upload or webhook POST.
+// Cron expressions are evaluated in UTC.
+// ============================================================
+
+export const SCHEDULE_OUTPUT_FORMATS = ['csv', 'xlsx'] as const;
+export type ScheduleOutputFormat = typeof SCHEDULE_OUTPUT_FORMATS[number];
+
+export const SCHEDULE_DELIVERY_TYPES = ['email', 'sftp', 'webhook'] as const;
+export type ScheduleDeliveryType = typeof SCHEDULE_DELIVERY_TYPES[number];
+
+export const querySchedules = pgTable("query_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  savedQueryId: varchar("saved_query_id").notNull().references(() => savedQueries.id, { onDelete: 'cascade' }),
+  connectionId: varchar("connection_id").references(() => organizationDatabaseConnections.id, { onDelete: 'set null' }),
+  cronExpression: text("cron_expression").notNull(),
+  outputFormat: text("output_format").notNull().default('csv'),
+  deliveryType: text("delivery_type").notNull(),
+  emailRecipients: text("email_recipients").array().notNull().default(sql`ARRAY[]::text[]`),
+  sftpConfigId: varchar("sftp_config_id").references(() => sftpConfigs.id, { onDelete: 'set null' }),
+  sftpRemotePath: text("sftp_remote_path"),
+  webhookUrl: text("webhook_url"),
+  enabled: boolean("enabled").notNull().default(true),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastRunStatus: text("last_run_status"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  idxQuerySchedulesOrg: index("idx_query_schedules_org").on(table.organizationId),
+  idxQuerySchedulesUser: index("idx_query_schedules_user").on(table.userId),
+  idxQuerySchedulesNextRun: index("idx_query_schedules_next_run").on(table.nextRunAt),
+}));
+
+export const insertQueryScheduleSchema = createInsertSchema(querySchedules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertQuerySchedule = z.infer<typeof insertQueryScheduleSchema>;
+export type QuerySchedule = typeof querySchedules.$inferSelect;
+
+export const queryScheduleRuns = pgTable("query_schedule_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scheduleId: varchar("schedule_id").notNull().references(() => querySchedules.id, { onDelete: 'cascade' }),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  trigger: text("trigger").notNull().default('schedule'), // 'schedule' | 'manual'
+  status: text("status").notNull().default('running'), // 'running' | 'success' | 'failed'
+  rowsReturned: integer("rows_returned"),
+  fileName: text("file_name"),
+  errorMessage: text("error_message"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  idxScheduleRunsSchedule: index("idx_query_schedule_runs_schedule").on(table.scheduleId),
+}));
+
+export const insertQueryScheduleRunSchema = createInsertSchema(queryScheduleRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
+export type InsertQueryScheduleRun = z.infer<typeof insertQueryScheduleRunSchema>;
+export type QueryScheduleRun = typeof queryScheduleRuns.$inferSelect;
+
+// ============================================================
+// SESSIONS
+// express-session store (connect-pg-simple). Declared here so
+// db:push keeps the table; rows are written by the store only.
+// ============================================================
+
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => ({
+  idxSessionExpire: index("IDX_session_expire").on(table.expire),
+  // Active-session listing and force logout look sessions up by user
+  idxSessionUser: index("IDX_session_user").on(sql`(${table.sess}->>'userId')`),
+}));
+
+export type UserSession = typeof sessions.$inferSelect;
@@ -41,6 +41,7 @@ CREATE TABLE IF NOT EXISTS subscription_plans (
     max_rows_display INTEGER NOT NULL DEFAULT 1000,
     max_rows_export INTEGER NOT NULL DEFAULT 10000,
     features TEXT[] NOT NULL DEFAULT ARRAY['query', 'explorer', 'export']::text[],
+    max_ai_tokens_per_month INTEGER,  -- with the 'ai' feature; NULL is unlimited
     is_active BOOLEAN NOT NULL DEFAULT true,
     sort_order INTEGER NOT NULL DEFAULT 0,
     created_at TIMESTAMP NOT NULL DEFAULT NOW()
@@ -137,6 +138,10 @@ CREATE TABLE IF NOT EXISTS organization_aws_configs (
     aws_secret_access_key TEXT, -- encrypted at rest
     aws_region TEXT NOT NULL DEFAULT 'us-east-1',
     s3_output_location TEXT,
+    aws_auth_mode TEXT NOT NULL DEFAULT 'access_keys',   -- access_keys | assume_role | default_chain
+    aws_role_arn TEXT,
+    athena_work_group TEXT,
+    athena_catalog TEXT,
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
@@ -158,10 +163,18 @@ CREATE TABLE IF NOT EXISTS organization_database_connections (
     username TEXT,
     password TEXT,              -- encrypted at rest
     ssl BOOLEAN NOT NULL DEFAULT false,
+    ssl_mode TEXT NOT NULL DEFAULT 'disable',        -- disable | require | verify-ca | verify-full
+    ssl_ca_cert TEXT,           -- encrypted at rest
+    ssl_client_cert TEXT,       -- encrypted at rest
+    ssl_client_key TEXT,        -- encrypted at rest
     aws_access_key_id TEXT,
     aws_secret_access_key TEXT, -- encrypted at rest
     aws_region TEXT,
     s3_output_location TEXT,
+    aws_auth_mode TEXT NOT NULL DEFAULT 'access_keys',   -- access_keys | assume_role | default_chain
+    aws_role_arn TEXT,
+    athena_work_group TEXT,
+    athena_catalog TEXT,
     project_id TEXT,
     credentials_json TEXT,      -- encrypted at rest (BigQuery service account JSON)
     dataset TEXT,
@@ -169,8 +182,19 @@ CREATE TABLE IF NOT EXISTS organization_database_connections (
     warehouse TEXT,
     schema TEXT,
     role TEXT,
+    pool_max_connections INTEGER NOT NULL DEFAULT 5, -- max pooled connections per server instance
+    read_only BOOLEAN NOT NULL DEFAULT false,        -- writes need the write_queries permission
+    result_cache_ttl_seconds INTEGER,                -- dashboard result cache; NULL = default, 0 = off
+    ssh_enabled BOOLEAN NOT NULL DEFAULT false,      -- connect through an SSH bastion
+    ssh_host TEXT,
+    ssh_port INTEGER,
+    ssh_username TEXT,
+    ssh_password TEXT,          -- encrypted at rest
+    ssh_private_key TEXT,       -- encrypted at rest
+    ssh_passphrase TEXT,        -- encrypted at rest
     is_default BOOLEAN NOT NULL DEFAULT false,
-    status TEXT NOT NULL DEFAULT 'active',
+    status TEXT NOT NULL DEFAULT 'active',  -- active | degraded | down (health checker)
+    last_health_check_at TIMESTAMP,
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
@@ -191,12 +215,35 @@ CREATE TABLE IF NOT EXISTS organization_ai_configs (
     gemini_api_key TEXT,    -- encrypted at rest
     ollama_endpoint TEXT,
     custom_prompt TEXT,
+    redaction_rules JSONB,  -- NULL uses the built-in defaults
+    monthly_token_limit INTEGER,            -- NULL is no cap
+    monthly_cost_limit_usd DOUBLE PRECISION, -- NULL is no cap
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
 CREATE UNIQUE INDEX IF NOT EXISTS organization_ai_configs_organization_id_key ON organization_ai_configs(organization_id);
 
+-- One row per AI provider call, for metering and monthly caps
+CREATE TABLE IF NOT EXISTS ai_usage_logs (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+    feature TEXT NOT NULL,              -- analysis | follow_up | sql_assist | connection_test
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL,
+    output_tokens INTEGER NOT NULL,
+    tokens_estimated BOOLEAN NOT NULL DEFAULT FALSE,
+    latency_ms INTEGER NOT NULL,
+    estimated_cost_usd DOUBLE PRECISION NOT NULL,
+    status TEXT NOT NULL,               -- success | error | cancelled
+    error_message TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_org ON ai_usage_logs (organization_id, created_at);
+
 -- ============================================================
 -- 10. QUERY LOGS
 -- connection_id tracks which DB connection was used
@@ -211,6 +258,10 @@ CREATE TABLE IF NOT EXISTS query_logs (
     execution_time INTEGER NOT NULL,
     status TEXT NOT NULL,
     connection_id VARCHAR REFERENCES organization_database_connections(id) ON DELETE SET NULL,
+    data_scanned_bytes BIGINT,          -- Athena statistics; NULL for other engines
+    engine_execution_time_ms INTEGER,
+    queue_time_ms INTEGER,
+    estimated_cost_usd DOUBLE PRECISION,
     created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
@@ -289,6 +340,7 @@ CREATE TABLE IF NOT EXISTS saved_queries (
     name TEXT NOT NULL,
     query TEXT NOT NULL,
     connection_id VARCHAR REFERENCES organization_database_connections(id) ON DELETE SET NULL,
+    federated_sources JSONB,
     created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
@@ -310,6 +362,7 @@ CREATE TABLE IF NOT EXISTS dashboard_charts (
     x_axis_column TEXT NOT NULL,
     y_axis_columns TEXT[] NOT NULL DEFAULT ARRAY[]::text[],
     connection_id VARCHAR REFERENCES organization_database_connections(id) ON DELETE SET NULL,
+    cache_ttl_seconds INTEGER,          -- overrides the connection's result cache TTL
     created_at TIMESTAMP NOT NULL DEFAULT NOW(),
     updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
@@ -345,15 +398,16 @@ CREATE TABLE IF NOT EXISTS "session" (
 
 ALTER TABLE "session" ADD CONSTRAINT "session_pkey" PRIMARY KEY ("sid") NOT DEFERRABLE INITIALLY IMMEDIATE;
 CREATE INDEX IF NOT EXISTS "IDX_session_expire" ON "session" ("expire");
+CREATE INDEX IF NOT EXISTS "IDX_session_user" ON "session" ((sess->>'userId'));
 
 -- ============================================================
 -- DEFAULT SUBSCRIPTION PLANS
 -- ============================================================
-INSERT INTO subscription_plans (name, slug, description, price_monthly, price_yearly, max_users, max_queries_per_month, max_rows_display, max_rows_export, features, sort_order) VALUES
-('Free',         'free',         'Basic access for individuals',              0,    0,      1,   10,      100,    500,    ARRAY['query', 'explorer']::text[], 0),
-('Starter',      'starter',      'For small teams getting started',           2900, 29000,  5,   100,     1000,   5000,   ARRAY['query', 'explorer', 'export', 'saved_queries']::text[], 1),
-('Professional', 'professional', 'For growing teams with advanced needs',     9900, 99000,  25,  1000,    10000,  50000,  ARRAY['query', 'explorer', 'export', 'saved_queries', 'sftp_monitor', 'file_compare']::text[], 2),
-('Enterprise',   'enterprise',   'Custom solutions for large organizations',  0,    0,      999, 999999,  100000, 500000, ARRAY['query', 'explorer', 'export', 'saved_queries', 'sftp_monitor', 'file_compare', 'msisdn_lookup', 'custom_aws', 'custom_ai']::text[], 3)
+INSERT INTO subscription_plans (name, slug, description, price_monthly, price_yearly, max_users, max_queries_per_month, max_rows_display, max_rows_export, features, max_ai_tokens_per_month, sort_order) VALUES
+('Free',         'free',         'Basic access for individuals',              0,    0,      1,   10,      100,    500,    ARRAY['query', 'explorer']::text[], NULL, 0),
+('Starter',      'starter',      'For small teams getting started',           2900, 29000,  5,   100,     1000,   5000,   ARRAY['query', 'explorer', 'export', 'saved_queries']::text[], NULL, 1),
+('Professional', 'professional', 'For growing teams with advanced needs',     9900, 99000,  25,  1000,    10000,  50000,  ARRAY['query', 'explorer', 'export', 'saved_queries', 'sftp_monitor', 'file_compare', 'ai']::text[], 2000000, 2),
+('Enterprise',   'enterprise',   'Custom solutions for large organizations',  0,    0,      999, 999999,  100000, 500000, ARRAY['query', 'explorer', 'export', 'saved_queries', 'sftp_monitor', 'file_compare', 'msisdn_lookup', 'custom_aws', 'custom_ai', 'ai']::text[], NULL, 3)
 ON CONFLICT (slug) DO NOTHING;
 
 -- ============================================================
@@ -415,6 +469,8 @@ CREATE TABLE IF NOT EXISTS api_keys (
   last_used_at TIMESTAMP,
   expires_at TIMESTAMP,
   revoked BOOLEAN NOT NULL DEFAULT FALSE,
+  requests_per_minute INTEGER NOT NULL DEFAULT 60,
+  queries_per_day INTEGER NOT NULL DEFAULT 1000,
   created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
@@ -422,6 +478,107 @@ CREATE INDEX IF NOT EXISTS idx_api_keys_org ON api_keys(organization_id);
 CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id);
 CREATE INDEX IF NOT EXISTS idx_api_keys_hash ON api_keys(key_hash);
 
+-- Queries per key per UTC day (queries_per_day limit)
+CREATE TABLE IF NOT EXISTS api_key_daily_usage (
+  api_key_id VARCHAR NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  usage_date DATE NOT NULL,
+  query_count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_api_key_usage_date
+  ON api_key_daily_usage (api_key_id, usage_date);
+
+-- ============================================================
+-- EXPLORER DATA SOURCES
+-- Tables searched by the Explorer lookup, one row per source.
+-- connection_id NULL = org Athena config + athena_database setting
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS explorer_data_sources (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  description TEXT,
+  table_name TEXT NOT NULL,
+  lookup_column TEXT NOT NULL,
+  connection_id VARCHAR REFERENCES organization_database_connections(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_explorer_source_key
+  ON explorer_data_sources (organization_id, key);
+
+CREATE INDEX IF NOT EXISTS idx_explorer_sources_org
+  ON explorer_data_sources (organization_id);
+
+-- ============================================================
+-- QUERY SCHEDULES
+-- Cron schedules (UTC) for saved queries, delivered by email,
+-- SFTP upload or webhook; one run row per execution
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS query_schedules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  saved_query_id VARCHAR NOT NULL REFERENCES saved_queries(id) ON DELETE CASCADE,
+  connection_id VARCHAR REFERENCES organization_database_connections(id) ON DELETE SET NULL,
+  cron_expression TEXT NOT NULL,
+  output_format TEXT NOT NULL DEFAULT 'csv',
+  delivery_type TEXT NOT NULL,
+  email_recipients TEXT[] NOT NULL DEFAULT ARRAY[]::text[],
+  sftp_config_id VARCHAR REFERENCES sftp_configs(id) ON DELETE SET NULL,
+  sftp_remote_path TEXT,
+  webhook_url TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMP,
+  last_run_at TIMESTAMP,
+  last_run_status TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_schedules_org ON query_schedules (organization_id);
+CREATE INDEX IF NOT EXISTS idx_query_schedules_user ON query_schedules (user_id);
+CREATE INDEX IF NOT EXISTS idx_query_schedules_next_run ON query_schedules (next_run_at);
+
+CREATE TABLE IF NOT EXISTS query_schedule_runs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id VARCHAR NOT NULL REFERENCES query_schedules(id) ON DELETE CASCADE,
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL DEFAULT 'schedule',
+  status TEXT NOT NULL DEFAULT 'running',
+  rows_returned INTEGER,
+  file_name TEXT,
+  error_message TEXT,
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_schedule_runs_schedule ON query_schedule_runs (schedule_id);
+
+-- ============================================================
+-- CONNECTION HEALTH CHECKS
+-- Background connection tests (latency and errors), kept for
+-- 7 days; drive organization_database_connections.status
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS connection_health_checks (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    connection_id VARCHAR NOT NULL REFERENCES organization_database_connections(id) ON DELETE CASCADE,
+    organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    success BOOLEAN NOT NULL,
+    latency_ms INTEGER NOT NULL,
+    error_message TEXT,
+    stage TEXT,
+    checked_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_connection_health_checks_connection ON connection_health_checks (connection_id, checked_at);
+CREATE INDEX IF NOT EXISTS idx_connection_health_checks_org ON connection_health_checks (organization_id, checked_at);
+
 -- ============================================================
 -- DONE!
 -- After running this script:
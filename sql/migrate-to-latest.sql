@@ -424,16 +424,309 @@ CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys (user_id);
 CREATE INDEX IF NOT EXISTS idx_api_keys_hash ON api_keys (key_hash);
 
 -- ============================================================
--- 16. DEFAULT DATA — subscription plans + default org
+-- 16. EXPLORER DATA SOURCES (October 2026)
+--     Moves explorer_table_/column_/label_/desc_<key> settings into a table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS explorer_data_sources (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  description TEXT,
+  table_name TEXT NOT NULL,
+  lookup_column TEXT NOT NULL,
+  connection_id VARCHAR REFERENCES organization_database_connections(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_explorer_source_key ON explorer_data_sources (organization_id, key);
+CREATE INDEX IF NOT EXISTS idx_explorer_sources_org ON explorer_data_sources (organization_id);
+
+-- Copy settings-based sources (connection_id NULL keeps them on the org Athena config)
+INSERT INTO explorer_data_sources (organization_id, key, label, description, table_name, lookup_column)
+SELECT t.organization_id,
+       substring(t.key FROM 16),
+       COALESCE(NULLIF(l.value, ''), upper(substring(t.key FROM 16))),
+       NULLIF(d.value, ''),
+       t.value,
+       COALESCE(NULLIF(c.value, ''), lc.value)
+FROM settings t
+LEFT JOIN settings c  ON c.organization_id  = t.organization_id AND c.key  = 'explorer_column_'        || substring(t.key FROM 16)
+LEFT JOIN settings lc ON lc.organization_id = t.organization_id AND lc.key = 'explorer_lookup_column_' || substring(t.key FROM 16)
+LEFT JOIN settings l  ON l.organization_id  = t.organization_id AND l.key  = 'explorer_label_'         || substring(t.key FROM 16)
+LEFT JOIN settings d  ON d.organization_id  = t.organization_id AND d.key  = 'explorer_desc_'          || substring(t.key FROM 16)
+WHERE t.key LIKE 'explorer\_table\_%'
+  AND t.organization_id IS NOT NULL
+  AND t.value <> ''
+  AND COALESCE(NULLIF(c.value, ''), lc.value) IS NOT NULL
+ON CONFLICT (organization_id, key) DO NOTHING;
+
+-- Remove only the settings of sources that now have a row; skipped ones (no organization,
+-- empty table or no lookup column) stay in settings so they can be re-created by hand
+DELETE FROM settings s
+USING explorer_data_sources e
+WHERE s.organization_id = e.organization_id
+  AND s.key IN ('explorer_table_' || e.key,
+                'explorer_column_' || e.key,
+                'explorer_lookup_column_' || e.key,
+                'explorer_label_' || e.key,
+                'explorer_desc_' || e.key);
+
+-- ============================================================
+-- 17. QUERY SCHEDULES (October 2026)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS query_schedules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  saved_query_id VARCHAR NOT NULL REFERENCES saved_queries(id) ON DELETE CASCADE,
+  connection_id VARCHAR REFERENCES organization_database_connections(id) ON DELETE SET NULL,
+  cron_expression TEXT NOT NULL,
+  output_format TEXT NOT NULL DEFAULT 'csv',
+  delivery_type TEXT NOT NULL,
+  email_recipients TEXT[] NOT NULL DEFAULT ARRAY[]::text[],
+  sftp_config_id VARCHAR REFERENCES sftp_configs(id) ON DELETE SET NULL,
+  sftp_remote_path TEXT,
+  webhook_url TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMP,
+  last_run_at TIMESTAMP,
+  last_run_status TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_schedules_org ON query_schedules (organization_id);
+CREATE INDEX IF NOT EXISTS idx_query_schedules_user ON query_schedules (user_id);
+CREATE INDEX IF NOT EXISTS idx_query_schedules_next_run ON query_schedules (next_run_at);
+
+CREATE TABLE IF NOT EXISTS query_schedule_runs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id VARCHAR NOT NULL REFERENCES query_schedules(id) ON DELETE CASCADE,
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL DEFAULT 'schedule',
+  status TEXT NOT NULL DEFAULT 'running',
+  rows_returned INTEGER,
+  file_name TEXT,
+  error_message TEXT,
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_schedule_runs_schedule ON query_schedule_runs (schedule_id);
+
+-- ============================================================
+-- 18. SESSION STORE (October 2026)
+--     express-session moved from memorystore to this table
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS "session" (
+  "sid" VARCHAR NOT NULL COLLATE "default" PRIMARY KEY,
+  "sess" JSON NOT NULL,
+  "expire" TIMESTAMP(6) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_session_expire" ON "session" ("expire");
+CREATE INDEX IF NOT EXISTS "IDX_session_user" ON "session" ((sess->>'userId'));
+
+-- ============================================================
+-- 19. API KEY RATE LIMITS (October 2026)
+-- ============================================================
+
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS requests_per_minute INTEGER NOT NULL DEFAULT 60;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS queries_per_day INTEGER NOT NULL DEFAULT 1000;
+
+CREATE TABLE IF NOT EXISTS api_key_daily_usage (
+  api_key_id VARCHAR NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  usage_date DATE NOT NULL,
+  query_count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_api_key_usage_date ON api_key_daily_usage (api_key_id, usage_date);
+
+-- ============================================================
+-- 20. DATABASE CONNECTION POOLS (October 2026)
+-- ============================================================
+
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS pool_max_connections INTEGER NOT NULL DEFAULT 5;
+
+-- ============================================================
+-- 21. READ-ONLY CONNECTIONS (October 2026)
+--     write_queries permission rows are not seeded; roles without
+--     a stored row use the defaults (owner/admin allowed)
+-- ============================================================
+
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS read_only BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================================
+-- 22. SSH BASTION TUNNELS (October 2026)
+--     ssh_password / ssh_private_key / ssh_passphrase are
+--     encrypted by the application
+-- ============================================================
+
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS ssh_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS ssh_host TEXT;
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS ssh_port INTEGER;
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS ssh_username TEXT;
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS ssh_password TEXT;
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS ssh_private_key TEXT;
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS ssh_passphrase TEXT;
+
+-- ============================================================
+-- 23. TLS MODES (October 2026)
+--     ssl_mode replaces the ssl on/off flag; existing connections
+--     with ssl on keep their behaviour as 'require'. Certificates
+--     and keys are encrypted by the application
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'organization_database_connections' AND column_name = 'ssl_mode'
+  ) THEN
+    ALTER TABLE organization_database_connections ADD COLUMN ssl_mode TEXT NOT NULL DEFAULT 'disable';
+    UPDATE organization_database_connections SET ssl_mode = 'require' WHERE ssl = TRUE;
+  END IF;
+END $$;
+
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS ssl_ca_cert TEXT;
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS ssl_client_cert TEXT;
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS ssl_client_key TEXT;
+
+-- ============================================================
+-- 24. ATHENA AUTHENTICATION AND WORKGROUPS (October 2026)
+--     aws_auth_mode: access_keys | assume_role | default_chain;
+--     existing rows keep using their access keys
+-- ============================================================
+
+ALTER TABLE organization_aws_configs ADD COLUMN IF NOT EXISTS aws_auth_mode TEXT NOT NULL DEFAULT 'access_keys';
+ALTER TABLE organization_aws_configs ADD COLUMN IF NOT EXISTS aws_role_arn TEXT;
+ALTER TABLE organization_aws_configs ADD COLUMN IF NOT EXISTS athena_work_group TEXT;
+ALTER TABLE organization_aws_configs ADD COLUMN IF NOT EXISTS athena_catalog TEXT;
+
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS aws_auth_mode TEXT NOT NULL DEFAULT 'access_keys';
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS aws_role_arn TEXT;
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS athena_work_group TEXT;
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS athena_catalog TEXT;
+
+-- ============================================================
+-- 25. ATHENA QUERY STATISTICS (October 2026)
+--     Data scanned, timings and estimated cost per query log;
+--     NULL for non-Athena engines and older rows
+-- ============================================================
+
+ALTER TABLE query_logs ADD COLUMN IF NOT EXISTS data_scanned_bytes BIGINT;
+ALTER TABLE query_logs ADD COLUMN IF NOT EXISTS engine_execution_time_ms INTEGER;
+ALTER TABLE query_logs ADD COLUMN IF NOT EXISTS queue_time_ms INTEGER;
+ALTER TABLE query_logs ADD COLUMN IF NOT EXISTS estimated_cost_usd DOUBLE PRECISION;
+
+-- ============================================================
+-- 26. DASHBOARD RESULT CACHE (October 2026)
+--     TTLs in seconds; NULL falls back to the connection, then
+--     the server default. 0 disables caching
+-- ============================================================
+
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS result_cache_ttl_seconds INTEGER;
+ALTER TABLE dashboard_charts ADD COLUMN IF NOT EXISTS cache_ttl_seconds INTEGER;
+
+-- ============================================================
+-- 27. FEDERATED SAVED QUERIES (October 2026)
+--     [{alias, connectionId, query}, ...] for queries that join
+--     results from several connections; NULL for plain queries
+-- ============================================================
+
+ALTER TABLE saved_queries ADD COLUMN IF NOT EXISTS federated_sources JSONB;
+
+-- ============================================================
+-- 28. CONNECTION HEALTH MONITORING (October 2026)
+--     Background connection tests; status becomes
+--     active | degraded | down from the recent history
+-- ============================================================
+
+ALTER TABLE organization_database_connections ADD COLUMN IF NOT EXISTS last_health_check_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS connection_health_checks (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id VARCHAR NOT NULL REFERENCES organization_database_connections(id) ON DELETE CASCADE,
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  success BOOLEAN NOT NULL,
+  latency_ms INTEGER NOT NULL,
+  error_message TEXT,
+  stage TEXT,
+  checked_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_connection_health_checks_connection ON connection_health_checks (connection_id, checked_at);
+CREATE INDEX IF NOT EXISTS idx_connection_health_checks_org ON connection_health_checks (organization_id, checked_at);
+
+-- ============================================================
+-- 29. AI REDACTION RULES (October 2026)
+--     Column and value rules applied to data before it is sent
+--     to AI providers; NULL uses the built-in defaults
+-- ============================================================
+
+ALTER TABLE organization_ai_configs ADD COLUMN IF NOT EXISTS redaction_rules JSONB;
+
+-- ============================================================
+-- 30. AI USAGE METERING (October 2026)
+--     One row per AI provider call; monthly token/cost caps per
+--     organization and per plan. Plans need the 'ai' feature for
+--     AI; existing plans get it so nothing changes on upgrade.
+-- ============================================================
+
+ALTER TABLE organization_ai_configs ADD COLUMN IF NOT EXISTS monthly_token_limit INTEGER;
+ALTER TABLE organization_ai_configs ADD COLUMN IF NOT EXISTS monthly_cost_limit_usd DOUBLE PRECISION;
+
+-- Plans get 'ai' once, when the column is added, so re-running this script does not
+-- give AI back to plans it was later removed from
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'subscription_plans' AND column_name = 'max_ai_tokens_per_month'
+  ) THEN
+    ALTER TABLE subscription_plans ADD COLUMN max_ai_tokens_per_month INTEGER;
+    UPDATE subscription_plans SET features = array_append(features, 'ai')
+    WHERE NOT ('ai' = ANY(features));
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS ai_usage_logs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL,
+  output_tokens INTEGER NOT NULL,
+  tokens_estimated BOOLEAN NOT NULL DEFAULT FALSE,
+  latency_ms INTEGER NOT NULL,
+  estimated_cost_usd DOUBLE PRECISION NOT NULL,
+  status TEXT NOT NULL,
+  error_message TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_org ON ai_usage_logs (organization_id, created_at);
+
+-- ============================================================
+-- 31. DEFAULT DATA — subscription plans + default org
 --     (only inserted if not already present)
 -- ============================================================
 
-INSERT INTO subscription_plans (name, slug, description, price_monthly, max_users, max_queries_per_month, max_rows_display, max_rows_export, is_active, sort_order)
+-- Features and AI token caps match fresh-database-setup.sql; section 30 runs before this
+-- on a new database, so these plans must list 'ai' themselves
+INSERT INTO subscription_plans (name, slug, description, price_monthly, max_users, max_queries_per_month, max_rows_display, max_rows_export, features, max_ai_tokens_per_month, is_active, sort_order)
 VALUES
-  ('Free',         'free',         'For individuals getting started',          0,    5,    10,    1000,  10000, TRUE, 1),
-  ('Starter',      'starter',      'For small teams',                          2900, 10,   100,   1000,  10000, TRUE, 2),
-  ('Professional', 'professional', 'For growing organisations',                9900, 50,   1000,  1000,  50000, TRUE, 3),
-  ('Enterprise',   'enterprise',   'Custom limits for large organisations',    0,    999,  99999, 10000, 100000,TRUE, 4)
+  ('Free',         'free',         'For individuals getting started',          0,    5,    10,    1000,  10000,  ARRAY['query', 'explorer']::text[], NULL, TRUE, 1),
+  ('Starter',      'starter',      'For small teams',                          2900, 10,   100,   1000,  10000,  ARRAY['query', 'explorer', 'export', 'saved_queries']::text[], NULL, TRUE, 2),
+  ('Professional', 'professional', 'For growing organisations',                9900, 50,   1000,  1000,  50000,  ARRAY['query', 'explorer', 'export', 'saved_queries', 'sftp_monitor', 'file_compare', 'ai']::text[], 2000000, TRUE, 3),
+  ('Enterprise',   'enterprise',   'Custom limits for large organisations',    0,    999,  99999, 10000, 100000, ARRAY['query', 'explorer', 'export', 'saved_queries', 'sftp_monitor', 'file_compare', 'msisdn_lookup', 'custom_aws', 'custom_ai', 'ai']::text[], NULL, TRUE, 4)
 ON CONFLICT (slug) DO NOTHING;
 
 INSERT INTO organizations (id, name, slug, status)